@@ -8,6 +8,9 @@ import VercelConnection from './VercelConnection';
 // Use React.lazy for dynamic imports
 const GitHubConnection = React.lazy(() => import('./GithubConnection'));
 const NetlifyConnection = React.lazy(() => import('./NetlifyConnection'));
+const GitRemoteConnections = React.lazy(() => import('./GitRemoteConnection'));
+const CloudflareConnection = React.lazy(() => import('./CloudflareConnection'));
+const GitHubPagesConnection = React.lazy(() => import('./GitHubPagesConnection'));
 
 // Loading fallback component
 const LoadingFallback = () => (
@@ -153,12 +156,21 @@ export default function ConnectionsTab() {
         <Suspense fallback={<LoadingFallback />}>
           <GitHubConnection />
         </Suspense>
+        <Suspense fallback={<LoadingFallback />}>
+          <GitRemoteConnections />
+        </Suspense>
         <Suspense fallback={<LoadingFallback />}>
           <NetlifyConnection />
         </Suspense>
         <Suspense fallback={<LoadingFallback />}>
           <VercelConnection />
         </Suspense>
+        <Suspense fallback={<LoadingFallback />}>
+          <CloudflareConnection />
+        </Suspense>
+        <Suspense fallback={<LoadingFallback />}>
+          <GitHubPagesConnection />
+        </Suspense>
       </div>
 
       {/* Additional help text */}
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
+import { logStore } from '~/lib/stores/logs';
+import { classNames } from '~/utils/classNames';
+import type { BaseGitRemote } from '~/lib/modules/git-remote/base-remote';
+import type { GitRemoteRepository } from '~/lib/modules/git-remote/types';
+import { gitRemotes } from '~/lib/modules/git-remote/registry';
+import {
+  connectGitRemote,
+  disconnectGitRemote,
+  gitRemoteConnections,
+  listGitRemoteRepositories,
+} from '~/lib/stores/gitRemotes';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#F8F8F8] dark:bg-[#1A1A1A]',
+  'border border-[#E5E5E5] dark:border-[#333333]',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-1 focus:ring-bolt-elements-borderColorActive',
+  'disabled:opacity-50',
+);
+
+function RepositoryList({ remote }: { remote: BaseGitRemote }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [repositories, setRepositories] = useState<GitRemoteRepository[]>([]);
+
+  const toggle = async () => {
+    setIsExpanded(!isExpanded);
+
+    if (isExpanded) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      setRepositories(await listGitRemoteRepositories(remote.name));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to list ${remote.name} repositories`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyCloneUrl = async (repository: GitRemoteRepository) => {
+    await navigator.clipboard.writeText(repository.cloneUrl);
+    toast.success('Clone URL copied, paste it into "Clone a Git Repo"');
+  };
+
+  return (
+    <div>
+      <button
+        onClick={toggle}
+        className="w-full bg-transparent flex items-center justify-between text-sm font-medium text-bolt-elements-textPrimary"
+      >
+        <span className="flex items-center gap-2">
+          <div className="i-ph:folder-simple w-4 h-4" />
+          Repositories
+        </span>
+        <div className={classNames('i-ph:caret-down w-4 h-4 transition-transform', isExpanded ? 'rotate-180' : '')} />
+      </button>
+      {isExpanded && (
+        <div className="mt-3 space-y-2 max-h-[300px] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+              <div className="i-ph:spinner-gap w-4 h-4 animate-spin" />
+              Loading repositories...
+            </div>
+          ) : repositories.length === 0 ? (
+            <p className="text-sm text-bolt-elements-textSecondary">No repositories found</p>
+          ) : (
+            repositories.map((repository) => (
+              <div
+                key={repository.id}
+                className="flex items-center gap-3 p-3 rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A]"
+              >
+                <div className="flex-1 min-w-0">
+                  <a
+                    href={repository.webUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm font-medium text-bolt-elements-textPrimary hover:underline truncate block"
+                  >
+                    {repository.fullName}
+                  </a>
+                  {repository.description && (
+                    <p className="text-xs text-bolt-elements-textSecondary truncate">{repository.description}</p>
+                  )}
+                </div>
+                {repository.isPrivate && <div className="i-ph:lock w-4 h-4 text-bolt-elements-textTertiary" />}
+                <button
+                  onClick={() => copyCloneUrl(repository)}
+                  title="Copy clone URL"
+                  className="bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+                >
+                  <div className="i-ph:copy w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RemoteConnection({ remote, delay }: { remote: BaseGitRemote; delay: number }) {
+  const connection = useStore(gitRemoteConnections)[remote.name];
+  const [baseUrl, setBaseUrl] = useState(remote.defaultBaseUrl ?? '');
+  const [token, setToken] = useState('');
+  const [connecting, setConnecting] = useState(false);
+  const tokenUrl = remote.getTokenUrl(baseUrl || undefined);
+
+  const handleConnect = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setConnecting(true);
+
+    try {
+      const user = await connectGitRemote(remote.name, baseUrl, token);
+
+      setToken('');
+      toast.success(`Connected to ${remote.name}`);
+      logStore.logInfo(`Connected to ${remote.name}`, {
+        type: 'system',
+        message: `Connected to ${remote.name} at ${baseUrl} as ${user.username}`,
+      });
+    } catch (error) {
+      console.error(`${remote.name} connection error:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to connect to ${remote.name}`);
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const handleDisconnect = () => {
+    disconnectGitRemote(remote.name);
+    toast.success(`Disconnected from ${remote.name}`);
+  };
+
+  return (
+    <motion.div
+      className="bg-[#FFFFFF] dark:bg-[#0A0A0A] rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A]"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+    >
+      <div className="p-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <div className={classNames(remote.icon, 'w-5 h-5 text-bolt-elements-textPrimary')} />
+          <h3 className="text-base font-medium text-bolt-elements-textPrimary">{remote.name} Connection</h3>
+        </div>
+
+        {!connection ? (
+          <form onSubmit={handleConnect} className="space-y-4">
+            <div>
+              <label className="block text-sm text-bolt-elements-textSecondary mb-2">Instance URL</label>
+              <input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                disabled={connecting}
+                placeholder={remote.defaultBaseUrl ?? `https://${remote.name.toLowerCase()}.example.com`}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-bolt-elements-textSecondary mb-2">Personal Access Token</label>
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                disabled={connecting}
+                placeholder={`Enter your ${remote.name} access token`}
+                className={inputClassName}
+              />
+              {tokenUrl && (
+                <div className="mt-2 text-sm text-bolt-elements-textSecondary">
+                  <a
+                    href={tokenUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-bolt-elements-borderColorActive hover:underline inline-flex items-center gap-1"
+                  >
+                    Get your token
+                    <div className="i-ph:arrow-square-out w-4 h-4" />
+                  </a>
+                  <span className="ml-1">with access to the API and to repositories.</span>
+                </div>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={connecting || !baseUrl || !token}
+              className={classNames(
+                'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                'bg-[#303030] text-white',
+                'hover:bg-[#5E41D0] hover:text-white',
+                'disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200',
+                'transform active:scale-95',
+              )}
+            >
+              {connecting ? (
+                <>
+                  <div className="i-ph:spinner-gap animate-spin" />
+                  Connecting...
+                </>
+              ) : (
+                <>
+                  <div className="i-ph:plug-charging w-4 h-4" />
+                  Connect
+                </>
+              )}
+            </button>
+          </form>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleDisconnect}
+                className={classNames(
+                  'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                  'bg-red-500 text-white',
+                  'hover:bg-red-600',
+                )}
+              >
+                <div className="i-ph:plug w-4 h-4" />
+                Disconnect
+              </button>
+              <span className="text-sm text-bolt-elements-textSecondary flex items-center gap-1">
+                <div className="i-ph:check-circle w-4 h-4 text-green-500" />
+                Connected to {connection.baseUrl}
+              </span>
+            </div>
+
+            <div className="flex items-center gap-4 p-4 bg-[#F8F8F8] dark:bg-[#1A1A1A] rounded-lg">
+              {connection.user.avatarUrl && (
+                <img
+                  src={connection.user.avatarUrl}
+                  referrerPolicy="no-referrer"
+                  alt="User Avatar"
+                  className="w-12 h-12 rounded-full border-2 border-bolt-elements-borderColorActive"
+                />
+              )}
+              <div>
+                <h4 className="text-sm font-medium text-bolt-elements-textPrimary">
+                  {connection.user.name || connection.user.username}
+                </h4>
+                <p className="text-sm text-bolt-elements-textSecondary">@{connection.user.username}</p>
+              </div>
+            </div>
+
+            <RepositoryList remote={remote} />
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+/**
+ * Connections to the Git hosts besides GitHub, including self-hosted instances.
+ */
+export default function GitRemoteConnections() {
+  return (
+    <>
+      {gitRemotes.map((remote, index) => (
+        <RemoteConnection key={remote.name} remote={remote} delay={0.4 + index * 0.1} />
+      ))}
+    </>
+  );
+}
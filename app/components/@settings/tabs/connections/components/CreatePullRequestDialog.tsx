@@ -0,0 +1,295 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { motion } from 'framer-motion';
+import { description as chatDescription } from '~/lib/persistence';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { generatePullRequestDescription, parseGitHubRepo } from '~/utils/pullRequest';
+
+interface CreatePullRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  gitUrl?: string;
+  pullRequestUrl?: string;
+  pullRequestBranch?: string;
+  onCreated: (pullRequest: { url: string; branch: string }) => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark placeholder-bolt-elements-textTertiary dark:placeholder-bolt-elements-textTertiary-dark focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const primaryButtonClassName =
+  'flex-1 px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 text-sm inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const toBranchName = (text: string) =>
+  `bolt/${
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 40) || 'changes'
+  }`;
+
+/**
+ * Pushes the project to a branch, has the model describe the changes and opens a pull request.
+ * Once the chat has a pull request, the same branch and pull request are updated.
+ */
+export function CreatePullRequestDialog({
+  isOpen,
+  onClose,
+  gitUrl,
+  pullRequestUrl,
+  pullRequestBranch,
+  onCreated,
+}: CreatePullRequestDialogProps) {
+  const currentDescription = useStore(chatDescription);
+  const [repository, setRepository] = useState('');
+  const [branch, setBranch] = useState('');
+  const [baseBranch, setBaseBranch] = useState<string>();
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [status, setStatus] = useState<string>();
+  const [createdUrl, setCreatedUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    const repo = gitUrl ? parseGitHubRepo(gitUrl) : undefined;
+
+    setRepository(repo ? `${repo.owner}/${repo.repo}` : '');
+    setBranch(pullRequestBranch ?? toBranchName(currentDescription ?? ''));
+    setBaseBranch(undefined);
+    setCreatedUrl(undefined);
+  }, [isOpen]);
+
+  const [owner, repo] = repository.split('/');
+
+  const handlePush = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setStatus('Pushing changes...');
+
+      const push = await workbenchStore.pushToGitHubBranch({
+        owner,
+        repo,
+        branch,
+        commitMessage: currentDescription || 'Update project',
+      });
+
+      if (push.changes.length === 0) {
+        toast.info(`No changes against ${push.baseBranch}`);
+        return;
+      }
+
+      setStatus('Describing changes...');
+
+      try {
+        const generated = await generatePullRequestDescription({
+          changes: push.changes,
+          chatDescription: currentDescription,
+        });
+
+        setTitle(generated.title);
+        setBody(generated.body);
+      } catch (error) {
+        console.error('Error describing the pull request:', error);
+        toast.warning('The changes were pushed, but the description could not be generated');
+        setTitle(currentDescription || 'Update project');
+      }
+
+      setBaseBranch(push.baseBranch);
+    } catch (error) {
+      console.error('Error pushing the pull request branch:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to push the changes');
+    } finally {
+      setStatus(undefined);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!baseBranch) {
+      return;
+    }
+
+    try {
+      setStatus(pullRequestUrl ? 'Updating pull request...' : 'Creating pull request...');
+
+      const url = await workbenchStore.openGitHubPullRequest({ owner, repo, branch, baseBranch, title, body });
+
+      setCreatedUrl(url);
+      onCreated({ url, branch });
+    } catch (error) {
+      console.error('Error opening the pull request:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create the pull request');
+    } finally {
+      setStatus(undefined);
+    }
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999]" />
+        <div className="fixed inset-0 flex items-center justify-center z-[9999]">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="w-[90vw] md:w-[600px]"
+          >
+            <Dialog.Content
+              className="bg-white dark:bg-bolt-elements-background-depth-1 rounded-lg border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark shadow-xl"
+              aria-describedby="pull-request-dialog-description"
+            >
+              <div className="p-6">
+                <div className="flex items-center gap-4 mb-6">
+                  <div className="w-10 h-10 rounded-xl bg-bolt-elements-background-depth-3 flex items-center justify-center text-purple-500">
+                    <div className="i-ph:git-pull-request w-5 h-5" />
+                  </div>
+                  <div>
+                    <Dialog.Title className="text-lg font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark">
+                      {pullRequestUrl ? 'Update Pull Request' : 'Create Pull Request'}
+                    </Dialog.Title>
+                    <p
+                      id="pull-request-dialog-description"
+                      className="text-sm text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark"
+                    >
+                      Push the changes to a branch and open a pull request on GitHub
+                    </p>
+                  </div>
+                  <Dialog.Close asChild>
+                    <button className="ml-auto p-2 rounded-lg bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-2">
+                      <span className="i-ph:x block w-5 h-5" aria-hidden="true" />
+                      <span className="sr-only">Close dialog</span>
+                    </button>
+                  </Dialog.Close>
+                </div>
+
+                {createdUrl ? (
+                  <div className="space-y-4 text-sm text-bolt-elements-textSecondary">
+                    <p>The pull request is ready, pushing again from this chat updates it.</p>
+                    <a
+                      href={createdUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-purple-500 hover:underline"
+                    >
+                      {createdUrl}
+                      <div className="i-ph:arrow-square-out w-4 h-4" />
+                    </a>
+                  </div>
+                ) : !baseBranch ? (
+                  <form onSubmit={handlePush} className="space-y-4">
+                    <div className="space-y-2">
+                      <label htmlFor="prRepository" className="text-sm text-bolt-elements-textSecondary">
+                        Repository
+                      </label>
+                      <input
+                        id="prRepository"
+                        value={repository}
+                        onChange={(e) => setRepository(e.target.value)}
+                        placeholder="owner/repository"
+                        pattern="[^/\s]+/[^/\s]+"
+                        className={inputClassName}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="prBranch" className="text-sm text-bolt-elements-textSecondary">
+                        Branch
+                      </label>
+                      <input
+                        id="prBranch"
+                        value={branch}
+                        onChange={(e) => setBranch(e.target.value)}
+                        disabled={!!pullRequestBranch}
+                        className={inputClassName}
+                        required
+                      />
+                    </div>
+                    {pullRequestUrl && (
+                      <p className="text-xs text-bolt-elements-textTertiary">
+                        This chat updates{' '}
+                        <a href={pullRequestUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                          its pull request
+                        </a>
+                        .
+                      </p>
+                    )}
+                    <div className="pt-2 flex">
+                      <button type="submit" disabled={!!status} className={primaryButtonClassName}>
+                        {status ? (
+                          <>
+                            <div className="i-ph:spinner-gap animate-spin w-4 h-4" />
+                            {status}
+                          </>
+                        ) : (
+                          <>
+                            <div className="i-ph:cloud-arrow-up w-4 h-4" />
+                            Push and describe changes
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <form onSubmit={handleCreate} className="space-y-4">
+                    <div className="space-y-2">
+                      <label htmlFor="prTitle" className="text-sm text-bolt-elements-textSecondary">
+                        Title
+                      </label>
+                      <input
+                        id="prTitle"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        className={inputClassName}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="prBody" className="text-sm text-bolt-elements-textSecondary">
+                        Description
+                      </label>
+                      <textarea
+                        id="prBody"
+                        value={body}
+                        rows={10}
+                        onChange={(e) => setBody(e.target.value)}
+                        className={`${inputClassName} resize-y font-mono text-xs`}
+                      />
+                    </div>
+                    <p className="text-xs text-bolt-elements-textTertiary">
+                      {branch} into {baseBranch}
+                    </p>
+                    <div className="pt-2 flex">
+                      <button type="submit" disabled={!!status} className={primaryButtonClassName}>
+                        {status ? (
+                          <>
+                            <div className="i-ph:spinner-gap animate-spin w-4 h-4" />
+                            {status}
+                          </>
+                        ) : (
+                          <>
+                            <div className="i-ph:git-pull-request w-4 h-4" />
+                            {pullRequestUrl ? 'Update Pull Request' : 'Create Pull Request'}
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            </Dialog.Content>
+          </motion.div>
+        </div>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,221 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { motion } from 'framer-motion';
+import { classNames } from '~/utils/classNames';
+import { gitRemotes } from '~/lib/modules/git-remote/registry';
+import type { GitRemoteRepository } from '~/lib/modules/git-remote/types';
+import { gitRemoteConnections, listGitRemoteRepositories, pushToGitRemote } from '~/lib/stores/gitRemotes';
+
+interface PushToGitRemoteDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onPushed?: (repoUrl: string) => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark placeholder-bolt-elements-textTertiary dark:placeholder-bolt-elements-textTertiary-dark focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+/**
+ * Pushes the project to a new or existing repository of a connected GitLab or Gitea instance.
+ */
+export function PushToGitRemoteDialog({ isOpen, onClose, onPushed }: PushToGitRemoteDialogProps) {
+  const connections = useStore(gitRemoteConnections);
+  const connectedRemotes = gitRemotes.filter((remote) => connections[remote.name]);
+  const [remoteName, setRemoteName] = useState<string>();
+  const [repositories, setRepositories] = useState<GitRemoteRepository[]>([]);
+  const [repoName, setRepoName] = useState('');
+  const [commitMessage, setCommitMessage] = useState('Initial commit');
+  const [isPrivate, setIsPrivate] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const selectedRemote = remoteName ?? connectedRemotes[0]?.name;
+
+  useEffect(() => {
+    if (!isOpen || !selectedRemote) {
+      return;
+    }
+
+    listGitRemoteRepositories(selectedRemote)
+      .then(setRepositories)
+      .catch(() => setRepositories([]));
+  }, [isOpen, selectedRemote]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!selectedRemote || !repoName.trim()) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const repoUrl = await pushToGitRemote({
+        name: selectedRemote,
+        repoName: repoName.trim(),
+        isPrivate,
+        commitMessage: commitMessage.trim() || 'Initial commit',
+      });
+
+      toast.success(`Pushed to ${repoUrl}`);
+      onPushed?.(repoUrl);
+      onClose();
+    } catch (error) {
+      console.error(`Error pushing to ${selectedRemote}:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to push to ${selectedRemote}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999]" />
+        <div className="fixed inset-0 flex items-center justify-center z-[9999]">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="w-[90vw] md:w-[500px]"
+          >
+            <Dialog.Content
+              className="bg-white dark:bg-bolt-elements-background-depth-1 rounded-lg border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark shadow-xl"
+              aria-describedby="push-remote-dialog-description"
+            >
+              <div className="p-6">
+                <div className="flex items-center gap-4 mb-6">
+                  <div className="w-10 h-10 rounded-xl bg-bolt-elements-background-depth-3 flex items-center justify-center text-purple-500">
+                    <div className="i-ph:git-branch w-5 h-5" />
+                  </div>
+                  <div>
+                    <Dialog.Title className="text-lg font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark">
+                      Push to Git Remote
+                    </Dialog.Title>
+                    <p
+                      id="push-remote-dialog-description"
+                      className="text-sm text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark"
+                    >
+                      Commit the project and push it to a new or existing repository
+                    </p>
+                  </div>
+                  <Dialog.Close asChild>
+                    <button className="ml-auto p-2 rounded-lg bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-2">
+                      <span className="i-ph:x block w-5 h-5" aria-hidden="true" />
+                      <span className="sr-only">Close dialog</span>
+                    </button>
+                  </Dialog.Close>
+                </div>
+
+                {connectedRemotes.length === 0 ? (
+                  <p className="text-sm text-bolt-elements-textSecondary">
+                    Connect GitLab or Gitea under Settings &gt; Connections to push your project there.
+                  </p>
+                ) : (
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="flex gap-2">
+                      {connectedRemotes.map((remote) => (
+                        <button
+                          key={remote.name}
+                          type="button"
+                          onClick={() => setRemoteName(remote.name)}
+                          className={classNames(
+                            'flex-1 px-3 py-2 rounded-lg text-sm flex items-center justify-center gap-2 border',
+                            remote.name === selectedRemote
+                              ? 'border-purple-500 text-bolt-elements-textPrimary bg-bolt-elements-background-depth-2'
+                              : 'border-bolt-elements-borderColor text-bolt-elements-textSecondary bg-transparent',
+                          )}
+                        >
+                          <div className={classNames(remote.icon, 'w-4 h-4')} />
+                          {remote.name}
+                          <span className="text-xs text-bolt-elements-textTertiary">
+                            @{connections[remote.name].user.username}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="space-y-2">
+                      <label htmlFor="remoteRepoName" className="text-sm text-bolt-elements-textSecondary">
+                        Repository
+                      </label>
+                      <input
+                        id="remoteRepoName"
+                        list="remoteRepositories"
+                        value={repoName}
+                        onChange={(e) => setRepoName(e.target.value)}
+                        placeholder="my-awesome-project or group/project"
+                        className={inputClassName}
+                        required
+                      />
+                      <datalist id="remoteRepositories">
+                        {repositories.map((repository) => (
+                          <option key={repository.id} value={repository.fullName} />
+                        ))}
+                      </datalist>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label htmlFor="remoteCommitMessage" className="text-sm text-bolt-elements-textSecondary">
+                        Commit message
+                      </label>
+                      <input
+                        id="remoteCommitMessage"
+                        value={commitMessage}
+                        onChange={(e) => setCommitMessage(e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="remotePrivate"
+                        checked={isPrivate}
+                        onChange={(e) => setIsPrivate(e.target.checked)}
+                        className="rounded border-bolt-elements-borderColor text-purple-500 focus:ring-purple-500"
+                      />
+                      <label htmlFor="remotePrivate" className="text-sm text-bolt-elements-textPrimary">
+                        Make a new repository private
+                      </label>
+                    </div>
+
+                    <div className="pt-4 flex gap-2">
+                      <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3 text-sm border border-bolt-elements-borderColor"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={isLoading}
+                        className="flex-1 px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 text-sm inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isLoading ? (
+                          <>
+                            <div className="i-ph:spinner-gap animate-spin w-4 h-4" />
+                            Pushing...
+                          </>
+                        ) : (
+                          <>
+                            <div className="i-ph:cloud-arrow-up w-4 h-4" />
+                            Push to {selectedRemote}
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            </Dialog.Content>
+          </motion.div>
+        </div>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
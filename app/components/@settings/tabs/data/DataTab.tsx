@@ -7,6 +7,7 @@ import { useDataOperations } from '~/lib/hooks/useDataOperations';
 import { openDatabase } from '~/lib/persistence/db';
 import { getAllChats, type Chat } from '~/lib/persistence/chats';
 import { DataVisualization } from './DataVisualization';
+import { UsageDashboard } from './UsageDashboard';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
 
@@ -707,6 +708,16 @@ export function DataTab() {
         </div>
       </div>
 
+      {/* Token Usage */}
+      <div>
+        <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Token Usage</h2>
+        <Card>
+          <CardContent className="p-5">
+            <UsageDashboard db={db || undefined} chats={availableChats} />
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Data Visualization */}
       <div>
         <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Data Usage</h2>
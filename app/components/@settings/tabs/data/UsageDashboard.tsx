@@ -0,0 +1,220 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useMemo, useState } from 'react';
+import { getUsageRecords } from '~/lib/persistence/db';
+import type { Chat } from '~/lib/persistence/chats';
+import type { UsageRecord } from '~/lib/persistence/types';
+import {
+  formatCost,
+  getStartOfMonth,
+  groupUsage,
+  sumUsage,
+  updateUsageBudget,
+  usageBudgetStore,
+  type UsageTotals,
+} from '~/lib/stores/usage';
+import { classNames } from '~/utils/classNames';
+
+interface UsageDashboardProps {
+  db?: IDBDatabase;
+  chats: Chat[];
+}
+
+type GroupBy = 'chat' | 'provider' | 'model' | 'day';
+
+const GROUPS: { id: GroupBy; label: string }[] = [
+  { id: 'chat', label: 'Chat' },
+  { id: 'provider', label: 'Provider' },
+  { id: 'model', label: 'Model' },
+  { id: 'day', label: 'Day' },
+];
+
+const WARN_THRESHOLDS = [0.5, 0.8, 0.9];
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+function formatTotalCost({ cost, unpricedMessages }: UsageTotals) {
+  return unpricedMessages > 0 ? `${formatCost(cost)}+` : formatCost(cost);
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor">
+      <div className="text-xs text-bolt-elements-textSecondary">{label}</div>
+      <div className="text-xl font-semibold text-bolt-elements-textPrimary mt-1">{value}</div>
+      {hint && <div className="text-xs text-bolt-elements-textTertiary mt-1">{hint}</div>}
+    </div>
+  );
+}
+
+export function UsageDashboard({ db, chats }: UsageDashboardProps) {
+  const budget = useStore(usageBudgetStore);
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [groupBy, setGroupBy] = useState<GroupBy>('chat');
+  const [limitInput, setLimitInput] = useState(budget.monthlyLimit?.toString() ?? '');
+
+  useEffect(() => {
+    if (!db) {
+      return;
+    }
+
+    getUsageRecords(db)
+      .then(setRecords)
+      .catch((error) => console.error('Error loading token usage:', error));
+  }, [db]);
+
+  const monthRecords = useMemo(() => {
+    const startOfMonth = getStartOfMonth().toISOString();
+    return records.filter((record) => record.timestamp >= startOfMonth);
+  }, [records]);
+
+  const allTime = useMemo(() => sumUsage(records), [records]);
+  const thisMonth = useMemo(() => sumUsage(monthRecords), [monthRecords]);
+
+  const groups = useMemo(() => {
+    const chatNames = new Map(chats.map((chat) => [chat.id, chat.description || `Chat ${chat.id}`]));
+
+    switch (groupBy) {
+      case 'chat':
+        return groupUsage(records, (record) => chatNames.get(record.chatId) ?? 'Deleted chat');
+      case 'provider':
+        return groupUsage(records, (record) => record.provider);
+      case 'model':
+        return groupUsage(records, (record) => `${record.provider} / ${record.model}`);
+      case 'day':
+        return groupUsage(records, (record) => record.timestamp.slice(0, 10)).sort((a, b) =>
+          b.key.localeCompare(a.key),
+        );
+    }
+
+    return [];
+  }, [records, chats, groupBy]);
+
+  const saveLimit = () => {
+    const limit = parseFloat(limitInput);
+    updateUsageBudget({ monthlyLimit: limit > 0 ? limit : undefined });
+  };
+
+  const budgetShare = budget.monthlyLimit ? Math.min(thisMonth.cost / budget.monthlyLimit, 1) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard label="Cost this month" value={formatTotalCost(thisMonth)} hint={`${thisMonth.messages} responses`} />
+        <StatCard label="Tokens this month" value={formatTokens(thisMonth.totalTokens)} />
+        <StatCard label="Cost all time" value={formatTotalCost(allTime)} hint={`${allTime.messages} responses`} />
+        <StatCard
+          label="Tokens all time"
+          value={formatTokens(allTime.totalTokens)}
+          hint={`${formatTokens(allTime.promptTokens)} prompt, ${formatTokens(allTime.completionTokens)} completion`}
+        />
+      </div>
+
+      {allTime.unpricedMessages > 0 && (
+        <p className="text-xs text-bolt-elements-textTertiary">
+          {allTime.unpricedMessages} responses used models without pricing information and are not included in the
+          costs.
+        </p>
+      )}
+
+      <div className="p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor space-y-3">
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="text-sm text-bolt-elements-textPrimary">
+            Monthly budget (USD)
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={limitInput}
+              placeholder="No limit"
+              onChange={(e) => setLimitInput(e.target.value)}
+              onBlur={saveLimit}
+              className="block mt-1 w-40 p-2 rounded-lg text-sm bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-focus"
+            />
+          </label>
+          <label className="text-sm text-bolt-elements-textPrimary">
+            Warn at
+            <select
+              value={budget.warnThreshold}
+              onChange={(e) => updateUsageBudget({ warnThreshold: Number(e.target.value) })}
+              className="block mt-1 p-2 rounded-lg text-sm bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-focus"
+            >
+              {WARN_THRESHOLDS.map((threshold) => (
+                <option key={threshold} value={threshold}>
+                  {threshold * 100}% of the budget
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {budget.monthlyLimit && (
+          <div>
+            <div className="h-2 rounded-full bg-bolt-elements-background-depth-3 overflow-hidden">
+              <div
+                className={classNames('h-full', {
+                  'bg-green-500': budgetShare < budget.warnThreshold,
+                  'bg-yellow-500': budgetShare >= budget.warnThreshold && budgetShare < 1,
+                  'bg-red-500': budgetShare >= 1,
+                })}
+                style={{ width: `${budgetShare * 100}%` }}
+              />
+            </div>
+            <div className="text-xs text-bolt-elements-textSecondary mt-1">
+              {formatCost(thisMonth.cost)} of {formatCost(budget.monthlyLimit)} spent this month
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex gap-2 mb-3">
+          {GROUPS.map((group) => (
+            <button
+              key={group.id}
+              onClick={() => setGroupBy(group.id)}
+              className={classNames(
+                'px-3 py-1.5 rounded-lg text-sm transition-colors',
+                groupBy === group.id
+                  ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                  : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3',
+              )}
+            >
+              {group.label}
+            </button>
+          ))}
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-bolt-elements-textSecondary">No token usage recorded yet.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-bolt-elements-borderColor">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary">
+                <tr>
+                  <th className="text-left font-medium p-2">{GROUPS.find((group) => group.id === groupBy)?.label}</th>
+                  <th className="text-right font-medium p-2">Responses</th>
+                  <th className="text-right font-medium p-2">Prompt</th>
+                  <th className="text-right font-medium p-2">Completion</th>
+                  <th className="text-right font-medium p-2">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((group) => (
+                  <tr
+                    key={group.key}
+                    className="border-t border-bolt-elements-borderColor text-bolt-elements-textPrimary"
+                  >
+                    <td className="p-2 truncate max-w-60">{group.key}</td>
+                    <td className="p-2 text-right">{group.messages}</td>
+                    <td className="p-2 text-right">{formatTokens(group.promptTokens)}</td>
+                    <td className="p-2 text-right">{formatTokens(group.completionTokens)}</td>
+                    <td className="p-2 text-right">{formatTotalCost(group)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
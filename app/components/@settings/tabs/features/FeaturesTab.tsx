@@ -6,6 +6,17 @@ import { useSettings } from '~/lib/hooks/useSettings';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
 import { PromptLibrary } from '~/lib/common/prompt-library';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { LLM_CONTEXT_SELECTION, LOCAL_CONTEXT_SELECTION } from '~/lib/stores/settings';
+
+const CONTEXT_SELECTION_OPTIONS = [
+  { value: LOCAL_CONTEXT_SELECTION, label: 'Semantic index, local embeddings' },
+  ...LLMManager.getInstance()
+    .getAllProviders()
+    .filter((provider) => provider.getEmbeddingModelInstance)
+    .map((provider) => ({ value: provider.name, label: `Semantic index, ${provider.name} embeddings` })),
+  { value: LLM_CONTEXT_SELECTION, label: 'LLM picks whole files' },
+];
 
 interface FeatureToggle {
   id: string;
@@ -117,6 +128,14 @@ export default function FeaturesTab() {
     setEventLogs,
     setPromptId,
     promptId,
+    autoFixEnabled,
+    enableAutoFix,
+    autoFixMaxAttempts,
+    setAutoFixMaxAttempts,
+    diagnosticsAutoInclude,
+    enableDiagnosticsAutoInclude,
+    contextSelection,
+    setContextSelection,
   } = useSettings();
 
   // Enable features by default on first load
@@ -170,11 +189,30 @@ export default function FeaturesTab() {
           break;
         }
 
+        case 'autoFix': {
+          enableAutoFix(enabled);
+          toast.success(`Auto-fix ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'diagnosticsAutoInclude': {
+          enableDiagnosticsAutoInclude(enabled);
+          toast.success(`Diagnostics in chat requests ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         default:
           break;
       }
     },
-    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs],
+    [
+      enableLatestBranch,
+      setAutoSelectTemplate,
+      enableContextOptimization,
+      setEventLogs,
+      enableAutoFix,
+      enableDiagnosticsAutoInclude,
+    ],
   );
 
   const features = {
@@ -212,7 +250,26 @@ export default function FeaturesTab() {
         tooltip: 'Enabled by default to record detailed logs of system events and user actions',
       },
     ],
-    beta: [],
+    beta: [
+      {
+        id: 'autoFix',
+        title: 'Auto-fix Errors',
+        description: 'Send terminal and preview errors back to the AI until the build passes',
+        icon: 'i-ph:wrench',
+        enabled: autoFixEnabled,
+        beta: true,
+        tooltip: 'Each attempt is a new chat request, the number of attempts is limited below',
+      },
+      {
+        id: 'diagnosticsAutoInclude',
+        title: 'Send Type and Lint Errors',
+        description: 'Include the errors of the background type check and lint in the next message',
+        icon: 'i-ph:bug',
+        enabled: diagnosticsAutoInclude,
+        beta: true,
+        tooltip: 'When disabled the chat offers to send the errors after each response instead',
+      },
+    ],
   };
 
   return (
@@ -290,6 +347,122 @@ export default function FeaturesTab() {
           </select>
         </div>
       </motion.div>
+
+      {contextOptimizationEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+        >
+          <div className="flex items-center gap-4">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:magnifying-glass" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Context Selection
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                How context optimization finds the code relevant to a request, the LLM is used when the index fails
+              </p>
+            </div>
+            <select
+              value={contextSelection}
+              onChange={(e) => {
+                setContextSelection(e.target.value);
+                toast.success('Context selection updated');
+              }}
+              className={classNames(
+                'p-2 rounded-lg text-sm min-w-[200px]',
+                'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                'text-bolt-elements-textPrimary',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                'group-hover:border-purple-500/30',
+                'transition-all duration-200',
+              )}
+            >
+              {CONTEXT_SELECTION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </motion.div>
+      )}
+
+      {autoFixEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+        >
+          <div className="flex items-center gap-4">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:arrows-clockwise" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Auto-fix Attempts
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                How many times the AI may try to fix an error before handing it back to you
+              </p>
+            </div>
+            <select
+              value={autoFixMaxAttempts}
+              onChange={(e) => {
+                setAutoFixMaxAttempts(Number(e.target.value));
+                toast.success('Auto-fix attempts updated');
+              }}
+              className={classNames(
+                'p-2 rounded-lg text-sm min-w-[200px]',
+                'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                'text-bolt-elements-textPrimary',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                'group-hover:border-purple-500/30',
+                'transition-all duration-200',
+              )}
+            >
+              {[1, 2, 3, 5, 10].map((attempts) => (
+                <option key={attempts} value={attempts}>
+                  {attempts} {attempts === 1 ? 'attempt' : 'attempts'}
+                </option>
+              ))}
+            </select>
+          </div>
+        </motion.div>
+      )}
     </div>
   );
 }
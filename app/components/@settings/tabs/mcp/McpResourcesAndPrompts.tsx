@@ -0,0 +1,95 @@
+import type { MCPPrompt, MCPResource } from '~/lib/services/mcpService';
+
+type McpResourcesAndPromptsProps = {
+  resources: MCPResource[];
+  prompts: MCPPrompt[];
+  onAttachResource?: (resource: MCPResource) => void;
+  onUsePrompt?: (prompt: MCPPrompt) => void;
+};
+
+const actionClassName =
+  'ml-auto flex-shrink-0 flex items-center gap-1 bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary';
+
+export default function McpResourcesAndPrompts({
+  resources,
+  prompts,
+  onAttachResource,
+  onUsePrompt,
+}: McpResourcesAndPromptsProps) {
+  if (resources.length === 0 && prompts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      {resources.length > 0 && (
+        <div>
+          <div className="text-bolt-elements-textSecondary text-xs font-medium ml-1 mb-1.5">Available Resources:</div>
+          <div className="space-y-2">
+            {resources.map((resource) => (
+              <div key={resource.uri} className="ml-4 p-3 rounded-md bg-bolt-elements-background-depth-2 text-xs">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-bolt-elements-textPrimary font-semibold truncate" title={resource.name}>
+                    {resource.name}
+                  </h3>
+                  {resource.mimeType && <span className="text-bolt-elements-textTertiary">{resource.mimeType}</span>}
+                  {onAttachResource && (
+                    <button className={actionClassName} onClick={() => onAttachResource(resource)}>
+                      <div className="i-ph:paperclip w-3 h-3" />
+                      Attach
+                    </button>
+                  )}
+                </div>
+                <p className="mt-1 font-mono text-bolt-elements-textTertiary truncate" title={resource.uri}>
+                  {resource.uri}
+                </p>
+                {resource.description && (
+                  <p className="mt-1 text-bolt-elements-textSecondary">{resource.description}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {prompts.length > 0 && (
+        <div>
+          <div className="text-bolt-elements-textSecondary text-xs font-medium ml-1 mb-1.5">Available Prompts:</div>
+          <div className="space-y-2">
+            {prompts.map((prompt) => (
+              <div key={prompt.name} className="ml-4 p-3 rounded-md bg-bolt-elements-background-depth-2 text-xs">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-bolt-elements-textPrimary font-semibold truncate" title={prompt.name}>
+                    {prompt.name}
+                  </h3>
+                  {onUsePrompt && (
+                    <button className={actionClassName} onClick={() => onUsePrompt(prompt)}>
+                      <div className="i-ph:text-aa w-3 h-3" />
+                      Use
+                    </button>
+                  )}
+                </div>
+                {prompt.description && <p className="mt-1 text-bolt-elements-textSecondary">{prompt.description}</p>}
+                {prompt.arguments && prompt.arguments.length > 0 && (
+                  <ul className="mt-1.5 ml-1 space-y-1">
+                    {prompt.arguments.map((argument) => (
+                      <li key={argument.name} className="break-words">
+                        <span className="font-medium text-bolt-elements-textPrimary">
+                          {argument.name}
+                          {argument.required && <span className="text-red-600 dark:text-red-400 ml-1">*</span>}
+                        </span>
+                        {argument.description && (
+                          <span className="ml-2 text-bolt-elements-textSecondary">{argument.description}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import type { MCPServer } from '~/lib/services/mcpService';
+import { toast } from 'react-toastify';
+import type { MCPPrompt, MCPResource, MCPServer, MCPServerPolicy, MCPToolPolicy } from '~/lib/services/mcpService';
+import { useMCPStore } from '~/lib/stores/mcp';
 import McpStatusBadge from '~/components/@settings/tabs/mcp/McpStatusBadge';
-import McpServerListItem from '~/components/@settings/tabs/mcp/McpServerListItem';
+import McpServerListItem, { POLICY_LABELS } from '~/components/@settings/tabs/mcp/McpServerListItem';
+import McpResourcesAndPrompts from '~/components/@settings/tabs/mcp/McpResourcesAndPrompts';
 
 type McpServerListProps = {
   serverEntries: [string, MCPServer][];
@@ -8,6 +11,8 @@ type McpServerListProps = {
   checkingServers: boolean;
   onlyShowAvailableServers?: boolean;
   toggleServerExpanded: (serverName: string) => void;
+  onAttachResource?: (serverName: string, resource: MCPResource) => void;
+  onUsePrompt?: (serverName: string, prompt: MCPPrompt) => void;
 };
 
 export default function McpServerList({
@@ -16,7 +21,17 @@ export default function McpServerList({
   checkingServers,
   onlyShowAvailableServers = false,
   toggleServerExpanded,
+  onAttachResource,
+  onUsePrompt,
 }: McpServerListProps) {
+  const toolPolicies = useMCPStore((state) => state.settings.mcpConfig.toolPolicies);
+  const updateToolPolicy = useMCPStore((state) => state.updateToolPolicy);
+
+  const savePolicy = (serverName: string, policy: MCPServerPolicy) =>
+    updateToolPolicy(serverName, policy).catch((error) =>
+      toast.error(`Failed to save the tool policy: ${error instanceof Error ? error.message : String(error)}`),
+    );
+
   if (serverEntries.length === 0) {
     return <p className="text-sm text-bolt-elements-textSecondary">No MCP servers configured</p>;
   }
@@ -31,6 +46,8 @@ export default function McpServerList({
         const isAvailable = mcpServer.status === 'available';
         const isExpanded = expandedServer === serverName;
         const serverTools = isAvailable ? Object.entries(mcpServer.tools) : [];
+        const serverPolicy = toolPolicies?.[serverName] ?? {};
+        const defaultPolicy = serverPolicy.defaultPolicy ?? 'ask';
 
         return (
           <div key={serverName} className="flex flex-col p-2 rounded-md bg-bolt-elements-background-depth-1">
@@ -75,6 +92,22 @@ export default function McpServerList({
             {/* Tool list */}
             {isExpanded && isAvailable && (
               <div className="mt-2">
+                <div className="flex items-center gap-1.5 ml-1 mb-2 text-xs">
+                  <span className="text-bolt-elements-textSecondary font-medium">Default tool policy:</span>
+                  <select
+                    className="px-1.5 py-0.5 rounded bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none"
+                    value={defaultPolicy}
+                    onChange={(e) =>
+                      savePolicy(serverName, { ...serverPolicy, defaultPolicy: e.target.value as MCPToolPolicy })
+                    }
+                  >
+                    {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+                      <option key={policy} value={policy}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div className="text-bolt-elements-textSecondary text-xs font-medium ml-1 mb-1.5">Available Tools:</div>
                 {serverTools.length === 0 ? (
                   <div className="ml-4 text-xs text-bolt-elements-textSecondary">No tools available</div>
@@ -85,10 +118,26 @@ export default function McpServerList({
                         key={`${serverName}-${toolName}`}
                         toolName={toolName}
                         toolSchema={toolSchema}
+                        rule={serverPolicy.tools?.[toolName]}
+                        defaultPolicy={defaultPolicy}
+                        onRuleChange={(rule) => {
+                          const { [toolName]: _previous, ...tools } = serverPolicy.tools ?? {};
+
+                          savePolicy(serverName, {
+                            ...serverPolicy,
+                            tools: rule ? { ...tools, [toolName]: rule } : tools,
+                          });
+                        }}
                       />
                     ))}
                   </div>
                 )}
+                <McpResourcesAndPrompts
+                  resources={mcpServer.resources}
+                  prompts={mcpServer.prompts}
+                  onAttachResource={onAttachResource && ((resource) => onAttachResource(serverName, resource))}
+                  onUsePrompt={onUsePrompt && ((prompt) => onUsePrompt(serverName, prompt))}
+                />
               </div>
             )}
           </div>
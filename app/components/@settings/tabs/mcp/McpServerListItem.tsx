@@ -1,4 +1,7 @@
 import type { Tool } from 'ai';
+import { useEffect, useState } from 'react';
+import type { MCPArgumentRule, MCPToolPolicy, MCPToolRule } from '~/lib/services/mcpService';
+import { classNames } from '~/utils/classNames';
 
 type ParameterProperty = {
   type?: string;
@@ -15,15 +18,100 @@ type ToolParameters = {
 type McpToolProps = {
   toolName: string;
   toolSchema: Tool;
+  rule?: MCPToolRule;
+  defaultPolicy: MCPToolPolicy;
+  onRuleChange?: (rule: MCPToolRule | undefined) => void;
 };
 
-export default function McpServerListItem({ toolName, toolSchema }: McpToolProps) {
+export const POLICY_LABELS: Record<MCPToolPolicy, string> = {
+  allow: 'Always allow',
+  ask: 'Ask every time',
+  deny: 'Always deny',
+};
+
+const selectClassName =
+  'px-1.5 py-0.5 rounded bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none';
+
+function PolicySelect({ value, onChange }: { value: MCPToolPolicy; onChange: (policy: MCPToolPolicy) => void }) {
+  return (
+    <select className={selectClassName} value={value} onChange={(e) => onChange(e.target.value as MCPToolPolicy)}>
+      {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+        <option key={policy} value={policy}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return pattern.length > 0;
+  } catch {
+    return false;
+  }
+};
+
+function ArgumentRuleRow({
+  rule,
+  argumentNames,
+  onChange,
+  onRemove,
+}: {
+  rule: MCPArgumentRule;
+  argumentNames: string[];
+  onChange: (rule: MCPArgumentRule) => void;
+  onRemove: () => void;
+}) {
+  // the pattern is saved once it is complete, every save updates the server
+  const [pattern, setPattern] = useState(rule.pattern);
+
+  useEffect(() => setPattern(rule.pattern), [rule.pattern]);
+
+  return (
+    <li className="flex items-center gap-1.5">
+      <span className="text-bolt-elements-textSecondary">If</span>
+      <select
+        className={selectClassName}
+        value={rule.argument}
+        onChange={(e) => onChange({ ...rule, argument: e.target.value })}
+      >
+        {argumentNames.map((name) => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ))}
+      </select>
+      <span className="text-bolt-elements-textSecondary">matches</span>
+      <input
+        className={classNames(selectClassName, 'flex-1 min-w-0 font-mono', {
+          'border-red-500': !isValidPattern(pattern),
+        })}
+        value={pattern}
+        placeholder="regex"
+        onChange={(e) => setPattern(e.target.value)}
+        onBlur={() => isValidPattern(pattern) && pattern !== rule.pattern && onChange({ ...rule, pattern })}
+      />
+      <PolicySelect value={rule.policy} onChange={(policy) => onChange({ ...rule, policy })} />
+      <button
+        className="i-ph:x w-3.5 h-3.5 bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+        title="Remove rule"
+        onClick={onRemove}
+      />
+    </li>
+  );
+}
+
+export default function McpServerListItem({ toolName, toolSchema, rule, defaultPolicy, onRuleChange }: McpToolProps) {
   if (!toolSchema) {
     return null;
   }
 
   const parameters = (toolSchema.parameters as ToolParameters)?.jsonSchema.properties || {};
   const requiredParams = (toolSchema.parameters as ToolParameters)?.jsonSchema.required || [];
+  const argumentNames = Object.keys(parameters);
+  const argumentRules = rule?.argumentRules ?? [];
 
   return (
     <div className="mt-2 ml-4 p-3 rounded-md bg-bolt-elements-background-depth-2 text-xs">
@@ -34,6 +122,74 @@ export default function McpServerListItem({ toolName, toolSchema }: McpToolProps
 
         <p className="text-bolt-elements-textSecondary">{toolSchema.description || 'No description available'}</p>
 
+        {onRuleChange && (
+          <div className="mt-1.5 flex flex-col gap-1.5">
+            <div className="flex items-center gap-1.5">
+              <span className="text-bolt-elements-textSecondary font-semibold">Policy:</span>
+              <select
+                className={selectClassName}
+                value={rule?.policy ?? ''}
+                onChange={(e) =>
+                  onRuleChange(
+                    e.target.value
+                      ? { ...rule, policy: e.target.value as MCPToolPolicy }
+                      : rule?.argumentRules?.length
+                        ? { ...rule, policy: defaultPolicy }
+                        : undefined,
+                  )
+                }
+              >
+                <option value="">Server default ({POLICY_LABELS[defaultPolicy].toLowerCase()})</option>
+                {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+                  <option key={policy} value={policy}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {argumentNames.length > 0 && (
+                <button
+                  className="ml-auto flex items-center gap-1 bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+                  onClick={() =>
+                    onRuleChange({
+                      policy: rule?.policy ?? defaultPolicy,
+                      argumentRules: [
+                        ...argumentRules,
+                        { argument: argumentNames[0], pattern: '.*', policy: 'ask' as const },
+                      ],
+                    })
+                  }
+                >
+                  <div className="i-ph:plus w-3 h-3" />
+                  Argument rule
+                </button>
+              )}
+            </div>
+            {argumentRules.length > 0 && (
+              <ul className="space-y-1">
+                {argumentRules.map((argumentRule, index) => (
+                  <ArgumentRuleRow
+                    key={index}
+                    rule={argumentRule}
+                    argumentNames={argumentNames}
+                    onChange={(updated) =>
+                      onRuleChange({
+                        policy: rule?.policy ?? defaultPolicy,
+                        argumentRules: argumentRules.map((item, itemIndex) => (itemIndex === index ? updated : item)),
+                      })
+                    }
+                    onRemove={() =>
+                      onRuleChange({
+                        policy: rule?.policy ?? defaultPolicy,
+                        argumentRules: argumentRules.filter((_, itemIndex) => itemIndex !== index),
+                      })
+                    }
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {Object.keys(parameters).length > 0 && (
           <div className="mt-2.5">
             <h4 className="text-bolt-elements-textSecondary font-semibold mb-1.5">Parameters:</h4>
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { classNames } from '~/utils/classNames';
 import type { MCPConfig } from '~/lib/services/mcpService';
+import { PROJECT_TOOLS_SERVER_NAME } from '~/lib/services/projectTools';
 import { toast } from 'react-toastify';
 import { useMCPStore } from '~/lib/stores/mcp';
 import McpServerList from '~/components/@settings/tabs/mcp/McpServerList';
@@ -24,6 +25,14 @@ const EXAMPLE_MCP_CONFIG: MCPConfig = {
       },
     },
   },
+  toolPolicies: {
+    everything: {
+      defaultPolicy: 'ask',
+      tools: {
+        echo: { policy: 'allow' },
+      },
+    },
+  },
 };
 
 export default function McpTab() {
@@ -37,6 +46,7 @@ export default function McpTab() {
   const [isSaving, setIsSaving] = useState(false);
   const [mcpConfigText, setMCPConfigText] = useState('');
   const [maxLLMSteps, setMaxLLMSteps] = useState(1);
+  const [projectTools, setProjectTools] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isCheckingServers, setIsCheckingServers] = useState(false);
   const [expandedServer, setExpandedServer] = useState<string | null>(null);
@@ -53,6 +63,7 @@ export default function McpTab() {
   useEffect(() => {
     setMCPConfigText(JSON.stringify(settings.mcpConfig, null, 2));
     setMaxLLMSteps(settings.maxLLMSteps);
+    setProjectTools(!!settings.projectTools);
     setError(null);
   }, [settings]);
 
@@ -81,6 +92,7 @@ export default function McpTab() {
       await updateSettings({
         mcpConfig: parsedConfig,
         maxLLMSteps,
+        projectTools,
       });
       toast.success('MCP configuration saved');
 
@@ -204,6 +216,20 @@ export default function McpTab() {
               <div className="i-ph:arrow-square-out w-4 h-4" />
             </a>
           </div>
+          <label className="flex items-start gap-2 text-sm text-bolt-elements-textSecondary">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={projectTools}
+              onChange={(e) => setProjectTools(e.target.checked)}
+            />
+            <span>
+              Let the model read, list and search the project files and run commands with the built-in tools of the{' '}
+              <code>{PROJECT_TOOLS_SERVER_NAME}</code> server. Only turn this on for models that support tool calls.
+              Their policy is set under <code>toolPolicies.{PROJECT_TOOLS_SERVER_NAME}</code>, commands ask for approval
+              by default.
+            </span>
+          </label>
         </div>
       </section>
 
@@ -1,7 +1,7 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { Switch } from '~/components/ui/Switch';
 import { useSettings } from '~/lib/hooks/useSettings';
-import { URL_CONFIGURABLE_PROVIDERS } from '~/lib/stores/settings';
+import { customProvidersStore, URL_CONFIGURABLE_PROVIDERS } from '~/lib/stores/settings';
 import type { IProviderConfig } from '~/types/model';
 import { logStore } from '~/lib/stores/logs';
 import { motion } from 'framer-motion';
@@ -14,6 +14,9 @@ import { TbBrain, TbCloudComputing } from 'react-icons/tb';
 import { BiCodeBlock, BiChip } from 'react-icons/bi';
 import { FaCloud, FaBrain } from 'react-icons/fa';
 import type { IconType } from 'react-icons';
+import { useStore } from '@nanostores/react';
+import { CustomProviders } from './CustomProviders';
+import { FallbackChains } from './FallbackChains';
 
 // Add type for provider names to ensure type safety
 type ProviderName =
@@ -58,6 +61,7 @@ const PROVIDER_DESCRIPTIONS: Partial<Record<ProviderName, string>> = {
 
 const CloudProvidersTab = () => {
   const settings = useSettings();
+  const customProviders = useStore(customProvidersStore);
   const [editingProvider, setEditingProvider] = useState<string | null>(null);
   const [filteredProviders, setFilteredProviders] = useState<IProviderConfig[]>([]);
   const [categoryEnabled, setCategoryEnabled] = useState<boolean>(false);
@@ -217,6 +221,8 @@ const CloudProvidersTab = () => {
                       </h4>
                       <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
                         {PROVIDER_DESCRIPTIONS[provider.name as keyof typeof PROVIDER_DESCRIPTIONS] ||
+                          (customProviders.some((p) => p.name === provider.name) &&
+                            'Custom provider from your settings') ||
                           (URL_CONFIGURABLE_PROVIDERS.includes(provider.name)
                             ? 'Configure custom endpoint for this provider'
                             : 'Standard AI provider integration')}
@@ -298,6 +304,10 @@ const CloudProvidersTab = () => {
           ))}
         </div>
       </motion.div>
+
+      <CustomProviders />
+
+      <FallbackChains />
     </div>
   );
 };
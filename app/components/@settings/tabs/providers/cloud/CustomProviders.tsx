@@ -0,0 +1,306 @@
+import { useStore } from '@nanostores/react';
+import Cookies from 'js-cookie';
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { getApiKeysFromCookies } from '~/components/chat/APIKeyManager';
+import { logStore } from '~/lib/stores/logs';
+import { customProvidersStore, updateCustomProviders } from '~/lib/stores/settings';
+import type { CustomProviderDefinition, CustomProviderType } from '~/types/model';
+import { classNames } from '~/utils/classNames';
+import { PROVIDER_LIST } from '~/utils/constants';
+
+interface ProviderForm {
+  name: string;
+  type: CustomProviderType;
+  baseUrl: string;
+  apiKey: string;
+  headers: string;
+  models: string;
+  maxTokenAllowed: string;
+}
+
+const EMPTY_FORM: ProviderForm = {
+  name: '',
+  type: 'openai',
+  baseUrl: '',
+  apiKey: '',
+  headers: '',
+  models: '',
+  maxTokenAllowed: '8000',
+};
+
+const TYPE_LABELS: Record<CustomProviderType, string> = {
+  openai: 'OpenAI-compatible',
+  anthropic: 'Anthropic-compatible',
+};
+
+const inputClassName = classNames(
+  'w-full px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+);
+
+function toForm(definition: CustomProviderDefinition): ProviderForm {
+  return {
+    name: definition.name,
+    type: definition.type,
+    baseUrl: definition.baseUrl,
+    apiKey: getApiKeysFromCookies()[definition.name] ?? '',
+    headers: Object.entries(definition.headers ?? {})
+      .map(([key, value]) => `${key}: ${value}`)
+      .join('\n'),
+    models: definition.models.map((model) => model.name).join('\n'),
+    maxTokenAllowed: String(definition.models[0]?.maxTokenAllowed ?? EMPTY_FORM.maxTokenAllowed),
+  };
+}
+
+function parseHeaders(text: string) {
+  const headers: Record<string, string> = {};
+
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+function setApiKey(name: string, apiKey?: string) {
+  const { [name]: _previous, ...apiKeys } = getApiKeysFromCookies();
+  Cookies.set('apiKeys', JSON.stringify(apiKey ? { ...apiKeys, [name]: apiKey } : apiKeys));
+}
+
+export function CustomProviders() {
+  const customProviders = useStore(customProvidersStore);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM);
+
+  const updateForm = (updates: Partial<ProviderForm>) => setForm((current) => ({ ...current, ...updates }));
+
+  const startEditing = (definition?: CustomProviderDefinition) => {
+    setEditing(definition?.name ?? '');
+    setForm(definition ? toForm(definition) : EMPTY_FORM);
+  };
+
+  const validate = (name: string) => {
+    if (!name || !form.baseUrl.trim()) {
+      return 'Name and base URL are required';
+    }
+
+    // the name is embedded in `[Provider: ...]` of every message
+    if (/[[\]\n]/.test(name)) {
+      return 'Name must not contain brackets';
+    }
+
+    if (PROVIDER_LIST.some((provider) => provider.name === name)) {
+      return `${name} is a built-in provider`;
+    }
+
+    if (customProviders.some((provider) => provider.name === name && provider.name !== editing)) {
+      return `A provider named ${name} already exists`;
+    }
+
+    return undefined;
+  };
+
+  const save = () => {
+    const name = form.name.trim();
+    const error = validate(name);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    const maxTokenAllowed = parseInt(form.maxTokenAllowed) || undefined;
+    const definition: CustomProviderDefinition = {
+      name,
+      type: form.type,
+      baseUrl: form.baseUrl.trim(),
+      headers: parseHeaders(form.headers),
+      models: form.models
+        .split('\n')
+        .map((model) => model.trim())
+        .filter(Boolean)
+        .map((model) => ({ name: model, maxTokenAllowed })),
+    };
+
+    if (editing && editing !== name) {
+      setApiKey(editing);
+    }
+
+    setApiKey(name, form.apiKey.trim());
+    updateCustomProviders(
+      editing ? customProviders.map((p) => (p.name === editing ? definition : p)) : [...customProviders, definition],
+    );
+
+    logStore.logProvider(`Custom provider ${name} saved`, { provider: name, type: definition.type });
+    toast.success(`${name} saved`);
+    setEditing(null);
+  };
+
+  const remove = (name: string) => {
+    setApiKey(name);
+    updateCustomProviders(customProviders.filter((provider) => provider.name !== name));
+    logStore.logProvider(`Custom provider ${name} removed`, { provider: name });
+    toast.success(`${name} removed`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div
+            className={classNames(
+              'w-8 h-8 flex items-center justify-center rounded-lg',
+              'bg-bolt-elements-background-depth-3',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:plugs-connected w-5 h-5" />
+          </div>
+          <div>
+            <h4 className="text-md font-medium text-bolt-elements-textPrimary">Custom Providers</h4>
+            <p className="text-sm text-bolt-elements-textSecondary">
+              Connect any OpenAI or Anthropic compatible endpoint
+            </p>
+          </div>
+        </div>
+        {editing === null && (
+          <button
+            onClick={() => startEditing()}
+            className="px-3 py-1.5 rounded-lg text-sm bg-purple-500/10 text-purple-500 hover:bg-purple-500/20"
+          >
+            Add Provider
+          </button>
+        )}
+      </div>
+
+      {customProviders.length > 0 && (
+        <div className="space-y-2">
+          {customProviders.map((provider) => (
+            <div
+              key={provider.name}
+              className="flex items-center gap-3 p-3 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-bolt-elements-textPrimary">{provider.name}</div>
+                <div className="text-xs text-bolt-elements-textSecondary truncate">
+                  {TYPE_LABELS[provider.type]} · {provider.baseUrl} · {provider.models.length}{' '}
+                  {provider.models.length === 1 ? 'model' : 'models'}
+                </div>
+              </div>
+              <button
+                className="i-ph:pencil-simple text-bolt-elements-textSecondary hover:text-purple-500"
+                title="Edit"
+                onClick={() => startEditing(provider)}
+              />
+              <button
+                className="i-ph:trash text-bolt-elements-textSecondary hover:text-red-500"
+                title="Remove"
+                onClick={() => remove(provider.name)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing !== null && (
+        <div className="p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-sm text-bolt-elements-textSecondary space-y-1">
+              <span>Name</span>
+              <input
+                value={form.name}
+                placeholder="My Endpoint"
+                onChange={(e) => updateForm({ name: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-bolt-elements-textSecondary space-y-1">
+              <span>API type</span>
+              <select
+                value={form.type}
+                onChange={(e) => updateForm({ type: e.target.value as CustomProviderType })}
+                className={inputClassName}
+              >
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-bolt-elements-textSecondary space-y-1">
+              <span>Base URL</span>
+              <input
+                value={form.baseUrl}
+                placeholder="https://api.example.com/v1"
+                onChange={(e) => updateForm({ baseUrl: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-bolt-elements-textSecondary space-y-1">
+              <span>API key</span>
+              <input
+                type="password"
+                value={form.apiKey}
+                placeholder="Optional"
+                onChange={(e) => updateForm({ apiKey: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-sm text-bolt-elements-textSecondary space-y-1">
+              <span>Models, one per line</span>
+              <textarea
+                rows={4}
+                value={form.models}
+                placeholder="model-name"
+                onChange={(e) => updateForm({ models: e.target.value })}
+                className={classNames(inputClassName, 'font-mono resize-y')}
+              />
+            </label>
+            <label className="text-sm text-bolt-elements-textSecondary space-y-1">
+              <span>Extra headers, one per line</span>
+              <textarea
+                rows={4}
+                value={form.headers}
+                placeholder="X-Header: value"
+                onChange={(e) => updateForm({ headers: e.target.value })}
+                className={classNames(inputClassName, 'font-mono resize-y')}
+              />
+            </label>
+            <label className="text-sm text-bolt-elements-textSecondary space-y-1">
+              <span>Max output tokens</span>
+              <input
+                type="number"
+                min="1"
+                value={form.maxTokenAllowed}
+                onChange={(e) => updateForm({ maxTokenAllowed: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(null)}
+              className="px-3 py-1.5 rounded-lg text-sm text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              className="px-3 py-1.5 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
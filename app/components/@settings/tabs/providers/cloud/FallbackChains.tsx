@@ -0,0 +1,176 @@
+import { useMemo, useState } from 'react';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { logStore } from '~/lib/stores/logs';
+import type { IProviderConfig, ModelFallback } from '~/types/model';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+);
+
+export function FallbackChains() {
+  const settings = useSettings();
+  const providers = useMemo(
+    () =>
+      Object.entries(settings.providers || {})
+        .filter(([, provider]) => provider.settings.enabled)
+        .map(([name, provider]) => ({ ...provider, name }) as IProviderConfig)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [settings.providers],
+  );
+
+  const [selectedName, setSelectedName] = useState<string>();
+  const [newProvider, setNewProvider] = useState('');
+  const [newModel, setNewModel] = useState('');
+
+  const selected = providers.find((provider) => provider.name === selectedName) ?? providers[0];
+  const fallbacks = selected?.settings.fallbacks ?? [];
+  const modelOptions = providers.find((provider) => provider.name === newProvider)?.staticModels ?? [];
+
+  const updateFallbacks = (updated: ModelFallback[]) => {
+    if (!selected) {
+      return;
+    }
+
+    settings.updateProviderSettings(selected.name, { ...selected.settings, fallbacks: updated });
+    logStore.logProvider(`Fallback chain updated for ${selected.name}`, {
+      provider: selected.name,
+      fallbacks: updated,
+    });
+  };
+
+  const addFallback = () => {
+    if (!newProvider || !newModel.trim()) {
+      return;
+    }
+
+    updateFallbacks([...fallbacks, { provider: newProvider, model: newModel.trim() }]);
+    setNewModel('');
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    const updated = [...fallbacks];
+    const [fallback] = updated.splice(index, 1);
+    updated.splice(index + offset, 0, fallback);
+    updateFallbacks(updated);
+  };
+
+  if (!selected) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <div
+          className={classNames(
+            'w-8 h-8 flex items-center justify-center rounded-lg',
+            'bg-bolt-elements-background-depth-3',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:arrows-split w-5 h-5" />
+        </div>
+        <div>
+          <h4 className="text-md font-medium text-bolt-elements-textPrimary">Fallback Chains</h4>
+          <p className="text-sm text-bolt-elements-textSecondary">
+            Models to switch to, in order, when a provider is rate limited, out of quota or unreachable
+          </p>
+        </div>
+      </div>
+
+      <div className="p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor space-y-3">
+        <label className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+          When
+          <select value={selected.name} onChange={(e) => setSelectedName(e.target.value)} className={inputClassName}>
+            {providers.map((provider) => (
+              <option key={provider.name} value={provider.name}>
+                {provider.name}
+              </option>
+            ))}
+          </select>
+          fails, try:
+        </label>
+
+        {fallbacks.length === 0 ? (
+          <p className="text-sm text-bolt-elements-textTertiary">No fallbacks, errors are shown right away.</p>
+        ) : (
+          <ol className="space-y-2">
+            {fallbacks.map((fallback, index) => (
+              <li
+                key={`${fallback.provider}-${fallback.model}-${index}`}
+                className="flex items-center gap-2 text-sm text-bolt-elements-textPrimary"
+              >
+                <span className="w-5 text-bolt-elements-textTertiary">{index + 1}.</span>
+                <span className="flex-1 truncate">
+                  {fallback.model} <span className="text-bolt-elements-textSecondary">({fallback.provider})</span>
+                  {!providers.some((provider) => provider.name === fallback.provider) && (
+                    <span className="ml-2 text-xs text-yellow-500">provider disabled, skipped</span>
+                  )}
+                </span>
+                <button
+                  className="i-ph:arrow-up text-bolt-elements-textSecondary hover:text-purple-500 disabled:opacity-30"
+                  title="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveFallback(index, -1)}
+                />
+                <button
+                  className="i-ph:arrow-down text-bolt-elements-textSecondary hover:text-purple-500 disabled:opacity-30"
+                  title="Move down"
+                  disabled={index === fallbacks.length - 1}
+                  onClick={() => moveFallback(index, 1)}
+                />
+                <button
+                  className="i-ph:trash text-bolt-elements-textSecondary hover:text-red-500"
+                  title="Remove"
+                  onClick={() => updateFallbacks(fallbacks.filter((_, i) => i !== index))}
+                />
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex items-center gap-2">
+          <select value={newProvider} onChange={(e) => setNewProvider(e.target.value)} className={inputClassName}>
+            <option value="">Provider</option>
+            {providers.map((provider) => (
+              <option key={provider.name} value={provider.name}>
+                {provider.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            list="fallback-models"
+            value={newModel}
+            placeholder="Model name"
+            onChange={(e) => setNewModel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addFallback()}
+            className={classNames(inputClassName, 'flex-1')}
+          />
+          <datalist id="fallback-models">
+            {modelOptions.map((model) => (
+              <option key={model.name} value={model.name}>
+                {model.label}
+              </option>
+            ))}
+          </datalist>
+          <button
+            onClick={addFallback}
+            disabled={!newProvider || !newModel.trim()}
+            className={classNames(
+              'px-3 py-1.5 rounded-lg text-sm',
+              'bg-purple-500/10 text-purple-500 hover:bg-purple-500/20',
+              'disabled:opacity-50 disabled:cursor-not-allowed',
+            )}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
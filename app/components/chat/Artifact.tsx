@@ -3,7 +3,7 @@ import { AnimatePresence, motion } from 'framer-motion';
 import { computed } from 'nanostores';
 import { memo, useEffect, useRef, useState } from 'react';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
-import type { ActionState } from '~/lib/runtime/action-runner';
+import type { ActionRunner, ActionState } from '~/lib/runtime/action-runner';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
@@ -33,15 +33,18 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
   const artifacts = useStore(workbenchStore.artifacts);
   const artifact = artifacts[messageId];
 
-  const actions = useStore(
+  const actionEntries = useStore(
     computed(artifact.runner.actions, (actions) => {
       // Filter out Supabase actions except for migrations
-      return Object.values(actions).filter((action) => {
+      return Object.entries(actions).filter(([, action]) => {
         // Exclude actions with type 'supabase' or actions that contain 'supabase' in their content
         return action.type !== 'supabase' && !(action.type === 'shell' && action.content?.includes('supabase'));
       });
     }),
   );
+  const actions = actionEntries.map(([, action]) => action);
+  const awaitingApproval = actionEntries.filter(([, action]) => action.status === 'awaitingApproval');
+  const isDryRun = actions.some((action) => action.status === 'skipped');
 
   const toggleActions = () => {
     userToggledActions.current = true;
@@ -55,7 +58,10 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
 
     if (actions.length !== 0 && artifact.type === 'bundled') {
       const finished = !actions.find(
-        (action) => action.status !== 'complete' && !(action.type === 'start' && action.status === 'running'),
+        (action) =>
+          action.status !== 'complete' &&
+          action.status !== 'skipped' &&
+          !(action.type === 'start' && action.status === 'running'),
       );
 
       if (allActionFinished !== finished) {
@@ -134,6 +140,7 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
             </div>
           </div>
         )}
+        {awaitingApproval.length > 0 && <ApprovalRequests runner={artifact.runner} requests={awaitingApproval} />}
         <AnimatePresence>
           {artifact.type !== 'bundled' && showActions && actions.length > 0 && (
             <motion.div
@@ -146,6 +153,11 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
               <div className="bg-bolt-elements-artifacts-borderColor h-[1px]" />
 
               <div className="p-5 text-left bg-bolt-elements-actions-background">
+                {isDryRun && (
+                  <div className="mb-3 text-xs text-bolt-elements-textSecondary">
+                    Dry run: nothing was written or executed. These are the steps this artifact would perform.
+                  </div>
+                )}
                 <ActionList actions={actions} />
               </div>
             </motion.div>
@@ -175,6 +187,45 @@ function ShellCodeBlock({ classsName, code }: ShellCodeBlockProps) {
   );
 }
 
+interface ApprovalRequestsProps {
+  runner: ActionRunner;
+  requests: [string, ActionState][];
+}
+
+const ApprovalRequests = memo(({ runner, requests }: ApprovalRequestsProps) => {
+  return (
+    <div className="flex flex-col gap-3 p-5 bg-bolt-elements-actions-background border-t border-bolt-elements-artifacts-borderColor">
+      {requests.map(([actionId, action]) => (
+        <div key={actionId} className="flex flex-col gap-2">
+          <div className="flex items-center gap-1.5 text-sm text-bolt-elements-textPrimary">
+            <div className="i-ph:shield-warning text-lg text-yellow-500"></div>
+            <span className="flex-1">
+              {action.type === 'start'
+                ? 'Start application?'
+                : action.type === 'build'
+                  ? 'Build project?'
+                  : 'Run command?'}
+            </span>
+            <button
+              className="px-2.5 py-1 rounded-md text-xs bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover"
+              onClick={() => runner.approveAction(actionId)}
+            >
+              Approve
+            </button>
+            <button
+              className="px-2.5 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover"
+              onClick={() => runner.rejectAction(actionId)}
+            >
+              Reject
+            </button>
+          </div>
+          <ShellCodeBlock code={action.type === 'build' ? 'npm run build' : action.content} />
+        </div>
+      ))}
+    </div>
+  );
+});
+
 interface ActionListProps {
   actions: ActionState[];
 }
@@ -223,6 +274,10 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     </>
                   ) : status === 'pending' ? (
                     <div className="i-ph:circle-duotone"></div>
+                  ) : status === 'awaitingApproval' ? (
+                    <div className="i-ph:hand-palm"></div>
+                  ) : status === 'skipped' ? (
+                    <div className="i-ph:minus-circle"></div>
                   ) : status === 'complete' ? (
                     <div className="i-ph:check"></div>
                   ) : status === 'failed' || status === 'aborted' ? (
@@ -231,7 +286,17 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                 </div>
                 {type === 'file' ? (
                   <div>
-                    Create{' '}
+                    {status === 'skipped' ? 'Write' : 'Create'}{' '}
+                    <code
+                      className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+                      onClick={() => openArtifactInWorkbench(action.filePath)}
+                    >
+                      {action.filePath}
+                    </code>
+                  </div>
+                ) : type === 'patch' ? (
+                  <div>
+                    Update{' '}
                     <code
                       className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
                       onClick={() => openArtifactInWorkbench(action.filePath)}
@@ -253,8 +318,15 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                   >
                     <span className="flex-1">Start Application</span>
                   </a>
+                ) : type === 'build' ? (
+                  <div className="flex items-center w-full min-h-[28px]">
+                    <span className="flex-1">Build project</span>
+                  </div>
                 ) : null}
               </div>
+              {action.status === 'failed' && action.error !== 'Action failed' && (
+                <div className="mt-1 ml-6 text-xs text-bolt-elements-icon-error">{action.error}</div>
+              )}
               {(type === 'shell' || type === 'start') && (
                 <ShellCodeBlock
                   classsName={classNames('mt-1', {
@@ -273,9 +345,13 @@ const ActionList = memo(({ actions }: ActionListProps) => {
 
 function getIconColor(status: ActionState['status']) {
   switch (status) {
-    case 'pending': {
+    case 'pending':
+    case 'skipped': {
       return 'text-bolt-elements-textTertiary';
     }
+    case 'awaitingApproval': {
+      return 'text-yellow-500';
+    }
     case 'running': {
       return 'text-bolt-elements-loader-progress';
     }
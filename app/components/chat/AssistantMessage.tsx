@@ -7,6 +7,7 @@ import { WORK_DIR } from '~/utils/constants';
 import WithTooltip from '~/components/ui/Tooltip';
 import type { Message } from 'ai';
 import type { ProviderInfo } from '~/types/model';
+import type { ChatMode } from '~/types/chat';
 import type {
   TextUIPart,
   ReasoningUIPart,
@@ -16,7 +17,8 @@ import type {
   StepStartUIPart,
 } from '@ai-sdk/ui-utils';
 import { ToolInvocations } from './ToolInvocations';
-import type { ToolCallAnnotation } from '~/types/context';
+import type { ToolCallAnnotation, UsageAnnotation } from '~/types/context';
+import { formatCost } from '~/lib/stores/usage';
 
 interface AssistantMessageProps {
   content: string;
@@ -24,9 +26,10 @@ interface AssistantMessageProps {
   messageId?: string;
   onRewind?: (messageId: string) => void;
   onFork?: (messageId: string) => void;
+  onViewFileHistory?: (messageId: string) => void;
   append?: (message: Message) => void;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   model?: string;
   provider?: ProviderInfo;
   parts:
@@ -66,6 +69,7 @@ export const AssistantMessage = memo(
     messageId,
     onRewind,
     onFork,
+    onViewFileHistory,
     append,
     chatMode,
     setChatMode,
@@ -91,11 +95,9 @@ export const AssistantMessage = memo(
       codeContext = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.files;
     }
 
-    const usage: {
-      completionTokens: number;
-      promptTokens: number;
-      totalTokens: number;
-    } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+    const usage: UsageAnnotation['value'] | undefined = filteredAnnotations.find(
+      (annotation) => annotation.type === 'usage',
+    )?.value;
 
     const toolInvocations = parts?.filter((part) => part.type === 'tool-invocation');
     const toolCallAnnotations = filteredAnnotations.filter(
@@ -149,10 +151,20 @@ export const AssistantMessage = memo(
               {usage && (
                 <div>
                   Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
+                  {usage.cost !== undefined && ` · ${formatCost(usage.cost)}`}
                 </div>
               )}
-              {(onRewind || onFork) && messageId && (
+              {(onRewind || onFork || onViewFileHistory) && messageId && (
                 <div className="flex gap-2 flex-col lg:flex-row ml-auto">
+                  {onViewFileHistory && (
+                    <WithTooltip tooltip="Compare file changes">
+                      <button
+                        onClick={() => onViewFileHistory(messageId)}
+                        key="i-ph:clock-counter-clockwise"
+                        className="i-ph:clock-counter-clockwise text-xl text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+                      />
+                    </WithTooltip>
+                  )}
                   {onRewind && (
                     <WithTooltip tooltip="Revert to this message">
                       <button
@@ -2,27 +2,44 @@ import { useStore } from '@nanostores/react';
 import type { Message } from 'ai';
 import { useChat } from '@ai-sdk/react';
 import { useAnimate } from 'framer-motion';
-import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts } from '~/lib/hooks';
 import { description, useChatHistory } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
+import { isAutoFixPrompt, resetAutoFix } from '~/lib/stores/autoFix';
+import { isPlanTaskPrompt, stopPlan } from '~/lib/stores/plan';
+import { formatCost, getBudgetStatus } from '~/lib/stores/usage';
+import { selectContextChunks } from '~/lib/stores/codeIndex';
+import { redactSecrets, secretsStore } from '~/lib/stores/secrets';
 import { workbenchStore } from '~/lib/stores/workbench';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY } from '~/utils/constants';
+import { LLMManager } from '~/lib/modules/llm/manager';
 import { cubicEasingFn } from '~/utils/easings';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BaseChat } from './BaseChat';
 import Cookies from 'js-cookie';
 import { debounce } from '~/utils/debounce';
 import { useSettings } from '~/lib/hooks/useSettings';
+import { useAutoFix } from '~/lib/hooks/useAutoFix';
+import { useProjectDiagnostics } from '~/lib/hooks/useProjectDiagnostics';
+import { useCollabChat } from '~/lib/hooks/useCollabChat';
+import {
+  dismissProjectDiagnostics,
+  projectDiagnosticsStore,
+  takePendingDiagnostics,
+} from '~/lib/stores/projectDiagnostics';
+import { usePlanRunner } from '~/lib/hooks/usePlanRunner';
 import type { ProviderInfo } from '~/types/model';
+import type { ChatMode } from '~/types/chat';
 import { useSearchParams } from '@remix-run/react';
 import { createSampler } from '~/utils/sampler';
 import { getTemplates, selectStarterTemplate } from '~/utils/selectStarterTemplate';
 import { logStore } from '~/lib/stores/logs';
 import { streamingState } from '~/lib/stores/streaming';
 import { filesToArtifacts } from '~/utils/fileUtils';
-import { supabaseConnection } from '~/lib/stores/supabase';
+import { appendMcpResources, type McpResourceAttachment } from '~/utils/mcpContext';
+import { fetchSupabaseSchema, supabaseConnection, supabaseSchema } from '~/lib/stores/supabase';
 import { defaultDesignScheme, type DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import type { TextUIPart, FileUIPart, Attachment } from '@ai-sdk/ui-utils';
@@ -125,6 +142,10 @@ export const ChatImpl = memo(
     const [searchParams, setSearchParams] = useSearchParams();
     const [fakeLoading, setFakeLoading] = useState(false);
     const files = useStore(workbenchStore.files);
+    const secrets = useStore(secretsStore);
+
+    // the LLM only sees the names of the secrets
+    const llmFiles = useMemo(() => redactSecrets(files), [files, secrets]);
     const [designScheme, setDesignScheme] = useState<DesignScheme>(defaultDesignScheme);
     const actionAlert = useStore(workbenchStore.alert);
     const deployAlert = useStore(workbenchStore.deployAlert);
@@ -133,7 +154,10 @@ export const ChatImpl = memo(
       (project) => project.id === supabaseConn.selectedProjectId,
     );
     const supabaseAlert = useStore(workbenchStore.supabaseAlert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const { schema: supabaseDbSchema } = useStore(supabaseSchema);
+    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled, diagnosticsAutoInclude } =
+      useSettings();
+    const projectDiagnostics = useStore(projectDiagnosticsStore);
     const [llmErrorAlert, setLlmErrorAlert] = useState<LlmErrorAlertType | undefined>(undefined);
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -141,13 +165,15 @@ export const ChatImpl = memo(
     });
     const [provider, setProvider] = useState(() => {
       const savedProvider = Cookies.get('selectedProvider');
-      return (PROVIDER_LIST.find((p) => p.name === savedProvider) || DEFAULT_PROVIDER) as ProviderInfo;
+      return ((savedProvider && LLMManager.getInstance().getProvider(savedProvider)) ||
+        DEFAULT_PROVIDER) as ProviderInfo;
     });
     const { showChat } = useStore(chatStore);
     const [animationScope, animate] = useAnimate();
     const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
-    const [chatMode, setChatMode] = useState<'discuss' | 'build'>('build');
+    const [chatMode, setChatMode] = useState<ChatMode>('build');
     const [selectedElement, setSelectedElement] = useState<ElementInfo | null>(null);
+    const [mcpResources, setMcpResources] = useState<McpResourceAttachment[]>([]);
     const mcpSettings = useMCPStore((state) => state.settings);
 
     const {
@@ -168,11 +194,12 @@ export const ChatImpl = memo(
       api: '/api/chat',
       body: {
         apiKeys,
-        files,
+        files: llmFiles,
         promptId,
         contextOptimization: contextOptimizationEnabled,
         chatMode,
         designScheme,
+        secretNames: Object.keys(secrets),
         supabase: {
           isConnected: supabaseConn.isConnected,
           hasSelectedProject: !!selectedProject,
@@ -180,8 +207,10 @@ export const ChatImpl = memo(
             supabaseUrl: supabaseConn?.credentials?.supabaseUrl,
             anonKey: supabaseConn?.credentials?.anonKey,
           },
+          schema: supabaseDbSchema?.projectId === selectedProject?.id ? supabaseDbSchema?.tables : undefined,
         },
         maxLLMSteps: mcpSettings.maxLLMSteps,
+        projectTools: !!mcpSettings.projectTools,
       },
       sendExtraMessageFields: true,
       onError: (e) => {
@@ -233,6 +262,13 @@ export const ChatImpl = memo(
       chatStore.setKey('started', initialMessages.length > 0);
     }, []);
 
+    // the model writes migrations against the schema of the selected project
+    useEffect(() => {
+      if (supabaseConn.token && selectedProject) {
+        fetchSupabaseSchema();
+      }
+    }, [supabaseConn.token, selectedProject?.id]);
+
     useEffect(() => {
       processSampledMessages({
         messages,
@@ -419,18 +455,40 @@ export const ChatImpl = memo(
       return attachments;
     };
 
-    const sendMessage = async (_event: React.UIEvent, messageInput?: string) => {
+    const sendMessage = async (_event?: React.UIEvent, messageInput?: string) => {
       const messageContent = messageInput || input;
 
       if (!messageContent?.trim()) {
         return;
       }
 
+      if (!isAutoFixPrompt(messageContent)) {
+        resetAutoFix();
+
+        if (!isPlanTaskPrompt(messageContent)) {
+          stopPlan();
+        }
+      }
+
       if (isLoading) {
         abort();
         return;
       }
 
+      const budget = await getBudgetStatus().catch(() => undefined);
+
+      if (budget?.exceeded) {
+        const sendAnyway = window.confirm(
+          `You have spent ${formatCost(budget.spent)} of your ${formatCost(budget.limit)} monthly budget. Send anyway?`,
+        );
+
+        if (!sendAnyway) {
+          return;
+        }
+      } else if (budget?.nearLimit) {
+        toast.warning(`You have spent ${formatCost(budget.spent)} of your ${formatCost(budget.limit)} monthly budget`);
+      }
+
       let finalMessageContent = messageContent;
 
       if (selectedElement) {
@@ -440,6 +498,10 @@ export const ChatImpl = memo(
         finalMessageContent = messageContent + elementInfo;
       }
 
+      if (mcpResources.length > 0) {
+        finalMessageContent = appendMcpResources(finalMessageContent, mcpResources);
+      }
+
       runAnimation();
 
       if (!chatStarted) {
@@ -498,6 +560,7 @@ export const ChatImpl = memo(
 
               setUploadedFiles([]);
               setImageDataList([]);
+              setMcpResources([]);
 
               resetEnhancer();
 
@@ -529,6 +592,7 @@ export const ChatImpl = memo(
 
         setUploadedFiles([]);
         setImageDataList([]);
+        setMcpResources([]);
 
         resetEnhancer();
 
@@ -545,8 +609,11 @@ export const ChatImpl = memo(
 
       chatStore.setKey('aborted', false);
 
+      const contextChunks = await selectContextChunks(messageContent);
+      const diagnostics = diagnosticsAutoInclude ? takePendingDiagnostics() : undefined;
+
       if (modifiedFiles !== undefined) {
-        const userUpdateArtifact = filesToArtifacts(modifiedFiles, `${Date.now()}`);
+        const userUpdateArtifact = filesToArtifacts(redactSecrets(modifiedFiles), `${Date.now()}`);
         const messageText = `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${userUpdateArtifact}${finalMessageContent}`;
 
         const attachmentOptions =
@@ -558,7 +625,7 @@ export const ChatImpl = memo(
             content: messageText,
             parts: createMessageParts(messageText, imageDataList),
           },
-          attachmentOptions,
+          { ...attachmentOptions, body: { contextChunks, diagnostics } },
         );
 
         workbenchStore.resetAllFileModifications();
@@ -574,7 +641,7 @@ export const ChatImpl = memo(
             content: messageText,
             parts: createMessageParts(messageText, imageDataList),
           },
-          attachmentOptions,
+          { ...attachmentOptions, body: { contextChunks, diagnostics } },
         );
       }
 
@@ -583,12 +650,33 @@ export const ChatImpl = memo(
 
       setUploadedFiles([]);
       setImageDataList([]);
+      setMcpResources([]);
 
       resetEnhancer();
 
       textareaRef.current?.blur();
     };
 
+    useAutoFix({ isLoading, sendMessage: (message) => sendMessage(undefined, message) });
+    useProjectDiagnostics({ messages, isLoading });
+    useCollabChat({
+      messages,
+      isLoading,
+      onRemoteMessages: (remoteMessages) => {
+        setMessages(remoteMessages);
+
+        if (!chatStarted) {
+          runAnimation();
+        }
+      },
+    });
+    usePlanRunner({
+      messages,
+      isLoading,
+      hasError: error != null,
+      sendMessage: (message) => sendMessage(undefined, message),
+    });
+
     /**
      * Handles the change event for the textarea and updates the input state.
      * @param event - The change event from the textarea.
@@ -688,6 +776,9 @@ export const ChatImpl = memo(
         clearDeployAlert={() => workbenchStore.clearDeployAlert()}
         llmErrorAlert={llmErrorAlert}
         clearLlmErrorAlert={clearApiErrorAlert}
+        projectDiagnostics={projectDiagnostics.pending && !isLoading ? projectDiagnostics.diagnostics : undefined}
+        diagnosticsAutoInclude={diagnosticsAutoInclude}
+        clearProjectDiagnostics={dismissProjectDiagnostics}
         data={chatData}
         chatMode={chatMode}
         setChatMode={setChatMode}
@@ -696,6 +787,8 @@ export const ChatImpl = memo(
         setDesignScheme={setDesignScheme}
         selectedElement={selectedElement}
         setSelectedElement={setSelectedElement}
+        mcpResources={mcpResources}
+        setMcpResources={setMcpResources}
         addToolResult={addToolResult}
       />
     );
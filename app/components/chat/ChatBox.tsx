@@ -15,10 +15,15 @@ import { SupabaseConnection } from './SupabaseConnection';
 import { ExpoQrModal } from '~/components/workbench/ExpoQrModal';
 import styles from './BaseChat.module.scss';
 import type { ProviderInfo } from '~/types/model';
+import type { ChatMode } from '~/types/chat';
 import { ColorSchemeDialog } from '~/components/ui/ColorSchemeDialog';
 import type { DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import { McpTools } from './MCPTools';
+import { CommandPolicySettings } from './CommandPolicySettings';
+import { ContextMeter } from './ContextMeter';
+import type { ContextBudgetAnnotation } from '~/types/context';
+import type { McpResourceAttachment } from '~/utils/mcpContext';
 
 interface ChatBoxProps {
   isModelSettingsCollapsed: boolean;
@@ -55,15 +60,52 @@ interface ChatBoxProps {
   handleStop?: (() => void) | undefined;
   enhancingPrompt?: boolean | undefined;
   enhancePrompt?: (() => void) | undefined;
-  chatMode?: 'discuss' | 'build';
-  setChatMode?: (mode: 'discuss' | 'build') => void;
+  chatMode?: ChatMode;
+  setChatMode?: (mode: ChatMode) => void;
   designScheme?: DesignScheme;
   setDesignScheme?: (scheme: DesignScheme) => void;
   selectedElement?: ElementInfo | null;
   setSelectedElement?: ((element: ElementInfo | null) => void) | undefined;
+  contextBudget?: ContextBudgetAnnotation;
+  mcpResources?: McpResourceAttachment[];
+  setMcpResources?: ((resources: McpResourceAttachment[]) => void) | undefined;
 }
 
+const dataUrlToFile = (dataUrl: string, name: string) => {
+  const [header, data] = dataUrl.split(',');
+  const type = header.split(';')[0].split(':')[1];
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+
+  return new File([bytes], name, { type });
+};
+
 export const ChatBox: React.FC<ChatBoxProps> = (props) => {
+  const mcpResources = props.mcpResources ?? [];
+
+  const attachMcpResource = (resource: McpResourceAttachment | undefined, images: string[]) => {
+    if (resource) {
+      props.setMcpResources?.([
+        ...mcpResources.filter(({ serverName, uri }) => serverName !== resource.serverName || uri !== resource.uri),
+        resource,
+      ]);
+    }
+
+    if (images.length > 0) {
+      props.setUploadedFiles?.([
+        ...props.uploadedFiles,
+        ...images.map((image, index) => dataUrlToFile(image, `mcp-resource-${index + 1}`)),
+      ]);
+      props.setImageDataList?.([...props.imageDataList, ...images]);
+    }
+  };
+
+  const insertMcpPrompt = (text: string) => {
+    props.handleInputChange?.({
+      target: { value: props.input ? `${props.input}\n\n${text}` : text },
+    } as React.ChangeEvent<HTMLTextAreaElement>);
+    props.textareaRef?.current?.focus();
+  };
+
   return (
     <div
       className={classNames(
@@ -140,6 +182,25 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
           props.setImageDataList?.(props.imageDataList.filter((_, i) => i !== index));
         }}
       />
+      {mcpResources.length > 0 && (
+        <div className="flex flex-wrap gap-2 mx-1.5 mb-2">
+          {mcpResources.map((resource) => (
+            <div
+              key={`${resource.serverName}:${resource.uri}`}
+              className="flex items-center gap-1.5 max-w-60 px-2 py-1 rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-3 text-xs text-bolt-elements-textPrimary"
+              title={`${resource.uri} from ${resource.serverName}`}
+            >
+              <div className="i-bolt:mcp flex-shrink-0" />
+              <span className="truncate">{resource.name}</span>
+              <button
+                className="i-ph:x flex-shrink-0 bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+                title="Remove resource"
+                onClick={() => props.setMcpResources?.(mcpResources.filter((item) => item !== resource))}
+              />
+            </div>
+          ))}
+        </div>
+      )}
       <ClientOnly>
         {() => (
           <ScreenshotStateManager
@@ -236,7 +297,13 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
             minHeight: props.TEXTAREA_MIN_HEIGHT,
             maxHeight: props.TEXTAREA_MAX_HEIGHT,
           }}
-          placeholder={props.chatMode === 'build' ? 'How can Bolt help you today?' : 'What would you like to discuss?'}
+          placeholder={
+            props.chatMode === 'plan'
+              ? 'What should Bolt plan?'
+              : props.chatMode === 'build'
+                ? 'How can Bolt help you today?'
+                : 'What would you like to discuss?'
+          }
           translate="no"
         />
         <ClientOnly>
@@ -261,7 +328,8 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
         <div className="flex justify-between items-center text-sm p-4 pt-2">
           <div className="flex gap-1 items-center">
             <ColorSchemeDialog designScheme={props.designScheme} setDesignScheme={props.setDesignScheme} />
-            <McpTools />
+            <McpTools onAttachResource={attachMcpResource} onInsertPrompt={insertMcpPrompt} />
+            <ClientOnly>{() => <CommandPolicySettings />}</ClientOnly>
             <IconButton title="Upload file" className="transition-all" onClick={() => props.handleFileUpload()}>
               <div className="i-ph:paperclip text-xl"></div>
             </IconButton>
@@ -304,6 +372,21 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
                 {props.chatMode === 'discuss' ? <span>Discuss</span> : <span />}
               </IconButton>
             )}
+            <IconButton
+              title="Plan"
+              className={classNames(
+                'transition-all flex items-center gap-1 px-1.5',
+                props.chatMode === 'plan'
+                  ? '!bg-bolt-elements-item-backgroundAccent !text-bolt-elements-item-contentAccent'
+                  : 'bg-bolt-elements-item-backgroundDefault text-bolt-elements-item-contentDefault',
+              )}
+              onClick={() => {
+                props.setChatMode?.(props.chatMode === 'plan' ? 'build' : 'plan');
+              }}
+            >
+              <div className={`i-ph:list-checks text-xl`} />
+              {props.chatMode === 'plan' ? <span>Plan</span> : <span />}
+            </IconButton>
             <IconButton
               title="Model Settings"
               className={classNames('transition-all flex items-center gap-1', {
@@ -325,6 +408,7 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
               <kbd className="kdb px-1.5 py-0.5 rounded bg-bolt-elements-background-depth-2">Return</kbd> a new line
             </div>
           ) : null}
+          <ContextMeter budget={props.contextBudget} />
           <SupabaseConnection />
           <ExpoQrModal open={props.qrModalOpen} onClose={() => props.setQrModalOpen(false)} />
         </div>
@@ -0,0 +1,128 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { Dialog, DialogRoot, DialogClose, DialogTitle, DialogDescription, DialogButton } from '~/components/ui/Dialog';
+import { IconButton } from '~/components/ui/IconButton';
+import { Switch } from '~/components/ui/Switch';
+import { chatId } from '~/lib/persistence';
+import { commandPoliciesStore, getCommandPolicy, updateCommandPolicy } from '~/lib/stores/commandPolicy';
+import type { CommandApprovalMode } from '~/types/actions';
+import { classNames } from '~/utils/classNames';
+
+const APPROVAL_MODES: { value: CommandApprovalMode; label: string; description: string }[] = [
+  { value: 'auto', label: 'Auto-run', description: 'Commands run as soon as the AI emits them' },
+  { value: 'ask', label: 'Ask', description: 'Each command waits for your approval in the chat' },
+];
+
+export function CommandPolicySettings() {
+  const currentChatId = useStore(chatId);
+
+  // subscribe so the button reflects changes made elsewhere
+  useStore(commandPoliciesStore);
+
+  const policy = getCommandPolicy(currentChatId);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [denyPatterns, setDenyPatterns] = useState(policy.denyPatterns.join('\n'));
+
+  useEffect(() => {
+    if (isDialogOpen) {
+      setDenyPatterns(getCommandPolicy(currentChatId).denyPatterns.join('\n'));
+    }
+  }, [isDialogOpen, currentChatId]);
+
+  const saveDenyPatterns = () => {
+    updateCommandPolicy(currentChatId, {
+      denyPatterns: denyPatterns
+        .split('\n')
+        .map((pattern) => pattern.trim())
+        .filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="relative">
+      <IconButton
+        title={policy.dryRun ? 'Command policy (dry run)' : 'Command policy'}
+        className={classNames('transition-all', {
+          '!text-bolt-elements-item-contentAccent': policy.dryRun || policy.mode === 'ask',
+        })}
+        onClick={() => setIsDialogOpen(true)}
+      >
+        <div className={classNames('text-xl', policy.dryRun ? 'i-ph:flask' : 'i-ph:shield-check')}></div>
+      </IconButton>
+
+      <DialogRoot open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        {isDialogOpen && (
+          <Dialog className="max-w-lg w-full p-6" onClose={saveDenyPatterns} onBackdrop={saveDenyPatterns}>
+            <div className="space-y-5">
+              <div>
+                <DialogTitle>
+                  <div className="i-ph:shield-check text-xl"></div>
+                  Command policy
+                </DialogTitle>
+                <DialogDescription>
+                  {currentChatId
+                    ? 'Controls how shell, start and build actions run in this chat.'
+                    : 'Defaults for new chats and chats without their own policy.'}
+                </DialogDescription>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                {APPROVAL_MODES.map((mode) => (
+                  <button
+                    key={mode.value}
+                    onClick={() => updateCommandPolicy(currentChatId, { mode: mode.value })}
+                    className={classNames(
+                      'text-left p-3 rounded-lg border transition-colors',
+                      policy.mode === mode.value
+                        ? 'border-bolt-elements-item-contentAccent bg-bolt-elements-item-backgroundAccent'
+                        : 'border-bolt-elements-borderColor hover:bg-bolt-elements-background-depth-3',
+                    )}
+                  >
+                    <div className="text-sm font-medium text-bolt-elements-textPrimary">{mode.label}</div>
+                    <div className="text-xs text-bolt-elements-textSecondary mt-1">{mode.description}</div>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm font-medium text-bolt-elements-textPrimary">Dry run</div>
+                  <div className="text-xs text-bolt-elements-textSecondary">
+                    List the commands and file writes of each artifact without performing them
+                  </div>
+                </div>
+                <Switch
+                  checked={policy.dryRun}
+                  onCheckedChange={(checked) => updateCommandPolicy(currentChatId, { dryRun: checked })}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-bolt-elements-textPrimary">Deny list</label>
+                <p className="text-xs text-bolt-elements-textSecondary mb-2">
+                  One pattern per line, <code>*</code> matches anything. Matching commands are never run.
+                </p>
+                <textarea
+                  value={denyPatterns}
+                  onChange={(e) => setDenyPatterns(e.target.value)}
+                  onBlur={saveDenyPatterns}
+                  rows={4}
+                  placeholder={'rm -rf *\nnpx *'}
+                  className="w-full p-2 rounded-lg text-sm font-mono bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-focus"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <DialogClose asChild>
+                  <DialogButton type="secondary" onClick={saveDenyPatterns}>
+                    Close
+                  </DialogButton>
+                </DialogClose>
+              </div>
+            </div>
+          </Dialog>
+        )}
+      </DialogRoot>
+    </div>
+  );
+}
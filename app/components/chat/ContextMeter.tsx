@@ -0,0 +1,85 @@
+import type { Message } from 'ai';
+import WithTooltip from '~/components/ui/Tooltip';
+import type { ContextBudgetAnnotation, ContextBudgetPart } from '~/types/context';
+import { classNames } from '~/utils/classNames';
+
+const PART_LABELS: Record<ContextBudgetPart, string> = {
+  system: 'System prompt',
+  context: 'Context files',
+  summary: 'Chat summary',
+  lockedFiles: 'Locked files',
+  messages: 'Messages',
+};
+
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`);
+
+/**
+ * Returns the context budget of the latest response, the last annotation wins when the
+ * response was continued or retried with a fallback model.
+ */
+export function getLatestContextBudget(messages: Message[]) {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const budget = messages[index].annotations?.findLast(
+      (annotation) =>
+        !!annotation && typeof annotation === 'object' && (annotation as { type?: string }).type === 'contextBudget',
+    );
+
+    if (budget) {
+      return budget as ContextBudgetAnnotation;
+    }
+  }
+
+  return undefined;
+}
+
+export function ContextMeter({ budget }: { budget?: ContextBudgetAnnotation }) {
+  if (!budget) {
+    return null;
+  }
+
+  const usedTokens = budget.promptTokens + budget.reservedTokens;
+  const share = Math.min(usedTokens / budget.contextWindow, 1);
+  const trimmed = budget.trimmedMessages > 0 || budget.trimmedFiles.length > 0;
+
+  const tooltip = (
+    <div className="space-y-1 text-xs">
+      {(Object.keys(PART_LABELS) as ContextBudgetPart[])
+        .filter((part) => budget.parts[part] > 0)
+        .map((part) => (
+          <div key={part} className="flex justify-between gap-4">
+            <span>{PART_LABELS[part]}</span>
+            <span>{formatTokens(budget.parts[part])}</span>
+          </div>
+        ))}
+      <div className="flex justify-between gap-4">
+        <span>Reserved for the response</span>
+        <span>{formatTokens(budget.reservedTokens)}</span>
+      </div>
+      {trimmed && (
+        <div className="pt-1 text-bolt-elements-textSecondary">
+          Left out to fit: {budget.trimmedMessages} older messages, {budget.trimmedFiles.length} files
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <WithTooltip tooltip={tooltip}>
+      <div className="flex items-center gap-2 text-xs text-bolt-elements-textTertiary">
+        <div className="w-16 h-1.5 rounded-full bg-bolt-elements-background-depth-3 overflow-hidden">
+          <div
+            className={classNames('h-full', {
+              'bg-green-500': share < 0.8 && !trimmed,
+              'bg-yellow-500': share >= 0.8 && share < 1 && !trimmed,
+              'bg-red-500': share >= 1 || trimmed,
+            })}
+            style={{ width: `${share * 100}%` }}
+          />
+        </div>
+        <span>
+          {formatTokens(usedTokens)} / {formatTokens(budget.contextWindow)}
+        </span>
+      </div>
+    </WithTooltip>
+  );
+}
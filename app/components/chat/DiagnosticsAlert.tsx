@@ -0,0 +1,85 @@
+import { AnimatePresence, motion } from 'framer-motion';
+import type { ProjectDiagnostic } from '~/types/diagnostics';
+import { classNames } from '~/utils/classNames';
+import { formatProjectDiagnostics } from '~/utils/projectDiagnostics';
+
+interface Props {
+  diagnostics: ProjectDiagnostic[];
+
+  // the errors go along with the next message anyway
+  autoInclude: boolean;
+  clearAlert: () => void;
+  postMessage: (message: string) => void;
+}
+
+export default function DiagnosticsAlert({ diagnostics, autoInclude, clearAlert, postMessage }: Props) {
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+  const files = new Set(errors.map((diagnostic) => diagnostic.filePath).filter(Boolean));
+  const summary = `${errors.length} ${errors.length === 1 ? 'error' : 'errors'}${
+    files.size > 0 ? ` in ${files.size} ${files.size === 1 ? 'file' : 'files'}` : ''
+  }`;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        transition={{ duration: 0.3 }}
+        className="rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-4 mb-2"
+      >
+        <div className="flex items-start">
+          <div className="flex-shrink-0 i-ph:bug-duotone text-xl text-bolt-elements-button-danger-text" />
+          <div className="ml-3 flex-1">
+            <h3 className="text-sm font-medium text-bolt-elements-textPrimary">Type and Lint Errors</h3>
+            <div className="mt-2 text-sm text-bolt-elements-textSecondary">
+              <p>
+                The check after the last changes found {summary}.{' '}
+                {autoInclude ? 'They are sent along with your next message.' : 'Would you like Bolt to fix them?'}
+              </p>
+              <ul className="text-xs p-2 bg-bolt-elements-background-depth-3 rounded mt-4 mb-4 max-h-32 overflow-auto">
+                {errors.slice(0, 5).map((diagnostic, index) => (
+                  <li key={index} className="truncate" title={diagnostic.message}>
+                    {diagnostic.filePath && `${diagnostic.filePath}:${diagnostic.line}: `}
+                    {diagnostic.message}
+                  </li>
+                ))}
+                {errors.length > 5 && <li>... and {errors.length - 5} more</li>}
+              </ul>
+            </div>
+            <div className="mt-4 flex gap-2">
+              <button
+                onClick={() =>
+                  postMessage(`*Fix these type and lint errors*\n\`\`\`\n${formatProjectDiagnostics(errors)}\n\`\`\`\n`)
+                }
+                className={classNames(
+                  'px-2 py-1.5 rounded-md text-sm font-medium',
+                  'bg-bolt-elements-button-primary-background',
+                  'hover:bg-bolt-elements-button-primary-backgroundHover',
+                  'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-bolt-elements-button-danger-background',
+                  'text-bolt-elements-button-primary-text',
+                  'flex items-center gap-1.5',
+                )}
+              >
+                <div className="i-ph:chat-circle-duotone"></div>
+                Ask Bolt
+              </button>
+              <button
+                onClick={clearAlert}
+                className={classNames(
+                  'px-2 py-1.5 rounded-md text-sm font-medium',
+                  'bg-bolt-elements-button-secondary-background',
+                  'hover:bg-bolt-elements-button-secondary-backgroundHover',
+                  'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-bolt-elements-button-secondary-background',
+                  'text-bolt-elements-button-secondary-text',
+                )}
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
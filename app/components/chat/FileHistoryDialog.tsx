@@ -0,0 +1,230 @@
+import type { Message } from 'ai';
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogRoot, DialogTitle, DialogDescription, DialogButton } from '~/components/ui/Dialog';
+import { db, getChangesets, getMessagesById } from '~/lib/persistence';
+import type { Changeset } from '~/lib/persistence/types';
+import { getActiveChangesets, reconstructFiles } from '~/lib/persistence/changesets';
+import type { FileMap } from '~/lib/stores/files';
+import { classNames } from '~/utils/classNames';
+import { diffFiles, extractRelativePath } from '~/utils/diff';
+
+interface FileHistoryDialogProps {
+  chatId: string;
+  messageId: string;
+  onClose: () => void;
+  onRewind?: (messageId: string) => void;
+  onFork?: (messageId: string) => void;
+}
+
+interface HistoryPoint {
+  changeset: Changeset;
+  label: string;
+}
+
+interface FileDiff {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  diff?: string;
+  isBinary: boolean;
+}
+
+const EMPTY_PROJECT = '';
+
+function describePoint(messages: Message[], messageId: string) {
+  const index = messages.findIndex((message) => message.id === messageId);
+  const prompt = messages
+    .slice(0, index + 1)
+    .reverse()
+    .find((message) => message.role === 'user' && !message.annotations?.includes('hidden'));
+
+  const text = typeof prompt?.content === 'string' ? prompt.content.replace(/\s+/g, ' ').trim() : '';
+
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text || 'Untitled message';
+}
+
+function compareFiles(before: FileMap, after: FileMap): FileDiff[] {
+  const paths = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const diffs: FileDiff[] = [];
+
+  for (const path of [...paths].sort()) {
+    const oldFile = before[path]?.type === 'file' ? before[path] : undefined;
+    const newFile = after[path]?.type === 'file' ? after[path] : undefined;
+
+    if (!oldFile && !newFile) {
+      continue;
+    }
+
+    if (oldFile?.content === newFile?.content) {
+      continue;
+    }
+
+    const isBinary = !!(oldFile?.isBinary || newFile?.isBinary);
+
+    diffs.push({
+      path: extractRelativePath(path),
+      status: !oldFile ? 'added' : !newFile ? 'deleted' : 'modified',
+      diff: isBinary ? undefined : diffFiles(path, oldFile?.content ?? '', newFile?.content ?? ''),
+      isBinary,
+    });
+  }
+
+  return diffs;
+}
+
+export function FileHistoryDialog({ chatId, messageId, onClose, onRewind, onFork }: FileHistoryDialogProps) {
+  const [points, setPoints] = useState<HistoryPoint[]>();
+  const [fromId, setFromId] = useState(EMPTY_PROJECT);
+  const [toId, setToId] = useState(EMPTY_PROJECT);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    if (!db) {
+      setError('Chat persistence is not available');
+      return;
+    }
+
+    Promise.all([getMessagesById(db, chatId), getChangesets(db, chatId)])
+      .then(([chat, changesets]) => {
+        const messages = chat?.messages ?? [];
+        const active = getActiveChangesets(changesets, messages);
+        const messageIndex = messages.findIndex((message) => message.id === messageId);
+
+        // the selected message may not have changed any files, pick the latest version before it
+        const selectedIndex = active.findLastIndex(
+          (changeset) => messages.findIndex((message) => message.id === changeset.messageId) <= messageIndex,
+        );
+
+        setPoints(active.map((changeset) => ({ changeset, label: describePoint(messages, changeset.messageId) })));
+        setToId(active[selectedIndex]?.messageId ?? EMPTY_PROJECT);
+        setFromId(active[selectedIndex - 1]?.messageId ?? EMPTY_PROJECT);
+      })
+      .catch((error) => setError(error.message));
+  }, [chatId, messageId]);
+
+  const diffs = useMemo(() => {
+    if (!points) {
+      return [];
+    }
+
+    const changesets = points.map((point) => point.changeset);
+    const before = fromId === EMPTY_PROJECT ? {} : reconstructFiles(changesets, fromId);
+    const after = toId === EMPTY_PROJECT ? {} : reconstructFiles(changesets, toId);
+
+    return compareFiles(before, after);
+  }, [points, fromId, toId]);
+
+  const renderSelect = (value: string, onChange: (value: string) => void, label: string) => (
+    <label className="flex-1 min-w-0 text-xs text-bolt-elements-textSecondary">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full mt-1 p-2 rounded-lg text-sm bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-focus"
+      >
+        <option value={EMPTY_PROJECT}>Empty project</option>
+        {points?.map(({ changeset, label }, index) => (
+          <option key={changeset.messageId} value={changeset.messageId}>
+            #{index + 1} {label} ({new Date(changeset.timestamp).toLocaleString()})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <DialogRoot open onOpenChange={(open) => !open && onClose()}>
+      <Dialog className="max-w-3xl w-full p-6" onClose={onClose} onBackdrop={onClose}>
+        <div className="space-y-4">
+          <div>
+            <DialogTitle>
+              <div className="i-ph:clock-counter-clockwise text-xl"></div>
+              File history
+            </DialogTitle>
+            <DialogDescription>
+              Compare the project files between two messages, or roll back and fork from any version.
+            </DialogDescription>
+          </div>
+
+          {error && <div className="text-sm text-bolt-elements-icon-error">{error}</div>}
+
+          {!points && !error && (
+            <div className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+              <div className="i-svg-spinners:90-ring-with-bg" />
+              Loading file history…
+            </div>
+          )}
+
+          {points && points.length === 0 && (
+            <div className="text-sm text-bolt-elements-textSecondary">No file changes were recorded for this chat.</div>
+          )}
+
+          {points && points.length > 0 && (
+            <>
+              <div className="flex gap-3 items-end">
+                {renderSelect(fromId, setFromId, 'From')}
+                <div className="i-ph:arrow-right text-bolt-elements-textTertiary mb-3 shrink-0" />
+                {renderSelect(toId, setToId, 'To')}
+              </div>
+
+              <div className="max-h-[50vh] overflow-y-auto space-y-3">
+                {diffs.length === 0 && (
+                  <div className="text-sm text-bolt-elements-textSecondary">The files are identical.</div>
+                )}
+                {diffs.map(({ path, status, diff, isBinary }) => (
+                  <div key={path} className="rounded-lg border border-bolt-elements-borderColor overflow-hidden">
+                    <div className="flex items-center justify-between px-3 py-2 text-sm bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary">
+                      <span className="font-mono truncate">{path}</span>
+                      <span
+                        className={classNames('text-xs shrink-0 ml-2', {
+                          'text-green-500': status === 'added',
+                          'text-yellow-500': status === 'modified',
+                          'text-red-500': status === 'deleted',
+                        })}
+                      >
+                        {status}
+                      </span>
+                    </div>
+                    {isBinary ? (
+                      <div className="px-3 py-2 text-xs text-bolt-elements-textSecondary">Binary file changed</div>
+                    ) : (
+                      <pre className="px-3 py-2 text-xs font-mono overflow-x-auto bg-bolt-elements-background-depth-1">
+                        {diff?.split('\n').map((line, index) => (
+                          <div
+                            key={index}
+                            className={classNames({
+                              'text-green-500': line.startsWith('+'),
+                              'text-red-500': line.startsWith('-'),
+                              'text-bolt-elements-textTertiary': line.startsWith('@@'),
+                              'text-bolt-elements-textSecondary': /^[^+\-@]/.test(line),
+                            })}
+                          >
+                            {line || ' '}
+                          </div>
+                        ))}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {onFork && toId !== EMPTY_PROJECT && (
+              <DialogButton type="secondary" onClick={() => onFork(toId)}>
+                <div className="i-ph:git-fork" />
+                Fork from “To”
+              </DialogButton>
+            )}
+            {onRewind && toId !== EMPTY_PROJECT && (
+              <DialogButton type="primary" onClick={() => onRewind(toId)}>
+                <div className="i-ph:arrow-u-up-left" />
+                Roll back to “To”
+              </DialogButton>
+            )}
+          </div>
+        </div>
+      </Dialog>
+    </DialogRoot>
+  );
+}
@@ -1,20 +1,102 @@
 import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
 import { classNames } from '~/utils/classNames';
 import { Dialog, DialogRoot, DialogClose, DialogTitle, DialogButton } from '~/components/ui/Dialog';
 import { IconButton } from '~/components/ui/IconButton';
 import { useMCPStore } from '~/lib/stores/mcp';
+import type { MCPPrompt, MCPResource } from '~/lib/services/mcpService';
 import McpServerList from '~/components/@settings/tabs/mcp/McpServerList';
+import { promptMessagesToText, splitResourceContents, type McpResourceAttachment } from '~/utils/mcpContext';
 
-export function McpTools() {
+interface McpToolsProps {
+  onAttachResource?: (resource: McpResourceAttachment | undefined, images: string[]) => void;
+  onInsertPrompt?: (text: string) => void;
+}
+
+type ActivePrompt = {
+  serverName: string;
+  prompt: MCPPrompt;
+};
+
+function PromptArgumentsForm({
+  activePrompt,
+  isInserting,
+  onSubmit,
+  onCancel,
+}: {
+  activePrompt: ActivePrompt;
+  isInserting: boolean;
+  onSubmit: (args: Record<string, string>) => void;
+  onCancel: () => void;
+}) {
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const { prompt, serverName } = activePrompt;
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit(args);
+      }}
+    >
+      <div>
+        <h3 className="text-sm font-medium text-bolt-elements-textPrimary">
+          {prompt.name} <span className="text-bolt-elements-textTertiary font-normal">from {serverName}</span>
+        </h3>
+        {prompt.description && <p className="mt-1 text-xs text-bolt-elements-textSecondary">{prompt.description}</p>}
+      </div>
+      {prompt.arguments?.map((argument) => (
+        <div key={argument.name} className="space-y-1">
+          <label htmlFor={`mcp-prompt-${argument.name}`} className="text-xs text-bolt-elements-textSecondary">
+            {argument.name}
+            {argument.required && <span className="text-red-600 dark:text-red-400 ml-1">*</span>}
+          </label>
+          <input
+            id={`mcp-prompt-${argument.name}`}
+            value={args[argument.name] ?? ''}
+            placeholder={argument.description}
+            required={argument.required}
+            onChange={(e) => setArgs({ ...args, [argument.name]: e.target.value })}
+            className="w-full px-3 py-1.5 rounded-lg text-sm bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary focus:outline-none focus:ring-1 focus:ring-bolt-elements-focus"
+          />
+        </div>
+      ))}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-lg text-sm bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4 text-bolt-elements-textPrimary"
+        >
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={isInserting}
+          className="px-3 py-1.5 rounded-lg text-sm bg-accent-500 hover:bg-accent-600 text-white flex items-center gap-2 disabled:opacity-50"
+        >
+          {isInserting && <div className="i-svg-spinners:90-ring-with-bg w-3 h-3 animate-spin" />}
+          Insert prompt
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function McpTools({ onAttachResource, onInsertPrompt }: McpToolsProps) {
   const isInitialized = useMCPStore((state) => state.isInitialized);
   const serverTools = useMCPStore((state) => state.serverTools);
   const initialize = useMCPStore((state) => state.initialize);
   const checkServersAvailabilities = useMCPStore((state) => state.checkServersAvailabilities);
+  const readResource = useMCPStore((state) => state.readResource);
+  const getPrompt = useMCPStore((state) => state.getPrompt);
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isCheckingServers, setIsCheckingServers] = useState(false);
   const [expandedServer, setExpandedServer] = useState<string | null>(null);
+  const [activePrompt, setActivePrompt] = useState<ActivePrompt | null>(null);
+  const [isInsertingPrompt, setIsInsertingPrompt] = useState(false);
 
   useEffect(() => {
     if (!isInitialized) {
@@ -41,6 +123,40 @@ export function McpTools() {
 
   const handleDialogOpen = (open: boolean) => {
     setIsDialogOpen(open);
+    setActivePrompt(null);
+  };
+
+  const attachResource = async (serverName: string, resource: MCPResource) => {
+    try {
+      const { text, images } = splitResourceContents(await readResource(serverName, resource.uri));
+
+      onAttachResource?.(text ? { serverName, uri: resource.uri, name: resource.name, text } : undefined, images);
+      handleDialogOpen(false);
+      toast.success(`Attached ${resource.name}`);
+    } catch (e) {
+      toast.error(`Failed to read ${resource.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const insertPrompt = async ({ serverName, prompt }: ActivePrompt, args: Record<string, string>) => {
+    setIsInsertingPrompt(true);
+
+    try {
+      onInsertPrompt?.(promptMessagesToText(await getPrompt(serverName, prompt.name, args)));
+      handleDialogOpen(false);
+    } catch (e) {
+      toast.error(`Failed to get ${prompt.name}: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsInsertingPrompt(false);
+    }
+  };
+
+  const selectPrompt = (serverName: string, prompt: MCPPrompt) => {
+    if (prompt.arguments?.length) {
+      setActivePrompt({ serverName, prompt });
+    } else {
+      insertPrompt({ serverName, prompt }, {});
+    }
   };
 
   const serverEntries = useMemo(() => Object.entries(serverTools), [serverTools]);
@@ -50,7 +166,7 @@ export function McpTools() {
       <div className="flex">
         <IconButton
           onClick={() => setIsDialogOpen(!isDialogOpen)}
-          title="MCP Tools Available"
+          title="MCP tools, resources and prompts"
           disabled={!isInitialized}
           className="transition-all disabled:opacity-50 disabled:cursor-not-allowed"
         >
@@ -68,7 +184,7 @@ export function McpTools() {
             <div className="space-y-4 max-h-[80vh] overflow-y-auto pr-2">
               <DialogTitle>
                 <div className="i-bolt:mcp text-xl"></div>
-                MCP tools
+                MCP tools, resources and prompts
               </DialogTitle>
 
               <div className="space-y-4">
@@ -94,13 +210,22 @@ export function McpTools() {
                       Check availability
                     </button>
                   </div>
-                  {serverEntries.length > 0 ? (
+                  {activePrompt ? (
+                    <PromptArgumentsForm
+                      activePrompt={activePrompt}
+                      isInserting={isInsertingPrompt}
+                      onSubmit={(args) => insertPrompt(activePrompt, args)}
+                      onCancel={() => setActivePrompt(null)}
+                    />
+                  ) : serverEntries.length > 0 ? (
                     <McpServerList
                       checkingServers={isCheckingServers}
                       expandedServer={expandedServer}
                       serverEntries={serverEntries}
                       onlyShowAvailableServers={true}
                       toggleServerExpanded={toggleServerExpanded}
+                      onAttachResource={onAttachResource && attachResource}
+                      onUsePrompt={onInsertPrompt && selectPrompt}
                     />
                   ) : (
                     <div className="py-4 text-center text-bolt-elements-textSecondary">
@@ -1,7 +1,14 @@
 import { AnimatePresence, motion } from 'framer-motion';
 import type { SupabaseAlert } from '~/types/actions';
 import { classNames } from '~/utils/classNames';
-import { supabaseConnection } from '~/lib/stores/supabase';
+import { chatId } from '~/lib/persistence';
+import {
+  fetchSupabaseSchema,
+  recordSupabaseMigration,
+  runSupabaseQuery,
+  supabaseConnection,
+} from '~/lib/stores/supabase';
+import { workbenchStore } from '~/lib/stores/workbench';
 import { useStore } from '@nanostores/react';
 import { useState } from 'react';
 
@@ -11,6 +18,17 @@ interface Props {
   postMessage: (message: string) => void;
 }
 
+// the migration file the LLM wrote the query to, if it did
+function findMigrationFile(sql: string) {
+  for (const [filePath, dirent] of Object.entries(workbenchStore.files.get())) {
+    if (filePath.includes('/supabase/migrations/') && dirent?.type === 'file' && dirent.content.trim() === sql.trim()) {
+      return filePath;
+    }
+  }
+
+  return undefined;
+}
+
 export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
   const { content } = alert;
   const connection = useStore(supabaseConnection);
@@ -44,25 +62,23 @@ export function SupabaseChatAlert({ alert, clearAlert, postMessage }: Props) {
     setIsExecuting(true);
 
     try {
-      const response = await fetch('/api/supabase/query', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${connection.token}`,
-        },
-        body: JSON.stringify({
-          projectId: connection.selectedProjectId,
-          query: sql,
-        }),
-      });
+      const result = await runSupabaseQuery(sql);
+      console.log('Supabase query executed successfully:', result);
+
+      const currentChatId = chatId.get();
+
+      // only migrations are recorded, ad-hoc queries such as selects are not replayed on other projects
+      const migrationFile = alert.operation === 'migration' && alert.filePath ? alert.filePath : findMigrationFile(sql);
 
-      if (!response.ok) {
-        const errorData = (await response.json()) as any;
-        throw new Error(`Supabase query failed: ${errorData.error?.message || response.statusText}`);
+      if (currentChatId && migrationFile) {
+        recordSupabaseMigration(currentChatId, {
+          projectId: connection.selectedProjectId,
+          name: migrationFile.split('/').pop()!,
+          sql,
+        });
       }
 
-      const result = await response.json();
-      console.log('Supabase query executed successfully:', result);
+      fetchSupabaseSchema();
       clearAlert();
     } catch (error) {
       console.error('Failed to execute Supabase action:', error);
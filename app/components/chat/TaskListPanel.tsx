@@ -0,0 +1,158 @@
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import {
+  addPlanTask,
+  movePlanTask,
+  planStore,
+  removePlanTask,
+  resetPlan,
+  startPlan,
+  stopPlan,
+  updatePlanTask,
+  type PlanTaskItem,
+} from '~/lib/stores/plan';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { ChatMode } from '~/types/chat';
+import { classNames } from '~/utils/classNames';
+
+interface TaskListPanelProps {
+  isStreaming: boolean;
+  setChatMode?: (mode: ChatMode) => void;
+}
+
+const STATUS_ICONS: Record<PlanTaskItem['status'], string> = {
+  pending: 'i-ph:circle text-bolt-elements-textTertiary',
+  'in-progress': 'i-svg-spinners:90-ring-with-bg text-bolt-elements-loader-progress',
+  done: 'i-ph:check-circle-fill text-green-500',
+};
+
+function showTaskResponse(messageId: string) {
+  workbenchStore.showWorkbench.set(true);
+  document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+}
+
+function TaskItem({ task, index, editable }: { task: PlanTaskItem; index: number; editable: boolean }) {
+  const artifacts = useStore(workbenchStore.artifacts);
+  const artifact = task.messageId ? artifacts[task.messageId] : undefined;
+
+  return (
+    <li className="flex gap-2 p-2 rounded-lg bg-bolt-elements-background-depth-1">
+      <div className={classNames('mt-0.5 shrink-0 text-lg', STATUS_ICONS[task.status])} />
+      <div className="flex-1 min-w-0 space-y-1">
+        {editable ? (
+          <>
+            <input
+              value={task.title}
+              onChange={(e) => updatePlanTask(task.id, { title: e.target.value })}
+              className="w-full px-2 py-1 rounded text-sm bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-focus"
+            />
+            <textarea
+              value={task.description}
+              rows={2}
+              onChange={(e) => updatePlanTask(task.id, { description: e.target.value })}
+              className="w-full px-2 py-1 rounded text-xs resize-y bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textSecondary focus:outline-none focus:border-bolt-elements-focus"
+            />
+          </>
+        ) : (
+          <>
+            <div className="text-sm text-bolt-elements-textPrimary">
+              {index + 1}. {task.title}
+            </div>
+            {task.description && <div className="text-xs text-bolt-elements-textSecondary">{task.description}</div>}
+          </>
+        )}
+        {task.messageId && (
+          <button
+            className="flex items-center gap-1 text-xs text-bolt-elements-item-contentAccent hover:underline bg-transparent"
+            onClick={() => showTaskResponse(task.messageId!)}
+          >
+            <div className="i-ph:files" />
+            {artifact?.title ?? 'Show response'}
+          </button>
+        )}
+      </div>
+      {editable && (
+        <div className="flex flex-col shrink-0">
+          <IconButton icon="i-ph:caret-up" title="Move up" size="sm" onClick={() => movePlanTask(task.id, -1)} />
+          <IconButton icon="i-ph:caret-down" title="Move down" size="sm" onClick={() => movePlanTask(task.id, 1)} />
+          <IconButton icon="i-ph:trash" title="Remove task" size="sm" onClick={() => removePlanTask(task.id)} />
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Checklist of the current plan. The tasks can be edited and reordered until the plan runs,
+ * every task then links to the response and artifact that built it.
+ */
+export function TaskListPanel({ isStreaming, setChatMode }: TaskListPanelProps) {
+  const { status, tasks } = useStore(planStore);
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (status === 'idle') {
+    return null;
+  }
+
+  const doneCount = tasks.filter((task) => task.status === 'done').length;
+  const editable = (status === 'draft' || status === 'stopped') && !isStreaming;
+
+  const run = () => {
+    // the tasks are built, the planner only runs for the next message in plan mode
+    setChatMode?.('build');
+    startPlan();
+  };
+
+  return (
+    <div className="w-full max-w-chat mx-auto rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-3">
+      <div className="flex items-center gap-2">
+        <button
+          className="flex items-center gap-2 flex-1 text-left bg-transparent text-bolt-elements-textPrimary"
+          onClick={() => setCollapsed(!collapsed)}
+        >
+          <div className={classNames('text-lg', collapsed ? 'i-ph:caret-right' : 'i-ph:caret-down')} />
+          <span className="font-medium text-sm">Plan</span>
+          <span className="text-xs text-bolt-elements-textTertiary">
+            {doneCount} of {tasks.length} tasks done
+          </span>
+        </button>
+        {status === 'running' ? (
+          <button
+            className="px-3 py-1 rounded-lg text-sm bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover"
+            onClick={stopPlan}
+          >
+            Stop
+          </button>
+        ) : (
+          status !== 'done' && (
+            <button
+              disabled={isStreaming || tasks.length === 0}
+              className="px-3 py-1 rounded-lg text-sm bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover disabled:opacity-50"
+              onClick={run}
+            >
+              {status === 'stopped' ? 'Resume' : 'Run tasks'}
+            </button>
+          )
+        )}
+        {status !== 'running' && <IconButton icon="i-ph:x" title="Dismiss plan" size="sm" onClick={resetPlan} />}
+      </div>
+      {!collapsed && (
+        <ol className="mt-3 space-y-2">
+          {tasks.map((task, index) => (
+            <TaskItem key={task.id} task={task} index={index} editable={editable && task.status !== 'done'} />
+          ))}
+        </ol>
+      )}
+      {!collapsed && editable && (
+        <button
+          className="mt-2 flex items-center gap-1 text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent"
+          onClick={addPlanTask}
+        >
+          <div className="i-ph:plus" />
+          Add task
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import type { ToolInvocationUIPart } from '@ai-sdk/ui-utils';
 import { AnimatePresence, motion } from 'framer-motion';
-import { memo, useMemo, useState, useEffect } from 'react';
+import { memo, useMemo, useState, useEffect, useRef } from 'react';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
 import { classNames } from '~/utils/classNames';
 import {
@@ -14,6 +14,8 @@ import { logger } from '~/utils/logger';
 import { themeStore, type Theme } from '~/lib/stores/theme';
 import { useStore } from '@nanostores/react';
 import type { ToolCallAnnotation } from '~/types/context';
+import { PROJECT_TOOLS_SERVER_NAME } from '~/lib/services/projectTools';
+import { needsApproval, runProjectTool } from '~/lib/runtime/project-tool-runner';
 
 const highlighterOptions = {
   langs: ['json'],
@@ -273,8 +275,60 @@ interface ToolCallsListProps {
   theme: Theme;
 }
 
+// a chat whose command policy asks before running commands also asks before the commands of the model
+function getToolPolicy(toolName: string, annotation?: ToolCallAnnotation) {
+  if (annotation?.toolPolicy === 'allow' && annotation.serverName === PROJECT_TOOLS_SERVER_NAME) {
+    return needsApproval(toolName) ? 'ask' : 'allow';
+  }
+
+  return annotation?.toolPolicy;
+}
+
 const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResult, theme }: ToolCallsListProps) => {
   const [expanded, setExpanded] = useState<{ [id: string]: boolean }>({});
+  const answeredToolCalls = useRef(new Set<string>());
+
+  // the project tools run in the browser, their approval is answered with their result
+  const answerToolCall = async (toolCallId: string, approved: boolean, byUser = true) => {
+    if (answeredToolCalls.current.has(toolCallId)) {
+      return;
+    }
+
+    answeredToolCalls.current.add(toolCallId);
+
+    const toolInvocation = toolInvocations.find((inv) => inv.toolInvocation.toolCallId === toolCallId)?.toolInvocation;
+    const annotation = toolCallAnnotations.find((annotation) => annotation.toolCallId === toolCallId);
+
+    if (approved && toolInvocation && annotation?.serverName === PROJECT_TOOLS_SERVER_NAME) {
+      addToolResult({
+        toolCallId,
+        result: await runProjectTool(toolInvocation.toolName, toolInvocation.args, { approved: byUser }),
+      });
+      return;
+    }
+
+    addToolResult({
+      toolCallId,
+      result: approved ? TOOL_EXECUTION_APPROVAL.APPROVE : TOOL_EXECUTION_APPROVAL.REJECT,
+    });
+  };
+
+  // calls allowed or denied by the policy of their server are answered without asking
+  useEffect(() => {
+    toolInvocations.forEach(({ toolInvocation }) => {
+      const { toolCallId, toolName, state } = toolInvocation;
+      const policy = getToolPolicy(
+        toolName,
+        toolCallAnnotations.find((annotation) => annotation.toolCallId === toolCallId),
+      );
+
+      if (state !== 'call' || !policy || policy === 'ask') {
+        return;
+      }
+
+      answerToolCall(toolCallId, policy === 'allow', false);
+    });
+  }, [toolInvocations, toolCallAnnotations, addToolResult]);
 
   // OS detection for shortcut display
   const isMac = typeof navigator !== 'undefined' && /Mac|iPod|iPhone|iPad/.test(navigator.platform);
@@ -319,25 +373,19 @@ const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResul
       // Cancel: Cmd/Ctrl + Backspace
       if ((isMac ? e.metaKey : e.ctrlKey) && e.key === 'Backspace') {
         e.preventDefault();
-        addToolResult({
-          toolCallId: openId,
-          result: TOOL_EXECUTION_APPROVAL.REJECT,
-        });
+        answerToolCall(openId, false);
       }
 
       // Run tool: Cmd/Ctrl + Enter
       if ((isMac ? e.metaKey : e.ctrlKey) && (e.key === 'Enter' || e.key === 'Return')) {
         e.preventDefault();
-        addToolResult({
-          toolCallId: openId,
-          result: TOOL_EXECUTION_APPROVAL.APPROVE,
-        });
+        answerToolCall(openId, true);
       }
     };
     window.addEventListener('keydown', handleKeyDown);
 
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [expanded, addToolResult, isMac]);
+  }, [expanded, toolInvocations, toolCallAnnotations, addToolResult, isMac]);
 
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
@@ -351,6 +399,7 @@ const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResul
 
           const { toolName, toolCallId } = tool.toolInvocation;
           const annotation = toolCallAnnotations.find((annotation) => annotation.toolCallId === toolCallId);
+          const toolPolicy = getToolPolicy(toolName, annotation);
 
           return (
             <motion.li
@@ -401,41 +450,37 @@ const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResul
                       </div>
                     </div>
                   )}
-                  <div className="flex justify-end gap-2 pt-2.5">
-                    <button
-                      className={classNames(
-                        'px-2.5 py-1.5 rounded-lg text-xs',
-                        'bg-transparent',
-                        'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary',
-                        'transition-all duration-200',
-                        'flex items-center gap-2',
-                      )}
-                      onClick={() =>
-                        addToolResult({
-                          toolCallId,
-                          result: TOOL_EXECUTION_APPROVAL.REJECT,
-                        })
-                      }
-                    >
-                      Cancel <span className="opacity-70 text-xs ml-1">{isMac ? '⌘⌫' : 'Ctrl+Backspace'}</span>
-                    </button>
-                    <button
-                      className={classNames(
-                        'inline-flex items-center gap-2 px-3.5 py-1.5 text-xs font-normal rounded-lg transition-colors',
-                        'bg-accent-500 hover:bg-accent-600',
-                        'text-black',
-                        'disabled:opacity-50 disabled:cursor-not-allowed',
-                      )}
-                      onClick={() =>
-                        addToolResult({
-                          toolCallId,
-                          result: TOOL_EXECUTION_APPROVAL.APPROVE,
-                        })
-                      }
-                    >
-                      Run tool <span className="opacity-70 text-xs ml-1">{isMac ? '⌘↵' : 'Ctrl+Enter'}</span>
-                    </button>
-                  </div>
+                  {toolPolicy && toolPolicy !== 'ask' ? (
+                    <div className="flex justify-end pt-2.5 text-xs text-bolt-elements-textTertiary">
+                      {toolPolicy === 'allow' ? 'Allowed by policy' : 'Denied by policy'}
+                    </div>
+                  ) : (
+                    <div className="flex justify-end gap-2 pt-2.5">
+                      <button
+                        className={classNames(
+                          'px-2.5 py-1.5 rounded-lg text-xs',
+                          'bg-transparent',
+                          'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary',
+                          'transition-all duration-200',
+                          'flex items-center gap-2',
+                        )}
+                        onClick={() => answerToolCall(toolCallId, false)}
+                      >
+                        Cancel <span className="opacity-70 text-xs ml-1">{isMac ? '⌘⌫' : 'Ctrl+Backspace'}</span>
+                      </button>
+                      <button
+                        className={classNames(
+                          'inline-flex items-center gap-2 px-3.5 py-1.5 text-xs font-normal rounded-lg transition-colors',
+                          'bg-accent-500 hover:bg-accent-600',
+                          'text-black',
+                          'disabled:opacity-50 disabled:cursor-not-allowed',
+                        )}
+                        onClick={() => answerToolCall(toolCallId, true)}
+                      >
+                        Run tool <span className="opacity-70 text-xs ml-1">{isMac ? '⌘↵' : 'Ctrl+Enter'}</span>
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             </motion.li>
@@ -6,6 +6,7 @@ import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
 import { Markdown } from './Markdown';
 import { useStore } from '@nanostores/react';
 import { profileStore } from '~/lib/stores/profile';
+import { extractMcpResources, type McpResourceReference } from '~/utils/mcpContext';
 import type {
   TextUIPart,
   ReasoningUIPart,
@@ -33,7 +34,7 @@ export function UserMessage({ content, parts }: UserMessageProps) {
 
   if (Array.isArray(content)) {
     const textItem = content.find((item) => item.type === 'text');
-    const textContent = stripMetadata(textItem?.text || '');
+    const { text: textContent, resources } = extractMcpResources(stripMetadata(textItem?.text || ''));
 
     return (
       <div className="overflow-hidden flex flex-col gap-3 items-center ">
@@ -57,6 +58,7 @@ export function UserMessage({ content, parts }: UserMessageProps) {
         </div>
         <div className="flex flex-col gap-4 bg-accent-500/10 backdrop-blur-sm p-3 py-3 w-auto rounded-lg mr-auto">
           {textContent && <Markdown html>{textContent}</Markdown>}
+          <McpResourceList resources={resources} />
           {images.map((item, index) => (
             <img
               key={index}
@@ -71,7 +73,7 @@ export function UserMessage({ content, parts }: UserMessageProps) {
     );
   }
 
-  const textContent = stripMetadata(content);
+  const { text: textContent, resources } = extractMcpResources(stripMetadata(content));
 
   return (
     <div className="flex flex-col bg-accent-500/10 backdrop-blur-sm px-5 p-3.5 w-auto rounded-lg ml-auto">
@@ -91,6 +93,28 @@ export function UserMessage({ content, parts }: UserMessageProps) {
         ))}
       </div>
       <Markdown html>{textContent}</Markdown>
+      <McpResourceList resources={resources} />
+    </div>
+  );
+}
+
+function McpResourceList({ resources }: { resources: McpResourceReference[] }) {
+  if (resources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {resources.map((resource, index) => (
+        <div
+          key={index}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md border border-bolt-elements-borderColor text-xs text-bolt-elements-textSecondary"
+          title={`${resource.uri} from ${resource.serverName}`}
+        >
+          <div className="i-bolt:mcp flex-shrink-0" />
+          <span className="truncate">{resource.name}</span>
+        </div>
+      ))}
     </div>
   );
 }
@@ -1,6 +1,8 @@
 import { useStore } from '@nanostores/react';
 import { vercelConnection } from '~/lib/stores/vercel';
 import { chatId } from '~/lib/persistence/useChatHistory';
+import { requestDeployApi } from '~/lib/stores/deployments';
+import type { DeployTarget, Deployment } from '~/types/deploy';
 import * as Tooltip from '@radix-ui/react-tooltip';
 import { useEffect, useState } from 'react';
 
@@ -101,18 +103,13 @@ export function VercelDeploymentLink() {
           }
         }
 
-        // Fallback to API call if not found in fetched projects
-        const fallbackResponse = await fetch(`/api/vercel-deploy?projectId=${projectId}&token=${connection.token}`, {
-          method: 'GET',
-        });
-
-        const data = await fallbackResponse.json();
+        // Fallback to the deployments of the stored project if not found in fetched projects
+        const { target, deployments } = await requestDeployApi<{ target: DeployTarget; deployments: Deployment[] }>(
+          'vercel',
+          { action: 'list', credentials: { token: connection.token }, targetId: projectId },
+        );
 
-        if ((data as { deploy?: { url?: string } }).deploy?.url) {
-          setDeploymentUrl((data as { deploy: { url: string } }).deploy.url);
-        } else if ((data as { project?: { url?: string } }).project?.url) {
-          setDeploymentUrl((data as { project: { url: string } }).project.url);
-        }
+        setDeploymentUrl(deployments.find((deployment) => deployment.isCurrent)?.url ?? target.url);
       } catch (err) {
         console.error('Error fetching Vercel deployment:', err);
       } finally {
@@ -2,62 +2,34 @@ import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { useStore } from '@nanostores/react';
 import { netlifyConnection } from '~/lib/stores/netlify';
 import { vercelConnection } from '~/lib/stores/vercel';
+import { cloudflareConnection } from '~/lib/stores/cloudflare';
+import { githubPagesConnection } from '~/lib/stores/githubPages';
+import { DEPLOY_PROVIDERS, getDeployProviderInfo } from '~/lib/stores/deployments';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { streamingState } from '~/lib/stores/streaming';
 import { classNames } from '~/utils/classNames';
 import { useState } from 'react';
 import { NetlifyDeploymentLink } from '~/components/chat/NetlifyDeploymentLink.client';
 import { VercelDeploymentLink } from '~/components/chat/VercelDeploymentLink.client';
-import { useVercelDeploy } from '~/components/deploy/VercelDeploy.client';
-import { useNetlifyDeploy } from '~/components/deploy/NetlifyDeploy.client';
+import { useDeploy } from '~/components/deploy/useDeploy.client';
+import type { DeployProviderName } from '~/types/deploy';
 
-interface DeployButtonProps {
-  onVercelDeploy?: () => Promise<void>;
-  onNetlifyDeploy?: () => Promise<void>;
-}
-
-export const DeployButton = ({ onVercelDeploy, onNetlifyDeploy }: DeployButtonProps) => {
+export const DeployButton = () => {
   const netlifyConn = useStore(netlifyConnection);
   const vercelConn = useStore(vercelConnection);
+  const cloudflareConn = useStore(cloudflareConnection);
+  const githubPagesConn = useStore(githubPagesConnection);
   const [activePreviewIndex] = useState(0);
   const previews = useStore(workbenchStore.previews);
   const activePreview = previews[activePreviewIndex];
-  const [isDeploying, setIsDeploying] = useState(false);
-  const [deployingTo, setDeployingTo] = useState<'netlify' | 'vercel' | null>(null);
   const isStreaming = useStore(streamingState);
-  const { handleVercelDeploy } = useVercelDeploy();
-  const { handleNetlifyDeploy } = useNetlifyDeploy();
-
-  const handleVercelDeployClick = async () => {
-    setIsDeploying(true);
-    setDeployingTo('vercel');
-
-    try {
-      if (onVercelDeploy) {
-        await onVercelDeploy();
-      } else {
-        await handleVercelDeploy();
-      }
-    } finally {
-      setIsDeploying(false);
-      setDeployingTo(null);
-    }
-  };
-
-  const handleNetlifyDeployClick = async () => {
-    setIsDeploying(true);
-    setDeployingTo('netlify');
+  const { isDeploying, deployingTo, deploy } = useDeploy();
 
-    try {
-      if (onNetlifyDeploy) {
-        await onNetlifyDeploy();
-      } else {
-        await handleNetlifyDeploy();
-      }
-    } finally {
-      setIsDeploying(false);
-      setDeployingTo(null);
-    }
+  const isConnected: Record<DeployProviderName, boolean> = {
+    netlify: !!netlifyConn.user,
+    vercel: !!vercelConn.user,
+    cloudflare: !!cloudflareConn.accountId,
+    'github-pages': !!githubPagesConn.user,
   };
 
   return (
@@ -67,7 +39,7 @@ export const DeployButton = ({ onVercelDeploy, onNetlifyDeploy }: DeployButtonPr
           disabled={isDeploying || !activePreview || isStreaming}
           className="rounded-md items-center justify-center [&:is(:disabled,.disabled)]:cursor-not-allowed [&:is(:disabled,.disabled)]:opacity-60 px-3 py-1.5 text-xs bg-accent-500 text-white hover:text-bolt-elements-item-contentAccent [&:not(:disabled,.disabled)]:hover:bg-bolt-elements-button-primary-backgroundHover outline-accent-500 flex gap-1.7"
         >
-          {isDeploying ? `Deploying to ${deployingTo}...` : 'Deploy'}
+          {deployingTo ? `Deploying to ${getDeployProviderInfo(deployingTo).label}...` : 'Deploy'}
           <span className={classNames('i-ph:caret-down transition-transform')} />
         </DropdownMenu.Trigger>
         <DropdownMenu.Content
@@ -82,63 +54,37 @@ export const DeployButton = ({ onVercelDeploy, onNetlifyDeploy }: DeployButtonPr
           sideOffset={5}
           align="end"
         >
-          <DropdownMenu.Item
-            className={classNames(
-              'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
-              {
-                'opacity-60 cursor-not-allowed': isDeploying || !activePreview || !netlifyConn.user,
-              },
-            )}
-            disabled={isDeploying || !activePreview || !netlifyConn.user}
-            onClick={handleNetlifyDeployClick}
-          >
-            <img
-              className="w-5 h-5"
-              height="24"
-              width="24"
-              crossOrigin="anonymous"
-              src="https://cdn.simpleicons.org/netlify"
-            />
-            <span className="mx-auto">{!netlifyConn.user ? 'No Netlify Account Connected' : 'Deploy to Netlify'}</span>
-            {netlifyConn.user && <NetlifyDeploymentLink />}
-          </DropdownMenu.Item>
-
-          <DropdownMenu.Item
-            className={classNames(
-              'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
-              {
-                'opacity-60 cursor-not-allowed': isDeploying || !activePreview || !vercelConn.user,
-              },
-            )}
-            disabled={isDeploying || !activePreview || !vercelConn.user}
-            onClick={handleVercelDeployClick}
-          >
-            <img
-              className="w-5 h-5 bg-black p-1 rounded"
-              height="24"
-              width="24"
-              crossOrigin="anonymous"
-              src="https://cdn.simpleicons.org/vercel/white"
-              alt="vercel"
-            />
-            <span className="mx-auto">{!vercelConn.user ? 'No Vercel Account Connected' : 'Deploy to Vercel'}</span>
-            {vercelConn.user && <VercelDeploymentLink />}
-          </DropdownMenu.Item>
+          {DEPLOY_PROVIDERS.map((provider) => {
+            const connected = isConnected[provider.name];
 
-          <DropdownMenu.Item
-            disabled
-            className="flex items-center w-full rounded-md px-4 py-2 text-sm text-bolt-elements-textTertiary gap-2 opacity-60 cursor-not-allowed"
-          >
-            <img
-              className="w-5 h-5"
-              height="24"
-              width="24"
-              crossOrigin="anonymous"
-              src="https://cdn.simpleicons.org/cloudflare"
-              alt="cloudflare"
-            />
-            <span className="mx-auto">Deploy to Cloudflare (Coming Soon)</span>
-          </DropdownMenu.Item>
+            return (
+              <DropdownMenu.Item
+                key={provider.name}
+                className={classNames(
+                  'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                  {
+                    'opacity-60 cursor-not-allowed': isDeploying || !activePreview || !connected,
+                  },
+                )}
+                disabled={isDeploying || !activePreview || !connected}
+                onClick={() => deploy(provider.name)}
+              >
+                <img
+                  className={provider.iconClassName}
+                  height="24"
+                  width="24"
+                  crossOrigin="anonymous"
+                  src={provider.icon}
+                  alt={provider.name}
+                />
+                <span className="mx-auto">
+                  {connected ? `Deploy to ${provider.label}` : `No ${provider.label} Account Connected`}
+                </span>
+                {connected && provider.name === 'netlify' && <NetlifyDeploymentLink />}
+                {connected && provider.name === 'vercel' && <VercelDeploymentLink />}
+              </DropdownMenu.Item>
+            );
+          })}
         </DropdownMenu.Content>
       </DropdownMenu.Root>
     </div>
@@ -0,0 +1,112 @@
+import type { ActionCallbackData } from '~/lib/runtime/message-parser';
+import type { ActionRunner } from '~/lib/runtime/action-runner';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { webcontainer } from '~/lib/webcontainer';
+import type { DeploySource } from '~/types/actions';
+import { path } from '~/utils/path';
+
+// checked in order when the build does not report where it wrote its output
+const COMMON_OUTPUT_DIRS = ['/dist', '/build', '/out', '/output', '/.next', '/public'];
+
+export interface BuildOutput {
+  deployRunner: ActionRunner;
+
+  // by path from the root of the output, starting with a slash
+  files: Record<string, Uint8Array>;
+}
+
+/**
+ * Runs the `build` action of the project and reads the `buildOutput` directory, reporting the build
+ * step through the deploy alert of a standalone deployment artifact. `basePath` is the path the
+ * deployment is served from.
+ */
+export async function buildForDeploy(source: DeploySource, title: string, basePath?: string): Promise<BuildOutput> {
+  const artifact = workbenchStore.firstArtifact;
+
+  if (!artifact) {
+    throw new Error('No active project found');
+  }
+
+  const deploymentId = 'deploy-artifact';
+  workbenchStore.addArtifact({
+    id: deploymentId,
+    messageId: deploymentId,
+    title,
+    type: 'standalone',
+  });
+
+  const deployRunner = workbenchStore.artifacts.get()[deploymentId].runner;
+  deployRunner.handleDeployAction('building', 'running', { source });
+
+  const actionData: ActionCallbackData = {
+    messageId: `${source} build`,
+    artifactId: artifact.id,
+    actionId: `build-${Date.now()}`,
+    action: {
+      type: 'build' as const,
+      content: 'npm run build',
+      basePath,
+    },
+  };
+
+  artifact.runner.addAction(actionData);
+  await artifact.runner.runAction(actionData);
+
+  if (!artifact.runner.buildOutput) {
+    deployRunner.handleDeployAction('building', 'failed', {
+      error: 'Build failed. Check the terminal for details.',
+      source,
+    });
+    throw new Error('Build failed');
+  }
+
+  deployRunner.handleDeployAction('deploying', 'running', { source });
+
+  const container = await webcontainer;
+  const buildPath = artifact.runner.buildOutput.path.replace('/home/project', '');
+  let outputPath: string | undefined;
+
+  for (const dir of [buildPath, ...COMMON_OUTPUT_DIRS]) {
+    try {
+      await container.fs.readdir(dir);
+      outputPath = dir;
+      break;
+    } catch {
+      continue;
+    }
+  }
+
+  if (!outputPath) {
+    const error = 'Could not find build output directory. Please check your build configuration.';
+    deployRunner.handleDeployAction('deploying', 'failed', { error, source });
+    throw new Error(error);
+  }
+
+  const files: Record<string, Uint8Array> = {};
+
+  const readFiles = async (dirPath: string) => {
+    for (const entry of await container.fs.readdir(dirPath, { withFileTypes: true })) {
+      const fullPath = path.join(dirPath, entry.name);
+
+      if (entry.isFile()) {
+        files[`/${path.relative(outputPath, fullPath)}`] = await container.fs.readFile(fullPath);
+      } else if (entry.isDirectory()) {
+        await readFiles(fullPath);
+      }
+    }
+  };
+
+  await readFiles(outputPath);
+
+  return { deployRunner, files };
+}
+
+export function toBase64(content: Uint8Array) {
+  let binary = '';
+
+  for (let index = 0; index < content.length; index += 0x8000) {
+    binary += String.fromCharCode(...content.subarray(index, index + 0x8000));
+  }
+
+  return btoa(binary);
+}
@@ -0,0 +1,124 @@
+import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { chatId } from '~/lib/persistence/useChatHistory';
+import {
+  getDeployCredentials,
+  getDeployProviderInfo,
+  getDeployTargetId,
+  loadDeployments,
+  requestDeployApi,
+  setDeployTargetId,
+} from '~/lib/stores/deployments';
+import { getSecretNames, secretsStore } from '~/lib/stores/secrets';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { DeployProviderName, DeployResult } from '~/types/deploy';
+import { detectFramework } from '~/utils/detectFramework';
+import { extractRelativePath } from '~/utils/diff';
+import { holdsSecrets } from '~/utils/git';
+import { buildForDeploy, toBase64 } from './buildOutput';
+
+/**
+ * The text files of the project by their path from the project root, without the env files that hold
+ * the secrets of the chat, which reach the target as its environment instead.
+ */
+function getSourceFiles() {
+  const sourceFiles: Record<string, string> = {};
+  const secretNames = getSecretNames();
+
+  for (const [filePath, dirent] of Object.entries(workbenchStore.files.get())) {
+    if (dirent?.type === 'file' && !dirent.isBinary && !holdsSecrets(filePath, dirent.content, secretNames)) {
+      sourceFiles[extractRelativePath(filePath)] = dirent.content;
+    }
+  }
+
+  return sourceFiles;
+}
+
+export function useDeploy() {
+  const [deployingTo, setDeployingTo] = useState<DeployProviderName | null>(null);
+  const currentChatId = useStore(chatId);
+
+  const deploy = async (name: DeployProviderName) => {
+    const provider = getDeployProviderInfo(name);
+    const credentials = getDeployCredentials(name);
+
+    if (!credentials) {
+      toast.error(`Please connect to ${provider.label} first in the settings tab!`);
+      return false;
+    }
+
+    if (!currentChatId) {
+      toast.error('No active chat found');
+      return false;
+    }
+
+    try {
+      setDeployingTo(name);
+
+      /*
+       * a target served from its own path is named before the build, the way the server names new
+       * targets, so that the build loads its assets from there
+       */
+      const targetId =
+        getDeployTargetId(name, currentChatId) ??
+        (provider.getBasePath ? `bolt-diy-${currentChatId}-${Date.now()}` : undefined);
+      const basePath = targetId && provider.getBasePath?.(targetId);
+
+      const { deployRunner, files } = await buildForDeploy(name, `${provider.label} Deployment`, basePath);
+
+      try {
+        const fileContents: Record<string, string> = {};
+
+        for (const [filePath, content] of Object.entries(files)) {
+          fileContents[filePath] = toBase64(content);
+        }
+
+        const sourceFiles = getSourceFiles();
+        const encoder = new TextEncoder();
+
+        const { target } = await requestDeployApi<DeployResult>(name, {
+          action: 'deploy',
+          credentials,
+          targetId,
+          chatId: currentChatId,
+          files: fileContents,
+          sourceFiles: provider.buildsFromSource
+            ? Object.fromEntries(
+                Object.entries(sourceFiles).map(([filePath, content]) => [filePath, toBase64(encoder.encode(content))]),
+              )
+            : undefined,
+          framework: detectFramework(sourceFiles),
+          env: provider.receivesSecrets ? secretsStore.get() : undefined,
+        });
+
+        setDeployTargetId(name, currentChatId, target.id);
+
+        deployRunner.handleDeployAction('complete', 'complete', { url: target.url, source: name });
+      } catch (error) {
+        deployRunner.handleDeployAction('deploying', 'failed', {
+          error: error instanceof Error ? error.message : 'Invalid deployment response',
+          source: name,
+        });
+        throw error;
+      }
+
+      loadDeployments(currentChatId, name);
+
+      return true;
+    } catch (error) {
+      console.error(`${provider.label} deploy error:`, error);
+      toast.error(error instanceof Error ? error.message : `${provider.label} deployment failed`);
+
+      return false;
+    } finally {
+      setDeployingTo(null);
+    }
+  };
+
+  return {
+    deployingTo,
+    isDeploying: deployingTo !== null,
+    deploy,
+  };
+}
@@ -16,7 +16,9 @@ import {
   tooltips,
   type Tooltip,
 } from '@codemirror/view';
+import { useStore } from '@nanostores/react';
 import { memo, useEffect, useRef, useState, type MutableRefObject } from 'react';
+import { collabStore, getSharedText } from '~/lib/stores/collab';
 import type { Theme } from '~/types/theme';
 import { classNames } from '~/utils/classNames';
 import { debounce } from '~/utils/debounce';
@@ -27,6 +29,8 @@ import { getTheme, reconfigureTheme } from './cm-theme';
 import { indentKeyBinding } from './indent';
 import { getLanguage } from './languages';
 import { createEnvMaskingExtension } from './EnvMasking';
+import { createTypeScriptExtension } from './typescript';
+import { createCollabExtension, isCollabEditor } from './collab';
 
 const logger = createScopedLogger('CodeMirrorEditor');
 
@@ -152,6 +156,7 @@ export const CodeMirrorEditor = memo(
     const onScrollRef = useRef(onScroll);
     const onChangeRef = useRef(onChange);
     const onSaveRef = useRef(onSave);
+    const { room: collabRoom, synced: collabSynced } = useStore(collabStore);
 
     /**
      * This effect is used to avoid side effects directly in the render function
@@ -249,7 +254,7 @@ export const CodeMirrorEditor = memo(
 
     useEffect(() => {
       editorStatesRef.current = new Map<string, EditorState>();
-    }, [id]);
+    }, [id, collabRoom, collabSynced]);
 
     useEffect(() => {
       const editorStates = editorStatesRef.current!;
@@ -280,10 +285,23 @@ export const CodeMirrorEditor = memo(
       let state = editorStates.get(doc.filePath);
 
       if (!state) {
-        state = newEditorState(doc.value, theme, settings, onScrollRef, debounceScroll, onSaveRef, [
-          languageCompartment.of([]),
-          envMaskingCompartment.of([createEnvMaskingExtension(() => docRef.current?.filePath)]),
-        ]);
+        // in a collaboration room the shared text can be ahead of the document
+        const sharedText = getSharedText(doc.filePath);
+
+        state = newEditorState(
+          sharedText?.toString() ?? doc.value,
+          theme,
+          settings,
+          onScrollRef,
+          debounceScroll,
+          onSaveRef,
+          [
+            languageCompartment.of([]),
+            envMaskingCompartment.of([createEnvMaskingExtension(() => docRef.current?.filePath)]),
+            createTypeScriptExtension(doc.filePath),
+            createCollabExtension(doc.filePath),
+          ],
+        );
 
         editorStates.set(doc.filePath, state);
       }
@@ -308,7 +326,7 @@ export const CodeMirrorEditor = memo(
           effects: [editableStateEffect.of(false)],
         });
       }
-    }, [doc?.value, editable, doc?.filePath, autoFocusOnDocumentChange]);
+    }, [doc?.value, editable, doc?.filePath, autoFocusOnDocumentChange, collabRoom, collabSynced]);
 
     return (
       <div className={classNames('relative h-full', className)}>
@@ -438,7 +456,7 @@ function setEditorDocument(
   autoFocus: boolean,
   doc: TextEditorDocument,
 ) {
-  if (doc.value !== view.state.doc.toString()) {
+  if (doc.value !== view.state.doc.toString() && !isCollabEditor(view.state)) {
     view.dispatch({
       selection: { anchor: 0 },
       changes: {
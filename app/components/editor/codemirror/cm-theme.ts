@@ -180,6 +180,24 @@ function getEditorTheme(settings: EditorSettings) {
         borderTopColor: 'transparent',
       },
     },
+    '.cm-typescript-info': {
+      maxWidth: '600px',
+      maxHeight: '300px',
+      overflow: 'auto',
+      padding: '4px 8px',
+      fontSize: '12px',
+    },
+    '.cm-typescript-info-signature': {
+      margin: 0,
+      whiteSpace: 'pre-wrap',
+      fontFamily: 'Roboto Mono, monospace',
+    },
+    '.cm-typescript-info-documentation': {
+      marginTop: '4px',
+      paddingTop: '4px',
+      borderTop: '1px solid var(--cm-tooltip-borderColor)',
+      whiteSpace: 'pre-wrap',
+    },
   });
 }
 
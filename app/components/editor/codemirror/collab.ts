@@ -0,0 +1,34 @@
+import { EditorState, Facet, Prec, type Extension } from '@codemirror/state';
+import { keymap } from '@codemirror/view';
+import { yCollab, yUndoManagerKeymap } from 'y-codemirror.next';
+import * as Y from 'yjs';
+import { getCollabAwareness, getSharedText } from '~/lib/stores/collab';
+
+const collabBound = Facet.define<boolean, boolean>({ combine: (values) => values.some(Boolean) });
+
+/**
+ * Whether the content of the editor comes from a shared text, which then must only change
+ * through edits and never be replaced as a whole.
+ */
+export const isCollabEditor = (state: EditorState) => state.facet(collabBound);
+
+/**
+ * Binds the editor to the shared text of `filePath` with the cursors of the other peers, or
+ * nothing outside of a collaboration room.
+ */
+export function createCollabExtension(filePath: string): Extension {
+  const text = getSharedText(filePath);
+  const awareness = getCollabAwareness();
+
+  if (!text || !awareness) {
+    return [];
+  }
+
+  return [
+    collabBound.of(true),
+
+    // undo only reverts local edits, not those of the other peers
+    Prec.high(keymap.of(yUndoManagerKeymap)),
+    yCollab(text, awareness, { undoManager: new Y.UndoManager(text) }),
+  ];
+}
@@ -0,0 +1,196 @@
+import type { CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { linter, type Diagnostic } from '@codemirror/lint';
+import { EditorState, type Extension } from '@codemirror/state';
+import { EditorView, hoverTooltip, keymap } from '@codemirror/view';
+import {
+  getCompletions,
+  getDefinitions,
+  getFileDiagnostics,
+  getQuickInfo,
+  startLanguageService,
+  typescriptStatus,
+  updateFileContent,
+} from '~/lib/stores/typescript';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('TypeScriptExtension');
+
+const TYPESCRIPT_FILE = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/;
+
+export const isTypeScriptFile = (filePath: string) => TYPESCRIPT_FILE.test(filePath);
+
+const isReady = () => typescriptStatus.get() === 'ready';
+
+/**
+ * Diagnostics, completions, hover info and go-to-definition from the TypeScript language
+ * service for the script at `filePath`.
+ */
+export function createTypeScriptExtension(filePath: string): Extension {
+  if (!isTypeScriptFile(filePath)) {
+    return [];
+  }
+
+  startLanguageService();
+
+  // every request first sends the content of the editor, which can be ahead of the saved file
+  const sync = (state: EditorState) => updateFileContent(filePath, state.doc.toString());
+
+  const typeScriptLinter = linter(
+    async (view) => {
+      if (!isReady()) {
+        return [];
+      }
+
+      try {
+        await sync(view.state);
+
+        const length = view.state.doc.length;
+
+        return (await getFileDiagnostics(filePath)).map<Diagnostic>((diagnostic) => ({
+          from: Math.min(diagnostic.from, length),
+          to: Math.min(diagnostic.to, length),
+          severity: diagnostic.severity,
+          message: diagnostic.message,
+          source: `ts(${diagnostic.code})`,
+        }));
+      } catch (error) {
+        logger.error('Failed to get diagnostics', error);
+        return [];
+      }
+    },
+    { delay: 500 },
+  );
+
+  const completionSource = async (context: CompletionContext): Promise<CompletionResult | null> => {
+    const word = context.matchBefore(/[\w$]*/);
+
+    if (
+      !isReady() ||
+      !word ||
+      (word.from === word.to && !context.explicit && context.state.sliceDoc(word.from - 1, word.from) !== '.')
+    ) {
+      return null;
+    }
+
+    try {
+      await sync(context.state);
+
+      const completions = await getCompletions(filePath, context.pos);
+
+      return {
+        from: word.from,
+        options: completions.map((completion) => ({
+          label: completion.label,
+          type: completion.type,
+
+          // the language service sorts by relevance, CodeMirror boosts range from -99 to 99
+          boost: -Math.min(Number.parseInt(completion.sortText, 10) || 0, 99),
+        })),
+        validFor: /^[\w$]*$/,
+      };
+    } catch (error) {
+      logger.error('Failed to get completions', error);
+      return null;
+    }
+  };
+
+  const quickInfoTooltip = hoverTooltip(async (view, position) => {
+    if (!isReady()) {
+      return null;
+    }
+
+    try {
+      await sync(view.state);
+
+      const info = await getQuickInfo(filePath, position);
+
+      if (!info) {
+        return null;
+      }
+
+      return {
+        pos: info.from,
+        end: info.to,
+        above: true,
+        create: () => {
+          const dom = document.createElement('div');
+          dom.className = 'cm-typescript-info';
+
+          const signature = document.createElement('pre');
+          signature.className = 'cm-typescript-info-signature';
+          signature.textContent = info.signature;
+          dom.appendChild(signature);
+
+          if (info.documentation) {
+            const documentation = document.createElement('div');
+            documentation.className = 'cm-typescript-info-documentation';
+            documentation.textContent = info.documentation;
+            dom.appendChild(documentation);
+          }
+
+          return { dom };
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get hover info', error);
+      return null;
+    }
+  });
+
+  const goToDefinition = (view: EditorView, position = view.state.selection.main.head) => {
+    if (!isReady()) {
+      return false;
+    }
+
+    sync(view.state)
+      .then(() => getDefinitions(filePath, position))
+      .then(([definition]) => {
+        // declarations in node_modules are not part of the project files
+        if (!definition || definition.filePath.includes('/node_modules/')) {
+          return;
+        }
+
+        if (definition.filePath === filePath) {
+          const line = view.state.doc.line(Math.min(definition.line + 1, view.state.doc.lines));
+
+          view.dispatch({
+            selection: { anchor: Math.min(line.from + definition.column, line.to) },
+            scrollIntoView: true,
+          });
+
+          return;
+        }
+
+        workbenchStore.setSelectedFile(definition.filePath);
+        workbenchStore.setCurrentDocumentScrollPosition({ line: definition.line, column: definition.column });
+      })
+      .catch((error) => logger.error('Failed to go to definition', error));
+
+    return true;
+  };
+
+  return [
+    typeScriptLinter,
+    EditorState.languageData.of(() => [{ autocomplete: completionSource }]),
+    quickInfoTooltip,
+    keymap.of([{ key: 'F12', run: (view) => goToDefinition(view) }]),
+    EditorView.domEventHandlers({
+      mousedown: (event, view) => {
+        if (!(event.metaKey || event.ctrlKey) || event.button !== 0) {
+          return false;
+        }
+
+        const position = view.posAtCoords({ x: event.clientX, y: event.clientY });
+
+        if (position === null) {
+          return false;
+        }
+
+        event.preventDefault();
+
+        return goToDefinition(view, position);
+      },
+    }),
+  ];
+}
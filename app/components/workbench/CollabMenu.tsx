@@ -0,0 +1,121 @@
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
+import Popover from '~/components/ui/Popover';
+import {
+  collabStore,
+  collabUser,
+  createCollabRoom,
+  getCollabLink,
+  leaveCollabRoom,
+  updateCollabUser,
+  type CollabPeer,
+} from '~/lib/stores/collab';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+
+const STATUS_LABELS = {
+  connected: 'Connected',
+  connecting: 'Connecting...',
+  disconnected: 'Disconnected',
+};
+
+function PeerAvatar({ peer }: { peer: CollabPeer }) {
+  const title = peer.selectedFile ? `${peer.name} in ${extractRelativePath(peer.selectedFile)}` : peer.name;
+
+  return (
+    <button
+      className="flex items-center justify-center w-6 h-6 -ml-1 first:ml-0 rounded-full border-2 border-bolt-elements-background-depth-2 text-xs font-medium text-white"
+      style={{ backgroundColor: peer.color }}
+      title={title}
+      onClick={() => peer.selectedFile && workbenchStore.setSelectedFile(peer.selectedFile)}
+    >
+      {peer.name.charAt(0).toUpperCase()}
+    </button>
+  );
+}
+
+async function copyLink(room: string) {
+  await navigator.clipboard.writeText(getCollabLink(room));
+  toast.success('Collaboration link copied to clipboard');
+}
+
+/**
+ * Shares the project and chat with other browsers through the collaboration relay and shows
+ * who is in the room, clicking a peer opens the file they are looking at. Anyone with the link
+ * can write to the files of the room.
+ */
+export function CollabMenu() {
+  const { room, status, peers, error } = useStore(collabStore);
+  const user = useStore(collabUser);
+
+  return (
+    <div className="flex items-center gap-1 mr-1">
+      {peers.length > 0 && (
+        <div className="flex items-center">
+          {peers.map((peer) => (
+            <PeerAvatar key={peer.clientId} peer={peer} />
+          ))}
+        </div>
+      )}
+      <Popover
+        side="bottom"
+        align="end"
+        trigger={
+          <button className="flex items-center shrink-0 gap-1.5 px-1.5 rounded-md py-0.5 text-sm text-bolt-elements-item-contentDefault bg-transparent hover:text-bolt-elements-item-contentActive hover:bg-bolt-elements-item-backgroundActive">
+            <div className={classNames('i-ph:users-three', { 'text-green-500': !!room && status === 'connected' })} />
+            {room ? 'Live' : 'Share'}
+          </button>
+        }
+      >
+        <div className="flex flex-col gap-2 w-64 p-1 text-sm text-bolt-elements-textPrimary">
+          <label className="flex flex-col gap-1 text-xs text-bolt-elements-textSecondary">
+            Your name
+            <div className="flex items-center gap-2">
+              <span className="shrink-0 w-3 h-3 rounded-full" style={{ backgroundColor: user.color }} />
+              <input
+                className="flex-1 px-2 py-1 rounded border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1 text-sm text-bolt-elements-textPrimary"
+                value={user.name}
+                onChange={(event) => updateCollabUser({ name: event.target.value })}
+              />
+            </div>
+          </label>
+          {room ? (
+            <>
+              <p className="text-xs text-bolt-elements-textSecondary">
+                {STATUS_LABELS[status]} · {peers.length} {peers.length === 1 ? 'collaborator' : 'collaborators'}
+              </p>
+              {error && <p className="text-xs text-red-500">{error}</p>}
+              <div className="flex gap-2">
+                <PanelHeaderButton className="text-sm" onClick={() => copyLink(room)}>
+                  <div className="i-ph:link" />
+                  Copy link
+                </PanelHeaderButton>
+                <PanelHeaderButton className="text-sm" onClick={leaveCollabRoom}>
+                  <div className="i-ph:sign-out" />
+                  Leave
+                </PanelHeaderButton>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-bolt-elements-textSecondary">
+                Everyone with the link edits the files and follows the chat of this project live.
+              </p>
+              <p className="text-xs text-bolt-elements-textTertiary">
+                The link is the only key to the room, share it like write access to the project. Env files with secrets
+                are not shared. Rooms run in the collab worker, so collaborating needs that worker next to the app and
+                is not available on the dev server.
+              </p>
+              <PanelHeaderButton className="text-sm" onClick={() => copyLink(createCollabRoom())}>
+                <div className="i-ph:share-network" />
+                Start collaborating
+              </PanelHeaderButton>
+            </>
+          )}
+        </div>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { IconButton } from '~/components/ui/IconButton';
+import { chatId } from '~/lib/persistence/useChatHistory';
+import {
+  changeDeployment,
+  deploymentsStore,
+  getDeploymentLogs,
+  getDeployProviderInfo,
+  loadDeployments,
+} from '~/lib/stores/deployments';
+import type { DeploymentState, Deployment, DeployProviderName } from '~/types/deploy';
+import { classNames } from '~/utils/classNames';
+
+const STATE_CLASS_NAMES: Record<DeploymentState, string> = {
+  queued: 'text-bolt-elements-textTertiary',
+  building: 'text-yellow-500',
+  ready: 'text-green-500',
+  error: 'text-red-500',
+  canceled: 'text-bolt-elements-textTertiary',
+};
+
+const actionClassName =
+  'px-1.5 py-0.5 rounded text-xs bg-transparent text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-3 disabled:opacity-50';
+
+function DeploymentRow({
+  provider,
+  deployment,
+  currentChatId,
+}: {
+  provider: DeployProviderName;
+  deployment: Deployment;
+  currentChatId: string;
+}) {
+  const [logs, setLogs] = useState<string[] | undefined>();
+  const [showLogs, setShowLogs] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const toggleLogs = async () => {
+    setShowLogs(!showLogs);
+
+    if (showLogs || logs) {
+      return;
+    }
+
+    try {
+      setLogs(await getDeploymentLogs(provider, currentChatId, deployment.id));
+    } catch (error) {
+      setLogs([error instanceof Error ? error.message : 'Failed to load logs']);
+    }
+  };
+
+  const change = async (action: 'redeploy' | 'rollback') => {
+    setBusy(true);
+
+    try {
+      await changeDeployment(action, provider, currentChatId, deployment.id);
+      toast.success(action === 'redeploy' ? 'Redeploy started' : 'Rolled back');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="px-2 py-1.5 text-xs border-b border-bolt-elements-borderColor last:border-b-0">
+      <div className="flex items-center gap-2">
+        <span className={classNames('font-medium capitalize', STATE_CLASS_NAMES[deployment.state])}>
+          {deployment.state}
+        </span>
+        {deployment.isCurrent && (
+          <span className="px-1 rounded bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary">
+            current
+          </span>
+        )}
+        <span className="ml-auto text-bolt-elements-textTertiary" title={deployment.createdAt}>
+          {new Date(deployment.createdAt).toLocaleString()}
+        </span>
+      </div>
+      {deployment.url && (
+        <a
+          href={deployment.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block truncate text-bolt-elements-textSecondary hover:text-bolt-elements-item-contentAccent"
+        >
+          {deployment.url}
+        </a>
+      )}
+      {deployment.message && <p className="text-bolt-elements-textTertiary break-words">{deployment.message}</p>}
+      <div className="flex items-center gap-1 mt-1">
+        <button className={actionClassName} onClick={toggleLogs}>
+          {showLogs ? 'Hide logs' : 'Logs'}
+        </button>
+        <button className={actionClassName} disabled={busy} onClick={() => change('redeploy')}>
+          Redeploy
+        </button>
+        {!deployment.isCurrent && deployment.state === 'ready' && (
+          <button className={actionClassName} disabled={busy} onClick={() => change('rollback')}>
+            Roll back
+          </button>
+        )}
+      </div>
+      {showLogs && (
+        <pre className="mt-1 p-2 max-h-60 overflow-auto rounded bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary whitespace-pre-wrap">
+          {logs ? logs.join('\n') || 'No logs' : 'Loading logs...'}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The deployments of the current chat on every connected provider it was deployed to.
+ */
+export function DeploymentsPanel() {
+  const currentChatId = useStore(chatId);
+  const providers = useStore(deploymentsStore);
+
+  useEffect(() => {
+    if (currentChatId) {
+      loadDeployments(currentChatId);
+    }
+  }, [currentChatId]);
+
+  const entries = Object.entries(providers) as [
+    DeployProviderName,
+    NonNullable<(typeof providers)[DeployProviderName]>,
+  ][];
+
+  if (!currentChatId || entries.length === 0) {
+    return (
+      <div className="p-4 text-sm text-bolt-elements-textTertiary">
+        This chat has not been deployed yet. Use the Deploy button in the header to publish it.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 py-2 text-bolt-elements-textPrimary">
+      {entries.map(([name, { target, deployments, isLoading, error }]) => (
+        <section key={name}>
+          <div className="flex items-center gap-1 px-2">
+            <div className="min-w-0">
+              <h3 className="text-sm font-medium">{getDeployProviderInfo(name).label}</h3>
+              {target && (
+                <a
+                  href={target.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block truncate text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-item-contentAccent"
+                >
+                  {target.name}
+                </a>
+              )}
+            </div>
+            <IconButton
+              className="ml-auto"
+              icon="i-ph:arrows-clockwise"
+              title="Refresh"
+              disabled={isLoading}
+              onClick={() => loadDeployments(currentChatId, name)}
+            />
+          </div>
+          {error && <p className="px-2 text-xs text-red-500">{error}</p>}
+          {isLoading && deployments.length === 0 ? (
+            <p className="px-2 text-xs text-bolt-elements-textTertiary">Loading deployments...</p>
+          ) : (
+            <ul className="mt-1">
+              {deployments.map((deployment) => (
+                <DeploymentRow
+                  key={deployment.id}
+                  provider={name}
+                  deployment={deployment}
+                  currentChatId={currentChatId}
+                />
+              ))}
+            </ul>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -25,6 +25,12 @@ import { workbenchStore } from '~/lib/stores/workbench';
 import { Search } from './Search'; // <-- Ensure Search is imported
 import { classNames } from '~/utils/classNames'; // <-- Import classNames if not already present
 import { LockManager } from './LockManager'; // <-- Import LockManager
+import { GitPanel } from './GitPanel';
+import { DeploymentsPanel } from './DeploymentsPanel';
+import { SecretsPanel } from './SecretsPanel';
+import { TasksPanel } from './TasksPanel';
+import { SupabasePanel } from './SupabasePanel';
+import { ProblemsPanel } from './ProblemsPanel';
 
 interface EditorPanelProps {
   files?: FileMap;
@@ -114,6 +120,54 @@ export const EditorPanel = memo(
                         >
                           Locks
                         </Tabs.Trigger>
+                        <Tabs.Trigger
+                          value="git"
+                          className={classNames(
+                            'h-full bg-transparent hover:bg-bolt-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm font-medium text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary data-[state=active]:text-bolt-elements-textPrimary',
+                          )}
+                        >
+                          Git
+                        </Tabs.Trigger>
+                        <Tabs.Trigger
+                          value="deployments"
+                          className={classNames(
+                            'h-full bg-transparent hover:bg-bolt-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm font-medium text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary data-[state=active]:text-bolt-elements-textPrimary',
+                          )}
+                        >
+                          Deploys
+                        </Tabs.Trigger>
+                        <Tabs.Trigger
+                          value="secrets"
+                          className={classNames(
+                            'h-full bg-transparent hover:bg-bolt-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm font-medium text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary data-[state=active]:text-bolt-elements-textPrimary',
+                          )}
+                        >
+                          Secrets
+                        </Tabs.Trigger>
+                        <Tabs.Trigger
+                          value="supabase"
+                          className={classNames(
+                            'h-full bg-transparent hover:bg-bolt-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm font-medium text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary data-[state=active]:text-bolt-elements-textPrimary',
+                          )}
+                        >
+                          Supabase
+                        </Tabs.Trigger>
+                        <Tabs.Trigger
+                          value="problems"
+                          className={classNames(
+                            'h-full bg-transparent hover:bg-bolt-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm font-medium text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary data-[state=active]:text-bolt-elements-textPrimary',
+                          )}
+                        >
+                          Problems
+                        </Tabs.Trigger>
+                        <Tabs.Trigger
+                          value="tasks"
+                          className={classNames(
+                            'h-full bg-transparent hover:bg-bolt-elements-background-depth-3 py-0.5 px-2 rounded-lg text-sm font-medium text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary data-[state=active]:text-bolt-elements-textPrimary',
+                          )}
+                        >
+                          Tasks
+                        </Tabs.Trigger>
                       </Tabs.List>
                     </div>
                   </PanelHeader>
@@ -138,6 +192,30 @@ export const EditorPanel = memo(
                   <Tabs.Content value="locks" className="flex-grow overflow-auto focus-visible:outline-none">
                     <LockManager />
                   </Tabs.Content>
+
+                  <Tabs.Content value="git" className="flex-grow overflow-auto focus-visible:outline-none">
+                    <GitPanel />
+                  </Tabs.Content>
+
+                  <Tabs.Content value="deployments" className="flex-grow overflow-auto focus-visible:outline-none">
+                    <DeploymentsPanel />
+                  </Tabs.Content>
+
+                  <Tabs.Content value="secrets" className="flex-grow overflow-auto focus-visible:outline-none">
+                    <SecretsPanel />
+                  </Tabs.Content>
+
+                  <Tabs.Content value="supabase" className="flex-grow overflow-auto focus-visible:outline-none">
+                    <SupabasePanel />
+                  </Tabs.Content>
+
+                  <Tabs.Content value="problems" className="flex-grow overflow-auto focus-visible:outline-none">
+                    <ProblemsPanel />
+                  </Tabs.Content>
+
+                  <Tabs.Content value="tasks" className="flex-grow overflow-auto focus-visible:outline-none">
+                    <TasksPanel />
+                  </Tabs.Content>
                 </Tabs.Root>
               </div>
             </Panel>
@@ -0,0 +1,342 @@
+import { useStore } from '@nanostores/react';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { IconButton } from '~/components/ui/IconButton';
+import {
+  checkoutBranch,
+  commit,
+  createBranch,
+  fetchOrigin,
+  getAuthor,
+  getFileHunks,
+  gitStore,
+  initRepository,
+  pullOrigin,
+  refreshGit,
+  setAuthor,
+  stageFile,
+  stageHunk,
+  unstageFile,
+  unstageHunk,
+  type GitAuthor,
+} from '~/lib/stores/git';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { debounce } from '~/utils/debounce';
+import type { GitChange, GitFileStatus, GitHunk } from '~/utils/git';
+
+const CHANGE_LABELS: Record<GitChange, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-500' },
+  modified: { letter: 'M', className: 'text-yellow-500' },
+  deleted: { letter: 'D', className: 'text-red-500' },
+  untracked: { letter: 'U', className: 'text-green-500' },
+};
+
+const inputClassName =
+  'w-full px-2 py-1 rounded text-sm bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-focus';
+
+const buttonClassName =
+  'px-3 py-1 rounded-lg text-sm bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover disabled:opacity-50';
+
+async function run(operation: () => Promise<unknown>, success?: string) {
+  try {
+    await operation();
+
+    if (success) {
+      toast.success(success);
+    }
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : 'Git operation failed');
+  }
+}
+
+function HunkView({ hunk, staged, onApply }: { hunk: GitHunk; staged: boolean; onApply: () => void }) {
+  return (
+    <div className="rounded border border-bolt-elements-borderColor overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-0.5 bg-bolt-elements-background-depth-3 text-xs text-bolt-elements-textTertiary">
+        <span className="font-mono">
+          @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+        </span>
+        <IconButton
+          icon={staged ? 'i-ph:minus' : 'i-ph:plus'}
+          title={staged ? 'Unstage hunk' : 'Stage hunk'}
+          size="sm"
+          onClick={onApply}
+        />
+      </div>
+      <pre className="text-xs font-mono overflow-x-auto">
+        {hunk.lines.map((line, index) => (
+          <div
+            key={index}
+            className={classNames('px-2', {
+              'bg-green-500/10 text-green-500': line.startsWith('+'),
+              'bg-red-500/10 text-red-500': line.startsWith('-'),
+              'text-bolt-elements-textSecondary': line.startsWith(' '),
+            })}
+          >
+            {line || ' '}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+function FileItem({ file, staged }: { file: GitFileStatus; staged: boolean }) {
+  const [expanded, setExpanded] = useState(false);
+  const [hunks, setHunks] = useState<GitHunk[]>([]);
+  const change = (staged ? file.staged : file.unstaged)!;
+
+  useEffect(() => {
+    if (!expanded) {
+      return;
+    }
+
+    // the file status changes with every stage, so the hunks are read again
+    getFileHunks(file.path)
+      .then((result) => setHunks(staged ? result.staged : result.unstaged))
+      .catch(() => setHunks([]));
+  }, [expanded, file, staged]);
+
+  const applyHunk = (hunk: GitHunk) => run(() => (staged ? unstageHunk(file.path, hunk) : stageHunk(file.path, hunk)));
+
+  return (
+    <li>
+      <div className="group flex items-center gap-1 px-2 py-0.5 text-sm hover:bg-bolt-elements-background-depth-3">
+        <button
+          className="flex items-center gap-1 flex-1 min-w-0 text-left bg-transparent text-bolt-elements-textSecondary"
+          onClick={() => setExpanded(!expanded)}
+        >
+          <div className={classNames('shrink-0', expanded ? 'i-ph:caret-down' : 'i-ph:caret-right')} />
+          <span className="truncate" title={file.path}>
+            {file.path}
+          </span>
+        </button>
+        <IconButton
+          icon={staged ? 'i-ph:minus' : 'i-ph:plus'}
+          title={staged ? 'Unstage file' : 'Stage file'}
+          size="sm"
+          className="opacity-0 group-hover:opacity-100"
+          onClick={() => run(() => (staged ? unstageFile(file) : stageFile(file)))}
+        />
+        <span className={classNames('w-4 text-center font-mono text-xs', CHANGE_LABELS[change].className)}>
+          {CHANGE_LABELS[change].letter}
+        </span>
+      </div>
+      {expanded && (
+        <div className="px-2 py-1 space-y-1">
+          {hunks.length === 0 ? (
+            <div className="text-xs text-bolt-elements-textTertiary">No text changes</div>
+          ) : (
+            hunks.map((hunk, index) => (
+              <HunkView key={index} hunk={hunk} staged={staged} onApply={() => applyHunk(hunk)} />
+            ))
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function FileList({ title, files, staged }: { title: string; files: GitFileStatus[]; staged: boolean }) {
+  if (files.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="px-2 py-1 text-xs font-medium uppercase text-bolt-elements-textTertiary">
+        {title} ({files.length})
+      </div>
+      <ul>
+        {files.map((file) => (
+          <FileItem key={file.path} file={file} staged={staged} />
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function AuthorForm({ onSave }: { onSave: (author: GitAuthor) => void }) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-bolt-elements-textTertiary">Set the author of your commits</div>
+      <input className={inputClassName} placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+      <input className={inputClassName} placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} />
+      <button
+        className={buttonClassName}
+        disabled={!name.trim() || !email.trim()}
+        onClick={() => onSave({ name: name.trim(), email: email.trim() })}
+      >
+        Save author
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Git workflow for the project in the WebContainer: status against HEAD, staging of files and
+ * hunks, commits, branches and pulls from `origin`.
+ */
+export function GitPanel() {
+  const { status, branch, branches, remote, files, commits, busy } = useStore(gitStore);
+  const [author, setAuthorState] = useState<GitAuthor | undefined>();
+  const [message, setMessage] = useState('');
+  const [newBranch, setNewBranch] = useState('');
+
+  const loadAuthor = useCallback(() => {
+    getAuthor()
+      .then(setAuthorState)
+      .catch(() => setAuthorState(undefined));
+  }, []);
+
+  useEffect(() => {
+    run(refreshGit).then(loadAuthor);
+
+    // changes of the AI and the editor land in the working tree
+    const refresh = debounce(() => refreshGit().catch(() => undefined), 1000);
+
+    return workbenchStore.files.listen(refresh);
+  }, []);
+
+  if (status === 'loading') {
+    return <div className="p-4 text-sm text-bolt-elements-textTertiary">Loading repository...</div>;
+  }
+
+  if (status === 'no-repo') {
+    return (
+      <div className="p-4 space-y-2 text-sm text-bolt-elements-textSecondary">
+        <p>This project is not a Git repository yet.</p>
+        <button
+          className={buttonClassName}
+          disabled={busy}
+          onClick={() => run(initRepository, 'Repository initialized').then(loadAuthor)}
+        >
+          Initialize repository
+        </button>
+      </div>
+    );
+  }
+
+  const stagedFiles = files.filter((file) => file.staged);
+  const unstagedFiles = files.filter((file) => file.unstaged);
+
+  const submitCommit = () =>
+    run(async () => {
+      await commit(message.trim());
+      setMessage('');
+    }, 'Changes committed');
+
+  const submitBranch = () =>
+    run(async () => {
+      await createBranch(newBranch.trim());
+      setNewBranch('');
+    }, `Switched to new branch ${newBranch.trim()}`);
+
+  return (
+    <div className="flex flex-col gap-3 py-2 text-bolt-elements-textPrimary">
+      <div className="px-2 space-y-1">
+        <div className="flex items-center gap-1">
+          <div className="i-ph:git-branch shrink-0 text-bolt-elements-textTertiary" />
+          <select
+            className={inputClassName}
+            value={branch ?? ''}
+            disabled={busy}
+            onChange={(e) => run(() => checkoutBranch(e.target.value), `Switched to ${e.target.value}`)}
+          >
+            {!branch && <option value="">Detached HEAD</option>}
+            {branches.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <IconButton icon="i-ph:arrows-clockwise" title="Refresh" disabled={busy} onClick={() => run(refreshGit)} />
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            className={inputClassName}
+            placeholder="New branch"
+            value={newBranch}
+            onChange={(e) => setNewBranch(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && newBranch.trim() && submitBranch()}
+          />
+          <IconButton
+            icon="i-ph:plus"
+            title="Create branch"
+            disabled={busy || !newBranch.trim()}
+            onClick={submitBranch}
+          />
+        </div>
+        {remote && (
+          <div className="flex items-center gap-1">
+            <span className="flex-1 truncate text-xs text-bolt-elements-textTertiary" title={remote}>
+              origin: {remote}
+            </span>
+            <IconButton
+              icon="i-ph:cloud-arrow-down"
+              title="Fetch"
+              disabled={busy}
+              onClick={() => run(fetchOrigin, 'Fetched from origin')}
+            />
+            <IconButton
+              icon="i-ph:arrow-line-down"
+              title="Pull"
+              disabled={busy}
+              onClick={() => run(pullOrigin, 'Pulled from origin')}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <FileList title="Staged changes" files={stagedFiles} staged />
+        <FileList title="Changes" files={unstagedFiles} staged={false} />
+        {files.length === 0 && <div className="px-2 text-sm text-bolt-elements-textTertiary">No changes</div>}
+      </div>
+
+      <div className="px-2 space-y-1">
+        {author ? (
+          <>
+            <textarea
+              className={classNames(inputClassName, 'resize-y')}
+              rows={3}
+              placeholder="Commit message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+            <button
+              className={classNames(buttonClassName, 'w-full')}
+              disabled={busy || !message.trim() || stagedFiles.length === 0}
+              onClick={submitCommit}
+            >
+              Commit to {branch ?? 'HEAD'}
+            </button>
+          </>
+        ) : (
+          <AuthorForm onSave={(value) => run(() => setAuthor(value)).then(loadAuthor)} />
+        )}
+      </div>
+
+      {commits.length > 0 && (
+        <div>
+          <div className="px-2 py-1 text-xs font-medium uppercase text-bolt-elements-textTertiary">History</div>
+          <ul>
+            {commits.map((item) => (
+              <li key={item.oid} className="px-2 py-1 text-sm" title={item.message}>
+                <div className="truncate text-bolt-elements-textSecondary">{item.message.split('\n')[0]}</div>
+                <div className="text-xs text-bolt-elements-textTertiary">
+                  <span className="font-mono">{item.oid.slice(0, 7)}</span> · {item.author} ·{' '}
+                  {new Date(item.timestamp).toLocaleString()}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { diagnosticsStore, startLanguageService, typescriptStatus } from '~/lib/stores/typescript';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { DiagnosticSeverity, TypeScriptDiagnostic } from '~/lib/typescript/types';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, string> = {
+  error: 'i-ph:x-circle text-red-500',
+  warning: 'i-ph:warning text-yellow-500',
+  info: 'i-ph:info text-bolt-elements-textTertiary',
+};
+
+function FileProblems({ filePath, diagnostics }: { filePath: string; diagnostics: TypeScriptDiagnostic[] }) {
+  const [expanded, setExpanded] = useState(true);
+
+  const openDiagnostic = (diagnostic: TypeScriptDiagnostic) => {
+    workbenchStore.setSelectedFile(filePath);
+    workbenchStore.setCurrentDocumentScrollPosition({ line: diagnostic.line - 1, column: diagnostic.column - 1 });
+  };
+
+  return (
+    <li>
+      <button
+        className="flex items-center gap-1 w-full px-2 py-0.5 text-sm text-left bg-transparent text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div className={classNames('shrink-0', expanded ? 'i-ph:caret-down' : 'i-ph:caret-right')} />
+        <span className="truncate" title={filePath}>
+          {extractRelativePath(filePath)}
+        </span>
+        <span className="ml-auto shrink-0 text-xs text-bolt-elements-textTertiary">{diagnostics.length}</span>
+      </button>
+      {expanded && (
+        <ul>
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index}>
+              <button
+                className="flex items-start gap-1 w-full pl-7 pr-2 py-0.5 text-xs text-left bg-transparent text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3"
+                onClick={() => openDiagnostic(diagnostic)}
+              >
+                <div className={classNames('shrink-0 mt-0.5', SEVERITY_ICONS[diagnostic.severity])} />
+                <span className="break-words">{diagnostic.message}</span>
+                <span className="ml-auto shrink-0 text-bolt-elements-textTertiary">
+                  ts({diagnostic.code}) [{diagnostic.line}, {diagnostic.column}]
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The TypeScript diagnostics of all project files, a click opens the file at the problem.
+ */
+export function ProblemsPanel() {
+  const status = useStore(typescriptStatus);
+  const diagnostics = useStore(diagnosticsStore);
+
+  useEffect(() => {
+    startLanguageService();
+  }, []);
+
+  const files = Object.entries(diagnostics)
+    .filter(([, fileDiagnostics]) => fileDiagnostics.length > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  if (status === 'unavailable') {
+    return (
+      <p className="p-4 text-sm text-bolt-elements-textSecondary">
+        Install <code>typescript</code> in the project to check it for problems.
+      </p>
+    );
+  }
+
+  if (status === 'error') {
+    return <p className="p-4 text-sm text-red-500">The TypeScript language service failed to start.</p>;
+  }
+
+  if (files.length === 0) {
+    return (
+      <p className="p-4 text-sm text-bolt-elements-textTertiary">
+        {status === 'ready' ? 'No problems have been detected.' : 'Checking the project...'}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="py-2">
+      {files.map(([filePath, fileDiagnostics]) => (
+        <FileProblems key={filePath} filePath={filePath} diagnostics={fileDiagnostics} />
+      ))}
+    </ul>
+  );
+}
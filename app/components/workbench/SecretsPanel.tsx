@@ -0,0 +1,127 @@
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { IconButton } from '~/components/ui/IconButton';
+import { chatId } from '~/lib/persistence';
+import { removeSecret, secretsStore, setSecret } from '~/lib/stores/secrets';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName =
+  'w-full px-2 py-1 rounded text-sm bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-focus';
+
+const buttonClassName =
+  'px-3 py-1 rounded-lg text-sm bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover disabled:opacity-50';
+
+function SecretRow({ name, value, onEdit }: { name: string; value: string; onEdit: () => void }) {
+  const [visible, setVisible] = useState(false);
+
+  const remove = async () => {
+    try {
+      await removeSecret(name);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove secret');
+    }
+  };
+
+  return (
+    <li className="group flex items-center gap-1 px-2 py-0.5 text-sm hover:bg-bolt-elements-background-depth-3">
+      <div className="flex-1 min-w-0">
+        <div className="truncate font-mono text-bolt-elements-textPrimary" title={name}>
+          {name}
+        </div>
+        <div className="truncate font-mono text-xs text-bolt-elements-textTertiary">
+          {visible ? value : '•'.repeat(Math.min(value.length, 16))}
+        </div>
+      </div>
+      <IconButton
+        icon={visible ? 'i-ph:eye-slash' : 'i-ph:eye'}
+        title={visible ? 'Hide value' : 'Show value'}
+        onClick={() => setVisible(!visible)}
+      />
+      <IconButton icon="i-ph:pencil-simple" title="Edit" onClick={onEdit} />
+      <IconButton icon="i-ph:trash" title="Remove" onClick={remove} />
+    </li>
+  );
+}
+
+/**
+ * The secrets of the current chat. They are written to the `.env` of the project before it
+ * starts and handed to deploys, the LLM only learns their names.
+ */
+export function SecretsPanel() {
+  const currentChatId = useStore(chatId);
+  const secrets = useStore(secretsStore);
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  if (!currentChatId) {
+    return (
+      <div className="p-4 text-sm text-bolt-elements-textTertiary">
+        Send a first message to start the chat, then add the secrets it needs here.
+      </div>
+    );
+  }
+
+  const submit = async () => {
+    setBusy(true);
+
+    try {
+      await setSecret(name.trim(), value);
+      setName('');
+      setValue('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save secret');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const names = Object.keys(secrets).sort();
+
+  return (
+    <div className="flex flex-col gap-3 py-2 text-bolt-elements-textPrimary">
+      <div className="px-2 space-y-1">
+        <input
+          className={classNames(inputClassName, 'font-mono')}
+          placeholder="NAME"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <input
+          className={classNames(inputClassName, 'font-mono')}
+          type="password"
+          placeholder="Value"
+          autoComplete="off"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && name.trim() && submit()}
+        />
+        <button className={classNames(buttonClassName, 'w-full')} disabled={busy || !name.trim()} onClick={submit}>
+          {secrets[name.trim()] !== undefined ? 'Update secret' : 'Add secret'}
+        </button>
+        <p className="text-xs text-bolt-elements-textTertiary">
+          Secrets are encrypted in this browser and written to <code>.env</code> when the app starts. Netlify and Vercel
+          deploys receive them as environment variables.
+        </p>
+      </div>
+      {names.length === 0 ? (
+        <p className="px-2 text-xs text-bolt-elements-textTertiary">No secrets yet.</p>
+      ) : (
+        <ul>
+          {names.map((secretName) => (
+            <SecretRow
+              key={secretName}
+              name={secretName}
+              value={secrets[secretName]}
+              onEdit={() => {
+                setName(secretName);
+                setValue(secrets[secretName]);
+              }}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
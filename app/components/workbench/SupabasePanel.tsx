@@ -0,0 +1,177 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import { chatId } from '~/lib/persistence';
+import { fetchSupabaseSchema, supabaseConnection, supabaseMigrations, supabaseSchema } from '~/lib/stores/supabase';
+import type { SupabaseMigration, SupabaseTable } from '~/types/supabase';
+import { classNames } from '~/utils/classNames';
+
+const buttonClassName =
+  'px-3 py-1 rounded-lg text-sm bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover disabled:opacity-50';
+
+function TableRow({ table }: { table: SupabaseTable }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <li>
+      <button
+        className="flex items-center gap-1 w-full px-2 py-0.5 text-sm text-left bg-transparent text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div className={classNames('shrink-0', expanded ? 'i-ph:caret-down' : 'i-ph:caret-right')} />
+        <div className="i-ph:table shrink-0 text-bolt-elements-textTertiary" />
+        <span className="truncate">{table.name}</span>
+        <span
+          className={classNames('ml-auto shrink-0 text-xs', table.rlsEnabled ? 'text-green-500' : 'text-yellow-500')}
+          title={table.rlsEnabled ? 'Row level security is enabled' : 'Row level security is disabled'}
+        >
+          {table.rlsEnabled ? 'RLS' : 'No RLS'}
+        </span>
+      </button>
+      {expanded && (
+        <div className="pl-7 pr-2 pb-1 space-y-1 text-xs">
+          <ul>
+            {table.columns.map((column) => (
+              <li key={column.name} className="flex items-center gap-2">
+                <span className="font-mono text-bolt-elements-textPrimary">{column.name}</span>
+                <span className="truncate text-bolt-elements-textTertiary" title={column.default ?? undefined}>
+                  {column.type}
+                  {column.nullable ? '' : ' not null'}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {table.policies.length === 0 ? (
+            <p className="text-bolt-elements-textTertiary">No policies</p>
+          ) : (
+            <ul className="space-y-1">
+              {table.policies.map((policy) => (
+                <li key={policy.name} className="text-bolt-elements-textSecondary">
+                  <div>
+                    <span className="font-medium">{policy.name}</span>{' '}
+                    <span className="text-bolt-elements-textTertiary">
+                      {policy.command} to {policy.roles.join(', ')}
+                    </span>
+                  </div>
+                  {(policy.using || policy.check) && (
+                    <code className="block break-words text-bolt-elements-textTertiary">
+                      {policy.using && `using ${policy.using}`}
+                      {policy.check && ` with check ${policy.check}`}
+                    </code>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function MigrationRow({ migration }: { migration: SupabaseMigration }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <li>
+      <button
+        className="flex items-center gap-1 w-full px-2 py-0.5 text-sm text-left bg-transparent text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div className={classNames('shrink-0', expanded ? 'i-ph:caret-down' : 'i-ph:caret-right')} />
+        <span className="truncate" title={migration.name}>
+          {migration.name}
+        </span>
+        <span className="ml-auto shrink-0 text-xs text-bolt-elements-textTertiary" title={migration.appliedAt}>
+          {new Date(migration.appliedAt).toLocaleString()}
+        </span>
+      </button>
+      {expanded && (
+        <pre className="mx-2 mb-1 p-2 max-h-60 overflow-auto rounded text-xs bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary whitespace-pre-wrap">
+          {migration.sql}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The tables and RLS policies of the selected Supabase project, and the migrations the
+ * current chat applied to it.
+ */
+export function SupabasePanel() {
+  const connection = useStore(supabaseConnection);
+  const { schema, isLoading, error } = useStore(supabaseSchema);
+  const currentChatId = useStore(chatId);
+  const migrations = useStore(supabaseMigrations);
+  const projectId = connection.selectedProjectId;
+
+  useEffect(() => {
+    if (connection.token && projectId && schema?.projectId !== projectId) {
+      fetchSupabaseSchema();
+    }
+  }, [connection.token, projectId]);
+
+  if (!connection.token || !projectId) {
+    return (
+      <div className="p-4 space-y-2 text-sm text-bolt-elements-textSecondary">
+        <p>Connect to Supabase and select a project to browse its database.</p>
+        <button
+          className={buttonClassName}
+          onClick={() => document.dispatchEvent(new CustomEvent('open-supabase-connection'))}
+        >
+          Connect Supabase
+        </button>
+      </div>
+    );
+  }
+
+  const tables = schema?.projectId === projectId ? schema.tables : [];
+  const chatMigrations = (currentChatId ? migrations[currentChatId] : undefined)?.filter(
+    (migration) => migration.projectId === projectId,
+  );
+
+  return (
+    <div className="flex flex-col gap-3 py-2 text-bolt-elements-textPrimary">
+      <section>
+        <div className="flex items-center gap-1 px-2">
+          <div className="min-w-0">
+            <h3 className="text-sm font-medium">Tables</h3>
+            <p className="truncate text-xs text-bolt-elements-textTertiary">{connection.project?.name ?? projectId}</p>
+          </div>
+          <IconButton
+            className="ml-auto"
+            icon="i-ph:arrows-clockwise"
+            title="Refresh"
+            disabled={isLoading}
+            onClick={() => fetchSupabaseSchema()}
+          />
+        </div>
+        {error && <p className="px-2 text-xs text-red-500">{error}</p>}
+        {isLoading && tables.length === 0 ? (
+          <p className="px-2 text-xs text-bolt-elements-textTertiary">Loading schema...</p>
+        ) : tables.length === 0 && !error ? (
+          <p className="px-2 text-xs text-bolt-elements-textTertiary">The public schema has no tables yet.</p>
+        ) : (
+          <ul className="mt-1">
+            {tables.map((table) => (
+              <TableRow key={table.name} table={table} />
+            ))}
+          </ul>
+        )}
+      </section>
+      <section>
+        <h3 className="px-2 text-sm font-medium">Migrations from this chat</h3>
+        {!chatMigrations?.length ? (
+          <p className="px-2 text-xs text-bolt-elements-textTertiary">No migrations applied yet.</p>
+        ) : (
+          <ul className="mt-1">
+            {[...chatMigrations].reverse().map((migration) => (
+              <MigrationRow key={migration.id} migration={migration} />
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
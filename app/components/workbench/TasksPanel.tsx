@@ -0,0 +1,142 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useRef, useState } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import {
+  getTaskId,
+  packageScriptsStore,
+  runTask,
+  sendTaskFailure,
+  showTaskOutput,
+  stopTask,
+  tasksStore,
+  type TaskStatus,
+} from '~/lib/stores/tasks';
+import { themeStore } from '~/lib/stores/theme';
+import type { PackageScripts } from '~/utils/projectCommands';
+import { classNames } from '~/utils/classNames';
+import { Terminal } from './terminal/Terminal';
+
+const STATUS_BADGES: Record<TaskStatus, string> = {
+  running: 'bg-green-500/10 text-green-500',
+  exited: 'bg-bolt-elements-background-depth-3 text-bolt-elements-textTertiary',
+  failed: 'bg-red-500/10 text-red-500',
+};
+
+function TaskOutput({ taskId }: { taskId: string }) {
+  const theme = useStore(themeStore);
+  const hideOutput = useRef<() => void>();
+
+  useEffect(() => () => hideOutput.current?.(), []);
+
+  return (
+    <Terminal
+      id={`task_${taskId}`}
+      className="h-48 overflow-hidden modern-scrollbar"
+      theme={theme}
+      readonly
+      onTerminalReady={(terminal) => {
+        hideOutput.current = showTaskOutput(taskId, terminal);
+      }}
+    />
+  );
+}
+
+function PackageTasks({
+  pkg,
+  selectedTask,
+  onSelect,
+}: {
+  pkg: PackageScripts;
+  selectedTask?: string;
+  onSelect: (taskId?: string) => void;
+}) {
+  const tasks = useStore(tasksStore);
+  const scripts = Object.entries(pkg.scripts);
+
+  return (
+    <li>
+      <div className="px-2 py-1 text-xs font-medium text-bolt-elements-textTertiary truncate" title={pkg.dir || '/'}>
+        {pkg.name}
+      </div>
+      {scripts.length === 0 && <p className="px-4 py-0.5 text-xs text-bolt-elements-textTertiary">No scripts</p>}
+      <ul>
+        {scripts.map(([script, command]) => {
+          const taskId = getTaskId(pkg.dir, script);
+          const task = tasks[taskId];
+          const isRunning = task?.status === 'running';
+
+          return (
+            <li key={script}>
+              <div
+                className={classNames(
+                  'group flex items-center gap-1 pl-4 pr-2 py-0.5 text-sm cursor-pointer hover:bg-bolt-elements-background-depth-3',
+                  { 'bg-bolt-elements-background-depth-3': selectedTask === taskId },
+                )}
+                title={command}
+                onClick={() => task && onSelect(selectedTask === taskId ? undefined : taskId)}
+              >
+                <span className="truncate text-bolt-elements-textSecondary">{script}</span>
+                {task && (
+                  <span className={classNames('shrink-0 px-1.5 rounded-full text-xs', STATUS_BADGES[task.status])}>
+                    {task.status === 'failed' && task.exitCode !== undefined
+                      ? `failed (${task.exitCode})`
+                      : task.status}
+                  </span>
+                )}
+                <div className="ml-auto flex items-center shrink-0" onClick={(event) => event.stopPropagation()}>
+                  {task?.status === 'failed' && (
+                    <IconButton
+                      icon="i-ph:chat-circle-text"
+                      title="Send the output to the chat"
+                      onClick={() => sendTaskFailure(pkg.dir, script)}
+                    />
+                  )}
+                  {isRunning ? (
+                    <>
+                      <IconButton
+                        icon="i-ph:arrow-clockwise"
+                        title="Restart"
+                        onClick={() => runTask(pkg.dir, script)}
+                      />
+                      <IconButton icon="i-ph:stop" title="Stop" onClick={() => stopTask(pkg.dir, script)} />
+                    </>
+                  ) : (
+                    <IconButton
+                      icon="i-ph:play"
+                      title="Run"
+                      onClick={() => {
+                        runTask(pkg.dir, script);
+                        onSelect(taskId);
+                      }}
+                    />
+                  )}
+                </div>
+              </div>
+              {selectedTask === taskId && <TaskOutput taskId={taskId} />}
+            </li>
+          );
+        })}
+      </ul>
+    </li>
+  );
+}
+
+/**
+ * The scripts of the project and its workspace packages, each runs in a shell session of its own.
+ */
+export function TasksPanel() {
+  const packages = useStore(packageScriptsStore);
+  const [selectedTask, setSelectedTask] = useState<string>();
+
+  if (packages.length === 0) {
+    return <p className="p-4 text-sm text-bolt-elements-textTertiary">The project has no package.json.</p>;
+  }
+
+  return (
+    <ul className="py-2">
+      {packages.map((pkg) => (
+        <PackageTasks key={pkg.dir} pkg={pkg} selectedTask={selectedTask} onSelect={setSelectedTask} />
+      ))}
+    </ul>
+  );
+}
@@ -23,16 +23,21 @@ import { EditorPanel } from './EditorPanel';
 import { Preview } from './Preview';
 import useViewport from '~/lib/hooks';
 import { PushToGitHubDialog } from '~/components/@settings/tabs/connections/components/PushToGitHubDialog';
+import { PushToGitRemoteDialog } from '~/components/@settings/tabs/connections/components/PushToGitRemoteDialog';
+import { CreatePullRequestDialog } from '~/components/@settings/tabs/connections/components/CreatePullRequestDialog';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { usePreviewStore } from '~/lib/stores/previews';
 import { chatStore } from '~/lib/stores/chat';
 import type { ElementInfo } from './Inspector';
+import { CollabMenu } from './CollabMenu';
 
 interface WorkspaceProps {
   chatStarted?: boolean;
   isStreaming?: boolean;
   metadata?: {
     gitUrl?: string;
+    pullRequestUrl?: string;
+    pullRequestBranch?: string;
   };
   updateChatMestaData?: (metadata: any) => void;
   setSelectedElement?: (element: ElementInfo | null) => void;
@@ -284,6 +289,8 @@ export const Workbench = memo(
 
     const [isSyncing, setIsSyncing] = useState(false);
     const [isPushDialogOpen, setIsPushDialogOpen] = useState(false);
+    const [isRemotePushDialogOpen, setIsRemotePushDialogOpen] = useState(false);
+    const [isPullRequestDialogOpen, setIsPullRequestDialogOpen] = useState(false);
     const [fileHistory, setFileHistory] = useState<Record<string, FileHistory>>({});
 
     // const modifiedFiles = Array.from(useStore(workbenchStore.unsavedFiles).keys());
@@ -396,6 +403,7 @@ export const Workbench = memo(
                   />
                   <Slider selected={selectedView} options={sliderOptions} setSelected={setSelectedView} />
                   <div className="ml-auto" />
+                  <CollabMenu />
                   {selectedView === 'code' && (
                     <div className="flex overflow-y-auto">
                       <PanelHeaderButton
@@ -447,6 +455,28 @@ export const Workbench = memo(
                               Push to GitHub
                             </div>
                           </DropdownMenu.Item>
+                          <DropdownMenu.Item
+                            className={classNames(
+                              'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                            )}
+                            onClick={() => setIsPullRequestDialogOpen(true)}
+                          >
+                            <div className="flex items-center gap-2">
+                              <div className="i-ph:git-pull-request" />
+                              {metadata?.pullRequestUrl ? 'Update Pull Request' : 'Create Pull Request'}
+                            </div>
+                          </DropdownMenu.Item>
+                          <DropdownMenu.Item
+                            className={classNames(
+                              'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                            )}
+                            onClick={() => setIsRemotePushDialogOpen(true)}
+                          >
+                            <div className="flex items-center gap-2">
+                              <div className="i-ph:gitlab-logo" />
+                              Push to GitLab or Gitea
+                            </div>
+                          </DropdownMenu.Item>
                         </DropdownMenu.Content>
                       </DropdownMenu.Root>
                     </div>
@@ -518,6 +548,32 @@ export const Workbench = memo(
               }
             }}
           />
+          <CreatePullRequestDialog
+            isOpen={isPullRequestDialogOpen}
+            onClose={() => setIsPullRequestDialogOpen(false)}
+            gitUrl={metadata?.gitUrl}
+            pullRequestUrl={metadata?.pullRequestUrl}
+            pullRequestBranch={metadata?.pullRequestBranch}
+            onCreated={({ url, branch }) => {
+              updateChatMestaData?.({
+                ...(metadata || {}),
+                pullRequestUrl: url,
+                pullRequestBranch: branch,
+              });
+            }}
+          />
+          <PushToGitRemoteDialog
+            isOpen={isRemotePushDialogOpen}
+            onClose={() => setIsRemotePushDialogOpen(false)}
+            onPushed={(repoUrl) => {
+              if (updateChatMestaData && !metadata?.gitUrl) {
+                updateChatMestaData({
+                  ...(metadata || {}),
+                  gitUrl: repoUrl,
+                });
+              }
+            }}
+          />
         </motion.div>
       )
     );
@@ -0,0 +1,94 @@
+import { useStore } from '@nanostores/react';
+import { useMemo, useState } from 'react';
+import { Dialog, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { terminalSessionStore } from '~/lib/stores/terminalSessions';
+import { classNames } from '~/utils/classNames';
+
+interface TerminalHistoryDialogProps {
+  onRun: (command: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Searches the commands run in the terminals of the chat, newest first, and runs the picked one
+ * again in the active terminal.
+ */
+export function TerminalHistoryDialog({ onRun, onClose }: TerminalHistoryDialogProps) {
+  const { history } = useStore(terminalSessionStore);
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const commands = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    return [...history].reverse().filter((command) => terms.every((term) => command.toLowerCase().includes(term)));
+  }, [history, query]);
+
+  const run = (command: string | undefined) => {
+    if (command) {
+      onRun(command);
+      onClose();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setSelectedIndex((index) => Math.min(index + 1, commands.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setSelectedIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      run(commands[selectedIndex]);
+    }
+  };
+
+  return (
+    <DialogRoot open onOpenChange={(open) => !open && onClose()}>
+      <Dialog className="max-w-xl w-full p-4" onClose={onClose} onBackdrop={onClose}>
+        <div className="space-y-3">
+          <DialogTitle>
+            <div className="i-ph:clock-counter-clockwise text-xl"></div>
+            Command history
+          </DialogTitle>
+          <input
+            autoFocus
+            value={query}
+            placeholder="Search commands..."
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setSelectedIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            className="w-full p-2 rounded-lg text-sm bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-focus"
+          />
+          <div className="max-h-80 overflow-y-auto modern-scrollbar">
+            {commands.length === 0 ? (
+              <p className="p-2 text-sm text-bolt-elements-textTertiary">
+                {history.length === 0 ? 'No commands were run in this chat yet.' : 'No matching commands.'}
+              </p>
+            ) : (
+              commands.map((command, index) => (
+                <button
+                  key={command}
+                  className={classNames(
+                    'flex items-center gap-2 w-full px-2 py-1.5 rounded-md text-left font-mono text-sm bg-transparent',
+                    index === selectedIndex
+                      ? 'bg-bolt-elements-item-backgroundActive text-bolt-elements-textPrimary'
+                      : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-item-backgroundActive',
+                  )}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  onClick={() => run(command)}
+                >
+                  <div className="i-ph:terminal shrink-0" />
+                  <span className="truncate">{command}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      </Dialog>
+    </DialogRoot>
+  );
+}
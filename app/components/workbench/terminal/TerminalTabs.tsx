@@ -3,10 +3,17 @@ import React, { memo, useEffect, useRef, useState } from 'react';
 import { Panel, type ImperativePanelHandle } from 'react-resizable-panels';
 import { IconButton } from '~/components/ui/IconButton';
 import { shortcutEventEmitter } from '~/lib/hooks';
+import {
+  addTerminalTab,
+  BOLT_TERMINAL_ID,
+  removeTerminalTab,
+  terminalSessionStore,
+} from '~/lib/stores/terminalSessions';
 import { themeStore } from '~/lib/stores/theme';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { Terminal, type TerminalRef } from './Terminal';
+import { TerminalHistoryDialog } from './TerminalHistoryDialog';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('Terminal');
@@ -17,18 +24,31 @@ export const DEFAULT_TERMINAL_SIZE = 25;
 export const TerminalTabs = memo(() => {
   const showTerminal = useStore(workbenchStore.showTerminal);
   const theme = useStore(themeStore);
+  const { loaded, tabs } = useStore(terminalSessionStore);
 
-  const terminalRefs = useRef<Array<TerminalRef | null>>([]);
+  const terminalRefs = useRef<Record<string, TerminalRef | null>>({});
   const terminalPanelRef = useRef<ImperativePanelHandle>(null);
   const terminalToggledByShortcut = useRef(false);
+  const attachedTabs = useRef(tabs);
+
+  /*
+   * restored scrollback is written when a terminal attaches, so the terminals wait for the
+   * session of the chat, later sessions only replace the tabs next to the bolt terminal
+   */
+  const sessionLoaded = useRef(false);
+  sessionLoaded.current ||= loaded;
 
   const [activeTerminal, setActiveTerminal] = useState(0);
-  const [terminalCount, setTerminalCount] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // the bolt terminal comes first, followed by the terminals of the chat session
+  const tabIds = [BOLT_TERMINAL_ID, ...tabs];
+  const terminalCount = tabs.length;
 
   const addTerminal = () => {
     if (terminalCount < MAX_TERMINALS) {
-      setTerminalCount(terminalCount + 1);
-      setActiveTerminal(terminalCount);
+      addTerminalTab();
+      setActiveTerminal(terminalCount + 1);
     }
   };
 
@@ -37,21 +57,7 @@ export const TerminalTabs = memo(() => {
       return;
     } // Can't close bolt terminal
 
-    const terminalRef = terminalRefs.current[index];
-
-    if (terminalRef?.getTerminal) {
-      const terminal = terminalRef.getTerminal();
-
-      if (terminal) {
-        workbenchStore.detachTerminal(terminal);
-      }
-    }
-
-    // Remove the terminal from refs
-    terminalRefs.current.splice(index, 1);
-
-    // Adjust terminal count and active terminal
-    setTerminalCount(terminalCount - 1);
+    removeTerminalTab(tabIds[index]);
 
     if (activeTerminal === index) {
       setActiveTerminal(Math.max(0, index - 1));
@@ -60,17 +66,31 @@ export const TerminalTabs = memo(() => {
     }
   };
 
+  const runCommand = (command: string) => {
+    const terminal = terminalRefs.current[tabIds[activeTerminal]]?.getTerminal();
+
+    terminal?.input(`${command}\r`);
+    terminal?.focus();
+  };
+
+  // shells of closed tabs, or of the tabs of a chat that was switched away from, are stopped
   useEffect(() => {
-    return () => {
-      terminalRefs.current.forEach((ref, index) => {
-        if (index > 0 && ref?.getTerminal) {
-          const terminal = ref.getTerminal();
+    for (const tabId of attachedTabs.current) {
+      if (!tabs.includes(tabId)) {
+        workbenchStore.detachTerminal(tabId);
+      }
+    }
 
-          if (terminal) {
-            workbenchStore.detachTerminal(terminal);
-          }
-        }
-      });
+    attachedTabs.current = tabs;
+
+    if (activeTerminal > tabs.length) {
+      setActiveTerminal(0);
+    }
+  }, [tabs]);
+
+  useEffect(() => {
+    return () => {
+      attachedTabs.current.forEach((tabId) => workbenchStore.detachTerminal(tabId));
     };
   }, []);
 
@@ -97,6 +117,10 @@ export const TerminalTabs = memo(() => {
       terminalToggledByShortcut.current = true;
     });
 
+    const unsubscribeFromHistoryShortcut = shortcutEventEmitter.on('searchTerminalHistory', () => {
+      setShowHistory(true);
+    });
+
     const unsubscribeFromThemeStore = themeStore.subscribe(() => {
       for (const ref of Object.values(terminalRefs.current)) {
         ref?.reloadStyles();
@@ -105,6 +129,7 @@ export const TerminalTabs = memo(() => {
 
     return () => {
       unsubscribeFromEventEmitter();
+      unsubscribeFromHistoryShortcut();
       unsubscribeFromThemeStore();
     };
   }, []);
@@ -185,27 +210,37 @@ export const TerminalTabs = memo(() => {
             {terminalCount < MAX_TERMINALS && <IconButton icon="i-ph:plus" size="md" onClick={addTerminal} />}
             <IconButton
               className="ml-auto"
+              icon="i-ph:clock-counter-clockwise"
+              title="Command history"
+              size="md"
+              onClick={() => setShowHistory(true)}
+            />
+            <IconButton
               icon="i-ph:caret-down"
               title="Close"
               size="md"
               onClick={() => workbenchStore.toggleTerminal(false)}
             />
           </div>
-          {Array.from({ length: terminalCount + 1 }, (_, index) => {
+          {tabIds.map((tabId, index) => {
             const isActive = activeTerminal === index;
 
+            if (!sessionLoaded.current) {
+              return null;
+            }
+
             logger.debug(`Starting bolt terminal [${index}]`);
 
             if (index == 0) {
               return (
                 <Terminal
-                  key={index}
+                  key={tabId}
                   id={`terminal_${index}`}
                   className={classNames('h-full overflow-hidden modern-scrollbar-invert', {
                     hidden: !isActive,
                   })}
                   ref={(ref) => {
-                    terminalRefs.current.push(ref);
+                    terminalRefs.current[tabId] = ref;
                   }}
                   onTerminalReady={(terminal) => workbenchStore.attachBoltTerminal(terminal)}
                   onTerminalResize={(cols, rows) => workbenchStore.onTerminalResize(cols, rows)}
@@ -215,15 +250,15 @@ export const TerminalTabs = memo(() => {
             } else {
               return (
                 <Terminal
-                  key={index}
+                  key={tabId}
                   id={`terminal_${index}`}
                   className={classNames('modern-scrollbar h-full overflow-hidden', {
                     hidden: !isActive,
                   })}
                   ref={(ref) => {
-                    terminalRefs.current.push(ref);
+                    terminalRefs.current[tabId] = ref;
                   }}
-                  onTerminalReady={(terminal) => workbenchStore.attachTerminal(terminal)}
+                  onTerminalReady={(terminal) => workbenchStore.attachTerminal(terminal, tabId)}
                   onTerminalResize={(cols, rows) => workbenchStore.onTerminalResize(cols, rows)}
                   theme={theme}
                 />
@@ -232,6 +267,7 @@ export const TerminalTabs = memo(() => {
           })}
         </div>
       </div>
+      {showHistory && <TerminalHistoryDialog onRun={runCommand} onClose={() => setShowHistory(false)} />}
     </Panel>
   );
 });
@@ -0,0 +1,41 @@
+const CLOUDFLARE_API_URL = 'https://api.cloudflare.com/client/v4';
+
+export class CloudflareError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+interface CloudflareResponse<T> {
+  success: boolean;
+  errors?: { code: number; message: string }[];
+  result: T;
+}
+
+/**
+ * Calls the Cloudflare API, which does not allow requests from the browser. Throws with the message
+ * of the first error Cloudflare reports.
+ */
+export async function cloudflareRequest<T>(token: string, endpoint: string, init: RequestInit = {}): Promise<T> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+
+  if (typeof init.body === 'string') {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const response = await fetch(`${CLOUDFLARE_API_URL}${endpoint}`, { ...init, headers });
+  const data = (await response.json().catch(() => undefined)) as CloudflareResponse<T> | undefined;
+
+  if (!response.ok || !data?.success) {
+    throw new CloudflareError(
+      data?.errors?.[0]?.message || `Cloudflare request failed: ${response.status}`,
+      response.ok ? 500 : response.status,
+    );
+  }
+
+  return data.result;
+}
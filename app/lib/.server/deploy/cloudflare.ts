@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import mime from 'mime';
+import { cloudflareRequest } from '~/lib/.server/cloudflare';
+import type { CloudflarePagesProject } from '~/types/cloudflare';
+import type { DeploymentState, Deployment, DeployTarget } from '~/types/deploy';
+import type { DeployProvider } from './types';
+import { createTargetName, pollUntil } from './utils';
+
+interface PagesDeployment {
+  id: string;
+  url: string;
+  created_on: string;
+  latest_stage?: {
+    name: string;
+    status: string;
+  };
+  deployment_trigger?: {
+    metadata?: { commit_message?: string };
+  };
+}
+
+interface PagesProject extends CloudflarePagesProject {
+  canonical_deployment?: { id: string };
+}
+
+// limits of a single asset upload request
+const MAX_BATCH_FILES = 1000;
+const MAX_BATCH_BYTES = 40 * 1024 * 1024;
+
+// Pages project names are lowercase letters, digits and dashes
+const createProjectName = (chatId: string) =>
+  createTargetName(chatId)
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .slice(0, 58);
+
+// assets are addressed by a hash of their content and extension like wrangler does
+const hashAsset = (filePath: string, base64: string) =>
+  crypto
+    .createHash('sha256')
+    .update(base64 + filePath.split('.').pop())
+    .digest('hex')
+    .slice(0, 32);
+
+function getState(deployment: PagesDeployment): DeploymentState {
+  const stage = deployment.latest_stage;
+
+  if (stage?.status === 'failure') {
+    return 'error';
+  }
+
+  if (stage?.status === 'canceled') {
+    return 'canceled';
+  }
+
+  if (stage?.name === 'deploy' && stage.status === 'success') {
+    return 'ready';
+  }
+
+  return stage?.name === 'queued' ? 'queued' : 'building';
+}
+
+const toTarget = (project: CloudflarePagesProject): DeployTarget => ({
+  id: project.name,
+  name: project.name,
+  url: `https://${project.subdomain}`,
+});
+
+const toDeployment = (deployment: PagesDeployment, currentId?: string): Deployment => ({
+  id: deployment.id,
+  state: getState(deployment),
+  createdAt: deployment.created_on,
+  url: deployment.url,
+  isCurrent: deployment.id === currentId,
+  message: deployment.deployment_trigger?.metadata?.commit_message,
+});
+
+const projectPath = (accountId: string, projectName: string) => `/accounts/${accountId}/pages/projects/${projectName}`;
+
+async function getOrCreateProject(token: string, accountId: string, projectName: string | undefined, chatId: string) {
+  if (projectName) {
+    try {
+      return await cloudflareRequest<PagesProject>(token, projectPath(accountId, projectName));
+    } catch (error) {
+      console.warn(`Pages project ${projectName} not found, creating a new one`, error);
+    }
+  }
+
+  return cloudflareRequest<PagesProject>(token, `/accounts/${accountId}/pages/projects`, {
+    method: 'POST',
+    body: JSON.stringify({
+      name: createProjectName(chatId),
+      production_branch: 'main',
+    }),
+  });
+}
+
+async function uploadAssets(jwt: string, files: Record<string, string>, hashes: Record<string, string>) {
+  const missing = new Set(
+    await cloudflareRequest<string[]>(jwt, '/pages/assets/check-missing', {
+      method: 'POST',
+      body: JSON.stringify({ hashes: Object.values(hashes) }),
+    }),
+  );
+
+  let batch: { key: string; value: string; metadata: { contentType: string }; base64: true }[] = [];
+  let batchBytes = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+
+    await cloudflareRequest(jwt, '/pages/assets/upload', { method: 'POST', body: JSON.stringify(batch) });
+    batch = [];
+    batchBytes = 0;
+  };
+
+  for (const [filePath, content] of Object.entries(files)) {
+    const hash = hashes[filePath];
+
+    // the same content can be in several files
+    if (!missing.delete(hash)) {
+      continue;
+    }
+
+    if (batch.length >= MAX_BATCH_FILES || batchBytes + content.length > MAX_BATCH_BYTES) {
+      await flush();
+    }
+
+    batch.push({
+      key: hash,
+      value: content,
+      metadata: { contentType: mime.getType(filePath) || 'application/octet-stream' },
+      base64: true,
+    });
+    batchBytes += content.length;
+  }
+
+  await flush();
+
+  await cloudflareRequest(jwt, '/pages/assets/upsert-hashes', {
+    method: 'POST',
+    body: JSON.stringify({ hashes: Object.values(hashes) }),
+  });
+}
+
+function requireAccount(accountId?: string) {
+  if (!accountId) {
+    throw new Error('No Cloudflare account selected');
+  }
+
+  return accountId;
+}
+
+export const cloudflareProvider: DeployProvider = {
+  async deploy({ token, accountId }, { chatId, targetId, files }) {
+    const account = requireAccount(accountId);
+    const project = await getOrCreateProject(token, account, targetId, chatId);
+    const path = projectPath(account, project.name);
+
+    const hashes: Record<string, string> = {};
+
+    for (const [filePath, content] of Object.entries(files)) {
+      hashes[filePath] = hashAsset(filePath, content);
+    }
+
+    const { jwt } = await cloudflareRequest<{ jwt: string }>(token, `${path}/upload-token`);
+    await uploadAssets(jwt, files, hashes);
+
+    const formData = new FormData();
+    formData.append('manifest', JSON.stringify(hashes));
+    formData.append('branch', project.production_branch || 'main');
+
+    const created = await cloudflareRequest<PagesDeployment>(token, `${path}/deployments`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    const deployment = await pollUntil(
+      () => cloudflareRequest<PagesDeployment>(token, `${path}/deployments/${created.id}`),
+      (current) => getState(current) !== 'queued' && getState(current) !== 'building',
+      { interval: 1000 },
+    );
+
+    if (getState(deployment) !== 'ready') {
+      throw new Error(`Deployment failed in the ${deployment.latest_stage?.name} stage`);
+    }
+
+    return { target: toTarget(project), deployment: toDeployment(deployment, deployment.id) };
+  },
+
+  async listDeployments({ token, accountId }, projectName) {
+    const path = projectPath(requireAccount(accountId), projectName);
+    const project = await cloudflareRequest<PagesProject>(token, path);
+    const deployments = await cloudflareRequest<PagesDeployment[]>(token, `${path}/deployments?per_page=20`);
+
+    return {
+      target: toTarget(project),
+      deployments: deployments.map((deployment) => toDeployment(deployment, project.canonical_deployment?.id)),
+    };
+  },
+
+  async getLogs({ token, accountId }, projectName, deploymentId) {
+    const path = projectPath(requireAccount(accountId), projectName);
+    const logs = await cloudflareRequest<{ data: { ts: string; line: string }[] }>(
+      token,
+      `${path}/deployments/${deploymentId}/history/logs`,
+    );
+
+    return logs.data.map(({ ts, line }) => `${ts} ${line}`);
+  },
+
+  async redeploy({ token, accountId }, projectName, deploymentId) {
+    const path = projectPath(requireAccount(accountId), projectName);
+    const deployment = await cloudflareRequest<PagesDeployment>(token, `${path}/deployments/${deploymentId}/retry`, {
+      method: 'POST',
+    });
+
+    return toDeployment(deployment);
+  },
+
+  async rollback({ token, accountId }, projectName, deploymentId) {
+    const path = projectPath(requireAccount(accountId), projectName);
+    const deployment = await cloudflareRequest<PagesDeployment>(token, `${path}/deployments/${deploymentId}/rollback`, {
+      method: 'POST',
+    });
+
+    return toDeployment(deployment, deployment.id);
+  },
+};
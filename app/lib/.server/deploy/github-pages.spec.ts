@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { findAssetsOutsideBase } from './github-pages';
+
+describe('findAssetsOutsideBase', () => {
+  it('should find assets loaded from the root of the domain', () => {
+    const indexHtml = '<link rel="icon" href="/vite.svg"><script type="module" src="/assets/index.js"></script>';
+
+    expect(findAssetsOutsideBase(indexHtml, '/site/')).toEqual(['/vite.svg', '/assets/index.js']);
+  });
+
+  it('should accept assets under the base path and other origins', () => {
+    const indexHtml =
+      '<script src="/site/assets/index.js"></script><link href="./style.css"><script src="//cdn.example.com/x.js"></script>';
+
+    expect(findAssetsOutsideBase(indexHtml, '/site/')).toEqual([]);
+    expect(findAssetsOutsideBase('<script src="/assets/index.js"></script>', '/')).toEqual([]);
+  });
+});
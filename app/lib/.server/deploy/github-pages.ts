@@ -0,0 +1,252 @@
+import { Octokit } from '@octokit/rest';
+import type { DeploymentState, Deployment, DeployTarget } from '~/types/deploy';
+import type { DeployProvider } from './types';
+import { createTargetName, pollUntil, wait } from './utils';
+
+const PAGES_BRANCH = 'gh-pages';
+
+const STATES: Record<string, DeploymentState> = {
+  queued: 'queued',
+  building: 'building',
+  built: 'ready',
+  errored: 'error',
+};
+
+function isStatus(error: unknown, status: number) {
+  return error instanceof Error && 'status' in error && error.status === status;
+}
+
+async function connect(token: string) {
+  const octokit = new Octokit({ auth: token });
+  const { data: user } = await octokit.users.getAuthenticated();
+
+  return { octokit, owner: user.login };
+}
+
+async function getOrCreateRepo(octokit: Octokit, owner: string, repoName: string) {
+  try {
+    const { data } = await octokit.repos.get({ owner, repo: repoName });
+    return data;
+  } catch (error) {
+    if (!isStatus(error, 404)) {
+      throw error;
+    }
+
+    // Pages of private repositories need a paid plan
+    const { data } = await octokit.repos.createForAuthenticatedUser({
+      name: repoName,
+      private: false,
+      auto_init: true,
+      description: 'Deployed with bolt.diy',
+    });
+
+    // Give GitHub a moment to initialize the repository
+    await wait(2000);
+
+    return data;
+  }
+}
+
+async function getBranchHead(octokit: Octokit, owner: string, repo: string) {
+  try {
+    const { data: ref } = await octokit.git.getRef({ owner, repo, ref: `heads/${PAGES_BRANCH}` });
+    return ref.object.sha;
+  } catch (error) {
+    if (isStatus(error, 404)) {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+async function getTarget(octokit: Octokit, owner: string, repo: string): Promise<DeployTarget> {
+  let url = `https://${owner.toLowerCase()}.github.io/${repo}/`;
+
+  try {
+    const { data: pages } = await octokit.repos.getPages({ owner, repo });
+    url = pages.html_url || url;
+  } catch (error) {
+    // Pages are not enabled yet
+    if (!isStatus(error, 404)) {
+      throw error;
+    }
+  }
+
+  return { id: repo, name: `${owner}/${repo}`, url };
+}
+
+async function listBuilds(octokit: Octokit, owner: string, repo: string) {
+  try {
+    const { data } = await octokit.repos.listPagesBuilds({ owner, repo, per_page: 30 });
+    return data;
+  } catch (error) {
+    if (isStatus(error, 404)) {
+      return [];
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * The root-absolute assets of `indexHtml` outside `basePath`, which GitHub Pages does not serve and
+ * which leave the page blank.
+ */
+export function findAssetsOutsideBase(indexHtml: string, basePath: string) {
+  return [...indexHtml.matchAll(/\b(?:src|href)=["'](\/(?!\/)[^"']*)["']/g)]
+    .map(([, url]) => url)
+    .filter((url) => !url.startsWith(basePath));
+}
+
+/**
+ * Deployments are the commits of the gh-pages branch, the target is the repository of the chat
+ * under the account of the token.
+ */
+export const githubPagesProvider: DeployProvider = {
+  async deploy({ token }, { chatId, targetId, files }) {
+    const { octokit, owner } = await connect(token);
+    const repoName = targetId || createTargetName(chatId);
+
+    // project sites are served from /<repo>/, only the user site <owner>.github.io from the root
+    const basePath = repoName.toLowerCase() === `${owner.toLowerCase()}.github.io` ? '/' : `/${repoName}/`;
+    const indexHtml = files['/index.html'] && Buffer.from(files['/index.html'], 'base64').toString();
+    const [outsideBase] = indexHtml ? findAssetsOutsideBase(indexHtml, basePath) : [];
+
+    if (outsideBase) {
+      throw new Error(
+        `The build loads ${outsideBase} from the root of the domain, but GitHub Pages serves this site from ${basePath}. ` +
+          `Set the base path of the build to ${basePath} and deploy again.`,
+      );
+    }
+
+    const repository = await getOrCreateRepo(octokit, owner, repoName);
+    const repo = repository.name;
+
+    // the output is served as is, without Jekyll ignoring folders such as _next
+    const contents: Record<string, string> = { ...files, '/.nojekyll': '' };
+
+    const tree = await Promise.all(
+      Object.entries(contents).map(async ([filePath, content]) => {
+        const { data: blob } = await octokit.git.createBlob({ owner, repo, content, encoding: 'base64' });
+        return { path: filePath.replace(/^\//, ''), mode: '100644' as const, type: 'blob' as const, sha: blob.sha };
+      }),
+    );
+
+    const parentSha = await getBranchHead(octokit, owner, repo);
+
+    // the branch holds only the build output, so the tree does not build on the previous one
+    const { data: newTree } = await octokit.git.createTree({ owner, repo, tree });
+    const { data: commit } = await octokit.git.createCommit({
+      owner,
+      repo,
+      message: 'Deploy to GitHub Pages',
+      tree: newTree.sha,
+      parents: parentSha ? [parentSha] : [],
+    });
+
+    if (parentSha) {
+      await octokit.git.updateRef({ owner, repo, ref: `heads/${PAGES_BRANCH}`, sha: commit.sha });
+    } else {
+      await octokit.git.createRef({ owner, repo, ref: `refs/heads/${PAGES_BRANCH}`, sha: commit.sha });
+    }
+
+    try {
+      await octokit.repos.createPagesSite({ owner, repo, source: { branch: PAGES_BRANCH, path: '/' } });
+    } catch (error) {
+      // Pages are already enabled
+      if (!isStatus(error, 409)) {
+        throw error;
+      }
+    }
+
+    // there is no build until Pages picked up the commit
+    const build = await pollUntil(
+      async () => (await listBuilds(octokit, owner, repo)).find((candidate) => candidate.commit === commit.sha),
+      (candidate) => candidate?.status === 'built' || candidate?.status === 'errored',
+    );
+
+    if (build?.status === 'errored') {
+      throw new Error(`Deployment failed: ${build.error?.message || 'Unknown error'}`);
+    }
+
+    const target = await getTarget(octokit, owner, repo);
+
+    return {
+      target,
+      deployment: {
+        id: commit.sha,
+        state: 'ready',
+        createdAt: build?.created_at ?? new Date().toISOString(),
+        url: target.url,
+        isCurrent: true,
+      },
+    };
+  },
+
+  async listDeployments({ token }, repo) {
+    const { octokit, owner } = await connect(token);
+    const target = await getTarget(octokit, owner, repo);
+    const head = await getBranchHead(octokit, owner, repo);
+    const deployments: Deployment[] = [];
+
+    // GitHub builds a commit again on redeploys, the latest build of a commit is listed first
+    for (const build of await listBuilds(octokit, owner, repo)) {
+      if (deployments.some(({ id }) => id === build.commit)) {
+        continue;
+      }
+
+      deployments.push({
+        id: build.commit,
+        state: STATES[build.status ?? ''] ?? 'queued',
+        createdAt: build.created_at,
+        url: build.commit === head ? target.url : undefined,
+        isCurrent: build.commit === head,
+        message: build.error?.message ?? undefined,
+      });
+    }
+
+    return { target, deployments };
+  },
+
+  async getLogs({ token }, repo, commitSha) {
+    const { octokit, owner } = await connect(token);
+    const builds = (await listBuilds(octokit, owner, repo)).filter(({ commit }) => commit === commitSha);
+
+    return builds
+      .reverse()
+      .flatMap((build) => [
+        `${build.created_at} Build ${build.status ?? 'queued'} by ${build.pusher?.login ?? 'GitHub'} in ${build.duration}ms`,
+        ...(build.error?.message ? [`Error: ${build.error.message}`] : []),
+      ]);
+  },
+
+  async redeploy({ token }, repo, commitSha) {
+    const { octokit, owner } = await connect(token);
+    const head = await getBranchHead(octokit, owner, repo);
+    const { data: previous } = await octokit.git.getCommit({ owner, repo, commit_sha: commitSha });
+
+    // a new commit with the content of the old one keeps the history of the branch
+    const { data: commit } = await octokit.git.createCommit({
+      owner,
+      repo,
+      message: `Redeploy ${commitSha.slice(0, 7)}`,
+      tree: previous.tree.sha,
+      parents: head ? [head] : [],
+    });
+
+    await octokit.git.updateRef({ owner, repo, ref: `heads/${PAGES_BRANCH}`, sha: commit.sha });
+    await octokit.repos.requestPagesBuild({ owner, repo });
+
+    return { id: commit.sha, state: 'queued', createdAt: new Date().toISOString() };
+  },
+
+  async rollback({ token }, repo, commitSha) {
+    const { octokit, owner } = await connect(token);
+
+    await octokit.git.updateRef({ owner, repo, ref: `heads/${PAGES_BRANCH}`, sha: commitSha, force: true });
+    await octokit.repos.requestPagesBuild({ owner, repo });
+
+    return { id: commitSha, state: 'queued', createdAt: new Date().toISOString(), isCurrent: true };
+  },
+};
@@ -0,0 +1,20 @@
+import type { DeployProviderName } from '~/types/deploy';
+import { cloudflareProvider } from './cloudflare';
+import { githubPagesProvider } from './github-pages';
+import { netlifyProvider } from './netlify';
+import type { DeployProvider } from './types';
+import { vercelProvider } from './vercel';
+
+export type { DeployOptions, DeployProvider } from './types';
+export { getErrorStatus } from './utils';
+
+const deployProviders: Record<DeployProviderName, DeployProvider> = {
+  netlify: netlifyProvider,
+  vercel: vercelProvider,
+  cloudflare: cloudflareProvider,
+  'github-pages': githubPagesProvider,
+};
+
+export function getDeployProvider(name: string): DeployProvider | undefined {
+  return Object.hasOwn(deployProviders, name) ? deployProviders[name as DeployProviderName] : undefined;
+}
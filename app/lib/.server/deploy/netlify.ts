@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import type { DeploymentState, Deployment, DeployTarget } from '~/types/deploy';
+import type { DeployProvider } from './types';
+import { createTargetName, decodeBase64, DeployError, pollUntil, wait } from './utils';
+
+const NETLIFY_API_URL = 'https://api.netlify.com/api/v1';
+
+interface NetlifySite {
+  id: string;
+  name: string;
+  url: string;
+  ssl_url?: string;
+  published_deploy?: { id: string };
+}
+
+interface NetlifyDeploy {
+  id: string;
+  state: string;
+  created_at: string;
+  ssl_url?: string;
+  deploy_ssl_url?: string;
+  published_at?: string;
+  error_message?: string;
+  required?: string[];
+  summary?: {
+    messages?: { type: string; title: string; description?: string }[];
+  };
+}
+
+const STATES: Record<string, DeploymentState> = {
+  new: 'queued',
+  enqueued: 'queued',
+  ready: 'ready',
+  error: 'error',
+  rejected: 'error',
+};
+
+async function netlifyRequest<T>(token: string, endpoint: string, init: RequestInit = {}): Promise<T> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+
+  if (typeof init.body === 'string') {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const response = await fetch(`${NETLIFY_API_URL}${endpoint}`, { ...init, headers });
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => undefined)) as { message?: string } | undefined;
+    throw new DeployError(data?.message || `Netlify request failed: ${response.status}`, response.status);
+  }
+
+  return (await response.json()) as T;
+}
+
+const toTarget = (site: NetlifySite): DeployTarget => ({
+  id: site.id,
+  name: site.name,
+  url: site.ssl_url || site.url,
+});
+
+const toDeployment = (deploy: NetlifyDeploy, currentId?: string): Deployment => ({
+  id: deploy.id,
+  state: STATES[deploy.state] ?? 'building',
+  createdAt: deploy.created_at,
+  url: deploy.deploy_ssl_url || deploy.ssl_url,
+  isCurrent: deploy.id === currentId,
+  message: deploy.error_message,
+});
+
+async function getOrCreateSite(token: string, siteId: string | undefined, chatId: string) {
+  if (siteId) {
+    try {
+      return await netlifyRequest<NetlifySite>(token, `/sites/${siteId}`);
+    } catch (error) {
+      console.warn(`Netlify site ${siteId} not found, creating a new one`, error);
+    }
+  }
+
+  return netlifyRequest<NetlifySite>(token, '/sites', {
+    method: 'POST',
+    body: JSON.stringify({ name: createTargetName(chatId), custom_domain: null }),
+  });
+}
+
+async function uploadFile(token: string, deployId: string, filePath: string, content: Uint8Array<ArrayBuffer>) {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(`${NETLIFY_API_URL}/deploys/${deployId}/files${filePath}`, {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/octet-stream',
+      },
+      body: content,
+    });
+
+    if (response.ok) {
+      return;
+    }
+
+    if (attempt === 3) {
+      throw new Error(`Failed to upload file ${filePath}`);
+    }
+
+    await wait(2000);
+  }
+}
+
+export const netlifyProvider: DeployProvider = {
+  async deploy({ token }, { chatId, targetId, files, env }) {
+    const site = await getOrCreateSite(token, targetId, chatId);
+
+    if (env && Object.keys(env).length > 0) {
+      // functions of the site read them at runtime
+      await netlifyRequest<NetlifySite>(token, `/sites/${site.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ build_settings: { env } }),
+      });
+    }
+
+    const contents: Record<string, Uint8Array<ArrayBuffer>> = {};
+    const digests: Record<string, string> = {};
+
+    for (const [filePath, content] of Object.entries(files)) {
+      const normalizedPath = filePath.startsWith('/') ? filePath : `/${filePath}`;
+      contents[normalizedPath] = decodeBase64(content);
+      digests[normalizedPath] = crypto.createHash('sha1').update(contents[normalizedPath]).digest('hex');
+    }
+
+    const created = await netlifyRequest<NetlifyDeploy>(token, `/sites/${site.id}/deploys`, {
+      method: 'POST',
+      body: JSON.stringify({ files: digests, async: true, draft: false }),
+    });
+
+    const loadDeploy = () => netlifyRequest<NetlifyDeploy>(token, `/sites/${site.id}/deploys/${created.id}`);
+
+    // Netlify lists the files it does not have yet once the deploy is prepared
+    const prepared = await pollUntil(loadDeploy, (deploy) =>
+      ['prepared', 'uploaded', 'ready', 'error'].includes(deploy.state),
+    );
+    const required = new Set(prepared.required ?? []);
+
+    for (const [filePath, digest] of Object.entries(digests)) {
+      if (required.delete(digest)) {
+        await uploadFile(token, created.id, filePath, contents[filePath]);
+      }
+    }
+
+    const deploy = await pollUntil(loadDeploy, ({ state }) => state === 'ready' || state === 'error');
+
+    if (deploy.state === 'error') {
+      throw new Error(deploy.error_message || 'Deploy failed');
+    }
+
+    return { target: toTarget(site), deployment: toDeployment(deploy, deploy.id) };
+  },
+
+  async listDeployments({ token }, siteId) {
+    const site = await netlifyRequest<NetlifySite>(token, `/sites/${siteId}`);
+    const deploys = await netlifyRequest<NetlifyDeploy[]>(token, `/sites/${siteId}/deploys?per_page=20`);
+
+    return {
+      target: toTarget(site),
+      deployments: deploys.map((deploy) => toDeployment(deploy, site.published_deploy?.id)),
+    };
+  },
+
+  async getLogs({ token }, siteId, deployId) {
+    const deploy = await netlifyRequest<NetlifyDeploy>(token, `/sites/${siteId}/deploys/${deployId}`);
+
+    // uploaded deploys are not built by Netlify, their summary is what it reports
+    return [
+      `${deploy.created_at} Deploy created`,
+      ...(deploy.summary?.messages ?? []).map(({ title, description }) =>
+        description ? `${title}: ${description}` : title,
+      ),
+      ...(deploy.error_message ? [`Error: ${deploy.error_message}`] : []),
+      ...(deploy.published_at ? [`${deploy.published_at} Published`] : []),
+      `State: ${deploy.state}`,
+    ];
+  },
+
+  async redeploy({ token }, siteId, deployId) {
+    const files = await netlifyRequest<{ id: string; sha: string }[]>(token, `/deploys/${deployId}/files`);
+    const digests = Object.fromEntries(files.map((file) => [file.id, file.sha]));
+
+    // every file is known to Netlify already, so nothing has to be uploaded
+    const deploy = await netlifyRequest<NetlifyDeploy>(token, `/sites/${siteId}/deploys`, {
+      method: 'POST',
+      body: JSON.stringify({ files: digests, draft: false }),
+    });
+
+    return toDeployment(deploy);
+  },
+
+  async rollback({ token }, siteId, deployId) {
+    const deploy = await netlifyRequest<NetlifyDeploy>(token, `/sites/${siteId}/deploys/${deployId}/restore`, {
+      method: 'POST',
+    });
+
+    return toDeployment(deploy, deploy.id);
+  },
+};
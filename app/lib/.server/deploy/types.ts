@@ -0,0 +1,39 @@
+import type { DeployCredentials, DeployResult, DeployTarget, Deployment } from '~/types/deploy';
+
+export interface DeployOptions {
+  chatId: string;
+
+  // the target the chat deployed to before, a new one is created when it is missing or gone
+  targetId?: string;
+
+  // base64 encoded, by path from the root of the build output
+  files: Record<string, string>;
+
+  // base64 encoded, by path from the project root, for providers that build themselves
+  sourceFiles?: Record<string, string>;
+  framework?: string;
+
+  // the secrets of the chat, set on the target for providers that run or build the app
+  env?: Record<string, string>;
+}
+
+/**
+ * A hosting service the build output of a chat can be deployed to. Failures are thrown with a message
+ * that can be shown to the user.
+ */
+export interface DeployProvider {
+  deploy(credentials: DeployCredentials, options: DeployOptions): Promise<DeployResult>;
+
+  // the most recent deployments first
+  listDeployments(
+    credentials: DeployCredentials,
+    targetId: string,
+  ): Promise<{ target: DeployTarget; deployments: Deployment[] }>;
+  getLogs(credentials: DeployCredentials, targetId: string, deploymentId: string): Promise<string[]>;
+
+  // deploys the content of a past deployment again as a new deployment
+  redeploy(credentials: DeployCredentials, targetId: string, deploymentId: string): Promise<Deployment>;
+
+  // makes a past deployment the one the target serves
+  rollback(credentials: DeployCredentials, targetId: string, deploymentId: string): Promise<Deployment>;
+}
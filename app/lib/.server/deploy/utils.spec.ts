@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { CloudflareError } from '~/lib/.server/cloudflare';
+import { DeployError, getErrorStatus } from './utils';
+
+describe('getErrorStatus', () => {
+  it('should keep the status of rejected credentials', () => {
+    expect(getErrorStatus(new DeployError('Unauthorized', 401))).toBe(401);
+    expect(getErrorStatus(new CloudflareError('Forbidden', 403))).toBe(403);
+    expect(getErrorStatus(Object.assign(new Error('Bad credentials'), { status: 401 }))).toBe(401);
+  });
+
+  it('should report other failures as server errors', () => {
+    expect(getErrorStatus(new DeployError('Not found', 404))).toBe(500);
+    expect(getErrorStatus(new Error('Deployment timed out'))).toBe(500);
+    expect(getErrorStatus('failed')).toBe(500);
+  });
+});
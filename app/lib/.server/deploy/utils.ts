@@ -0,0 +1,41 @@
+export class DeployError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+// rejected credentials keep their status, every other failure of a provider is a server error
+export function getErrorStatus(error: unknown) {
+  const status = error instanceof Error && 'status' in error ? error.status : undefined;
+  return status === 401 || status === 403 ? status : 500;
+}
+
+export const createTargetName = (chatId: string) => `bolt-diy-${chatId}-${Date.now()}`;
+
+export const decodeBase64 = (content: string) => new Uint8Array(Buffer.from(content, 'base64'));
+
+export const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Loads a value until it satisfies `isDone`, throwing once the attempts are used up.
+ */
+export async function pollUntil<T>(
+  load: () => Promise<T>,
+  isDone: (value: T) => boolean,
+  { maxAttempts = 60, interval = 2000 } = {},
+): Promise<T> {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const value = await load();
+
+    if (isDone(value)) {
+      return value;
+    }
+
+    await wait(interval);
+  }
+
+  throw new Error('Deployment timed out');
+}
@@ -0,0 +1,209 @@
+import type { DeploymentState, Deployment, DeployTarget } from '~/types/deploy';
+import type { DeployProvider } from './types';
+import { createTargetName, DeployError, pollUntil } from './utils';
+
+const VERCEL_API_URL = 'https://api.vercel.com';
+
+// frameworks Vercel builds from the source files, with the directory their build writes to
+const FRAMEWORK_OUTPUT_DIRECTORIES: Record<string, string> = {
+  nextjs: '.next',
+  react: 'dist',
+  vite: 'dist',
+  remix: 'public',
+  nuxt: '.output',
+  sveltekit: 'build',
+  astro: 'dist',
+  vue: 'dist',
+  angular: 'dist',
+};
+
+interface VercelProject {
+  id: string;
+  name: string;
+  targets?: {
+    production?: { id: string };
+  };
+}
+
+// the list endpoint and the single deployment endpoints name the fields differently
+interface VercelDeployment {
+  id?: string;
+  uid?: string;
+  url?: string;
+  readyState?: string;
+  state?: string;
+  createdAt?: number;
+  created?: number;
+  errorMessage?: string;
+  meta?: Record<string, string>;
+}
+
+interface VercelEvent {
+  created?: number;
+  text?: string;
+  payload?: { text?: string };
+}
+
+const STATES: Record<string, DeploymentState> = {
+  QUEUED: 'queued',
+  READY: 'ready',
+  ERROR: 'error',
+  CANCELED: 'canceled',
+};
+
+async function vercelRequest<T>(token: string, endpoint: string, init: RequestInit = {}): Promise<T> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+
+  if (typeof init.body === 'string') {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const response = await fetch(`${VERCEL_API_URL}${endpoint}`, { ...init, headers });
+  const data = (await response.json().catch(() => undefined)) as (T & { error?: { message?: string } }) | undefined;
+
+  if (!response.ok) {
+    throw new DeployError(data?.error?.message || `Vercel request failed: ${response.status}`, response.status);
+  }
+
+  return data as T;
+}
+
+const toTarget = (project: VercelProject): DeployTarget => ({
+  id: project.id,
+  name: project.name,
+  url: `https://${project.name}.vercel.app`,
+});
+
+const toDeployment = (deployment: VercelDeployment, currentId?: string): Deployment => {
+  const id = deployment.id ?? deployment.uid ?? '';
+
+  return {
+    id,
+    state: STATES[deployment.readyState ?? deployment.state ?? ''] ?? 'building',
+    createdAt: new Date(deployment.createdAt ?? deployment.created ?? Date.now()).toISOString(),
+    url: deployment.url ? `https://${deployment.url}` : undefined,
+    isCurrent: id === currentId,
+    message: deployment.errorMessage,
+  };
+};
+
+async function getOrCreateProject(token: string, projectId: string | undefined, chatId: string, framework?: string) {
+  if (projectId) {
+    try {
+      return await vercelRequest<VercelProject>(token, `/v9/projects/${projectId}`);
+    } catch (error) {
+      console.warn(`Vercel project ${projectId} not found, creating a new one`, error);
+    }
+  }
+
+  return vercelRequest<VercelProject>(token, '/v9/projects', {
+    method: 'POST',
+    body: JSON.stringify({ name: createTargetName(chatId), framework: framework || null }),
+  }).catch((error) => {
+    throw new Error(`Failed to create project: ${error.message}`);
+  });
+}
+
+function setProjectEnv(token: string, projectId: string, env: Record<string, string>) {
+  return vercelRequest(token, `/v10/projects/${projectId}/env?upsert=true`, {
+    method: 'POST',
+    body: JSON.stringify(
+      Object.entries(env).map(([key, value]) => ({
+        key,
+        value,
+        type: 'encrypted',
+        target: ['production', 'preview', 'development'],
+      })),
+    ),
+  }).catch((error) => {
+    throw new Error(`Failed to set environment variables: ${error.message}`);
+  });
+}
+
+const toVercelFiles = (files: Record<string, string>) =>
+  Object.entries(files).map(([filePath, content]) => ({
+    // Vercel paths do not start with a slash
+    file: filePath.replace(/^\//, ''),
+    data: content,
+    encoding: 'base64',
+  }));
+
+export const vercelProvider: DeployProvider = {
+  async deploy({ token }, { chatId, targetId, files, sourceFiles, framework, env }) {
+    const project = await getOrCreateProject(token, targetId, chatId, framework);
+
+    // set before the deployment, so its build sees them
+    if (env && Object.keys(env).length > 0) {
+      await setProjectEnv(token, project.id, env);
+    }
+
+    const outputDirectory = framework ? FRAMEWORK_OUTPUT_DIRECTORIES[framework] : undefined;
+
+    // frameworks Vercel knows are built there, everything else is served from the build output
+    const deploymentConfig =
+      outputDirectory && sourceFiles
+        ? { files: toVercelFiles(sourceFiles), buildCommand: 'npm run build', outputDirectory }
+        : { files: toVercelFiles(files), routes: [{ src: '/(.*)', dest: '/$1' }] };
+
+    const created = await vercelRequest<VercelDeployment>(token, '/v13/deployments', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: project.name,
+        project: project.id,
+        target: 'production',
+        ...deploymentConfig,
+      }),
+    }).catch((error) => {
+      throw new Error(`Failed to create deployment: ${error.message}`);
+    });
+
+    const deployment = await pollUntil(
+      () => vercelRequest<VercelDeployment>(token, `/v13/deployments/${created.id}`),
+      ({ readyState }) => readyState === 'READY' || readyState === 'ERROR' || readyState === 'CANCELED',
+    );
+
+    if (deployment.readyState !== 'READY') {
+      throw new Error(deployment.errorMessage || 'Deployment failed');
+    }
+
+    return { target: toTarget(project), deployment: toDeployment(deployment, deployment.id) };
+  },
+
+  async listDeployments({ token }, projectId) {
+    const project = await vercelRequest<VercelProject>(token, `/v9/projects/${projectId}`);
+    const { deployments } = await vercelRequest<{ deployments: VercelDeployment[] }>(
+      token,
+      `/v6/deployments?projectId=${projectId}&limit=20`,
+    );
+
+    return {
+      target: toTarget(project),
+      deployments: deployments.map((deployment) => toDeployment(deployment, project.targets?.production?.id)),
+    };
+  },
+
+  async getLogs({ token }, _projectId, deploymentId) {
+    const events = await vercelRequest<VercelEvent[]>(token, `/v3/deployments/${deploymentId}/events?limit=-1`);
+
+    return events.map((event) => event.payload?.text ?? event.text ?? '').filter(Boolean);
+  },
+
+  async redeploy({ token }, projectId, deploymentId) {
+    const project = await vercelRequest<VercelProject>(token, `/v9/projects/${projectId}`);
+    const deployment = await vercelRequest<VercelDeployment>(token, '/v13/deployments?forceNew=1', {
+      method: 'POST',
+      body: JSON.stringify({ name: project.name, deploymentId, target: 'production' }),
+    });
+
+    return toDeployment(deployment);
+  },
+
+  async rollback({ token }, projectId, deploymentId) {
+    await vercelRequest(token, `/v9/projects/${projectId}/rollback/${deploymentId}`, { method: 'POST' });
+
+    const deployment = await vercelRequest<VercelDeployment>(token, `/v13/deployments/${deploymentId}`);
+
+    return toDeployment(deployment, deploymentId);
+  },
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from './constants';
+import { countMessageTokens, fitContextBudget } from './context-budget';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+const words = (count: number) => 'word '.repeat(count);
+
+const prompts = { system: 'You are a helpful assistant.', summary: '', lockedFiles: '' };
+
+const conversation = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    role: index % 2 === 0 ? ('user' as const) : ('assistant' as const),
+    content: `message ${index} ${words(100)}`,
+  }));
+
+describe('fitContextBudget', () => {
+  it('should keep everything that fits', () => {
+    const messages = conversation(4);
+    const contextFiles: FileMap = { '/home/project/a.ts': file('const a = 1;') };
+
+    const result = fitContextBudget({
+      contextWindow: 10000,
+      maxCompletionTokens: 2000,
+      prompts,
+      contextFiles,
+      messages,
+    });
+
+    expect(result.messages).toEqual(messages);
+    expect(result.contextFiles).toEqual(contextFiles);
+    expect(result.budget.trimmedMessages).toBe(0);
+    expect(result.budget.promptTokens).toBe(
+      result.budget.parts.system + result.budget.parts.context + result.budget.parts.messages,
+    );
+  });
+
+  it('should drop the oldest messages first and start with a user message', () => {
+    const messages = conversation(8);
+    const messageTokens = countMessageTokens(messages[0]);
+
+    // the file leaves room for about five messages
+    const result = fitContextBudget({
+      contextWindow: 1000 + messageTokens * 10,
+      maxCompletionTokens: 1000,
+      prompts,
+      contextFiles: { '/home/project/a.ts': file(words(messageTokens * 4)) },
+      messages,
+    });
+
+    expect(result.messages[0].role).toBe('user');
+    expect(result.messages.at(-1)).toEqual(messages.at(-1));
+    expect(result.budget.trimmedMessages).toBe(messages.length - result.messages.length);
+    expect(result.budget.trimmedFiles).toEqual([]);
+  });
+
+  it('should drop the least relevant files once only the latest messages are left', () => {
+    const messages = conversation(5);
+    const contextFiles: FileMap = {
+      '/home/project/relevant.ts': file(words(200)),
+      '/home/project/other.ts': file(words(5000)),
+    };
+
+    const result = fitContextBudget({
+      contextWindow: 4000,
+      maxCompletionTokens: 1000,
+      prompts,
+      contextFiles,
+      messages,
+    });
+
+    expect(Object.keys(result.contextFiles!)).toEqual(['/home/project/relevant.ts']);
+    expect(result.budget.trimmedFiles).toEqual(['/home/project/other.ts']);
+    expect(result.messages).toHaveLength(3);
+    expect(result.budget.promptTokens).toBeLessThanOrEqual(4000 - result.budget.reservedTokens);
+  });
+});
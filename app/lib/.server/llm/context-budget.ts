@@ -0,0 +1,128 @@
+import type { Message } from 'ai';
+import { countTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+import type { FileMap } from './constants';
+import type { ContextBudgetAnnotation } from '~/types/context';
+
+export type ContextBudget = Omit<ContextBudgetAnnotation, 'type'>;
+
+// role and separators of every message
+const MESSAGE_OVERHEAD = 4;
+
+// file path and artifact markup around every file in the context buffer
+const FILE_OVERHEAD = 16;
+
+// rough size of an image attachment, providers bill them very differently
+const ATTACHMENT_TOKENS = 1000;
+
+// the latest messages are only dropped once no context file is left
+const MIN_MESSAGES = 3;
+
+type BudgetMessage = Omit<Message, 'id'>;
+
+/**
+ * Counts the tokens of a message. The count uses the cl100k encoding for every model, so
+ * it is an estimate for models of other vendors.
+ */
+export function countMessageTokens(message: BudgetMessage) {
+  const content: unknown = message.content;
+  const text =
+    typeof content === 'string'
+      ? content
+      : Array.isArray(content)
+        ? content.map((part) => (part.type === 'text' ? part.text : '')).join('\n')
+        : '';
+
+  const toolTokens = (message.parts ?? []).reduce(
+    (sum, part) => (part.type === 'tool-invocation' ? sum + countTokens(JSON.stringify(part.toolInvocation)) : sum),
+    0,
+  );
+
+  return (
+    MESSAGE_OVERHEAD +
+    countTokens(text) +
+    toolTokens +
+    (message.experimental_attachments?.length ?? 0) * ATTACHMENT_TOKENS
+  );
+}
+
+function countFileTokens(path: string, file: FileMap[string]) {
+  return FILE_OVERHEAD + countTokens(path) + (file?.type === 'file' ? countTokens(file.content) : 0);
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Measures every part of the prompt and trims it until it fits into the context window
+ * next to the completion. The oldest messages go first, then the least relevant context
+ * files, which come last in `contextFiles`, and finally the remaining history except for
+ * the latest message.
+ */
+export function fitContextBudget<M extends BudgetMessage>(options: {
+  contextWindow: number;
+  maxCompletionTokens: number;
+  prompts: { system: string; summary: string; lockedFiles: string };
+  contextFiles?: FileMap;
+  messages: M[];
+}) {
+  const { contextWindow, maxCompletionTokens, prompts } = options;
+
+  // models with a completion limit close to their window still need room for the prompt
+  const reservedTokens = Math.min(maxCompletionTokens, Math.floor(contextWindow / 2));
+  const available = contextWindow - reservedTokens;
+
+  const fixedParts = {
+    system: countTokens(prompts.system),
+    summary: prompts.summary ? countTokens(prompts.summary) : 0,
+    lockedFiles: prompts.lockedFiles ? countTokens(prompts.lockedFiles) : 0,
+  };
+  const fixedTokens = sum(Object.values(fixedParts));
+
+  const messages = [...options.messages];
+  const messageTokens = messages.map(countMessageTokens);
+  const files = Object.entries(options.contextFiles ?? {});
+  const fileTokens = files.map(([path, file]) => countFileTokens(path, file));
+
+  const total = () => fixedTokens + sum(messageTokens) + sum(fileTokens);
+
+  let trimmedMessages = 0;
+  const trimmedFiles: string[] = [];
+
+  const dropOldestMessages = (keep: number) => {
+    while (total() > available && messages.length > keep) {
+      messages.shift();
+      messageTokens.shift();
+      trimmedMessages++;
+
+      // providers expect the conversation to start with a user message
+      while (messages.length > 1 && messages[0].role !== 'user') {
+        messages.shift();
+        messageTokens.shift();
+        trimmedMessages++;
+      }
+    }
+  };
+
+  dropOldestMessages(MIN_MESSAGES);
+
+  while (total() > available && files.length > 0) {
+    trimmedFiles.push(files.pop()![0]);
+    fileTokens.pop();
+  }
+
+  dropOldestMessages(1);
+
+  const budget: ContextBudget = {
+    contextWindow,
+    reservedTokens,
+    promptTokens: total(),
+    parts: { ...fixedParts, context: sum(fileTokens), messages: sum(messageTokens) },
+    trimmedMessages,
+    trimmedFiles,
+  };
+
+  return {
+    messages,
+    contextFiles: options.contextFiles ? (Object.fromEntries(files) as FileMap) : undefined,
+    budget,
+  };
+}
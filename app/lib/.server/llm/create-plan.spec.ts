@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parsePlan } from './create-plan';
+
+describe('parsePlan', () => {
+  it('should read the overview and the tasks in order', () => {
+    const response = `<plan>
+  <overview>Add a todo list with local storage.</overview>
+  <task title="Install zustand">Add zustand to the dependencies.</task>
+  <task title="Add the &quot;Todo&quot; store">Create src/store.ts with add and remove actions.</task>
+</plan>`;
+
+    expect(parsePlan(response)).toEqual({
+      overview: 'Add a todo list with local storage.',
+      tasks: [
+        { id: 'task-1', title: 'Install zustand', description: 'Add zustand to the dependencies.' },
+        {
+          id: 'task-2',
+          title: 'Add the "Todo" store',
+          description: 'Create src/store.ts with add and remove actions.',
+        },
+      ],
+    });
+  });
+
+  it('should accept a plan that was cut off after a complete task', () => {
+    const response = 'Sure!\n<plan>\n<task title="Create the page">Add src/App.tsx.</task>\n<task title="Sty';
+
+    expect(parsePlan(response)?.tasks.map((task) => task.title)).toEqual(['Create the page']);
+  });
+
+  it('should return undefined without tasks', () => {
+    expect(parsePlan('I can not plan this.')).toBeUndefined();
+    expect(parsePlan('<plan><overview>Nothing to do</overview></plan>')).toBeUndefined();
+  });
+});
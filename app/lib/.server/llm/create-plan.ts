@@ -0,0 +1,162 @@
+import { convertToCoreMessages, generateText, type CoreTool, type GenerateTextResult, type Message } from 'ai';
+import type { IProviderSetting } from '~/types/model';
+import type { PlanTask } from '~/types/context';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
+import { extractPropertiesFromMessage, simplifyBoltActions } from './utils';
+import { createScopedLogger } from '~/utils/logger';
+import { LLMManager } from '~/lib/modules/llm/manager';
+
+const logger = createScopedLogger('create-plan');
+
+export interface Plan {
+  overview: string;
+  tasks: PlanTask[];
+}
+
+const decodeAttribute = (value: string) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Reads the `<plan>` of the planner response, returns `undefined` when it holds no task.
+ */
+export function parsePlan(response: string): Plan | undefined {
+  const plan = response.match(/<plan>([\s\S]*?)(<\/plan>|$)/)?.[1];
+
+  if (!plan) {
+    return undefined;
+  }
+
+  const overview = plan.match(/<overview>([\s\S]*?)<\/overview>/)?.[1].trim() ?? '';
+  const tasks = [...plan.matchAll(/<task title="([^"]*)">([\s\S]*?)<\/task>/g)].map(
+    ([, title, description], index) => ({
+      id: `task-${index + 1}`,
+      title: decodeAttribute(title).trim(),
+      description: description.trim(),
+    }),
+  );
+
+  return tasks.length > 0 ? { overview, tasks } : undefined;
+}
+
+export async function createPlan(props: {
+  messages: Message[];
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+  filePaths?: string[];
+  onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
+
+  // the providers of the request, with the custom providers of its user
+  llmManager?: LLMManager;
+}) {
+  const { messages, env: serverEnv, apiKeys, providerSettings, filePaths = [], onFinish } = props;
+  let currentModel = DEFAULT_MODEL;
+  let currentProvider = DEFAULT_PROVIDER.name;
+  const processedMessages = messages.map((message) => {
+    if (message.role === 'user') {
+      const { model, provider, content } = extractPropertiesFromMessage(message);
+      currentModel = model;
+      currentProvider = provider;
+
+      return { ...message, content };
+    } else if (message.role == 'assistant') {
+      let content = message.content;
+
+      content = simplifyBoltActions(content);
+      content = content.replace(/<div class=\\"__boltThought__\\">.*?<\/div>/s, '');
+      content = content.replace(/<think>.*?<\/think>/s, '');
+
+      return { ...message, content };
+    }
+
+    return message;
+  });
+
+  const llmManager = props.llmManager ?? LLMManager.getInstance();
+  const provider = llmManager.getProvider(currentProvider) || DEFAULT_PROVIDER;
+  const staticModels = llmManager.getStaticModelListFromProvider(provider);
+  let modelDetails = staticModels.find((m) => m.name === currentModel);
+
+  if (!modelDetails) {
+    const modelsList = [
+      ...(provider.staticModels || []),
+      ...(await llmManager.getModelListFromProvider(provider, {
+        apiKeys,
+        providerSettings,
+        serverEnv: serverEnv as any,
+      })),
+    ];
+
+    if (!modelsList.length) {
+      throw new Error(`No models found for provider ${provider.name}`);
+    }
+
+    modelDetails = modelsList.find((m) => m.name === currentModel);
+
+    if (!modelDetails) {
+      // Fallback to first model
+      logger.warn(
+        `MODEL [${currentModel}] not found in provider [${provider.name}]. Falling back to first model. ${modelsList[0].name}`,
+      );
+      modelDetails = modelsList[0];
+    }
+  }
+
+  // break the latest request of the user down into tasks that can be built one at a time
+  const resp = await generateText({
+    system: `
+        You are a senior software engineer planning the work on a web project that runs in a WebContainer.
+        ${
+          filePaths.length > 0
+            ? `The project has the following files:
+
+        PROJECT FILES
+        ---
+        ${filePaths.map((path) => `- ${path.replace('/home/project/', '')}`).join('\n')}
+        ---`
+            : 'The project is empty.'
+        }
+
+        Break the latest request of the user down into tasks. Every task is implemented on its own by
+        another engineer in a later message, so it must be self-contained and name the files it touches.
+
+        RESPONSE FORMAT:
+        your response should be in following format:
+---
+<plan>
+  <overview>One or two sentences on the approach</overview>
+  <task title="Short imperative title">What to change and where, in plain English</task>
+</plan>
+---
+        * Use between 2 and 8 tasks, ordered so that every task only depends on earlier ones.
+        * Start with setting up dependencies when the request needs new ones.
+        * Never include code in the tasks.
+        * You should not include any other text in the response.
+        `,
+    messages: convertToCoreMessages(processedMessages as any),
+    model: provider.getModelInstance({
+      model: modelDetails.name,
+      serverEnv,
+      apiKeys,
+      providerSettings,
+    }),
+  });
+
+  if (onFinish) {
+    onFinish(resp);
+  }
+
+  const plan = parsePlan(resp.text);
+
+  if (!plan) {
+    throw new Error('Bolt failed to create a plan');
+  }
+
+  logger.info(`Planned ${plan.tasks.length} tasks`);
+
+  return plan;
+}
@@ -0,0 +1,46 @@
+import { APICallError } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { classifyProviderError, getFallbackChain, setMessageModel } from './fallback';
+
+const apiError = (statusCode: number, message = 'error') =>
+  new APICallError({ message, url: 'https://example.com', requestBodyValues: {}, statusCode });
+
+describe('fallback', () => {
+  it('should only fall back on rate limits, quota and network errors', () => {
+    expect(classifyProviderError(apiError(429))).toBe('rate-limit');
+    expect(classifyProviderError(apiError(400, 'You exceeded your current quota'))).toBe('quota');
+    expect(classifyProviderError(new TypeError('fetch failed'))).toBe('network');
+    expect(classifyProviderError(apiError(401, 'Invalid API key'))).toBeUndefined();
+    expect(classifyProviderError(apiError(400, 'prompt is too long'))).toBeUndefined();
+  });
+
+  it('should skip disabled and duplicate fallbacks', () => {
+    const chain = getFallbackChain(
+      { provider: 'Anthropic', model: 'claude' },
+      {
+        Anthropic: {
+          fallbacks: [
+            { provider: 'OpenRouter', model: 'anthropic/claude' },
+            { provider: 'Ollama', model: 'llama3' },
+            { provider: 'Anthropic', model: 'claude' },
+          ],
+        },
+        Ollama: { enabled: false },
+      },
+    );
+
+    expect(chain).toEqual([
+      { provider: 'Anthropic', model: 'claude' },
+      { provider: 'OpenRouter', model: 'anthropic/claude' },
+    ]);
+  });
+
+  it('should rewrite the model of a user message', () => {
+    const message = setMessageModel(
+      { id: '1', role: 'user', content: '[Model: claude]\n\n[Provider: Anthropic]\n\nhello' },
+      { provider: 'Ollama', model: 'llama3' },
+    );
+
+    expect(message.content).toBe('[Model: llama3]\n\n[Provider: Ollama]\n\nhello');
+  });
+});
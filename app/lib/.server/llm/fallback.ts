@@ -0,0 +1,93 @@
+import { APICallError, RetryError, type Message } from 'ai';
+import type { IProviderSetting, ModelFallback } from '~/types/model';
+import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+
+export type FallbackReason = 'rate-limit' | 'quota' | 'network';
+
+const QUOTA_PATTERN = /quota|insufficient[_ ]credits|billing|credit balance/i;
+const NETWORK_PATTERN =
+  /fetch failed|failed to fetch|network|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|socket hang up/i;
+
+/**
+ * Returns why a request failed when another provider might still be able to answer it,
+ * `undefined` for errors that would fail the same way everywhere.
+ */
+export function classifyProviderError(error: unknown): FallbackReason | undefined {
+  if (RetryError.isInstance(error)) {
+    return classifyProviderError(error.lastError);
+  }
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const statusCode = APICallError.isInstance(error) ? error.statusCode : (error as any)?.statusCode;
+
+  if (statusCode === 402 || QUOTA_PATTERN.test(message)) {
+    return 'quota';
+  }
+
+  if (statusCode === 429 || /rate limit/i.test(message)) {
+    return 'rate-limit';
+  }
+
+  if (statusCode === undefined && NETWORK_PATTERN.test(message)) {
+    return 'network';
+  }
+
+  if (error instanceof Error && error.cause) {
+    return classifyProviderError(error.cause);
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds the ordered list of models to try, starting with the selected one and followed
+ * by the enabled fallbacks configured for its provider.
+ */
+export function getFallbackChain(selected: ModelFallback, providerSettings?: Record<string, IProviderSetting>) {
+  const chain: ModelFallback[] = [selected];
+
+  for (const fallback of providerSettings?.[selected.provider]?.fallbacks ?? []) {
+    if (!fallback.provider || !fallback.model || providerSettings?.[fallback.provider]?.enabled === false) {
+      continue;
+    }
+
+    if (!chain.some((entry) => entry.provider === fallback.provider && entry.model === fallback.model)) {
+      chain.push({ provider: fallback.provider, model: fallback.model });
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Points a user message at another model by rewriting its `[Model: ...]` and
+ * `[Provider: ...]` prefix.
+ */
+export function setMessageModel(message: Message, { model, provider }: ModelFallback): Message {
+  const replace = (text: string) =>
+    text.replace(MODEL_REGEX, `[Model: ${model}]\n\n`).replace(PROVIDER_REGEX, `[Provider: ${provider}]\n\n`);
+
+  if (Array.isArray(message.content)) {
+    return {
+      ...message,
+      content: (message.content as any[]).map((item) =>
+        item.type === 'text' && item.text ? { ...item, text: replace(item.text) } : item,
+      ) as any,
+    };
+  }
+
+  return { ...message, content: replace(message.content) };
+}
+
+export function describeFallbackReason(reason: FallbackReason) {
+  switch (reason) {
+    case 'rate-limit':
+      return 'is rate limited';
+    case 'quota':
+      return 'is out of quota';
+    case 'network':
+      return 'could not be reached';
+  }
+
+  return 'failed';
+}
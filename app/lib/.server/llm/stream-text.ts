@@ -1,8 +1,9 @@
 import { convertToCoreMessages, streamText as _streamText, type Message } from 'ai';
-import { MAX_TOKENS, type FileMap } from './constants';
+import { DEFAULT_CONTEXT_WINDOW, MAX_TOKENS, type FileMap } from './constants';
 import { getSystemPrompt } from '~/lib/common/prompts/prompts';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
 import type { IProviderSetting } from '~/types/model';
+import type { ChatMode } from '~/types/chat';
 import { PromptLibrary } from '~/lib/common/prompt-library';
 import { allowedHTMLElements } from '~/utils/markdown';
 import { LLMManager } from '~/lib/modules/llm/manager';
@@ -10,6 +11,12 @@ import { createScopedLogger } from '~/utils/logger';
 import { createFilesContext, extractPropertiesFromMessage } from './utils';
 import { discussPrompt } from '~/lib/common/prompts/discuss-prompt';
 import type { DesignScheme } from '~/types/design-scheme';
+import { fitContextBudget, type ContextBudget } from './context-budget';
+import { REDACTED_SECRET } from '~/utils/envFile';
+import type { SupabaseTable } from '~/types/supabase';
+import { formatSupabaseSchema } from '~/utils/supabaseSchema';
+import type { ProjectDiagnostic } from '~/types/diagnostics';
+import { formatProjectDiagnostics } from '~/utils/projectDiagnostics';
 
 export type Messages = Message[];
 
@@ -21,6 +28,9 @@ export interface StreamingOptions extends Omit<Parameters<typeof _streamText>[0]
       anonKey?: string;
       supabaseUrl?: string;
     };
+
+    // the tables of the selected project as the client last read them
+    schema?: SupabaseTable[];
   };
 }
 
@@ -44,10 +54,25 @@ export async function streamText(props: {
   promptId?: string;
   contextOptimization?: boolean;
   contextFiles?: FileMap;
+
+  // the context files are excerpts of chunks retrieved from the code index
+  contextIsExcerpt?: boolean;
   summary?: string;
   messageSliceId?: number;
-  chatMode?: 'discuss' | 'build';
+  chatMode?: ChatMode;
   designScheme?: DesignScheme;
+
+  // names of the secrets the client writes to .env, their values never reach the server
+  secretNames?: string[];
+
+  // errors of the background type check and lint that ran after the last response
+  diagnostics?: ProjectDiagnostic[];
+
+  // receives the token budget of the prompt once it was fitted into the context window
+  onContextBudget?: (budget: ContextBudget) => void;
+
+  // the providers of the request, with the custom providers of its user
+  llmManager?: LLMManager;
 }) {
   const {
     messages,
@@ -59,9 +84,13 @@ export async function streamText(props: {
     promptId,
     contextOptimization,
     contextFiles,
+    contextIsExcerpt,
     summary,
     chatMode,
     designScheme,
+    secretNames,
+    diagnostics,
+    onContextBudget,
   } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
@@ -87,14 +116,15 @@ export async function streamText(props: {
     return newMessage;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
-  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
+  const llmManager = props.llmManager ?? LLMManager.getInstance();
+  const provider = llmManager.getProvider(currentProvider) || DEFAULT_PROVIDER;
+  const staticModels = llmManager.getStaticModelListFromProvider(provider);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
 
   if (!modelDetails) {
     const modelsList = [
       ...(provider.staticModels || []),
-      ...(await LLMManager.getInstance().getModelListFromProvider(provider, {
+      ...(await llmManager.getModelListFromProvider(provider, {
         apiKeys,
         providerSettings,
         serverEnv: serverEnv as any,
@@ -121,7 +151,7 @@ export async function streamText(props: {
     `Max tokens for model ${modelDetails.name} is ${dynamicMaxTokens} based on ${modelDetails.maxTokenAllowed} or ${MAX_TOKENS}`,
   );
 
-  let systemPrompt =
+  const basePrompt =
     PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
       cwd: WORK_DIR,
       allowedHtmlElements: allowedHTMLElements,
@@ -134,20 +164,11 @@ export async function streamText(props: {
       },
     }) ?? getSystemPrompt();
 
-  if (chatMode === 'build' && contextFiles && contextOptimization) {
-    const codeContext = createFilesContext(contextFiles, true);
-
-    systemPrompt = `${systemPrompt}
-
-    Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
-    CONTEXT BUFFER:
-    ---
-    ${codeContext}
-    ---
-    `;
+  const useContextBuffer = chatMode === 'build' && contextFiles && contextOptimization;
+  let summaryPrompt = '';
 
-    if (summary) {
-      systemPrompt = `${systemPrompt}
+  if (useContextBuffer && summary) {
+    summaryPrompt = `
       below is the chat history till now
       CHAT SUMMARY:
       ---
@@ -155,14 +176,13 @@ export async function streamText(props: {
       ---
       `;
 
-      if (props.messageSliceId) {
-        processedMessages = processedMessages.slice(props.messageSliceId);
-      } else {
-        const lastMessage = processedMessages.pop();
+    if (props.messageSliceId) {
+      processedMessages = processedMessages.slice(props.messageSliceId);
+    } else {
+      const lastMessage = processedMessages.pop();
 
-        if (lastMessage) {
-          processedMessages = [lastMessage];
-        }
+      if (lastMessage) {
+        processedMessages = [lastMessage];
       }
     }
   }
@@ -177,11 +197,13 @@ export async function streamText(props: {
     }
   }
 
+  let lockedFilesPrompt = '';
+
   if (effectiveLockedFilePaths.size > 0) {
     const lockedFilesListString = Array.from(effectiveLockedFilePaths)
       .map((filePath) => `- ${filePath}`)
       .join('\n');
-    systemPrompt = `${systemPrompt}
+    lockedFilesPrompt = `
 
     IMPORTANT: The following files are locked and MUST NOT be modified in any way. Do not suggest or make any changes to these files. You can proceed with the request but DO NOT make any changes to these files specifically:
     ${lockedFilesListString}
@@ -191,6 +213,89 @@ export async function streamText(props: {
     console.log('No locked files found from any source for prompt.');
   }
 
+  let secretsPrompt = '';
+
+  if (secretNames && secretNames.length > 0) {
+    secretsPrompt = `
+
+    The user has set the following environment variables as secrets. They are written to the \`.env\` file before the app starts or builds, where their values show as ${REDACTED_SECRET}. Read them from the environment, never ask for, invent or hardcode their values and keep their lines in \`.env\` when changing it:
+    ${secretNames.map((name) => `- ${name}`).join('\n')}
+    ---
+    `;
+  }
+
+  let supabaseSchemaPrompt = '';
+
+  if (options?.supabaseConnection?.hasSelectedProject && options.supabaseConnection.schema) {
+    supabaseSchemaPrompt = `
+
+    Below is the current schema of the connected Supabase database. Write migrations against it, never recreate tables or policies that already exist:
+    ---
+    ${formatSupabaseSchema(options.supabaseConnection.schema)}
+    ---
+    `;
+  }
+
+  let diagnosticsPrompt = '';
+
+  if (diagnostics && diagnostics.length > 0) {
+    diagnosticsPrompt = `
+
+    A type check and lint of the project after your last changes reported the errors below. Fix them along with the current request unless the user asks for something else:
+    ---
+    ${formatProjectDiagnostics(diagnostics)}
+    ---
+    `;
+  }
+
+  const budgeted = fitContextBudget({
+    contextWindow: modelDetails.contextWindow || DEFAULT_CONTEXT_WINDOW,
+    maxCompletionTokens: dynamicMaxTokens,
+    prompts:
+      chatMode === 'build'
+        ? {
+            system: `${basePrompt}${supabaseSchemaPrompt}${secretsPrompt}${diagnosticsPrompt}`,
+            summary: summaryPrompt,
+            lockedFiles: lockedFilesPrompt,
+          }
+        : { system: discussPrompt(), summary: '', lockedFiles: '' },
+    contextFiles: useContextBuffer ? contextFiles : undefined,
+    messages: processedMessages,
+  });
+
+  if (budgeted.budget.trimmedMessages || budgeted.budget.trimmedFiles.length) {
+    logger.warn(
+      `Trimmed ${budgeted.budget.trimmedMessages} messages and ${budgeted.budget.trimmedFiles.length} context files to fit ${budgeted.budget.contextWindow} tokens`,
+    );
+  }
+
+  processedMessages = budgeted.messages;
+  onContextBudget?.(budgeted.budget);
+
+  let systemPrompt = basePrompt;
+
+  if (budgeted.contextFiles && Object.keys(budgeted.contextFiles).length > 0) {
+    const codeContext = createFilesContext(budgeted.contextFiles, true);
+
+    systemPrompt = `${systemPrompt}
+
+    Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
+    CONTEXT BUFFER:
+    ---
+    ${codeContext}
+    ---
+    `;
+
+    if (contextIsExcerpt) {
+      systemPrompt = `${systemPrompt}
+      The files in the CONTEXT BUFFER are excerpts, lines marked as omitted exist but are not shown.
+      Use patch actions to change these files, never rewrite them in full from an excerpt.
+      `;
+    }
+  }
+
+  systemPrompt = `${systemPrompt}${summaryPrompt}${lockedFilesPrompt}${supabaseSchemaPrompt}${secretsPrompt}${diagnosticsPrompt}`;
+
   logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
 
   // console.log(systemPrompt, processedMessages);
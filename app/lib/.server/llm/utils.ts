@@ -2,7 +2,7 @@ import { type Message } from 'ai';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
 import { IGNORE_PATTERNS, type FileMap } from './constants';
 import ignore from 'ignore';
-import type { ContextAnnotation } from '~/types/context';
+import type { ContextAnnotation, ContextChunk } from '~/types/context';
 
 export function extractPropertiesFromMessage(message: Omit<Message, 'id'>): {
   model: string;
@@ -54,6 +54,45 @@ export function simplifyBoltActions(input: string): string {
   });
 }
 
+/**
+ * Turns chunks retrieved from the semantic code index into excerpts of their files, keyed
+ * by relative path. Omitted lines are marked so the model can tell an excerpt from a
+ * whole file.
+ */
+export function createChunkContextFiles(chunks: ContextChunk[]) {
+  const chunksByPath = new Map<string, ContextChunk[]>();
+
+  for (const chunk of chunks) {
+    chunksByPath.set(chunk.path, [...(chunksByPath.get(chunk.path) ?? []), chunk]);
+  }
+
+  const files: FileMap = {};
+
+  for (const [path, fileChunks] of chunksByPath) {
+    const parts: string[] = [];
+    let nextLine = 1;
+
+    for (const chunk of fileChunks.sort((a, b) => a.startLine - b.startLine)) {
+      if (chunk.startLine > nextLine) {
+        parts.push(`... (lines ${nextLine}-${chunk.startLine - 1} omitted)`);
+      }
+
+      parts.push(chunk.content);
+      nextLine = chunk.endLine + 1;
+    }
+
+    const { lineCount } = fileChunks[0];
+
+    if (nextLine <= lineCount) {
+      parts.push(`... (lines ${nextLine}-${lineCount} omitted)`);
+    }
+
+    files[path] = { type: 'file', content: parts.join('\n'), isBinary: false };
+  }
+
+  return files;
+}
+
 export function createFilesContext(files: FileMap, useRelativePath?: boolean) {
   const ig = ignore().add(IGNORE_PATTERNS);
   let filePaths = Object.keys(files);
@@ -1,3 +1,5 @@
+import type { CustomProviderDefinition } from '~/types/model';
+
 export function parseCookies(cookieHeader: string | null) {
   const cookies: Record<string, string> = {};
 
@@ -31,3 +33,17 @@ export function getProviderSettingsFromCookie(cookieHeader: string | null): Reco
   const cookies = parseCookies(cookieHeader);
   return cookies.providers ? JSON.parse(cookies.providers) : {};
 }
+
+export function getCustomProvidersFromCookie(cookieHeader: string | null): CustomProviderDefinition[] {
+  const cookies = parseCookies(cookieHeader);
+
+  try {
+    const definitions = cookies.customProviders ? JSON.parse(cookies.customProviders) : [];
+    return Array.isArray(definitions)
+      ? definitions.filter((definition) => typeof definition?.name === 'string' && Array.isArray(definition.models))
+      : [];
+  } catch {
+    // a malformed cookie only loses the custom providers
+    return [];
+  }
+}
@@ -0,0 +1,49 @@
+export interface CodeChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  lineCount: number;
+  content: string;
+  tokens: number;
+}
+
+const MIN_CHUNK_LINES = 20;
+const MAX_CHUNK_LINES = 60;
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Splits a file into chunks of whole lines. Chunks end at a blank line once they are long
+ * enough so functions and blocks tend to stay together.
+ */
+export function chunkFile(path: string, content: string): CodeChunk[] {
+  const lines = content.split('\n');
+  const chunks: CodeChunk[] = [];
+  let start = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const length = i - start + 1;
+    const isBoundary = length >= MIN_CHUNK_LINES && lines[i].trim() === '';
+
+    if (isBoundary || length >= MAX_CHUNK_LINES || i === lines.length - 1) {
+      const chunkContent = lines.slice(start, i + 1).join('\n');
+
+      if (chunkContent.trim()) {
+        chunks.push({
+          path,
+          startLine: start + 1,
+          endLine: i + 1,
+          lineCount: lines.length,
+          content: chunkContent,
+          tokens: estimateTokens(chunkContent),
+        });
+      }
+
+      start = i + 1;
+    }
+  }
+
+  return chunks;
+}
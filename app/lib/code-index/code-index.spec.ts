@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { chunkFile } from './chunker';
+import { CodeIndex } from './code-index';
+import { localEmbedder, type Embedder } from './embeddings';
+import type { FileMap } from '~/lib/stores/files';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+const countingEmbedder = () => {
+  const embedded: string[] = [];
+  const embedder: Embedder = {
+    id: 'counting',
+    embed: (texts) => {
+      embedded.push(...texts);
+      return localEmbedder.embed(texts);
+    },
+  };
+
+  return { embedder, embedded };
+};
+
+describe('CodeIndex', () => {
+  it('should split files into chunks of whole lines', () => {
+    const content = Array.from({ length: 130 }, (_, i) => `line ${i + 1}`).join('\n');
+    const chunks = chunkFile('src/a.ts', content);
+
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [1, 60],
+      [61, 120],
+      [121, 130],
+    ]);
+  });
+
+  it('should only embed files that changed', async () => {
+    const { embedder, embedded } = countingEmbedder();
+    const index = new CodeIndex(embedder);
+
+    await index.update({ '/home/project/a.ts': file('const a = 1;'), '/home/project/b.ts': file('const b = 2;') });
+    expect(embedded).toHaveLength(2);
+
+    await index.update({ '/home/project/a.ts': file('const a = 3;'), '/home/project/b.ts': file('const b = 2;') });
+    expect(embedded).toHaveLength(3);
+
+    await index.update({ '/home/project/a.ts': file('const a = 3;') });
+    expect(index.chunkCount).toBe(1);
+  });
+
+  it('should only look at the written paths when they are given', async () => {
+    const { embedder, embedded } = countingEmbedder();
+    const index = new CodeIndex(embedder);
+
+    await index.update({ '/home/project/a.ts': file('const a = 1;'), '/home/project/b.ts': file('const b = 2;') });
+    await index.update({ '/home/project/a.ts': file('const a = 3;'), '/home/project/c.ts': file('const c = 4;') }, [
+      '/home/project/a.ts',
+    ]);
+
+    expect(embedded).toHaveLength(3);
+    expect(index.chunkCount).toBe(2);
+
+    await index.update({}, ['/home/project/b.ts']);
+    expect(index.chunkCount).toBe(1);
+  });
+
+  it('should retrieve the most relevant chunks within the token budget', async () => {
+    const files: FileMap = {
+      '/home/project/src/cart.ts': file(
+        'export function addToCart(cart: Cart, item: Item) {\n  cart.items.push(item);\n}',
+      ),
+      '/home/project/src/user.ts': file('export function loginUser(email: string, password: string) {}'),
+      '/home/project/node_modules/lib/cart.js': file('function addToCart() {}'),
+    };
+    const index = new CodeIndex();
+    await index.update(files);
+
+    const results = await index.search('add an item to the cart', { topK: 5, maxTokens: 1000 });
+
+    expect(results[0].path).toBe('src/cart.ts');
+    expect(results.some((chunk) => chunk.path.startsWith('node_modules'))).toBe(false);
+    expect(await index.search('add an item to the cart', { topK: 5, maxTokens: 1 })).toEqual([]);
+  });
+});
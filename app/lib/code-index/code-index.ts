@@ -0,0 +1,161 @@
+import { chunkFile, type CodeChunk } from './chunker';
+import { cosineSimilarity, localEmbedder, type Embedder } from './embeddings';
+import type { FileMap } from '~/lib/stores/files';
+import { extractRelativePath } from '~/utils/diff';
+import { ig } from '~/utils/fileUtils';
+
+// larger files are usually generated or minified
+const MAX_FILE_LENGTH = 200_000;
+const LOCK_FILE_PATTERN = /(^|\/)(package-lock\.json|pnpm-lock\.yaml|yarn\.lock|bun\.lockb?)$/;
+
+interface IndexedFile {
+  content: string;
+  chunks: CodeChunk[];
+  embeddings: number[][];
+}
+
+export interface ScoredChunk extends CodeChunk {
+  score: number;
+}
+
+export interface SearchOptions {
+  topK: number;
+
+  // estimated tokens of all returned chunks together
+  maxTokens: number;
+}
+
+/**
+ * In-memory index of the project files split into embedded chunks. Updates only re-embed
+ * the files whose content changed since the last update, and only look at `paths` when the
+ * caller knows which files were written.
+ */
+export class CodeIndex {
+  #embedder: Embedder;
+  #files = new Map<string, IndexedFile>();
+  #pendingUpdate: Promise<void> = Promise.resolve();
+
+  constructor(embedder: Embedder = localEmbedder) {
+    this.#embedder = embedder;
+  }
+
+  get embedderId() {
+    return this.#embedder.id;
+  }
+
+  get chunkCount() {
+    let count = 0;
+
+    for (const file of this.#files.values()) {
+      count += file.chunks.length;
+    }
+
+    return count;
+  }
+
+  setEmbedder(embedder: Embedder) {
+    if (embedder.id === this.#embedder.id) {
+      return;
+    }
+
+    this.#embedder = embedder;
+    this.#files.clear();
+  }
+
+  update(files: FileMap, paths?: Iterable<string>) {
+    // updates are chained so a slow embedder never indexes an older state last
+    const update = this.#pendingUpdate.catch(() => undefined).then(() => this.#update(files, paths));
+    this.#pendingUpdate = update;
+
+    return update;
+  }
+
+  async search(query: string, { topK, maxTokens }: SearchOptions): Promise<ScoredChunk[]> {
+    await this.#pendingUpdate;
+
+    const embedder = this.#embedder;
+    const [queryEmbedding] = await embedder.embed([query]);
+    const scored: ScoredChunk[] = [];
+
+    for (const file of this.#files.values()) {
+      file.chunks.forEach((chunk, i) => {
+        scored.push({ ...chunk, score: cosineSimilarity(queryEmbedding, file.embeddings[i]) });
+      });
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+
+    const results: ScoredChunk[] = [];
+    let tokens = 0;
+
+    for (const chunk of scored) {
+      if (results.length >= topK || chunk.score <= 0) {
+        break;
+      }
+
+      if (tokens + chunk.tokens > maxTokens) {
+        continue;
+      }
+
+      results.push(chunk);
+      tokens += chunk.tokens;
+    }
+
+    return results;
+  }
+
+  async #update(files: FileMap, paths: Iterable<string> = [...this.#files.keys(), ...Object.keys(files)]) {
+    const embedder = this.#embedder;
+    const changed: Array<{ path: string; content: string; chunks: CodeChunk[] }> = [];
+
+    for (const path of new Set(paths)) {
+      const content = getIndexableContent(path, files);
+
+      if (content === undefined) {
+        this.#files.delete(path);
+      } else if (this.#files.get(path)?.content !== content) {
+        changed.push({ path, content, chunks: chunkFile(extractRelativePath(path), content) });
+      }
+    }
+
+    if (changed.length === 0) {
+      return;
+    }
+
+    const chunks = changed.flatMap((file) => file.chunks);
+    const embeddings = await embedder.embed(chunks.map((chunk) => `${chunk.path}\n${chunk.content}`));
+
+    if (embedder !== this.#embedder) {
+      // the embedder was switched while embedding, these vectors are useless now
+      return;
+    }
+
+    let offset = 0;
+
+    for (const file of changed) {
+      this.#files.set(file.path, {
+        content: file.content,
+        chunks: file.chunks,
+        embeddings: embeddings.slice(offset, offset + file.chunks.length),
+      });
+      offset += file.chunks.length;
+    }
+  }
+}
+
+function getIndexableContent(path: string, files: FileMap) {
+  const dirent = files[path];
+  const relativePath = extractRelativePath(path);
+
+  if (
+    dirent?.type !== 'file' ||
+    dirent.isBinary ||
+    dirent.content.length > MAX_FILE_LENGTH ||
+    LOCK_FILE_PATTERN.test(relativePath) ||
+    ig.ignores(relativePath)
+  ) {
+    return undefined;
+  }
+
+  return dirent.content;
+}
@@ -0,0 +1,95 @@
+export interface Embedder {
+  // chunks embedded by different embedders are not comparable, the index is rebuilt when this changes
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const LOCAL_DIMENSIONS = 512;
+const PROVIDER_BATCH_SIZE = 64;
+
+/**
+ * Splits code into lowercase words, breaking up camelCase and snake_case identifiers.
+ */
+export function tokenize(text: string) {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1);
+}
+
+function hashToken(token: string) {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Hashes the words of the text into a fixed size vector, a cheap embedding that works
+ * offline and finds chunks sharing identifiers and words with the query.
+ */
+export function localEmbedding(text: string) {
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+
+  for (const token of tokenize(text)) {
+    const hash = hashToken(token);
+    vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  // dampen words repeated all over a chunk
+  return vector.map((value) => Math.sign(value) * Math.log1p(Math.abs(value)));
+}
+
+export const localEmbedder: Embedder = {
+  id: 'local',
+  embed: async (texts) => texts.map(localEmbedding),
+};
+
+/**
+ * Embeds through `/api/embeddings` with the embedding model of `provider`.
+ */
+export function createProviderEmbedder(provider: string): Embedder {
+  return {
+    id: `provider:${provider}`,
+    async embed(texts) {
+      const embeddings: number[][] = [];
+
+      for (let i = 0; i < texts.length; i += PROVIDER_BATCH_SIZE) {
+        const response = await fetch('/api/embeddings', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ provider, texts: texts.slice(i, i + PROVIDER_BATCH_SIZE) }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to create embeddings with ${provider}: ${response.statusText}`);
+        }
+
+        const data = (await response.json()) as { embeddings: number[][] };
+        embeddings.push(...data.embeddings);
+      }
+
+      return embeddings;
+    },
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
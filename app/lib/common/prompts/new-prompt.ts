@@ -168,6 +168,7 @@ The year is 2025.
     - shell: Running commands (use --yes for npx/npm create, && for sequences, NEVER re-run dev servers)
     - start: Starting project (use ONLY for project startup, LAST action)
     - file: Creating/updating files (add filePath and contentType attributes)
+    - patch: Editing part of an EXISTING file (add filePath attribute) using search/replace blocks
 
   File Action Rules:
     - Only include new/modified files
@@ -175,6 +176,18 @@ The year is 2025.
     - NEVER use diffs for new files or SQL migrations
     - FORBIDDEN: Binary files, base64 assets
 
+  Patch Action Rules:
+    - Prefer patch over file for small changes to large existing files
+    - Content is one or more blocks, applied in order:
+      <<<<<<< SEARCH
+      exact lines copied from the latest version of the file
+      =======
+      replacement lines
+      >>>>>>> REPLACE
+    - SEARCH text must match the file exactly and only once, include enough surrounding lines to be unique
+    - Keep blocks small, never use patch for new files
+    - If a patch fails, resend the change as a file action with the full content
+
   Action Order:
     - Create files BEFORE shell commands that depend on them
     - Update package.json FIRST, then install dependencies
@@ -0,0 +1,97 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useRef } from 'react';
+import { autoFixStore, finishAutoFix, resetAutoFix, startAutoFixAttempt } from '~/lib/stores/autoFix';
+import { chatStore } from '~/lib/stores/chat';
+import { autoFixEnabledStore, autoFixMaxAttemptsStore } from '~/lib/stores/settings';
+import { redactSecrets } from '~/lib/stores/secrets';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('AutoFix');
+
+// dev servers and the preview report errors a little after the commands finished
+const VERIFY_DELAY = 5000;
+
+interface UseAutoFixOptions {
+  isLoading: boolean;
+  sendMessage: (message: string) => void;
+}
+
+/**
+ * Sends terminal and preview errors back to the AI while auto-fix is enabled. After every
+ * response the fix counts as verified once its actions finished without raising a new error.
+ */
+export function useAutoFix({ isLoading, sendMessage }: UseAutoFixOptions) {
+  const enabled = useStore(autoFixEnabledStore);
+  const maxAttempts = useStore(autoFixMaxAttemptsStore);
+  const alert = useStore(workbenchStore.alert);
+
+  const sendMessageRef = useRef(sendMessage);
+  sendMessageRef.current = sendMessage;
+
+  const awaitingResponseRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      return undefined;
+    }
+
+    if (isLoading) {
+      awaitingResponseRef.current = false;
+      return undefined;
+    }
+
+    const { status, attempt } = autoFixStore.get();
+
+    if (alert) {
+      if (status === 'exhausted') {
+        return undefined;
+      }
+
+      if (status === 'succeeded') {
+        resetAutoFix();
+      } else if (attempt >= maxAttempts) {
+        finishAutoFix('exhausted');
+        return undefined;
+      }
+
+      logger.debug(`Starting auto-fix attempt for "${alert.title}"`);
+
+      const prompt = startAutoFixAttempt(alert, maxAttempts, redactSecrets(workbenchStore.files.get()));
+
+      awaitingResponseRef.current = true;
+      workbenchStore.clearAlert();
+      sendMessageRef.current(prompt);
+
+      return undefined;
+    }
+
+    if (status !== 'fixing' || awaitingResponseRef.current) {
+      return undefined;
+    }
+
+    if (chatStore.get().aborted) {
+      resetAutoFix();
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    workbenchStore
+      .waitForActions()
+      .then(() => new Promise((resolve) => setTimeout(resolve, VERIFY_DELAY)))
+      .then(() => {
+        const state = autoFixStore.get();
+
+        if (cancelled || state.status !== 'fixing' || state.attempt !== attempt || workbenchStore.alert.get()) {
+          return;
+        }
+
+        finishAutoFix('succeeded');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, alert, isLoading, maxAttempts]);
+}
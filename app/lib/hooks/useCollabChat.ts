@@ -0,0 +1,82 @@
+import { useStore } from '@nanostores/react';
+import type { Message } from 'ai';
+import { useEffect, useRef } from 'react';
+import {
+  collabStore,
+  getCollabMessages,
+  joinCollabRoom,
+  onCollabMessages,
+  shareCollabMessages,
+} from '~/lib/stores/collab';
+import { createSampler } from '~/utils/sampler';
+
+// streamed responses are shared a few times per second rather than per chunk
+const shareSampledMessages = createSampler(shareCollabMessages, 250);
+
+interface UseCollabChatOptions {
+  messages: Message[];
+  isLoading: boolean;
+  onRemoteMessages: (messages: Message[]) => void;
+}
+
+/**
+ * Shares the chat with the collaboration room and shows the messages of the other peers,
+ * including the response one of them is streaming. A room link opens the room on load.
+ */
+export function useCollabChat({ messages, isLoading, onRemoteMessages }: UseCollabChatOptions) {
+  const { room, synced } = useStore(collabStore);
+
+  const onRemoteMessagesRef = useRef(onRemoteMessages);
+  onRemoteMessagesRef.current = onRemoteMessages;
+
+  const isLoadingRef = useRef(isLoading);
+  isLoadingRef.current = isLoading;
+
+  // remote messages wait while the local chat streams its own response
+  const pendingMessagesRef = useRef<Message[]>();
+
+  useEffect(() => {
+    const linkedRoom = new URLSearchParams(window.location.search).get('collab');
+
+    if (linkedRoom && linkedRoom !== collabStore.get().room) {
+      joinCollabRoom(linkedRoom);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!synced) {
+      return undefined;
+    }
+
+    const applyRemoteMessages = (remoteMessages: Message[]) => {
+      if (isLoadingRef.current) {
+        pendingMessagesRef.current = remoteMessages;
+      } else {
+        onRemoteMessagesRef.current(remoteMessages);
+      }
+    };
+
+    const sharedMessages = getCollabMessages();
+
+    if (sharedMessages.length > 0) {
+      applyRemoteMessages(sharedMessages);
+    } else {
+      shareCollabMessages(messages);
+    }
+
+    return onCollabMessages(applyRemoteMessages);
+  }, [room, synced]);
+
+  useEffect(() => {
+    if (!isLoading && pendingMessagesRef.current) {
+      onRemoteMessagesRef.current(pendingMessagesRef.current);
+      pendingMessagesRef.current = undefined;
+    }
+  }, [isLoading]);
+
+  useEffect(() => {
+    if (synced) {
+      shareSampledMessages(messages);
+    }
+  }, [messages, synced]);
+}
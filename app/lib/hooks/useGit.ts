@@ -6,7 +6,7 @@ import http from 'isomorphic-git/http/web';
 import Cookies from 'js-cookie';
 import { toast } from 'react-toastify';
 
-const lookupSavedPassword = (url: string) => {
+export const lookupSavedPassword = (url: string) => {
   const domain = url.split('/')[2];
   const gitCreds = Cookies.get(`git:${domain}`);
 
@@ -23,7 +23,7 @@ const lookupSavedPassword = (url: string) => {
   }
 };
 
-const saveGitAuth = (url: string, auth: GitAuth) => {
+export const saveGitAuth = (url: string, auth: GitAuth) => {
   const domain = url.split('/')[2];
   Cookies.set(`git:${domain}`, JSON.stringify(auth));
 };
@@ -171,9 +171,13 @@ export function useGit() {
   return { ready, gitClone };
 }
 
-const getFs = (
+/**
+ * File system of the WebContainer for isomorphic-git, files written through it are
+ * recorded in `record` when given.
+ */
+export const getFs = (
   webcontainer: WebContainer,
-  record: MutableRefObject<Record<string, { data: any; encoding?: string }>>,
+  record?: MutableRefObject<Record<string, { data: any; encoding?: string }>>,
 ) => ({
   promises: {
     readFile: async (path: string, options: any) => {
@@ -191,7 +195,7 @@ const getFs = (
     writeFile: async (path: string, data: any, options: any = {}) => {
       const relativePath = pathUtils.relative(webcontainer.workdir, path);
 
-      if (record.current) {
+      if (record?.current) {
         record.current[relativePath] = { data, encoding: options?.encoding };
       }
 
@@ -0,0 +1,97 @@
+import { useStore } from '@nanostores/react';
+import type { Message } from 'ai';
+import { useEffect, useRef } from 'react';
+import { chatStore } from '~/lib/stores/chat';
+import { completePlanTask, loadPlan, planStore, startNextPlanTask, stopPlan } from '~/lib/stores/plan';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { TaskListAnnotation } from '~/types/context';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('PlanRunner');
+
+interface UsePlanRunnerOptions {
+  messages: Message[];
+  isLoading: boolean;
+  hasError: boolean;
+  sendMessage: (message: string) => void;
+}
+
+const findTaskList = (message: Message) =>
+  message.annotations?.find(
+    (annotation) =>
+      !!annotation && typeof annotation === 'object' && (annotation as { type?: string }).type === 'taskList',
+  ) as TaskListAnnotation | undefined;
+
+/**
+ * Picks up the task list of the latest planner response and, once the plan runs, sends its
+ * tasks one by one. A task is done when its response finished and its actions ran.
+ */
+export function usePlanRunner({ messages, isLoading, hasError, sendMessage }: UsePlanRunnerOptions) {
+  const { status } = useStore(planStore);
+
+  const sendMessageRef = useRef(sendMessage);
+  sendMessageRef.current = sendMessage;
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const awaitingResponseRef = useRef(false);
+
+  useEffect(() => {
+    if (isLoading) {
+      return;
+    }
+
+    const lastAssistantMessage = messages.findLast((message) => message.role === 'assistant');
+    const taskList = lastAssistantMessage && findTaskList(lastAssistantMessage);
+
+    if (taskList && planStore.get().planMessageId !== lastAssistantMessage.id) {
+      loadPlan(lastAssistantMessage.id, taskList.tasks);
+    }
+  }, [messages, isLoading]);
+
+  useEffect(() => {
+    if (status !== 'running') {
+      return undefined;
+    }
+
+    if (isLoading) {
+      awaitingResponseRef.current = false;
+      return undefined;
+    }
+
+    if (awaitingResponseRef.current) {
+      return undefined;
+    }
+
+    const taskInProgress = planStore.get().tasks.some((task) => task.status === 'in-progress');
+
+    // the response of the task was stopped or failed, resuming the plan builds the task again
+    if (taskInProgress && (chatStore.get().aborted || hasError)) {
+      stopPlan();
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    workbenchStore.waitForActions().then(() => {
+      if (cancelled || planStore.get().status !== 'running') {
+        return;
+      }
+
+      completePlanTask(messagesRef.current.findLast((message) => message.role === 'assistant')?.id);
+
+      const prompt = startNextPlanTask();
+
+      if (prompt) {
+        logger.debug(`Starting plan task: ${prompt.split('\n')[0]}`);
+        awaitingResponseRef.current = true;
+        sendMessageRef.current(prompt);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status, isLoading, hasError]);
+}
@@ -0,0 +1,33 @@
+import type { Message } from 'ai';
+import { useEffect, useRef } from 'react';
+import { runProjectCheck } from '~/lib/stores/projectDiagnostics';
+import { workbenchStore } from '~/lib/stores/workbench';
+
+interface UseProjectDiagnosticsOptions {
+  messages: Message[];
+  isLoading: boolean;
+}
+
+/**
+ * Type checks and lints the project once the actions of a response with an artifact finished.
+ */
+export function useProjectDiagnostics({ messages, isLoading }: UseProjectDiagnosticsOptions) {
+  const wasLoadingRef = useRef(false);
+
+  useEffect(() => {
+    const wasLoading = wasLoadingRef.current;
+    wasLoadingRef.current = isLoading;
+
+    if (isLoading || !wasLoading) {
+      return;
+    }
+
+    const lastMessage = messages[messages.length - 1];
+
+    if (lastMessage?.role !== 'assistant' || !lastMessage.content.includes('<boltArtifact')) {
+      return;
+    }
+
+    workbenchStore.waitForActions().then(() => runProjectCheck());
+  }, [isLoading]);
+}
@@ -4,9 +4,14 @@ import {
   isEventLogsEnabled,
   promptStore,
   providersStore,
+  customProvidersStore,
   latestBranchStore,
   autoSelectStarterTemplate,
   enableContextOptimizationStore,
+  autoFixEnabledStore,
+  autoFixMaxAttemptsStore,
+  diagnosticsAutoIncludeStore,
+  contextSelectionStore,
   tabConfigurationStore,
   resetTabConfiguration as resetTabConfig,
   updateProviderSettings as updateProviderSettingsStore,
@@ -15,6 +20,10 @@ import {
   updateContextOptimization,
   updateEventLogs,
   updatePromptId,
+  updateAutoFix,
+  updateAutoFixMaxAttempts,
+  updateDiagnosticsAutoInclude,
+  updateContextSelection,
 } from '~/lib/stores/settings';
 import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
@@ -58,6 +67,14 @@ export interface UseSettingsReturn {
   setAutoSelectTemplate: (enabled: boolean) => void;
   contextOptimizationEnabled: boolean;
   enableContextOptimization: (enabled: boolean) => void;
+  autoFixEnabled: boolean;
+  enableAutoFix: (enabled: boolean) => void;
+  autoFixMaxAttempts: number;
+  setAutoFixMaxAttempts: (attempts: number) => void;
+  diagnosticsAutoInclude: boolean;
+  enableDiagnosticsAutoInclude: (enabled: boolean) => void;
+  contextSelection: string;
+  setContextSelection: (selection: string) => void;
 
   // Tab configuration
   tabConfiguration: TabWindowConfig;
@@ -71,6 +88,7 @@ interface ProviderSettingWithIndex extends IProviderSetting {
 
 export function useSettings(): UseSettingsReturn {
   const providers = useStore(providersStore);
+  const customProviders = useStore(customProvidersStore);
   const debug = useStore(isDebugMode);
   const eventLogs = useStore(isEventLogsEnabled);
   const promptId = useStore(promptStore);
@@ -78,6 +96,10 @@ export function useSettings(): UseSettingsReturn {
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const autoFixEnabled = useStore(autoFixEnabledStore);
+  const autoFixMaxAttempts = useStore(autoFixMaxAttemptsStore);
+  const diagnosticsAutoInclude = useStore(diagnosticsAutoIncludeStore);
+  const contextSelection = useStore(contextSelectionStore);
   const tabConfiguration = useStore(tabConfigurationStore);
   const [settings, setSettings] = useState<Settings>(() => {
     const storedSettings = getLocalStorage('settings');
@@ -143,6 +165,26 @@ export function useSettings(): UseSettingsReturn {
     logStore.logSystem(`Context optimization ${enabled ? 'enabled' : 'disabled'}`);
   }, []);
 
+  const enableAutoFix = useCallback((enabled: boolean) => {
+    updateAutoFix(enabled);
+    logStore.logSystem(`Auto-fix ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setAutoFixMaxAttempts = useCallback((attempts: number) => {
+    updateAutoFixMaxAttempts(attempts);
+    logStore.logSystem(`Auto-fix attempts set to ${attempts}`);
+  }, []);
+
+  const enableDiagnosticsAutoInclude = useCallback((enabled: boolean) => {
+    updateDiagnosticsAutoInclude(enabled);
+    logStore.logSystem(`Diagnostics in chat requests ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setContextSelection = useCallback((selection: string) => {
+    updateContextSelection(selection);
+    logStore.logSystem(`Context selection set to ${selection}`);
+  }, []);
+
   const setTheme = useCallback(
     (theme: Settings['theme']) => {
       saveSettings({ theme });
@@ -180,6 +222,10 @@ export function useSettings(): UseSettingsReturn {
     Cookies.set('providers', JSON.stringify(providerSetting));
   }, [providers]);
 
+  useEffect(() => {
+    Cookies.set('customProviders', JSON.stringify(customProviders));
+  }, [customProviders]);
+
   return {
     ...settings,
     providers,
@@ -197,6 +243,14 @@ export function useSettings(): UseSettingsReturn {
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    autoFixEnabled,
+    enableAutoFix,
+    autoFixMaxAttempts,
+    setAutoFixMaxAttempts,
+    diagnosticsAutoInclude,
+    enableDiagnosticsAutoInclude,
+    contextSelection,
+    setContextSelection,
     setTheme,
     setLanguage,
     setNotifications,
@@ -0,0 +1,80 @@
+import type { GitAuth } from 'isomorphic-git';
+import type { CreateRepositoryOptions, GitRemoteCredentials, GitRemoteRepository, GitRemoteUser } from './types';
+
+export class GitRemoteError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A Git hosting service that repositories can be listed on, created on and pushed to with a
+ * personal access token.
+ */
+export abstract class BaseGitRemote {
+  abstract name: string;
+  abstract icon: string;
+
+  // self-hosted instances have no default and need their URL
+  defaultBaseUrl?: string;
+
+  // page of the instance where users create an access token
+  abstract tokenPath: string;
+
+  protected abstract getAuthorizationHeader(token: string): string;
+
+  abstract getUser(credentials: GitRemoteCredentials): Promise<GitRemoteUser>;
+
+  abstract listRepositories(credentials: GitRemoteCredentials): Promise<GitRemoteRepository[]>;
+
+  /**
+   * Returns `undefined` when the repository does not exist or is not visible to the user.
+   */
+  abstract getRepository(credentials: GitRemoteCredentials, fullName: string): Promise<GitRemoteRepository | undefined>;
+
+  abstract createRepository(
+    credentials: GitRemoteCredentials,
+    options: CreateRepositoryOptions,
+  ): Promise<GitRemoteRepository>;
+
+  /**
+   * Credentials for cloning and pushing over HTTPS.
+   */
+  abstract getGitAuth(credentials: GitRemoteCredentials, user: GitRemoteUser): GitAuth;
+
+  getTokenUrl(baseUrl = this.defaultBaseUrl) {
+    return baseUrl ? `${baseUrl}${this.tokenPath}` : undefined;
+  }
+
+  /**
+   * Calls the REST API of the instance through the git proxy, self-hosted instances rarely
+   * allow cross-origin requests.
+   */
+  protected async request<T>(credentials: GitRemoteCredentials, path: string, init: RequestInit = {}): Promise<T> {
+    const url = `/api/git-proxy/${credentials.baseUrl.replace(/^https?:\/\//, '')}${path}`;
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: this.getAuthorizationHeader(credentials.token),
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const body = (await response.json().catch(() => ({}))) as { message?: unknown; error?: unknown };
+      const message = body.message ?? body.error ?? response.statusText;
+
+      throw new GitRemoteError(
+        `${this.name} request failed (${response.status}): ${typeof message === 'string' ? message : JSON.stringify(message)}`,
+        response.status,
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,17 @@
+import type { BaseGitRemote } from './base-remote';
+import GitLabRemote from './remotes/gitlab';
+import GiteaRemote from './remotes/gitea';
+
+export { GitLabRemote, GiteaRemote };
+
+export const gitRemotes: BaseGitRemote[] = [new GitLabRemote(), new GiteaRemote()];
+
+export function getGitRemote(name: string) {
+  const remote = gitRemotes.find((item) => item.name === name);
+
+  if (!remote) {
+    throw new Error(`Unknown Git remote ${name}`);
+  }
+
+  return remote;
+}
@@ -0,0 +1,85 @@
+import { BaseGitRemote, GitRemoteError } from '~/lib/modules/git-remote/base-remote';
+import type {
+  CreateRepositoryOptions,
+  GitRemoteCredentials,
+  GitRemoteRepository,
+  GitRemoteUser,
+} from '~/lib/modules/git-remote/types';
+
+interface GiteaRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string;
+  private: boolean;
+  clone_url: string;
+  html_url: string;
+  default_branch?: string;
+  updated_at: string;
+}
+
+const toRepository = (repo: GiteaRepository): GitRemoteRepository => ({
+  id: String(repo.id),
+  name: repo.name,
+  fullName: repo.full_name,
+  description: repo.description || undefined,
+  isPrivate: repo.private,
+  cloneUrl: repo.clone_url,
+  webUrl: repo.html_url,
+  defaultBranch: repo.default_branch,
+  updatedAt: repo.updated_at,
+});
+
+/**
+ * Gitea and its fork Forgejo, which keeps the same API.
+ */
+export default class GiteaRemote extends BaseGitRemote {
+  name = 'Gitea';
+  icon = 'i-ph:git-fork';
+  tokenPath = '/user/settings/applications';
+
+  protected getAuthorizationHeader(token: string) {
+    return `token ${token}`;
+  }
+
+  async getUser(credentials: GitRemoteCredentials): Promise<GitRemoteUser> {
+    const user = await this.request<{ login: string; full_name: string; email?: string; avatar_url?: string }>(
+      credentials,
+      '/api/v1/user',
+    );
+
+    return { username: user.login, name: user.full_name || undefined, email: user.email, avatarUrl: user.avatar_url };
+  }
+
+  async listRepositories(credentials: GitRemoteCredentials) {
+    const repos = await this.request<GiteaRepository[]>(credentials, '/api/v1/user/repos?limit=50');
+
+    return repos.map(toRepository);
+  }
+
+  async getRepository(credentials: GitRemoteCredentials, fullName: string) {
+    try {
+      return toRepository(await this.request<GiteaRepository>(credentials, `/api/v1/repos/${fullName}`));
+    } catch (error) {
+      if (error instanceof GitRemoteError && error.status === 404) {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  async createRepository(credentials: GitRemoteCredentials, { name, isPrivate }: CreateRepositoryOptions) {
+    // the repository stays empty, the first push brings the history of the project
+    const repo = await this.request<GiteaRepository>(credentials, '/api/v1/user/repos', {
+      method: 'POST',
+      body: JSON.stringify({ name, private: isPrivate, auto_init: false }),
+    });
+
+    return toRepository(repo);
+  }
+
+  getGitAuth(credentials: GitRemoteCredentials, user: GitRemoteUser) {
+    return { username: user.username, password: credentials.token };
+  }
+}
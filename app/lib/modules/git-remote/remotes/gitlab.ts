@@ -0,0 +1,88 @@
+import { BaseGitRemote, GitRemoteError } from '~/lib/modules/git-remote/base-remote';
+import type {
+  CreateRepositoryOptions,
+  GitRemoteCredentials,
+  GitRemoteRepository,
+  GitRemoteUser,
+} from '~/lib/modules/git-remote/types';
+
+interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  visibility: 'private' | 'internal' | 'public';
+  http_url_to_repo: string;
+  web_url: string;
+  default_branch?: string;
+  last_activity_at: string;
+}
+
+const toRepository = (project: GitLabProject): GitRemoteRepository => ({
+  id: String(project.id),
+  name: project.name,
+  fullName: project.path_with_namespace,
+  description: project.description ?? undefined,
+  isPrivate: project.visibility !== 'public',
+  cloneUrl: project.http_url_to_repo,
+  webUrl: project.web_url,
+  defaultBranch: project.default_branch,
+  updatedAt: project.last_activity_at,
+});
+
+export default class GitLabRemote extends BaseGitRemote {
+  name = 'GitLab';
+  icon = 'i-ph:gitlab-logo';
+  defaultBaseUrl = 'https://gitlab.com';
+  tokenPath = '/-/user_settings/personal_access_tokens';
+
+  protected getAuthorizationHeader(token: string) {
+    return `Bearer ${token}`;
+  }
+
+  async getUser(credentials: GitRemoteCredentials): Promise<GitRemoteUser> {
+    const user = await this.request<{ username: string; name: string; email?: string; avatar_url?: string }>(
+      credentials,
+      '/api/v4/user',
+    );
+
+    return { username: user.username, name: user.name, email: user.email, avatarUrl: user.avatar_url };
+  }
+
+  async listRepositories(credentials: GitRemoteCredentials) {
+    const projects = await this.request<GitLabProject[]>(
+      credentials,
+      '/api/v4/projects?membership=true&order_by=last_activity_at&per_page=100',
+    );
+
+    return projects.map(toRepository);
+  }
+
+  async getRepository(credentials: GitRemoteCredentials, fullName: string) {
+    try {
+      return toRepository(
+        await this.request<GitLabProject>(credentials, `/api/v4/projects/${encodeURIComponent(fullName)}`),
+      );
+    } catch (error) {
+      if (error instanceof GitRemoteError && error.status === 404) {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  async createRepository(credentials: GitRemoteCredentials, { name, isPrivate }: CreateRepositoryOptions) {
+    // the repository stays empty, the first push brings the history of the project
+    const project = await this.request<GitLabProject>(credentials, '/api/v4/projects', {
+      method: 'POST',
+      body: JSON.stringify({ name, visibility: isPrivate ? 'private' : 'public', initialize_with_readme: false }),
+    });
+
+    return toRepository(project);
+  }
+
+  getGitAuth(credentials: GitRemoteCredentials) {
+    return { username: 'oauth2', password: credentials.token };
+  }
+}
@@ -0,0 +1,30 @@
+export interface GitRemoteCredentials {
+  baseUrl: string;
+  token: string;
+}
+
+export interface GitRemoteUser {
+  username: string;
+  name?: string;
+  email?: string;
+  avatarUrl?: string;
+}
+
+export interface GitRemoteRepository {
+  id: string;
+  name: string;
+
+  // owner and name, e.g. `group/project`
+  fullName: string;
+  description?: string;
+  isPrivate: boolean;
+  cloneUrl: string;
+  webUrl: string;
+  defaultBranch?: string;
+  updatedAt?: string;
+}
+
+export interface CreateRepositoryOptions {
+  name: string;
+  isPrivate: boolean;
+}
@@ -1,4 +1,4 @@
-import type { LanguageModelV1 } from 'ai';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
 import type { ProviderInfo, ProviderConfig, ModelInfo } from './types';
 import type { IProviderSetting } from '~/types/model';
 import { createOpenAI } from '@ai-sdk/openai';
@@ -109,6 +109,13 @@ export abstract class BaseProvider implements ProviderInfo {
     serverEnv?: Record<string, string>,
   ): Promise<ModelInfo[]>;
 
+  // Declare the optional getEmbeddingModelInstance method, used by the semantic code index
+  getEmbeddingModelInstance?(options: {
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string>;
+
   abstract getModelInstance(options: {
     model: string;
     serverEnv?: Env;
@@ -0,0 +1,65 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModelV1 } from 'ai';
+import { BaseProvider } from './base-provider';
+import type { ModelInfo, ProviderConfig } from './types';
+import type { CustomProviderDefinition, IProviderSetting } from '~/types/model';
+
+const DEFAULT_MAX_TOKENS = 8000;
+
+export function getCustomProviderModels(definition: CustomProviderDefinition): ModelInfo[] {
+  return definition.models.map((model) => ({
+    name: model.name,
+    label: model.label || model.name,
+    provider: definition.name,
+    maxTokenAllowed: model.maxTokenAllowed || DEFAULT_MAX_TOKENS,
+  }));
+}
+
+/**
+ * Provider for an endpoint declared in the settings instead of a subclass in `providers`.
+ */
+export class CustomProvider extends BaseProvider {
+  name: string;
+  staticModels: ModelInfo[];
+  config: ProviderConfig;
+
+  constructor(readonly definition: CustomProviderDefinition) {
+    super();
+
+    this.name = definition.name;
+    this.staticModels = getCustomProviderModels(definition);
+    this.config = { baseUrl: definition.baseUrl };
+  }
+
+  matches(definition: CustomProviderDefinition) {
+    return JSON.stringify(definition) === JSON.stringify(this.definition);
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const { model, apiKeys, providerSettings } = options;
+
+    let baseURL = providerSettings?.[this.name]?.baseUrl || this.definition.baseUrl;
+
+    if (!baseURL) {
+      throw new Error(`Missing base URL for ${this.name} provider`);
+    }
+
+    if (baseURL.endsWith('/')) {
+      baseURL = baseURL.slice(0, -1);
+    }
+
+    const settings = { baseURL, apiKey: apiKeys?.[this.name] ?? '', headers: this.definition.headers };
+
+    if (this.definition.type === 'anthropic') {
+      return createAnthropic(settings)(model);
+    }
+
+    return createOpenAI(settings)(model);
+  }
+}
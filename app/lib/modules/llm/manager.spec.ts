@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { getCustomProvidersFromCookie } from '~/lib/api/cookies';
+import type { CustomProviderDefinition } from '~/types/model';
+import { LLMManager } from './manager';
+
+const definition: CustomProviderDefinition = {
+  name: 'Internal',
+  type: 'openai',
+  baseUrl: 'https://llm.example.com/v1',
+  headers: { 'X-Team': 'secret' },
+  models: [{ name: 'internal-large' }],
+};
+
+describe('LLMManager', () => {
+  it('should keep custom providers to the manager of their request', () => {
+    const manager = LLMManager.getInstance();
+    const scoped = manager.withCustomProviders([definition]);
+
+    expect(scoped.getProvider('Internal')?.name).toBe('Internal');
+    expect(scoped.getModelList().some((model) => model.provider === 'Internal')).toBe(true);
+    expect(manager.getProvider('Internal')).toBeUndefined();
+    expect(manager.getModelList().some((model) => model.provider === 'Internal')).toBe(false);
+  });
+
+  it('should not let custom providers replace built-in ones', () => {
+    const scoped = LLMManager.getInstance().withCustomProviders([{ ...definition, name: 'OpenAI' }]);
+
+    expect(scoped.getProvider('OpenAI')).toBe(LLMManager.getInstance().getProvider('OpenAI'));
+  });
+
+  it('should ignore malformed custom provider cookies', () => {
+    const cookie = (value: string) => `customProviders=${encodeURIComponent(value)}`;
+
+    expect(getCustomProvidersFromCookie(cookie('{not json'))).toEqual([]);
+    expect(getCustomProvidersFromCookie(cookie('{"name":"Internal"}'))).toEqual([]);
+    expect(getCustomProvidersFromCookie(cookie(JSON.stringify([definition, { name: 'Broken' }])))).toEqual([
+      definition,
+    ]);
+  });
+});
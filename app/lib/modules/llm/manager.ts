@@ -1,5 +1,6 @@
-import type { IProviderSetting } from '~/types/model';
+import type { CustomProviderDefinition, IProviderSetting } from '~/types/model';
 import { BaseProvider } from './base-provider';
+import { CustomProvider, getCustomProviderModels } from './custom-provider';
 import type { ModelInfo, ProviderInfo } from './types';
 import * as providers from './registry';
 import { createScopedLogger } from '~/utils/logger';
@@ -11,8 +12,14 @@ export class LLMManager {
   private _modelList: ModelInfo[] = [];
   private readonly _env: any = {};
 
-  private constructor(_env: Record<string, string>) {
-    this._registerProvidersFromDirectory();
+  private constructor(_env: Record<string, string>, providers?: Map<string, BaseProvider>) {
+    if (providers) {
+      this._providers = new Map(providers);
+      this._modelList = [...providers.values()].flatMap((provider) => provider.staticModels);
+    } else {
+      this._registerProvidersFromDirectory();
+    }
+
     this._env = _env;
   }
 
@@ -62,6 +69,65 @@ export class LLMManager {
     this._modelList = [...this._modelList, ...provider.staticModels];
   }
 
+  /**
+   * The providers of this manager together with the custom providers of a single request.
+   * The shared instance stays untouched, so the providers of one user never reach another.
+   */
+  withCustomProviders(definitions: CustomProviderDefinition[]): LLMManager {
+    if (definitions.length === 0) {
+      return this;
+    }
+
+    const scoped = new LLMManager(this._env, this._providers);
+
+    for (const definition of definitions) {
+      if (scoped._providers.has(definition.name)) {
+        logger.warn(`Custom provider ${definition.name} conflicts with another provider. Skipping.`);
+        continue;
+      }
+
+      scoped._providers.set(definition.name, new CustomProvider(definition));
+      scoped._modelList = [...scoped._modelList, ...getCustomProviderModels(definition)];
+    }
+
+    return scoped;
+  }
+
+  /**
+   * Syncs the providers declared in the settings of this browser with `definitions`,
+   * registering new and changed ones and dropping the ones that were removed. The server
+   * uses `withCustomProviders` instead, it serves many users.
+   */
+  registerCustomProviders(definitions: CustomProviderDefinition[]) {
+    for (const provider of this._providers.values()) {
+      if (provider instanceof CustomProvider && !definitions.some((d) => d.name === provider.name)) {
+        this._unregisterProvider(provider.name);
+      }
+    }
+
+    for (const definition of definitions) {
+      const existing = this._providers.get(definition.name);
+
+      if (existing instanceof CustomProvider) {
+        if (existing.matches(definition)) {
+          continue;
+        }
+
+        this._unregisterProvider(definition.name);
+      } else if (existing) {
+        logger.warn(`Custom provider ${definition.name} conflicts with a built-in provider. Skipping.`);
+        continue;
+      }
+
+      this.registerProvider(new CustomProvider(definition));
+    }
+  }
+
+  private _unregisterProvider(name: string) {
+    this._providers.delete(name);
+    this._modelList = this._modelList.filter((model) => model.provider !== name);
+  }
+
   getProvider(name: string): BaseProvider | undefined {
     return this._providers.get(name);
   }
@@ -84,7 +150,7 @@ export class LLMManager {
     let enabledProviders = Array.from(this._providers.values()).map((p) => p.name);
 
     if (providerSettings && Object.keys(providerSettings).length > 0) {
-      enabledProviders = enabledProviders.filter((p) => providerSettings[p].enabled);
+      enabledProviders = enabledProviders.filter((p) => providerSettings[p]?.enabled);
     }
 
     // Get dynamic models from all providers that support them
@@ -61,6 +61,7 @@ export default class GroqProvider extends BaseProvider {
       label: `${m.id} - context ${m.context_window ? Math.floor(m.context_window / 1000) + 'k' : 'N/A'} [ by ${m.owned_by}]`,
       provider: this.name,
       maxTokenAllowed: Math.min(m.context_window || 8192, 16384),
+      contextWindow: m.context_window,
     }));
   }
 
@@ -78,6 +78,7 @@ export default class HyperbolicProvider extends BaseProvider {
       label: `${m.id} - context ${m.context_length ? Math.floor(m.context_length / 1000) + 'k' : 'N/A'}`,
       provider: this.name,
       maxTokenAllowed: m.context_length || 8000,
+      contextWindow: m.context_length,
     }));
   }
 
@@ -1,8 +1,8 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
-import type { LanguageModelV1 } from 'ai';
-import { ollama } from 'ollama-ai-provider';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
+import { createOllama, ollama } from 'ollama-ai-provider';
 import { logger } from '~/utils/logger';
 
 interface OllamaModelDetails {
@@ -106,7 +106,36 @@ export default class OllamaProvider extends BaseProvider {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
   }) => LanguageModelV1 = (options) => {
-    const { apiKeys, providerSettings, serverEnv, model } = options;
+    const { serverEnv, model } = options;
+    const baseUrl = this._getServerBaseUrl(options);
+
+    logger.debug('Ollama Base Url used: ', baseUrl);
+
+    const ollamaInstance = ollama(model, {
+      numCtx: this.getDefaultNumCtx(serverEnv),
+    }) as LanguageModelV1 & { config: any };
+
+    ollamaInstance.config.baseURL = `${baseUrl}/api`;
+
+    return ollamaInstance;
+  };
+
+  getEmbeddingModelInstance(options: {
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string> {
+    const baseUrl = this._getServerBaseUrl(options);
+
+    return createOllama({ baseURL: `${baseUrl}/api` }).textEmbeddingModel('nomic-embed-text');
+  }
+
+  private _getServerBaseUrl(options: {
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }) {
+    const { apiKeys, providerSettings, serverEnv } = options;
     const envRecord = this._convertEnvToRecord(serverEnv);
 
     let { baseUrl } = this.getProviderBaseUrlAndKey({
@@ -126,14 +155,6 @@ export default class OllamaProvider extends BaseProvider {
     baseUrl = isDocker ? baseUrl.replace('localhost', 'host.docker.internal') : baseUrl;
     baseUrl = isDocker ? baseUrl.replace('127.0.0.1', 'host.docker.internal') : baseUrl;
 
-    logger.debug('Ollama Base Url used: ', baseUrl);
-
-    const ollamaInstance = ollama(model, {
-      numCtx: this.getDefaultNumCtx(serverEnv),
-    }) as LanguageModelV1 & { config: any };
-
-    ollamaInstance.config.baseURL = `${baseUrl}/api`;
-
-    return ollamaInstance;
-  };
+    return baseUrl;
+  }
 }
@@ -1,11 +1,23 @@
 import type { LanguageModelV1 } from 'ai';
 import type { IProviderSetting } from '~/types/model';
 
+/**
+ * Prices in USD per million tokens.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
 export interface ModelInfo {
   name: string;
   label: string;
   provider: string;
   maxTokenAllowed: number;
+  pricing?: ModelPricing;
+
+  // prompt and completion tokens the model accepts in total
+  contextWindow?: number;
 }
 
 export interface ProviderInfo {
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/stores/files';
+import { ChangesetRecorder, computeChanges, getActiveChangesets, reconstructFiles } from './changesets';
+import type { Changeset } from './types';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+describe('changesets', () => {
+  it('should only record the paths that changed', () => {
+    const before: FileMap = { '/a.js': file('a'), '/b.js': file('b') };
+    const after: FileMap = { '/a.js': file('a'), '/b.js': file('b2'), '/c.js': file('c') };
+
+    expect(computeChanges(before, after)).toEqual({ '/b.js': file('b2'), '/c.js': file('c') });
+    expect(computeChanges(after, before)).toEqual({ '/b.js': file('b'), '/c.js': null });
+  });
+
+  it('should reconstruct the files at any message', () => {
+    const recorder = new ChangesetRecorder();
+    const changesets: Changeset[] = [];
+
+    const record = (messageId: string, files: FileMap) => {
+      const changeset = recorder.record('1', messageId, files);
+
+      if (changeset) {
+        changesets[changeset.sequence] = changeset;
+      }
+    };
+
+    record('m1', { '/a.js': file('a') });
+    record('m2', { '/a.js': file('a'), '/b.js': file('b') });
+
+    // a message is recorded again while its actions keep running
+    record('m2', { '/a.js': file('a2'), '/b.js': file('b') });
+    record('m3', { '/b.js': file('b') });
+
+    expect(changesets).toHaveLength(3);
+    expect(reconstructFiles(changesets, 'm1')).toEqual({ '/a.js': file('a') });
+    expect(reconstructFiles(changesets, 'm2')).toEqual({ '/a.js': file('a2'), '/b.js': file('b') });
+    expect(reconstructFiles(changesets)).toEqual({ '/b.js': file('b') });
+  });
+
+  it('should ignore changesets of messages that were rolled back', () => {
+    const changesets: Changeset[] = [
+      { chatId: '1', messageId: 'm2', sequence: 1, timestamp: '', changes: { '/b.js': file('b') } },
+      { chatId: '1', messageId: 'm1', sequence: 0, timestamp: '', changes: { '/a.js': file('a') } },
+    ];
+
+    expect(getActiveChangesets(changesets, [{ id: 'm1' }]).map((c) => c.messageId)).toEqual(['m1']);
+  });
+});
@@ -0,0 +1,174 @@
+import type { FileMap } from '~/lib/stores/files';
+import type { Changeset, ChangesetEntry, Snapshot } from './types';
+
+export function toChangesetEntry(dirent: FileMap[string]): ChangesetEntry {
+  if (!dirent) {
+    return null;
+  }
+
+  if (dirent.type === 'folder') {
+    return { type: 'folder' };
+  }
+
+  return { type: 'file', content: dirent.content, isBinary: dirent.isBinary };
+}
+
+function isSameEntry(a: FileMap[string], b: FileMap[string]) {
+  if (a === b) {
+    return true;
+  }
+
+  if (!a || !b || a.type !== b.type) {
+    return false;
+  }
+
+  if (a.type === 'file' && b.type === 'file') {
+    return a.content === b.content && a.isBinary === b.isBinary;
+  }
+
+  return true;
+}
+
+/**
+ * Returns the paths that were added, changed or deleted between two file maps.
+ */
+export function computeChanges(previous: FileMap, current: FileMap) {
+  const changes: Record<string, ChangesetEntry> = {};
+
+  for (const [path, dirent] of Object.entries(current)) {
+    if (dirent && !isSameEntry(previous[path], dirent)) {
+      changes[path] = toChangesetEntry(dirent);
+    }
+  }
+
+  for (const [path, dirent] of Object.entries(previous)) {
+    if (dirent && !current[path]) {
+      changes[path] = null;
+    }
+  }
+
+  return changes;
+}
+
+export function applyChanges(files: FileMap, changes: Changeset['changes']): FileMap {
+  const result: FileMap = { ...files };
+
+  for (const [path, entry] of Object.entries(changes)) {
+    if (entry === null) {
+      delete result[path];
+    } else {
+      result[path] = entry;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Folds the changesets in order to get the files as they were right after `messageId`,
+ * or after the last changeset if no message is given.
+ */
+export function reconstructFiles(changesets: Changeset[], messageId?: string): FileMap {
+  let files: FileMap = {};
+
+  for (const changeset of changesets) {
+    files = applyChanges(files, changeset.changes);
+
+    if (changeset.messageId === messageId) {
+      break;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Returns the changesets that belong to `messages`, ordered by when they were recorded.
+ * Changesets of messages that were dropped by a rollback are left out.
+ */
+export function getActiveChangesets(changesets: Changeset[], messages: { id: string }[]) {
+  const messageIds = new Set(messages.map((message) => message.id));
+
+  return changesets.filter((changeset) => messageIds.has(changeset.messageId)).sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Chats saved before changesets existed only have a single snapshot of their files,
+ * it becomes the first changeset of the chat.
+ */
+export function changesetFromSnapshot(chatId: string, snapshot: Snapshot): Changeset {
+  return {
+    chatId,
+    messageId: snapshot.chatIndex,
+    sequence: 0,
+    timestamp: new Date().toISOString(),
+    changes: computeChanges({}, snapshot.files),
+    summary: snapshot.summary,
+  };
+}
+
+/**
+ * Keeps track of the files of the last recorded changeset so that every message only
+ * stores what it changed. A message is recorded repeatedly while it streams and while
+ * its actions run, each time its changeset is recomputed against the files it started from.
+ */
+export class ChangesetRecorder {
+  #chatId?: string;
+  #nextSequence = 0;
+  #files: FileMap = {};
+  #current?: { changeset: Changeset; base: FileMap };
+
+  get currentMessageId() {
+    return this.#current?.changeset.messageId;
+  }
+
+  reset(chatId?: string, changesets: Changeset[] = [], nextSequence = 0) {
+    this.#chatId = chatId;
+    this.#nextSequence = Math.max(nextSequence, ...changesets.map((changeset) => changeset.sequence + 1));
+    this.#files = reconstructFiles(changesets);
+    this.#current = undefined;
+  }
+
+  record(chatId: string, messageId: string, files: FileMap, summary?: string): Changeset | undefined {
+    if (chatId !== this.#chatId) {
+      this.reset(chatId);
+    }
+
+    if (this.#current?.changeset.messageId === messageId) {
+      if (files === this.#files && (summary === undefined || summary === this.#current.changeset.summary)) {
+        return undefined;
+      }
+
+      const changeset: Changeset = {
+        ...this.#current.changeset,
+        changes: computeChanges(this.#current.base, files),
+        summary: summary ?? this.#current.changeset.summary,
+      };
+
+      this.#current = { changeset, base: this.#current.base };
+      this.#files = files;
+
+      return changeset;
+    }
+
+    const changes = computeChanges(this.#files, files);
+
+    if (Object.keys(changes).length === 0 && !summary) {
+      return undefined;
+    }
+
+    const changeset: Changeset = {
+      chatId,
+      messageId,
+      sequence: this.#nextSequence++,
+      timestamp: new Date().toISOString(),
+      changes,
+      summary,
+    };
+
+    this.#current = { changeset, base: this.#files };
+    this.#files = files;
+
+    return changeset;
+  }
+}
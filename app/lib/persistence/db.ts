@@ -1,12 +1,17 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
-import type { Snapshot } from './types'; // Import Snapshot type
+import type { Changeset, Snapshot, TerminalSession, UsageRecord } from './types'; // Import Snapshot type
+import { getActiveChangesets } from './changesets';
 
 export interface IChatMetadata {
   gitUrl: string;
   gitBranch?: string;
   netlifySiteId?: string;
+
+  // pull request the chat pushes to, later pushes update it
+  pullRequestUrl?: string;
+  pullRequestBranch?: string;
 }
 
 const logger = createScopedLogger('ChatHistory');
@@ -19,7 +24,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 2);
+    const request = indexedDB.open('boltHistory', 6);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -38,6 +43,32 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
           db.createObjectStore('snapshots', { keyPath: 'chatId' });
         }
       }
+
+      if (oldVersion < 3) {
+        if (!db.objectStoreNames.contains('changesets')) {
+          const store = db.createObjectStore('changesets', { keyPath: ['chatId', 'messageId'] });
+          store.createIndex('chatId', 'chatId', { unique: false });
+        }
+      }
+
+      if (oldVersion < 4) {
+        if (!db.objectStoreNames.contains('usage')) {
+          const store = db.createObjectStore('usage', { keyPath: ['chatId', 'messageId'] });
+          store.createIndex('timestamp', 'timestamp', { unique: false });
+        }
+      }
+
+      if (oldVersion < 5) {
+        if (!db.objectStoreNames.contains('secrets')) {
+          db.createObjectStore('secrets', { keyPath: 'chatId' });
+        }
+      }
+
+      if (oldVersion < 6) {
+        if (!db.objectStoreNames.contains('terminals')) {
+          db.createObjectStore('terminals', { keyPath: 'chatId' });
+        }
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -123,10 +154,14 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['chats', 'snapshots'], 'readwrite'); // Add snapshots store to transaction
+    const transaction = db.transaction(['chats', 'snapshots', 'changesets', 'secrets', 'terminals'], 'readwrite'); // Add snapshots store to transaction
     const chatStore = transaction.objectStore('chats');
     const snapshotStore = transaction.objectStore('snapshots');
 
+    deleteChangesetsInStore(transaction.objectStore('changesets'), id);
+    transaction.objectStore('secrets').delete(id);
+    transaction.objectStore('terminals').delete(id);
+
     const deleteChatRequest = chatStore.delete(id);
     const deleteSnapshotRequest = snapshotStore.delete(id); // Also delete snapshot
 
@@ -239,7 +274,15 @@ export async function forkChat(db: IDBDatabase, chatId: string, messageId: strin
   // Get messages up to and including the selected message
   const messages = chat.messages.slice(0, messageIndex + 1);
 
-  return createChatFromMessages(db, chat.description ? `${chat.description} (fork)` : 'Forked chat', messages);
+  const urlId = await createChatFromMessages(
+    db,
+    chat.description ? `${chat.description} (fork)` : 'Forked chat',
+    messages,
+  );
+
+  await copyChangesets(db, chat.id, urlId, messages);
+
+  return urlId;
 }
 
 export async function duplicateChat(db: IDBDatabase, id: string): Promise<string> {
@@ -249,7 +292,11 @@ export async function duplicateChat(db: IDBDatabase, id: string): Promise<string
     throw new Error('Chat not found');
   }
 
-  return createChatFromMessages(db, `${chat.description || 'Chat'} (copy)`, chat.messages);
+  const urlId = await createChatFromMessages(db, `${chat.description || 'Chat'} (copy)`, chat.messages);
+
+  await copyChangesets(db, chat.id, urlId, chat.messages);
+
+  return urlId;
 }
 
 export async function createChatFromMessages(
@@ -341,3 +388,133 @@ export async function deleteSnapshot(db: IDBDatabase, chatId: string): Promise<v
     };
   });
 }
+
+export async function getChangesets(db: IDBDatabase, chatId: string): Promise<Changeset[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('changesets', 'readonly');
+    const store = transaction.objectStore('changesets');
+    const request = store.index('chatId').getAll(chatId);
+
+    request.onsuccess = () => resolve((request.result as Changeset[]).sort((a, b) => a.sequence - b.sequence));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setChangeset(db: IDBDatabase, changeset: Changeset): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('changesets', 'readwrite');
+    const store = transaction.objectStore('changesets');
+    const request = store.put(changeset);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deleteChangesets(db: IDBDatabase, chatId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('changesets', 'readwrite');
+
+    deleteChangesetsInStore(transaction.objectStore('changesets'), chatId);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function deleteChangesetsInStore(store: IDBObjectStore, chatId: string) {
+  const request = store.index('chatId').openKeyCursor(IDBKeyRange.only(chatId));
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+}
+
+/**
+ * Copies the changesets of `messages` to another chat, so a forked or duplicated chat
+ * starts out with the files and history of the original.
+ */
+async function copyChangesets(db: IDBDatabase, fromChatId: string, toUrlId: string, messages: Message[]) {
+  const target = await getMessagesByUrlId(db, toUrlId);
+  const changesets = getActiveChangesets(await getChangesets(db, fromChatId), messages);
+
+  if (!target || changesets.length === 0) {
+    return;
+  }
+
+  await Promise.all(changesets.map((changeset) => setChangeset(db, { ...changeset, chatId: target.id })));
+}
+
+export async function setUsageRecord(db: IDBDatabase, record: UsageRecord): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readwrite');
+    const store = transaction.objectStore('usage');
+    const request = store.put(record);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getUsageRecords(db: IDBDatabase, since?: Date): Promise<UsageRecord[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readonly');
+    const store = transaction.objectStore('usage');
+    const request = since
+      ? store.index('timestamp').getAll(IDBKeyRange.lowerBound(since.toISOString()))
+      : store.index('timestamp').getAll();
+
+    request.onsuccess = () => resolve(request.result as UsageRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// the secrets of a chat are stored encrypted, the payload is decrypted by the secrets store
+export async function getSecrets(db: IDBDatabase, chatId: string): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('secrets', 'readonly');
+    const store = transaction.objectStore('secrets');
+    const request = store.get(chatId);
+
+    request.onsuccess = () => resolve(request.result?.payload as string | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setSecrets(db: IDBDatabase, chatId: string, payload: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('secrets', 'readwrite');
+    const store = transaction.objectStore('secrets');
+    const request = store.put({ chatId, payload });
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getTerminalSession(db: IDBDatabase, chatId: string): Promise<TerminalSession | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('terminals', 'readonly');
+    const store = transaction.objectStore('terminals');
+    const request = store.get(chatId);
+
+    request.onsuccess = () => resolve(request.result as TerminalSession | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setTerminalSession(db: IDBDatabase, session: TerminalSession): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('terminals', 'readwrite');
+    const store = transaction.objectStore('terminals');
+    const request = store.put(session);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
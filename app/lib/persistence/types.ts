@@ -5,3 +5,47 @@ export interface Snapshot {
   files: FileMap;
   summary?: string;
 }
+
+/**
+ * A file or folder as it is stored in a changeset, `null` marks a deleted path.
+ */
+export type ChangesetEntry = { type: 'file'; content: string; isBinary: boolean } | { type: 'folder' } | null;
+
+/**
+ * The file changes made while an assistant message was generated, relative to the
+ * previous changeset of the same chat.
+ */
+export interface Changeset {
+  chatId: string;
+  messageId: string;
+  sequence: number;
+  timestamp: string;
+  changes: Record<string, ChangesetEntry>;
+  summary?: string;
+}
+
+/**
+ * Token usage of one assistant message, summed over all LLM calls made for it.
+ */
+export interface UsageRecord {
+  chatId: string;
+  messageId: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number;
+  timestamp: string;
+}
+
+/**
+ * The terminal tabs of a chat with the end of their output, and the commands run in any of them
+ * from oldest to newest.
+ */
+export interface TerminalSession {
+  chatId: string;
+  tabs: Array<{ id: string; scrollback: string }>;
+  history: string[];
+  timestamp: string;
+}
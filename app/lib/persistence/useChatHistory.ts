@@ -5,6 +5,8 @@ import { generateId, type JSONValue, type Message } from 'ai';
 import { toast } from 'react-toastify';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { logStore } from '~/lib/stores/logs'; // Import logStore
+import { loadSecrets, redactSecrets } from '~/lib/stores/secrets';
+import { loadTerminalSession } from '~/lib/stores/terminalSessions';
 import {
   getMessages,
   getNextId,
@@ -13,15 +15,18 @@ import {
   setMessages,
   duplicateChat,
   createChatFromMessages,
+  getChangesets,
   getSnapshot,
-  setSnapshot,
+  setChangeset,
+  setUsageRecord,
   type IChatMetadata,
 } from './db';
 import type { FileMap } from '~/lib/stores/files';
-import type { Snapshot } from './types';
-import { webcontainer } from '~/lib/webcontainer';
+import type { Changeset } from './types';
+import { ChangesetRecorder, changesetFromSnapshot, getActiveChangesets, reconstructFiles } from './changesets';
+import { debounce } from '~/utils/debounce';
 import { detectProjectCommands, createCommandActionsString } from '~/utils/projectCommands';
-import type { ContextAnnotation } from '~/types/context';
+import type { ContextAnnotation, UsageAnnotation } from '~/types/context';
 
 export interface ChatHistoryItem {
   id: string;
@@ -39,6 +44,36 @@ export const db = persistenceEnabled ? await openDatabase() : undefined;
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+const changesetRecorder = new ChangesetRecorder();
+
+/**
+ * Chats saved before changesets existed are migrated by storing their snapshot as
+ * the first changeset, later changesets are recorded on top of it.
+ */
+async function loadChangesets(id: string): Promise<Changeset[]> {
+  if (!db) {
+    return [];
+  }
+
+  const changesets = await getChangesets(db, id);
+
+  if (changesets.length > 0) {
+    return changesets;
+  }
+
+  const snapshot = await getSnapshot(db, id);
+
+  if (!snapshot?.chatIndex || !snapshot.files) {
+    return [];
+  }
+
+  const changeset = changesetFromSnapshot(id, snapshot);
+  await setChangeset(db, changeset);
+
+  return [changeset];
+}
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -63,45 +98,40 @@ export function useChatHistory() {
     }
 
     if (mixedId) {
-      Promise.all([
-        getMessages(db, mixedId),
-        getSnapshot(db, mixedId), // Fetch snapshot from DB
-      ])
-        .then(async ([storedMessages, snapshot]) => {
+      getMessages(db, mixedId)
+        .then(async (storedMessages) => {
           if (storedMessages && storedMessages.messages.length > 0) {
-            /*
-             * const snapshotStr = localStorage.getItem(`snapshot:${mixedId}`); // Remove localStorage usage
-             * const snapshot: Snapshot = snapshotStr ? JSON.parse(snapshotStr) : { chatIndex: 0, files: {} }; // Use snapshot from DB
-             */
-            const validSnapshot = snapshot || { chatIndex: '', files: {} }; // Ensure snapshot is not undefined
-            const summary = validSnapshot.summary;
-
             const rewindId = searchParams.get('rewindTo');
-            let startingIdx = -1;
             const endingIdx = rewindId
               ? storedMessages.messages.findIndex((m) => m.id === rewindId) + 1
               : storedMessages.messages.length;
-            const snapshotIndex = storedMessages.messages.findIndex((m) => m.id === validSnapshot.chatIndex);
+            const keptMessages = storedMessages.messages.slice(0, endingIdx);
 
-            if (snapshotIndex >= 0 && snapshotIndex < endingIdx) {
-              startingIdx = snapshotIndex;
-            }
+            const allChangesets = await loadChangesets(storedMessages.id);
+            const changesets = getActiveChangesets(allChangesets, keptMessages);
+            const restorePoint = changesets[changesets.length - 1];
+            const summary = restorePoint?.summary ?? [...changesets].reverse().find((c) => c.summary)?.summary;
+            const files = reconstructFiles(changesets);
 
-            if (snapshotIndex > 0 && storedMessages.messages[snapshotIndex].id == rewindId) {
-              startingIdx = -1;
-            }
+            changesetRecorder.reset(
+              storedMessages.id,
+              changesets,
+              Math.max(0, ...allChangesets.map((changeset) => changeset.sequence + 1)),
+            );
+
+            const startingIdx = restorePoint ? keptMessages.findIndex((m) => m.id === restorePoint.messageId) : -1;
 
-            let filteredMessages = storedMessages.messages.slice(startingIdx + 1, endingIdx);
+            let filteredMessages = keptMessages.slice(startingIdx + 1);
             let archivedMessages: Message[] = [];
 
             if (startingIdx >= 0) {
-              archivedMessages = storedMessages.messages.slice(0, startingIdx + 1);
+              archivedMessages = keptMessages.slice(0, startingIdx + 1);
             }
 
             setArchivedMessages(archivedMessages);
 
-            if (startingIdx > 0) {
-              const files = Object.entries(validSnapshot?.files || {})
+            if (startingIdx >= 0) {
+              const projectFiles = Object.entries(files)
                 .map(([key, value]) => {
                   if (value?.type !== 'file') {
                     return null;
@@ -113,7 +143,7 @@ export function useChatHistory() {
                   };
                 })
                 .filter((x): x is { content: string; path: string } => !!x); // Type assertion
-              const projectCommands = await detectProjectCommands(files);
+              const projectCommands = await detectProjectCommands(projectFiles);
 
               // Call the modified function to get only the command actions string
               const commandActionsString = createCommandActionsString(projectCommands);
@@ -126,24 +156,20 @@ export function useChatHistory() {
                   annotations: ['no-store', 'hidden'],
                 },
                 {
-                  id: storedMessages.messages[snapshotIndex].id,
+                  id: restorePoint.messageId,
                   role: 'assistant',
 
                   // Combine followup message and the artifact with files and command actions
-                  content: `Bolt Restored your chat from a snapshot. You can revert this message to load the full chat history.
+                  content: `Bolt Restored your chat from its file history. You can compare, revert or fork earlier versions from the file history of any message.
                   <boltArtifact id="restored-project-setup" title="Restored Project & Setup" type="bundled">
-                  ${Object.entries(snapshot?.files || {})
-                    .map(([key, value]) => {
-                      if (value?.type === 'file') {
-                        return `
-                      <boltAction type="file" filePath="${key}">
-${value.content}
+                  ${projectFiles
+                    .map(
+                      ({ path, content }) => `
+                      <boltAction type="file" filePath="${path}">
+${content}
                       </boltAction>
-                      `;
-                      } else {
-                        return ``;
-                      }
-                    })
+                      `,
+                    )
                     .join('\n')}
                   ${commandActionsString} 
                   </boltArtifact>
@@ -153,7 +179,7 @@ ${value.content}
                     ...(summary
                       ? [
                           {
-                            chatId: storedMessages.messages[snapshotIndex].id,
+                            chatId: restorePoint.messageId,
                             type: 'chatSummary',
                             summary,
                           } satisfies ContextAnnotation,
@@ -161,16 +187,8 @@ ${value.content}
                       : []),
                   ],
                 },
-
-                // Remove the separate user and assistant messages for commands
-                /*
-                 *...(commands !== null // This block is no longer needed
-                 *  ? [ ... ]
-                 *  : []),
-                 */
                 ...filteredMessages,
               ];
-              restoreSnapshot(mixedId);
             }
 
             setInitialMessages(filteredMessages);
@@ -188,7 +206,7 @@ ${value.content}
         .catch((error) => {
           console.error(error);
 
-          logStore.logError('Failed to load chat messages or snapshot', error); // Updated error message
+          logStore.logError('Failed to load chat messages or file history', error); // Updated error message
           toast.error('Failed to load chat: ' + error.message); // More specific error
         });
     } else {
@@ -197,63 +215,49 @@ ${value.content}
     }
   }, [mixedId, db, navigate, searchParams]); // Added db, navigate, searchParams dependencies
 
-  const takeSnapshot = useCallback(
-    async (chatIdx: string, files: FileMap, _chatId?: string | undefined, chatSummary?: string) => {
-      const id = chatId.get();
-
-      if (!id || !db) {
-        return;
-      }
-
-      const snapshot: Snapshot = {
-        chatIndex: chatIdx,
-        files,
-        summary: chatSummary,
-      };
+  const recordChangeset = useCallback(async (messageId: string, files: FileMap, chatSummary?: string) => {
+    const id = chatId.get();
 
-      // localStorage.setItem(`snapshot:${id}`, JSON.stringify(snapshot)); // Remove localStorage usage
-      try {
-        await setSnapshot(db, id, snapshot);
-      } catch (error) {
-        console.error('Failed to save snapshot:', error);
-        toast.error('Failed to save chat snapshot.');
-      }
-    },
-    [db],
-  );
-
-  const restoreSnapshot = useCallback(async (id: string, snapshot?: Snapshot) => {
-    // const snapshotStr = localStorage.getItem(`snapshot:${id}`); // Remove localStorage usage
-    const container = await webcontainer;
+    if (!id || !db) {
+      return;
+    }
 
-    const validSnapshot = snapshot || { chatIndex: '', files: {} };
+    const changeset = changesetRecorder.record(id, messageId, files, chatSummary);
 
-    if (!validSnapshot?.files) {
+    if (!changeset) {
       return;
     }
 
-    Object.entries(validSnapshot.files).forEach(async ([key, value]) => {
-      if (key.startsWith(container.workdir)) {
-        key = key.replace(container.workdir, '');
-      }
+    try {
+      await setChangeset(db, changeset);
+    } catch (error) {
+      console.error('Failed to save changeset:', error);
+      toast.error('Failed to save file changes.');
+    }
+  }, []);
 
-      if (value?.type === 'folder') {
-        await container.fs.mkdir(key, { recursive: true });
-      }
-    });
-    Object.entries(validSnapshot.files).forEach(async ([key, value]) => {
-      if (value?.type === 'file') {
-        if (key.startsWith(container.workdir)) {
-          key = key.replace(container.workdir, '');
-        }
+  useEffect(() => {
+    // actions keep writing files after the message finished streaming
+    const recordLatest = debounce(() => {
+      const messageId = changesetRecorder.currentMessageId;
 
-        await container.fs.writeFile(key, value.content, { encoding: value.isBinary ? undefined : 'utf8' });
-      } else {
+      if (messageId) {
+        recordChangeset(messageId, redactSecrets(workbenchStore.files.get()));
       }
-    });
-
-    // workbenchStore.files.setKey(snapshot?.files)
-  }, []);
+    }, 500);
+
+    return workbenchStore.files.listen(() => recordLatest());
+  }, [recordChangeset]);
+
+  // the secrets and terminals follow the chat, a new chat starts without any secrets
+  useEffect(
+    () =>
+      chatId.subscribe((id) => {
+        loadSecrets(id);
+        loadTerminalSession(id);
+      }),
+    [],
+  );
 
   return {
     ready: !mixedId || ready,
@@ -281,16 +285,14 @@ ${value.content}
       const { firstArtifact } = workbenchStore;
       messages = messages.filter((m) => !m.annotations?.includes('no-store'));
 
-      let _urlId = urlId;
-
       if (!urlId && firstArtifact?.id) {
         const urlId = await getUrlId(db, firstArtifact.id);
-        _urlId = urlId;
         navigateChat(urlId);
         setUrlId(urlId);
       }
 
       let chatSummary: string | undefined = undefined;
+      let usage: UsageAnnotation['value'] | undefined = undefined;
       const lastMessage = messages[messages.length - 1];
 
       if (lastMessage.role === 'assistant') {
@@ -303,9 +305,11 @@ ${value.content}
         if (filteredAnnotations.find((annotation) => annotation.type === 'chatSummary')) {
           chatSummary = filteredAnnotations.find((annotation) => annotation.type === 'chatSummary')?.summary;
         }
+
+        usage = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
       }
 
-      takeSnapshot(messages[messages.length - 1].id, workbenchStore.files.get(), _urlId, chatSummary);
+      recordChangeset(lastMessage.id, redactSecrets(workbenchStore.files.get()), chatSummary);
 
       if (!description.get() && firstArtifact?.title) {
         description.set(firstArtifact?.title);
@@ -332,6 +336,20 @@ ${value.content}
         return;
       }
 
+      if (usage) {
+        setUsageRecord(db, {
+          chatId: finalChatId,
+          messageId: lastMessage.id,
+          provider: usage.provider || 'unknown',
+          model: usage.model || 'unknown',
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          totalTokens: usage.totalTokens,
+          cost: usage.cost,
+          timestamp: (lastMessage.createdAt ? new Date(lastMessage.createdAt) : new Date()).toISOString(),
+        }).catch((error) => console.error('Failed to save token usage:', error));
+      }
+
       await setMessages(
         db,
         finalChatId, // Use the potentially updated chatId
@@ -1,15 +1,52 @@
 import type { WebContainer } from '@webcontainer/api';
 import { path as nodePath } from '~/utils/path';
 import { atom, map, type MapStore } from 'nanostores';
-import type { ActionAlert, BoltAction, DeployAlert, FileHistory, SupabaseAction, SupabaseAlert } from '~/types/actions';
+import type {
+  ActionAlert,
+  BoltAction,
+  CommandPolicy,
+  DeployAlert,
+  DeploySource,
+  FileHistory,
+  SupabaseAction,
+  SupabaseAlert,
+} from '~/types/actions';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
 import type { BoltShell } from '~/utils/shell';
+import { findDeniedPattern } from '~/lib/stores/commandPolicy';
+import { applyFilePatch, PatchApplyError } from '~/utils/patch';
+import { mergeEnvFile } from '~/utils/envFile';
+import { getBuildCommand } from '~/utils/projectCommands';
 
 const logger = createScopedLogger('ActionRunner');
 
-export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
+/**
+ * Writes the secrets of the chat into the `.env` of the project, keeping the variables the
+ * project defines itself
+ */
+export async function writeEnvFile(webcontainer: WebContainer, env: Record<string, string>) {
+  if (Object.keys(env).length === 0) {
+    return;
+  }
+
+  let content = '';
+
+  try {
+    content = await webcontainer.fs.readFile('.env', 'utf-8');
+  } catch {
+    // the project has no .env yet
+  }
+
+  const merged = mergeEnvFile(content, env);
+
+  if (merged !== content) {
+    await webcontainer.fs.writeFile('.env', merged);
+  }
+}
+
+export type ActionStatus = 'pending' | 'awaitingApproval' | 'running' | 'complete' | 'skipped' | 'aborted' | 'failed';
 
 export type BaseActionState = BoltAction & {
   status: Exclude<ActionStatus, 'failed'>;
@@ -67,6 +104,9 @@ export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
   #currentExecutionPromise: Promise<void> = Promise.resolve();
   #shellTerminal: () => BoltShell;
+  #getCommandPolicy?: () => CommandPolicy;
+  #getEnv?: () => Record<string, string>;
+  #pendingApprovals = new Map<string, (approved: boolean) => void>();
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
   onAlert?: (alert: ActionAlert) => void;
@@ -80,12 +120,44 @@ export class ActionRunner {
     onAlert?: (alert: ActionAlert) => void,
     onSupabaseAlert?: (alert: SupabaseAlert) => void,
     onDeployAlert?: (alert: DeployAlert) => void,
+    getCommandPolicy?: () => CommandPolicy,
+    getEnv?: () => Record<string, string>,
   ) {
     this.#webcontainer = webcontainerPromise;
     this.#shellTerminal = getShellTerminal;
     this.onAlert = onAlert;
     this.onSupabaseAlert = onSupabaseAlert;
     this.onDeployAlert = onDeployAlert;
+    this.#getCommandPolicy = getCommandPolicy;
+    this.#getEnv = getEnv;
+  }
+
+  get isDryRun() {
+    return this.#getCommandPolicy?.().dryRun ?? false;
+  }
+
+  /**
+   * Resolves a shell, start or build action that is waiting for the user's approval
+   * @param actionId Id of the action awaiting approval
+   * @param approved Whether the command may run
+   */
+  resolveApproval(actionId: string, approved: boolean) {
+    const resolve = this.#pendingApprovals.get(actionId);
+
+    if (!resolve) {
+      return;
+    }
+
+    this.#pendingApprovals.delete(actionId);
+    resolve(approved);
+  }
+
+  approveAction(actionId: string) {
+    this.resolveApproval(actionId, true);
+  }
+
+  rejectAction(actionId: string) {
+    this.resolveApproval(actionId, false);
   }
 
   addAction(data: ActionCallbackData) {
@@ -151,6 +223,10 @@ export class ActionRunner {
   async #executeAction(actionId: string, isStreaming: boolean = false) {
     const action = this.actions.get()[actionId];
 
+    if (!isStreaming && !(await this.#checkCommandPolicy(actionId, action))) {
+      return;
+    }
+
     this.#updateAction(actionId, { status: 'running' });
 
     try {
@@ -163,6 +239,28 @@ export class ActionRunner {
           await this.#runFileAction(action);
           break;
         }
+        case 'patch': {
+          try {
+            await this.#runPatchAction(action);
+          } catch (error) {
+            if (!(error instanceof PatchApplyError)) {
+              throw error;
+            }
+
+            this.#updateAction(actionId, { status: 'failed', error: error.message });
+            logger.error(`[${action.type}]:Patch failed\n\n`, error);
+
+            this.onAlert?.({
+              type: 'error',
+              title: 'Patch Failed',
+              description: error.message,
+              content: action.content,
+            });
+
+            return;
+          }
+          break;
+        }
         case 'supabase': {
           try {
             await this.handleSupabaseAction(action as SupabaseAction);
@@ -247,6 +345,57 @@ export class ActionRunner {
     }
   }
 
+  /**
+   * Applies the chat's command policy before an action runs.
+   * Returns false when the action must not be executed.
+   */
+  async #checkCommandPolicy(actionId: string, action: ActionState): Promise<boolean> {
+    const policy = this.#getCommandPolicy?.();
+
+    if (!policy) {
+      return true;
+    }
+
+    if (policy.dryRun) {
+      this.#updateAction(actionId, { status: 'skipped' });
+      return false;
+    }
+
+    if (action.type !== 'shell' && action.type !== 'start' && action.type !== 'build') {
+      return true;
+    }
+
+    const command = action.type === 'build' ? 'npm run build' : action.content;
+    const deniedPattern = findDeniedPattern(command, policy.denyPatterns);
+
+    if (deniedPattern) {
+      logger.warn(`[${action.type}]:Blocked by command policy`, deniedPattern);
+      this.#updateAction(actionId, {
+        status: 'failed',
+        error: `Blocked by command policy: matches "${deniedPattern}"`,
+      });
+
+      return false;
+    }
+
+    if (policy.mode !== 'ask') {
+      return true;
+    }
+
+    this.#updateAction(actionId, { status: 'awaitingApproval' });
+
+    const approved = await new Promise<boolean>((resolve) => {
+      this.#pendingApprovals.set(actionId, resolve);
+      action.abortSignal.addEventListener('abort', () => this.resolveApproval(actionId, false), { once: true });
+    });
+
+    if (!approved) {
+      this.#updateAction(actionId, { status: 'aborted' });
+    }
+
+    return approved;
+  }
+
   async #runShellAction(action: ActionState) {
     if (action.type !== 'shell') {
       unreachable('Expected shell action');
@@ -259,6 +408,8 @@ export class ActionRunner {
       unreachable('Shell terminal not found');
     }
 
+    await this.#writeEnvFile();
+
     const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
       logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
       action.abort();
@@ -286,6 +437,8 @@ export class ActionRunner {
       unreachable('Shell terminal not found');
     }
 
+    await this.#writeEnvFile();
+
     const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
       logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
       action.abort();
@@ -329,6 +482,28 @@ export class ActionRunner {
     }
   }
 
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+
+    let originalContent: string;
+
+    try {
+      originalContent = await webcontainer.fs.readFile(relativePath, 'utf-8');
+    } catch {
+      throw new PatchApplyError(`Cannot patch ${action.filePath}: the file does not exist`);
+    }
+
+    const patchedContent = applyFilePatch(originalContent, action.content, action.filePath);
+
+    await webcontainer.fs.writeFile(relativePath, patchedContent);
+    logger.debug(`File patched ${relativePath}`);
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
@@ -360,6 +535,10 @@ export class ActionRunner {
     } as any);
   }
 
+  async #writeEnvFile() {
+    await writeEnvFile(await this.#webcontainer, this.#getEnv?.() ?? {});
+  }
+
   #getHistoryPath(filePath: string) {
     return nodePath.join('.history', filePath);
   }
@@ -382,8 +561,20 @@ export class ActionRunner {
 
     const webcontainer = await this.#webcontainer;
 
+    await this.#writeEnvFile();
+
+    let packageJson: unknown;
+
+    try {
+      packageJson = JSON.parse(await webcontainer.fs.readFile('package.json', 'utf-8'));
+    } catch {
+      // the build reports the missing or broken package.json
+    }
+
+    const { args, env } = getBuildCommand(packageJson, action.basePath);
+
     // Create a new terminal specifically for the build
-    const buildProcess = await webcontainer.spawn('npm', ['run', 'build']);
+    const buildProcess = await webcontainer.spawn('npm', args, { env });
 
     let output = '';
     buildProcess.output.pipeTo(
@@ -469,6 +660,8 @@ export class ActionRunner {
           description: `Create migration file: ${filePath}`,
           content,
           source: 'supabase',
+          operation,
+          filePath,
         });
 
         // Only create the migration file
@@ -488,6 +681,7 @@ export class ActionRunner {
           description: 'Execute database query',
           content,
           source: 'supabase',
+          operation,
         });
 
         // The actual execution will be triggered from SupabaseChatAlert
@@ -506,7 +700,7 @@ export class ActionRunner {
     details?: {
       url?: string;
       error?: string;
-      source?: 'netlify' | 'vercel' | 'github';
+      source?: DeploySource;
     },
   ): void {
     if (!this.onDeployAlert) {
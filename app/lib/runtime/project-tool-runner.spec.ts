@@ -0,0 +1,111 @@
+import { atom } from 'nanostores';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { commandPoliciesStore, DEFAULT_POLICY_KEY } from '~/lib/stores/commandPolicy';
+import { secretsStore } from '~/lib/stores/secrets';
+import type { FileMap } from '~/lib/stores/files';
+import { needsApproval, runProjectTool } from './project-tool-runner';
+
+const mocks = vi.hoisted(() => ({
+  executeCommand: vi.fn(),
+  boltExecuteCommand: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+vi.mock('~/lib/persistence', () => ({ chatId: atom<string | undefined>(undefined) }));
+
+vi.mock('~/lib/webcontainer', () => ({
+  webcontainer: Promise.resolve({
+    fs: { readFile: async () => 'PORT=3000\n', writeFile: mocks.writeFile },
+  }),
+}));
+
+vi.mock('~/utils/shell', () => ({
+  newBoltShellProcess: () => ({ init: async () => undefined, executeCommand: mocks.executeCommand }),
+}));
+
+vi.mock('~/lib/stores/workbench', async () => {
+  const { atom } = await import('nanostores');
+
+  return {
+    workbenchStore: {
+      files: atom<FileMap>({
+        '/home/project/.env': { type: 'file', content: 'API_KEY=real-value\nPORT=3000\n', isBinary: false },
+        '/home/project/src': { type: 'folder' },
+      }),
+      boltTerminal: { ready: async () => undefined, executeCommand: mocks.boltExecuteCommand },
+    },
+  };
+});
+
+describe('runProjectTool', () => {
+  beforeEach(() => {
+    commandPoliciesStore.set({});
+    secretsStore.set({});
+    mocks.executeCommand.mockReset();
+    mocks.boltExecuteCommand.mockReset();
+    mocks.writeFile.mockReset();
+  });
+
+  it('should redact the values of secrets in read files', async () => {
+    secretsStore.set({ API_KEY: 'real-value' });
+
+    const result = await runProjectTool('read_file', { path: '.env' });
+
+    expect(result).not.toContain('real-value');
+    expect(result).toContain('API_KEY=<secret>');
+    expect(result).toContain('PORT=3000');
+  });
+
+  it('should return failures as text', async () => {
+    expect(await runProjectTool('read_file', { path: 'missing.ts' })).toBe('Error: missing.ts does not exist');
+    expect(await runProjectTool('read_file', { path: '../etc/passwd' })).toBe(
+      'Error: ../etc/passwd is outside of the project',
+    );
+    expect(await runProjectTool('unknown', {})).toBe('Error: unknown project tool unknown');
+  });
+
+  it('should run commands in a shell of their own', async () => {
+    mocks.executeCommand.mockResolvedValue({ exitCode: 0, output: 'done' });
+
+    expect(await runProjectTool('run_command', { command: 'npm test' })).toBe('Exit code: 0\n\ndone');
+    expect(mocks.executeCommand).toHaveBeenCalledWith(expect.any(String), 'npm test');
+    expect(mocks.boltExecuteCommand).not.toHaveBeenCalled();
+  });
+
+  it('should write the secrets of the chat to the env file before running a command', async () => {
+    secretsStore.set({ API_KEY: 'real-value' });
+    mocks.executeCommand.mockResolvedValue({ exitCode: 0, output: '' });
+
+    await runProjectTool('run_command', { command: 'npm test' });
+
+    expect(mocks.writeFile).toHaveBeenCalledWith('.env', expect.stringContaining('API_KEY=real-value'));
+    expect(mocks.writeFile.mock.invocationCallOrder[0]).toBeLessThan(mocks.executeCommand.mock.invocationCallOrder[0]);
+  });
+
+  it('should follow the command policy of the chat', async () => {
+    commandPoliciesStore.setKey(DEFAULT_POLICY_KEY, { mode: 'auto', denyPatterns: ['rm -rf *'], dryRun: false });
+    expect(await runProjectTool('run_command', { command: 'ls && rm -rf /' })).toBe(
+      'Error: Blocked by command policy: matches "rm -rf *"',
+    );
+
+    commandPoliciesStore.setKey(DEFAULT_POLICY_KEY, { mode: 'auto', denyPatterns: [], dryRun: true });
+    expect(await runProjectTool('run_command', { command: 'ls' })).toBe('Error: Commands are not run in dry run mode');
+
+    expect(mocks.executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should only run commands the user approved when the chat asks', async () => {
+    commandPoliciesStore.setKey(DEFAULT_POLICY_KEY, { mode: 'ask', denyPatterns: [], dryRun: false });
+    mocks.executeCommand.mockResolvedValue({ exitCode: 0, output: '' });
+
+    expect(needsApproval('run_command')).toBe(true);
+    expect(needsApproval('read_file')).toBe(false);
+    expect(await runProjectTool('run_command', { command: 'ls' })).toBe(
+      'Error: Commands have to be approved in this chat',
+    );
+    expect(mocks.executeCommand).not.toHaveBeenCalled();
+
+    await runProjectTool('run_command', { command: 'ls' }, { approved: true });
+    expect(mocks.executeCommand).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,171 @@
+import { chatId } from '~/lib/persistence';
+import { findDeniedPattern, getCommandPolicy } from '~/lib/stores/commandPolicy';
+import { getSecretNames, redactSecrets, secretsStore } from '~/lib/stores/secrets';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { projectToolParameters, type ProjectToolName } from '~/lib/services/projectTools';
+import { webcontainer } from '~/lib/webcontainer';
+import type { ITerminal } from '~/types/terminal';
+import { extractRelativePath } from '~/utils/diff';
+import { isEnvFile, redactEnvFile } from '~/utils/envFile';
+import { createScopedLogger } from '~/utils/logger';
+import { listDirectory, resolveProjectPath, truncateOutput } from '~/utils/projectFiles';
+import { newBoltShellProcess, type BoltShell } from '~/utils/shell';
+import { DEFAULT_TEXT_SEARCH_OPTIONS, performTextSearch, type DisplayMatch } from '~/utils/textSearch';
+import { writeEnvFile } from './action-runner';
+
+const logger = createScopedLogger('ProjectToolRunner');
+
+// keeps a single result from filling the context window
+const MAX_RESULT_LENGTH = 20000;
+const MAX_SEARCH_MATCHES = 100;
+
+interface RunOptions {
+  // the user confirmed this call, rather than a policy allowing it
+  approved?: boolean;
+}
+
+let commandShell: { shell: BoltShell; ready: Promise<void> } | undefined;
+
+/*
+ * The commands of the model run in a shell of their own, the bolt terminal keeps running the dev
+ * server. Nobody watches this shell, so its output only goes back to the model.
+ */
+function getCommandShell() {
+  if (!commandShell) {
+    const shell = newBoltShellProcess();
+    const listeners: Array<(data: string) => void> = [];
+    const terminal: ITerminal = {
+      cols: 120,
+      rows: 30,
+      reset: () => undefined,
+      write: () => undefined,
+      onData: (callback) => listeners.push(callback),
+      input: (data) => listeners.forEach((listener) => listener(data)),
+    };
+
+    commandShell = { shell, ready: webcontainer.then((wc) => shell.init(wc, terminal)) };
+  }
+
+  return commandShell;
+}
+
+/**
+ * Whether a call of the tool has to be confirmed by the user even when the tool policy allows it,
+ * which is the case for commands in chats whose command policy asks before running them.
+ */
+export function needsApproval(toolName: string) {
+  return toolName === 'run_command' && getCommandPolicy(chatId.get()).mode === 'ask';
+}
+
+function resolvePath(filePath?: string) {
+  const resolved = resolveProjectPath(filePath);
+
+  if (!resolved) {
+    throw new Error(`${filePath} is outside of the project`);
+  }
+
+  return resolved;
+}
+
+const runners: { [Name in ProjectToolName]: (args: unknown, options: RunOptions) => Promise<string> } = {
+  read_file: async (args) => {
+    const { path } = projectToolParameters.read_file.parse(args);
+    const dirent = redactSecrets(workbenchStore.files.get())[resolvePath(path)];
+
+    if (!dirent) {
+      throw new Error(`${path} does not exist`);
+    }
+
+    if (dirent.type === 'folder') {
+      throw new Error(`${path} is a directory`);
+    }
+
+    return dirent.isBinary ? `${path} is a binary file` : truncateOutput(dirent.content, MAX_RESULT_LENGTH);
+  },
+  list_dir: async (args) => {
+    const { path } = projectToolParameters.list_dir.parse(args);
+    const folderPath = resolvePath(path);
+    const entries = listDirectory(workbenchStore.files.get(), folderPath);
+
+    return entries.length > 0 ? entries.join('\n') : `${path ?? '.'} is empty or does not exist`;
+  },
+  search_code: async (args) => {
+    const { query, isRegex = false, caseSensitive = false } = projectToolParameters.search_code.parse(args);
+    const matches: DisplayMatch[] = [];
+
+    await performTextSearch(
+      await webcontainer,
+      query,
+      { ...DEFAULT_TEXT_SEARCH_OPTIONS, isRegex, caseSensitive, resultLimit: MAX_SEARCH_MATCHES },
+      (batch) => matches.push(...batch),
+    );
+
+    if (matches.length === 0) {
+      return `No matches for ${query}`;
+    }
+
+    // the search reads the files in the WebContainer, where `.env` files hold the values of the secrets
+    const secretNames = getSecretNames();
+    const redact = (path: string, text: string) => (isEnvFile(path) ? redactEnvFile(text, secretNames) : text);
+
+    return truncateOutput(
+      matches
+        .slice(0, MAX_SEARCH_MATCHES)
+        .map(
+          ({ path, lineNumber, previewText }) =>
+            `${extractRelativePath(path)}:${lineNumber}: ${redact(path, previewText.trim())}`,
+        )
+        .join('\n'),
+      MAX_RESULT_LENGTH,
+    );
+  },
+  run_command: async (args, { approved }) => {
+    const { command } = projectToolParameters.run_command.parse(args);
+    const policy = getCommandPolicy(chatId.get());
+
+    // the command policy of the chat applies to the model's commands like to its shell actions
+    if (policy.dryRun) {
+      throw new Error('Commands are not run in dry run mode');
+    }
+
+    const deniedPattern = findDeniedPattern(command, policy.denyPatterns);
+
+    if (deniedPattern) {
+      throw new Error(`Blocked by command policy: matches "${deniedPattern}"`);
+    }
+
+    if (policy.mode === 'ask' && !approved) {
+      throw new Error('Commands have to be approved in this chat');
+    }
+
+    const { shell, ready } = getCommandShell();
+    await ready;
+
+    // the command sees the secrets of the chat like the shell actions do
+    await writeEnvFile(await webcontainer, secretsStore.get());
+
+    const result = await shell.executeCommand(`project-tool-${Date.now()}`, command);
+
+    if (!result) {
+      throw new Error('The shell is not available');
+    }
+
+    return `Exit code: ${result.exitCode}\n\n${truncateOutput(result.output, MAX_RESULT_LENGTH)}`;
+  },
+};
+
+/**
+ * Runs a project tool called by the model, failures are returned as text so the model can react to them.
+ */
+export async function runProjectTool(toolName: string, args: unknown, options: RunOptions = {}): Promise<string> {
+  if (!(toolName in runners)) {
+    return `Error: unknown project tool ${toolName}`;
+  }
+
+  try {
+    return await runners[toolName as ProjectToolName](args, options);
+  } catch (error) {
+    logger.error(`Project tool ${toolName} failed`, error);
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
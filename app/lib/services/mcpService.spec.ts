@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { MCPService, resolveToolPolicy, type MCPServerPolicy } from './mcpService';
+import { getProjectToolsPolicy } from './projectTools';
+
+const policy: MCPServerPolicy = {
+  defaultPolicy: 'deny',
+  tools: {
+    read_file: { policy: 'allow' },
+    run_query: {
+      policy: 'ask',
+      argumentRules: [
+        { argument: 'query', pattern: '^\\s*select\\b', policy: 'allow' },
+        { argument: 'query', pattern: '\\bdrop\\b', policy: 'deny' },
+      ],
+    },
+  },
+};
+
+describe('resolveToolPolicy', () => {
+  it('should ask when the server has no policy', () => {
+    expect(resolveToolPolicy(undefined, 'read_file', {})).toBe('ask');
+  });
+
+  it('should use the policy of the tool before the default of the server', () => {
+    expect(resolveToolPolicy(policy, 'read_file', { path: 'a.ts' })).toBe('allow');
+    expect(resolveToolPolicy(policy, 'write_file', { path: 'a.ts' })).toBe('deny');
+  });
+
+  it('should apply the first matching argument rule', () => {
+    expect(resolveToolPolicy(policy, 'run_query', { query: 'select * from users' })).toBe('allow');
+    expect(resolveToolPolicy(policy, 'run_query', { query: 'delete from users; drop table users' })).toBe('deny');
+    expect(resolveToolPolicy(policy, 'run_query', { query: 'update users set name = 1' })).toBe('ask');
+  });
+
+  it('should ask when a rule has an invalid pattern', () => {
+    const broken: MCPServerPolicy = {
+      tools: { run_query: { policy: 'allow', argumentRules: [{ argument: 'query', pattern: '(', policy: 'deny' }] } },
+    };
+
+    expect(resolveToolPolicy(broken, 'run_query', { query: 'drop table users' })).toBe('ask');
+  });
+});
+
+describe('getProjectToolsPolicy', () => {
+  it('should keep the defaults a user policy does not name', () => {
+    const merged = getProjectToolsPolicy({ tools: { read_file: { policy: 'deny' } } });
+
+    expect(resolveToolPolicy(merged, 'read_file', {})).toBe('deny');
+    expect(resolveToolPolicy(merged, 'run_command', { command: 'ls' })).toBe('ask');
+    expect(resolveToolPolicy(merged, 'list_dir', {})).toBe('allow');
+  });
+
+  it('should let a user policy override the defaults', () => {
+    const merged = getProjectToolsPolicy({ defaultPolicy: 'ask', tools: { run_command: { policy: 'allow' } } });
+
+    expect(resolveToolPolicy(merged, 'run_command', { command: 'ls' })).toBe('allow');
+    expect(resolveToolPolicy(merged, 'list_dir', {})).toBe('ask');
+  });
+});
+
+describe('MCPService.getChatTools', () => {
+  it('should only send the project tools when they are turned on', () => {
+    const service = MCPService.getInstance();
+
+    expect(service.getChatTools(false)).toEqual({});
+    expect(Object.keys(service.getChatTools(true))).toEqual(
+      expect.arrayContaining(['read_file', 'list_dir', 'search_code', 'run_command']),
+    );
+  });
+});
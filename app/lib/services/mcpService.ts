@@ -1,22 +1,29 @@
 import {
-  experimental_createMCPClient,
+  jsonSchema,
+  tool,
   type ToolSet,
   type Message,
   type DataStreamWriter,
   convertToCoreMessages,
   formatDataStreamPart,
 } from 'ai';
-import { Experimental_StdioMCPTransport } from 'ai/mcp-stdio';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { GetPromptResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import type { ToolCallAnnotation } from '~/types/context';
 import {
   TOOL_EXECUTION_APPROVAL,
+  TOOL_EXECUTION_BLOCKED,
   TOOL_EXECUTION_DENIED,
   TOOL_EXECUTION_ERROR,
   TOOL_NO_EXECUTE_FUNCTION,
 } from '~/utils/constants';
 import { createScopedLogger } from '~/utils/logger';
+import { getProjectToolsPolicy, PROJECT_TOOLS_SERVER_NAME, projectTools } from './projectTools';
 
 const logger = createScopedLogger('mcp-service');
 
@@ -66,13 +73,103 @@ export const mcpServerConfigSchema = z.union([
 ]);
 export type MCPServerConfig = z.infer<typeof mcpServerConfigSchema>;
 
+export const mcpToolPolicySchema = z.enum(['allow', 'ask', 'deny']);
+export type MCPToolPolicy = z.infer<typeof mcpToolPolicySchema>;
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const mcpArgumentRuleSchema = z.object({
+  argument: z.string().min(1, 'Argument cannot be empty'),
+  pattern: z.string().min(1, 'Pattern cannot be empty').refine(isValidPattern, 'Pattern must be a valid regex'),
+  policy: mcpToolPolicySchema,
+});
+export type MCPArgumentRule = z.infer<typeof mcpArgumentRuleSchema>;
+
+export const mcpToolRuleSchema = z.object({
+  policy: mcpToolPolicySchema,
+
+  // checked in order before the policy of the tool, the first matching rule wins
+  argumentRules: z.array(mcpArgumentRuleSchema).optional(),
+});
+export type MCPToolRule = z.infer<typeof mcpToolRuleSchema>;
+
+export const mcpServerPolicySchema = z.object({
+  defaultPolicy: mcpToolPolicySchema.optional(),
+  tools: z.record(z.string(), mcpToolRuleSchema).optional(),
+});
+export type MCPServerPolicy = z.infer<typeof mcpServerPolicySchema>;
+
 export const mcpConfigSchema = z.object({
   mcpServers: z.record(z.string(), mcpServerConfigSchema),
+
+  // by server name, servers without a policy ask for every call
+  toolPolicies: z.record(z.string(), mcpServerPolicySchema).optional(),
 });
 export type MCPConfig = z.infer<typeof mcpConfigSchema>;
 
+/**
+ * Decides whether a call of the tool runs without approval, needs approval or is refused. Rules
+ * on the arguments come first, then the policy of the tool and then the default of the server.
+ */
+export function resolveToolPolicy(
+  serverPolicy: MCPServerPolicy | undefined,
+  toolName: string,
+  args: Record<string, unknown>,
+): MCPToolPolicy {
+  const toolRule = serverPolicy?.tools?.[toolName];
+
+  for (const rule of toolRule?.argumentRules ?? []) {
+    const value = args[rule.argument];
+
+    if (value === undefined) {
+      continue;
+    }
+
+    // a broken rule must never let a call through unseen
+    if (!isValidPattern(rule.pattern)) {
+      return 'ask';
+    }
+
+    if (new RegExp(rule.pattern).test(typeof value === 'string' ? value : JSON.stringify(value))) {
+      return rule.policy;
+    }
+  }
+
+  return toolRule?.policy ?? serverPolicy?.defaultPolicy ?? 'ask';
+}
+
+export type MCPResource = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+export type MCPPromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+export type MCPPrompt = {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+};
+
 export type MCPClient = {
   tools: () => Promise<ToolSet>;
+  listResources: () => Promise<MCPResource[]>;
+  readResource: (uri: string) => Promise<ReadResourceResult>;
+  listPrompts: () => Promise<MCPPrompt[]>;
+  getPrompt: (name: string, args: Record<string, string>) => Promise<GetPromptResult>;
   close: () => Promise<void>;
 } & {
   serverName: string;
@@ -90,6 +187,8 @@ export type MCPServerTools = Record<string, MCPServer>;
 export type MCPServerAvailable = {
   status: 'available';
   tools: ToolSet;
+  resources: MCPResource[];
+  prompts: MCPPrompt[];
   client: MCPClient;
   config: MCPServerConfig;
 };
@@ -111,6 +210,11 @@ export class MCPService {
     mcpServers: {},
   };
 
+  private constructor() {
+    // the project tools are available before any server is configured
+    this._registerTools(PROJECT_TOOLS_SERVER_NAME, projectTools);
+  }
+
   static getInstance(): MCPService {
     if (!MCPService._instance) {
       MCPService._instance = new MCPService();
@@ -162,37 +266,115 @@ export class MCPService {
 
   async updateConfig(config: MCPConfig) {
     logger.debug('updating config', JSON.stringify(config));
+
+    const toolPolicies = z.record(z.string(), mcpServerPolicySchema).optional().safeParse(config.toolPolicies);
+
+    if (!toolPolicies.success) {
+      throw new Error(`Invalid tool policies: ${toolPolicies.error.errors.map((err) => err.message).join('; ')}`);
+    }
+
+    if (PROJECT_TOOLS_SERVER_NAME in config.mcpServers) {
+      throw new Error(`"${PROJECT_TOOLS_SERVER_NAME}" is reserved for the built-in project tools`);
+    }
+
+    const serversChanged = JSON.stringify(config.mcpServers) !== JSON.stringify(this._config.mcpServers);
+    const policiesChanged = JSON.stringify(config.toolPolicies) !== JSON.stringify(this._config.toolPolicies);
     this._config = config;
+
+    // editing a policy must not restart the servers
+    if (!serversChanged && policiesChanged) {
+      return this._mcpToolsPerServer;
+    }
+
     await this._createClients();
 
     return this._mcpToolsPerServer;
   }
 
+  private async _connectClient(serverName: string, transport: Transport): Promise<MCPClient> {
+    const client = new Client({ name: 'bolt', version: '1.0.0' });
+
+    await client.connect(transport);
+
+    // servers only answer the requests of the capabilities they announce
+    const capabilities = client.getServerCapabilities() ?? {};
+
+    return {
+      serverName,
+      tools: async () => {
+        const tools: ToolSet = {};
+
+        for (const { name, description, inputSchema } of (await client.listTools()).tools) {
+          tools[name] = tool({
+            description,
+            parameters: jsonSchema({
+              ...inputSchema,
+              properties: inputSchema.properties ?? {},
+              additionalProperties: false,
+            }),
+            execute: async (args, options) => {
+              options?.abortSignal?.throwIfAborted();
+
+              return client.callTool({ name, arguments: args as Record<string, unknown> }, undefined, {
+                signal: options?.abortSignal,
+              });
+            },
+          });
+        }
+
+        return tools;
+      },
+      listResources: async () => {
+        if (!capabilities.resources) {
+          return [];
+        }
+
+        const { resources } = await client.listResources();
+
+        return resources.map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType }));
+      },
+      readResource: (uri) => client.readResource({ uri }),
+      listPrompts: async () => {
+        if (!capabilities.prompts) {
+          return [];
+        }
+
+        const { prompts } = await client.listPrompts();
+
+        return prompts.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+      },
+      getPrompt: (name, args) => client.getPrompt({ name, arguments: args }),
+      close: () => client.close(),
+    };
+  }
+
   private async _createStreamableHTTPClient(
     serverName: string,
     config: StreamableHTTPServerConfig,
   ): Promise<MCPClient> {
     logger.debug(`Creating Streamable-HTTP client for ${serverName} with URL: ${config.url}`);
 
-    const client = await experimental_createMCPClient({
-      transport: new StreamableHTTPClientTransport(new URL(config.url), {
+    return this._connectClient(
+      serverName,
+      new StreamableHTTPClientTransport(new URL(config.url), {
         requestInit: {
           headers: config.headers,
         },
       }),
-    });
-
-    return Object.assign(client, { serverName });
+    );
   }
 
   private async _createSSEClient(serverName: string, config: SSEServerConfig): Promise<MCPClient> {
     logger.debug(`Creating SSE client for ${serverName} with URL: ${config.url}`);
 
-    const client = await experimental_createMCPClient({
-      transport: config,
-    });
-
-    return Object.assign(client, { serverName });
+    return this._connectClient(
+      serverName,
+      new SSEClientTransport(new URL(config.url), {
+        requestInit: {
+          headers: config.headers,
+        },
+      }),
+    );
   }
 
   private async _createStdioClient(serverName: string, config: STDIOServerConfig): Promise<MCPClient> {
@@ -200,9 +382,7 @@ export class MCPService {
       `Creating STDIO client for '${serverName}' with command: '${config.command}' ${config.args?.join(' ') || ''}`,
     );
 
-    const client = await experimental_createMCPClient({ transport: new Experimental_StdioMCPTransport(config) });
-
-    return Object.assign(client, { serverName });
+    return this._connectClient(serverName, new StdioClientTransport(config));
   }
 
   private _registerTools(serverName: string, tools: ToolSet) {
@@ -221,6 +401,22 @@ export class MCPService {
     }
   }
 
+  // a server whose resources or prompts fail to load can still serve its tools
+  private async _listResourcesAndPrompts(serverName: string, client: MCPClient) {
+    const [resources, prompts] = await Promise.all([
+      client.listResources().catch((error) => {
+        logger.warn(`Failed to get resources from server ${serverName}:`, error);
+        return [];
+      }),
+      client.listPrompts().catch((error) => {
+        logger.warn(`Failed to get prompts from server ${serverName}:`, error);
+        return [];
+      }),
+    ]);
+
+    return { resources, prompts };
+  }
+
   private async _createMCPClient(serverName: string, serverConfig: MCPServerConfig): Promise<MCPClient> {
     const validatedConfig = this._validateServerConfig(serverName, serverConfig);
 
@@ -235,6 +431,7 @@ export class MCPService {
 
   private async _createClients() {
     await this._closeClients();
+    this._registerTools(PROJECT_TOOLS_SERVER_NAME, projectTools);
 
     const createClientPromises = Object.entries(this._config?.mcpServers || []).map(async ([serverName, config]) => {
       let client: MCPClient | null = null;
@@ -251,6 +448,7 @@ export class MCPService {
             status: 'available',
             client,
             tools,
+            ...(await this._listResourcesAndPrompts(serverName, client)),
             config,
           };
         } catch (error) {
@@ -280,6 +478,7 @@ export class MCPService {
     this._tools = {};
     this._toolsWithoutExecute = {};
     this._toolNamesToServerNames.clear();
+    this._registerTools(PROJECT_TOOLS_SERVER_NAME, projectTools);
 
     const checkPromises = Object.entries(this._mcpToolsPerServer).map(async ([serverName, server]) => {
       let client = server.client;
@@ -300,6 +499,7 @@ export class MCPService {
             status: 'available',
             client,
             tools,
+            ...(await this._listResourcesAndPrompts(serverName, client)),
             config: server.config,
           };
         } catch (error) {
@@ -351,12 +551,46 @@ export class MCPService {
     this._toolNamesToServerNames.clear();
   }
 
+  private _getAvailableClient(serverName: string): MCPClient {
+    const server = this._mcpToolsPerServer[serverName];
+
+    if (!server || server.status !== 'available') {
+      throw new Error(`MCP server "${serverName}" is not available`);
+    }
+
+    return server.client;
+  }
+
+  async readResource(serverName: string, uri: string): Promise<ReadResourceResult> {
+    logger.debug(`reading resource "${uri}" from server "${serverName}"`);
+
+    return this._getAvailableClient(serverName).readResource(uri);
+  }
+
+  async getPrompt(serverName: string, name: string, args: Record<string, string>): Promise<GetPromptResult> {
+    logger.debug(`getting prompt "${name}" from server "${serverName}"`);
+
+    return this._getAvailableClient(serverName).getPrompt(name, args);
+  }
+
   isValidToolName(toolName: string): boolean {
     return toolName in this._tools;
   }
 
+  getToolPolicy(toolName: string, args: Record<string, unknown>): MCPToolPolicy {
+    const serverName = this._toolNamesToServerNames.get(toolName);
+
+    const serverPolicy = serverName ? this._config.toolPolicies?.[serverName] : undefined;
+
+    return resolveToolPolicy(
+      serverName === PROJECT_TOOLS_SERVER_NAME ? getProjectToolsPolicy(serverPolicy) : serverPolicy,
+      toolName,
+      args,
+    );
+  }
+
   processToolCall(toolCall: ToolCall, dataStream: DataStreamWriter): void {
-    const { toolCallId, toolName } = toolCall;
+    const { toolCallId, toolName, args } = toolCall;
 
     if (this.isValidToolName(toolName)) {
       const { description = 'No description available' } = this.toolsWithoutExecute[toolName];
@@ -369,6 +603,7 @@ export class MCPService {
           serverName,
           toolName,
           toolDescription: description,
+          toolPolicy: this.getToolPolicy(toolName, args),
         } satisfies ToolCallAnnotation);
       }
     }
@@ -399,7 +634,16 @@ export class MCPService {
 
         let result;
 
-        if (toolInvocation.result === TOOL_EXECUTION_APPROVAL.APPROVE) {
+        const isAnswered = Object.values(TOOL_EXECUTION_APPROVAL).includes(toolInvocation.result);
+
+        // the browser runs the project tools and sends their result instead of an approval
+        const isRunByClient = this._toolNamesToServerNames.get(toolName) === PROJECT_TOOLS_SERVER_NAME;
+
+        // the policy is checked again, an approval from the client does not override a denial
+        if ((isAnswered || isRunByClient) && this.getToolPolicy(toolName, toolInvocation.args) === 'deny') {
+          logger.warn(`tool "${toolName}" denied by policy`);
+          result = TOOL_EXECUTION_BLOCKED;
+        } else if (toolInvocation.result === TOOL_EXECUTION_APPROVAL.APPROVE) {
           const toolInstance = this._tools[toolName];
 
           if (toolInstance && typeof toolInstance.execute === 'function') {
@@ -454,4 +698,20 @@ export class MCPService {
   get toolsWithoutExecute() {
     return this._toolsWithoutExecute;
   }
+
+  /**
+   * The tools sent to the model, the project tools only when the user turned them on since
+   * not every model can call tools.
+   */
+  getChatTools(projectTools: boolean): ToolSet {
+    if (projectTools) {
+      return this._toolsWithoutExecute;
+    }
+
+    return Object.fromEntries(
+      Object.entries(this._toolsWithoutExecute).filter(
+        ([toolName]) => this._toolNamesToServerNames.get(toolName) !== PROJECT_TOOLS_SERVER_NAME,
+      ),
+    );
+  }
 }
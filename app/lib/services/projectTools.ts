@@ -0,0 +1,69 @@
+import { tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+import type { MCPServerPolicy } from './mcpService';
+
+/**
+ * Tools over the WebContainer project, offered to the model next to the tools of the MCP servers.
+ * The server only knows their schemas, the browser runs them because the project lives there.
+ */
+export const PROJECT_TOOLS_SERVER_NAME = 'bolt';
+
+export const projectToolParameters = {
+  read_file: z.object({
+    path: z.string().describe('Path of the file, relative to the project root'),
+  }),
+  list_dir: z.object({
+    path: z.string().optional().describe('Path of the directory, relative to the project root. Defaults to the root'),
+  }),
+  search_code: z.object({
+    query: z.string().describe('Text to search for'),
+    isRegex: z.boolean().optional().describe('Treat the query as a regular expression'),
+    caseSensitive: z.boolean().optional(),
+  }),
+  run_command: z.object({
+    command: z.string().describe('Shell command to run in the project root'),
+  }),
+};
+
+export type ProjectToolName = keyof typeof projectToolParameters;
+
+export const projectTools: ToolSet = {
+  read_file: tool({
+    description: 'Reads a text file of the project.',
+    parameters: projectToolParameters.read_file,
+  }),
+  list_dir: tool({
+    description: 'Lists the files and directories directly inside a directory of the project.',
+    parameters: projectToolParameters.list_dir,
+  }),
+  search_code: tool({
+    description:
+      'Searches the files of the project, skipping node_modules and ignored files. Returns the matching lines with their paths and line numbers.',
+    parameters: projectToolParameters.search_code,
+  }),
+  run_command: tool({
+    description:
+      'Runs a shell command in the project root and returns its exit code and output. Commands run in a shell of their own, so the dev server keeps running.',
+    parameters: projectToolParameters.run_command,
+  }),
+};
+
+// reading is harmless, commands are confirmed unless the config says otherwise
+export const DEFAULT_PROJECT_TOOLS_POLICY: MCPServerPolicy = {
+  defaultPolicy: 'allow',
+  tools: {
+    run_command: { policy: 'ask' },
+  },
+};
+
+/**
+ * The policy of the project tools. A policy the user configured for them only replaces the
+ * parts it sets, so tools it does not name keep their default.
+ */
+export function getProjectToolsPolicy(policy?: MCPServerPolicy): MCPServerPolicy {
+  return {
+    ...DEFAULT_PROJECT_TOOLS_POLICY,
+    ...policy,
+    tools: { ...DEFAULT_PROJECT_TOOLS_POLICY.tools, ...policy?.tools },
+  };
+}
@@ -0,0 +1,116 @@
+import { map } from 'nanostores';
+import type { FileMap } from './files';
+import type { ActionAlert } from '~/types/actions';
+import type { ProgressAnnotation } from '~/types/context';
+import { extractRelativePath } from '~/utils/diff';
+
+export type AutoFixStatus = 'idle' | 'fixing' | 'succeeded' | 'exhausted';
+
+interface AutoFixState {
+  status: AutoFixStatus;
+  attempt: number;
+  prompt?: string;
+  progress: ProgressAnnotation[];
+}
+
+const MAX_RELEVANT_FILES = 5;
+const MAX_FILE_LENGTH = 20_000;
+
+export const autoFixStore = map<AutoFixState>({
+  status: 'idle',
+  attempt: 0,
+  progress: [],
+});
+
+export function resetAutoFix() {
+  autoFixStore.set({ status: 'idle', attempt: 0, progress: [] });
+}
+
+export function isAutoFixPrompt(message: string) {
+  return message === autoFixStore.get().prompt;
+}
+
+/**
+ * Starts the next attempt and returns the message that asks the AI for a fix.
+ */
+export function startAutoFixAttempt(alert: ActionAlert, maxAttempts: number, files: FileMap) {
+  const { attempt, progress } = autoFixStore.get();
+  const nextAttempt = attempt + 1;
+  const prompt = createAutoFixPrompt(alert, nextAttempt, maxAttempts, files);
+
+  autoFixStore.set({
+    status: 'fixing',
+    attempt: nextAttempt,
+    prompt,
+    progress: [
+      ...progress.map((step) =>
+        step.status === 'in-progress'
+          ? { ...step, status: 'complete' as const, message: `Attempt ${attempt} did not resolve the error` }
+          : step,
+      ),
+      {
+        type: 'progress',
+        label: `auto-fix-${nextAttempt}`,
+        status: 'in-progress',
+        order: nextAttempt,
+        message: `Auto-fix attempt ${nextAttempt} of ${maxAttempts}: ${alert.title}`,
+      },
+    ],
+  });
+
+  return prompt;
+}
+
+export function finishAutoFix(status: 'succeeded' | 'exhausted') {
+  const { attempt, progress } = autoFixStore.get();
+  const message =
+    status === 'succeeded'
+      ? `Auto-fix resolved the error after ${attempt} ${attempt === 1 ? 'attempt' : 'attempts'}`
+      : `Auto-fix stopped after ${attempt} ${attempt === 1 ? 'attempt' : 'attempts'}, the error is still there`;
+
+  autoFixStore.set({
+    status,
+    attempt,
+    progress: [
+      ...progress.map((step) => ({ ...step, status: 'complete' as const })),
+      { type: 'progress', label: 'auto-fix-result', status: 'complete', order: attempt + 1, message },
+    ],
+  });
+}
+
+/**
+ * Picks the project files that the error output refers to, e.g. through a stack trace
+ * or a compiler message.
+ */
+export function findRelevantFiles(text: string, files: FileMap) {
+  return Object.entries(files)
+    .filter(([, dirent]) => dirent?.type === 'file' && !dirent.isBinary)
+    .map(([path, dirent]) => ({
+      path: extractRelativePath(path),
+      content: dirent?.type === 'file' ? dirent.content : '',
+    }))
+    .filter(({ path }) => text.includes(path))
+    .slice(0, MAX_RELEVANT_FILES);
+}
+
+function createAutoFixPrompt(alert: ActionAlert, attempt: number, maxAttempts: number, files: FileMap) {
+  const isPreview = alert.source === 'preview';
+  const relevantFiles = findRelevantFiles(`${alert.description}\n${alert.content}`, files);
+
+  let prompt = `*Auto-fix attempt ${attempt} of ${maxAttempts}: fix this ${isPreview ? 'preview' : 'terminal'} error*\n`;
+  prompt += `\nError: ${alert.description}\n\`\`\`${isPreview ? 'js' : 'sh'}\n${alert.content}\n\`\`\`\n`;
+
+  if (relevantFiles.length > 0) {
+    prompt += '\nRelevant files:\n';
+
+    for (const { path, content } of relevantFiles) {
+      const truncated =
+        content.length > MAX_FILE_LENGTH ? `${content.slice(0, MAX_FILE_LENGTH)}\n... (truncated)` : content;
+      prompt += `\n${path}\n\`\`\`\n${truncated}\n\`\`\`\n`;
+    }
+  }
+
+  prompt += '\nFix the cause of the error and rerun the command that failed so we can verify the fix.';
+
+  return prompt;
+}
@@ -0,0 +1,80 @@
+import { atom } from 'nanostores';
+import type { CloudflareAccount, CloudflareConnection, CloudflarePagesProject } from '~/types/cloudflare';
+import { logStore } from './logs';
+import { toast } from 'react-toastify';
+
+// Initialize with stored connection or defaults
+const storedConnection = typeof window !== 'undefined' ? localStorage.getItem('cloudflare_connection') : null;
+const initialConnection: CloudflareConnection = storedConnection
+  ? JSON.parse(storedConnection)
+  : {
+      token: '',
+      accountId: '',
+      accounts: [],
+      stats: undefined,
+    };
+
+export const cloudflareConnection = atom<CloudflareConnection>(initialConnection);
+export const isConnecting = atom<boolean>(false);
+export const isFetchingStats = atom<boolean>(false);
+
+export const updateCloudflareConnection = (updates: Partial<CloudflareConnection>) => {
+  const currentState = cloudflareConnection.get();
+  const newState = { ...currentState, ...updates };
+  cloudflareConnection.set(newState);
+
+  // Persist to localStorage
+  if (typeof window !== 'undefined') {
+    localStorage.setItem('cloudflare_connection', JSON.stringify(newState));
+  }
+};
+
+interface CloudflareProjectsResponse {
+  accounts?: CloudflareAccount[];
+  accountId?: string;
+  projects?: CloudflarePagesProject[];
+  error?: string;
+}
+
+/**
+ * Loads the accounts of the token and the Pages projects of the selected account. The Cloudflare API
+ * does not allow requests from the browser, so this goes through the server.
+ */
+export async function fetchCloudflareStats(token: string, accountId?: string) {
+  try {
+    isFetchingStats.set(true);
+
+    const response = await fetch('/api/cloudflare-projects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, accountId }),
+    });
+    const data = (await response.json()) as CloudflareProjectsResponse;
+
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to fetch projects: ${response.status}`);
+    }
+
+    const projects = data.projects || [];
+
+    updateCloudflareConnection({
+      token,
+      accountId: data.accountId || '',
+      accounts: data.accounts || [],
+      stats: {
+        projects,
+        totalProjects: projects.length,
+      },
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Cloudflare API Error:', error);
+    logStore.logError('Failed to fetch Cloudflare stats', { error });
+    toast.error(error instanceof Error ? error.message : 'Failed to fetch Cloudflare statistics');
+
+    return false;
+  } finally {
+    isFetchingStats.set(false);
+  }
+}
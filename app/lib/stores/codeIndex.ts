@@ -0,0 +1,147 @@
+import { map } from 'nanostores';
+import {
+  contextSelectionStore,
+  enableContextOptimizationStore,
+  LLM_CONTEXT_SELECTION,
+  LOCAL_CONTEXT_SELECTION,
+} from './settings';
+import type { FileMap } from './files';
+import { redactSecrets, secretsStore } from './secrets';
+import { workbenchStore } from './workbench';
+import { CodeIndex } from '~/lib/code-index/code-index';
+import { createProviderEmbedder, localEmbedder } from '~/lib/code-index/embeddings';
+import type { ContextChunk } from '~/types/context';
+import { isEnvFile } from '~/utils/envFile';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('CodeIndex');
+
+const UPDATE_DELAY = 1000;
+const TOP_K = 12;
+const MAX_CONTEXT_TOKENS = 8000;
+
+interface CodeIndexState {
+  status: 'idle' | 'indexing' | 'ready' | 'error';
+  chunks: number;
+  error?: string;
+}
+
+export const codeIndexStore = map<CodeIndexState>({ status: 'idle', chunks: 0 });
+
+const codeIndex = new CodeIndex();
+
+// the paths written since the last update, only these are indexed again
+const changedPaths = new Set<string>();
+let trackedFiles: FileMap = {};
+
+function trackChangedFiles(files: FileMap) {
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent !== trackedFiles[filePath]) {
+      changedPaths.add(filePath);
+    }
+  }
+
+  for (const filePath of Object.keys(trackedFiles)) {
+    if (!(filePath in files)) {
+      changedPaths.add(filePath);
+    }
+  }
+
+  trackedFiles = files;
+}
+
+function isSemanticSelectionEnabled() {
+  return enableContextOptimizationStore.get() && contextSelectionStore.get() !== LLM_CONTEXT_SELECTION;
+}
+
+async function updateIndex() {
+  const selection = contextSelectionStore.get();
+  const { embedderId } = codeIndex;
+
+  codeIndex.setEmbedder(selection === LOCAL_CONTEXT_SELECTION ? localEmbedder : createProviderEmbedder(selection));
+
+  // another embedder starts from an empty index
+  const files = workbenchStore.files.get();
+  const paths = codeIndex.embedderId === embedderId ? [...changedPaths] : Object.keys(files);
+
+  if (paths.length === 0 && codeIndexStore.get().status === 'ready') {
+    return;
+  }
+
+  changedPaths.clear();
+  codeIndexStore.setKey('status', 'indexing');
+
+  try {
+    await codeIndex.update(redactSecrets(Object.fromEntries(paths.map((path) => [path, files[path]]))), paths);
+    codeIndexStore.set({ status: 'ready', chunks: codeIndex.chunkCount });
+  } catch (error) {
+    paths.forEach((path) => changedPaths.add(path));
+    logger.error('Failed to update the code index', error);
+    codeIndexStore.set({ status: 'error', chunks: codeIndex.chunkCount, error: String(error) });
+
+    throw error;
+  }
+}
+
+let updateTimeout: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleUpdate() {
+  clearTimeout(updateTimeout);
+
+  if (!isSemanticSelectionEnabled()) {
+    return;
+  }
+
+  updateTimeout = setTimeout(() => updateIndex().catch(() => undefined), UPDATE_DELAY);
+}
+
+if (typeof window !== 'undefined') {
+  workbenchStore.files.subscribe((files) => {
+    trackChangedFiles(files);
+    scheduleUpdate();
+  });
+
+  // env files are indexed with the values of secrets redacted
+  secretsStore.listen(() => {
+    Object.keys(trackedFiles)
+      .filter(isEnvFile)
+      .forEach((filePath) => changedPaths.add(filePath));
+    scheduleUpdate();
+  });
+  contextSelectionStore.subscribe(scheduleUpdate);
+  enableContextOptimizationStore.subscribe(scheduleUpdate);
+}
+
+/**
+ * Retrieves the chunks most relevant to `query` from the semantic code index. Returns
+ * `undefined` when semantic selection is disabled or failed so the server falls back to
+ * letting the LLM pick files.
+ */
+export async function selectContextChunks(query: string): Promise<ContextChunk[] | undefined> {
+  if (!isSemanticSelectionEnabled()) {
+    return undefined;
+  }
+
+  try {
+    // files written since the last scheduled update are indexed before searching
+    clearTimeout(updateTimeout);
+    await updateIndex();
+
+    const chunks = await codeIndex.search(query, { topK: TOP_K, maxTokens: MAX_CONTEXT_TOKENS });
+
+    if (chunks.length === 0) {
+      return undefined;
+    }
+
+    return chunks.map(({ path, startLine, endLine, lineCount, content }) => ({
+      path,
+      startLine,
+      endLine,
+      lineCount,
+      content,
+    }));
+  } catch (error) {
+    logger.warn('Semantic context selection failed, falling back to the LLM', error);
+    return undefined;
+  }
+}
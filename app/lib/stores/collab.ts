@@ -0,0 +1,371 @@
+import type { Message } from 'ai';
+import { atom, map } from 'nanostores';
+import { WebsocketProvider } from 'y-websocket';
+import * as Y from 'yjs';
+import { holdsSecrets } from '~/utils/git';
+import { createScopedLogger } from '~/utils/logger';
+import { getTextChange } from '~/utils/textDiff';
+import type { FileMap } from './files';
+import { profileStore } from './profile';
+import { getSecretNames } from './secrets';
+import { workbenchStore } from './workbench';
+
+const logger = createScopedLogger('Collab');
+
+const USER_STORAGE_KEY = 'bolt_collab_user';
+const USER_COLORS = ['#e5484d', '#f76b15', '#ffc53d', '#46a758', '#12a594', '#0090ff', '#8e4ec6', '#d6409f'];
+
+export type CollabStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface CollabUser {
+  name: string;
+  color: string;
+}
+
+export interface CollabPeer extends CollabUser {
+  clientId: number;
+  selectedFile?: string;
+}
+
+interface CollabState {
+  room?: string;
+  status: CollabStatus;
+
+  // the shared files and chat were received, before that nothing local is shared
+  synced: boolean;
+  peers: CollabPeer[];
+
+  // set while the relay cannot be reached
+  error?: string;
+}
+
+export const collabStore = map<CollabState>({ status: 'disconnected', synced: false, peers: [] });
+
+function loadUser(): CollabUser {
+  const color = USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)];
+
+  if (typeof window === 'undefined') {
+    return { name: 'Anonymous', color };
+  }
+
+  try {
+    const stored = localStorage.getItem(USER_STORAGE_KEY);
+
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch {
+    // a new user is picked below
+  }
+
+  return { name: profileStore.get().username || `Guest ${Math.floor(Math.random() * 1000)}`, color };
+}
+
+export const collabUser = atom<CollabUser>(loadUser());
+
+export function updateCollabUser(updates: Partial<CollabUser>) {
+  collabUser.set({ ...collabUser.get(), ...updates });
+  localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(collabUser.get()));
+  session?.provider.awareness.setLocalStateField('user', toAwarenessUser(collabUser.get()));
+}
+
+/*
+ * The shared document holds the saved content of every text file by path, a `Y.Text` per
+ * file that the editors of all peers bind to and the chat messages in the order they were
+ * first shared.
+ */
+interface CollabSession {
+  doc: Y.Doc;
+  provider: WebsocketProvider;
+  files: Y.Map<string>;
+  documents: Y.Map<Y.Text>;
+  messageIds: Y.Array<string>;
+  messages: Y.Map<string>;
+  dispose: () => void;
+}
+
+let session: CollabSession | undefined;
+let remoteWrites = Promise.resolve();
+
+// the rooms are Durable Objects of the collab worker, see workers/collab
+const RELAY_ERROR =
+  'The collaboration relay is not reachable. It needs the collab worker, deployed with npm run collab:deploy or run next to npm run start with npm run collab:dev.';
+
+const toAwarenessUser = (user: CollabUser) => ({ ...user, colorLight: `${user.color}33` });
+
+function getRelayUrl() {
+  return `${location.protocol === 'https:' ? 'wss:' : 'ws:'}//${location.host}/api/collab`;
+}
+
+/*
+ * Every peer runs the actions of the shared chat in its own WebContainer, so each of them
+ * sees the same file changes. Only the peer with the lowest client id writes such changes
+ * into the shared texts, the edits of several peers would otherwise be merged twice.
+ */
+function isLeader({ doc, provider }: CollabSession) {
+  return Math.min(...provider.awareness.getStates().keys()) === doc.clientID;
+}
+
+function shareFile(current: CollabSession, filePath: string, content: string) {
+  const { files, documents } = current;
+
+  if (files.get(filePath) === content) {
+    return;
+  }
+
+  const text = documents.get(filePath);
+
+  if (!text) {
+    files.set(filePath, content);
+    documents.set(filePath, new Y.Text(content));
+  } else if (text.toString() === content) {
+    // the shared text was saved
+    files.set(filePath, content);
+  } else if (isLeader(current)) {
+    const change = getTextChange(text.toString(), content);
+
+    files.set(filePath, content);
+
+    if (change) {
+      text.delete(change.index, change.deleteCount);
+      text.insert(change.index, change.insert);
+    }
+  }
+}
+
+function shareLocalChanges(current: CollabSession, files: FileMap, previous: FileMap) {
+  const secretNames = getSecretNames();
+
+  current.doc.transact(() => {
+    for (const [filePath, dirent] of Object.entries(files)) {
+      if (dirent === previous[filePath] || dirent?.type !== 'file' || dirent.isBinary) {
+        continue;
+      }
+
+      // env files with the values of secrets stay in this browser
+      if (!holdsSecrets(filePath, dirent.content, secretNames)) {
+        shareFile(current, filePath, dirent.content);
+      }
+    }
+
+    for (const [filePath, dirent] of Object.entries(previous)) {
+      if (dirent?.type === 'file' && !files[filePath] && current.files.has(filePath)) {
+        current.files.delete(filePath);
+        current.documents.delete(filePath);
+      }
+    }
+  });
+}
+
+function applyRemoteFiles(current: CollabSession, filePaths: Iterable<string>) {
+  for (const filePath of filePaths) {
+    remoteWrites = remoteWrites
+      .then(async () => {
+        const content = current.files.get(filePath);
+        const local = workbenchStore.files.get()[filePath];
+
+        // the secrets of this browser are not replaced by the files of a peer
+        if (local?.type === 'file' && holdsSecrets(filePath, local.content, getSecretNames())) {
+          return;
+        }
+
+        if (content === undefined) {
+          if (local?.type === 'file') {
+            await workbenchStore.deleteFile(filePath);
+          }
+
+          return;
+        }
+
+        if (local?.type !== 'file' || local.content !== content) {
+          await workbenchStore.writeFile(filePath, content);
+        }
+      })
+      .catch((error) => logger.error(`Failed to write ${filePath}`, error));
+  }
+}
+
+function updatePeers(current: CollabSession) {
+  const peers: CollabPeer[] = [];
+
+  current.provider.awareness.getStates().forEach((state, clientId) => {
+    if (clientId !== current.doc.clientID && state.user) {
+      peers.push({ clientId, name: state.user.name, color: state.user.color, selectedFile: state.selectedFile });
+    }
+  });
+
+  collabStore.setKey('peers', peers);
+}
+
+/**
+ * Joins a room of the collaboration relay. The peer that creates a room seeds it with its
+ * files, everyone else first takes over the files of the room.
+ */
+export function joinCollabRoom(room: string, { seed = false }: { seed?: boolean } = {}) {
+  leaveCollabRoom();
+
+  const doc = new Y.Doc();
+  const provider = new WebsocketProvider(getRelayUrl(), room, doc);
+  const cleanups: (() => void)[] = [];
+
+  const current: CollabSession = {
+    doc,
+    provider,
+    files: doc.getMap('files'),
+    documents: doc.getMap('documents'),
+    messageIds: doc.getArray('messageIds'),
+    messages: doc.getMap('messages'),
+    dispose: () => {
+      cleanups.forEach((cleanup) => cleanup());
+      provider.destroy();
+      doc.destroy();
+    },
+  };
+
+  session = current;
+  collabStore.set({ room, status: 'connecting', synced: false, peers: [] });
+
+  provider.awareness.setLocalStateField('user', toAwarenessUser(collabUser.get()));
+  cleanups.push(
+    workbenchStore.selectedFile.subscribe((selectedFile) => {
+      provider.awareness.setLocalStateField('selectedFile', selectedFile);
+    }),
+  );
+
+  provider.on('status', ({ status }) => {
+    collabStore.setKey('status', status);
+
+    if (status === 'connected') {
+      collabStore.setKey('error', undefined);
+    }
+  });
+  provider.on('connection-error', () => collabStore.setKey('error', RELAY_ERROR));
+  provider.awareness.on('change', () => updatePeers(current));
+
+  current.files.observe((event) => {
+    if (!event.transaction.local && collabStore.get().synced) {
+      applyRemoteFiles(current, event.keysChanged);
+    }
+  });
+
+  const start = () => {
+    if (session !== current || collabStore.get().synced) {
+      return;
+    }
+
+    let previous = workbenchStore.files.get();
+
+    if (seed) {
+      shareLocalChanges(current, previous, {});
+    } else {
+      applyRemoteFiles(current, current.files.keys());
+    }
+
+    collabStore.setKey('synced', true);
+
+    cleanups.push(
+      workbenchStore.files.listen((files) => {
+        shareLocalChanges(current, files, previous);
+        previous = files;
+      }),
+    );
+  };
+
+  if (seed) {
+    start();
+  } else {
+    provider.on('sync', (isSynced: boolean) => {
+      if (isSynced) {
+        start();
+      }
+    });
+  }
+}
+
+/**
+ * Creates a new room seeded with the current project and chat and returns its id.
+ */
+export function createCollabRoom() {
+  const room = crypto.randomUUID().replaceAll('-', '');
+  joinCollabRoom(room, { seed: true });
+
+  return room;
+}
+
+export function leaveCollabRoom() {
+  session?.dispose();
+  session = undefined;
+  collabStore.set({ status: 'disconnected', synced: false, peers: [] });
+}
+
+export function getCollabLink(room: string) {
+  return `${location.origin}/?collab=${room}`;
+}
+
+/**
+ * The shared text the editor binds to, once the room was synced.
+ */
+export function getSharedText(filePath: string) {
+  return session && collabStore.get().synced ? session.documents.get(filePath) : undefined;
+}
+
+export function getCollabAwareness() {
+  return session?.provider.awareness;
+}
+
+export function getCollabMessages(): Message[] {
+  if (!session) {
+    return [];
+  }
+
+  const { messageIds, messages } = session;
+
+  return [...new Set(messageIds.toArray())].flatMap((id) => {
+    const message = messages.get(id);
+    return message ? [JSON.parse(message) as Message] : [];
+  });
+}
+
+export function shareCollabMessages(messages: Message[]) {
+  if (!session || !collabStore.get().synced) {
+    return;
+  }
+
+  const { doc, messageIds, messages: sharedMessages } = session;
+
+  doc.transact(() => {
+    const ids = new Set(messageIds.toArray());
+
+    for (const message of messages) {
+      const serialized = JSON.stringify(message);
+
+      if (!ids.has(message.id)) {
+        messageIds.push([message.id]);
+      }
+
+      if (sharedMessages.get(message.id) !== serialized) {
+        sharedMessages.set(message.id, serialized);
+      }
+    }
+  });
+}
+
+/**
+ * Calls `callback` with all shared messages whenever a peer changed them.
+ */
+export function onCollabMessages(callback: (messages: Message[]) => void) {
+  if (!session) {
+    return () => undefined;
+  }
+
+  const { messages } = session;
+  const observer = (event: Y.YMapEvent<string>) => {
+    if (!event.transaction.local) {
+      callback(getCollabMessages());
+    }
+  };
+
+  messages.observe(observer);
+
+  return () => messages.unobserve(observer);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findDeniedPattern } from './commandPolicy';
+
+describe('findDeniedPattern', () => {
+  it('should check every command of a chain', () => {
+    const patterns = ['rm -rf *'];
+
+    expect(findDeniedPattern('npm install && rm -rf node_modules', patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern('false || rm -rf /', patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern('ls; rm -rf /', patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern('cat list | rm -rf dist', patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern('npm run dev & rm -rf dist', patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern('ls\nrm -rf dist', patterns)).toBe('rm -rf *');
+  });
+
+  it('should check the commands of subshells', () => {
+    const patterns = ['curl *'];
+
+    expect(findDeniedPattern('echo $(curl https://example.com)', patterns)).toBe('curl *');
+    expect(findDeniedPattern('echo `curl https://example.com`', patterns)).toBe('curl *');
+    expect(findDeniedPattern('(cd app && curl https://example.com)', patterns)).toBe('curl *');
+  });
+
+  it('should not be fooled by quotes, spacing or wrappers', () => {
+    const patterns = ['rm -rf *', 'npm publish'];
+
+    expect(findDeniedPattern('"rm" -rf /', patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern("rm -rf '/'", patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern('rm   -rf    /', patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern('sudo rm -rf /', patterns)).toBe('rm -rf *');
+    expect(findDeniedPattern('NODE_ENV=production npm publish', patterns)).toBe('npm publish');
+    expect(findDeniedPattern('npm publish 2>&1', ['npm publish*'])).toBe('npm publish*');
+  });
+
+  it('should deny chains hidden in quoted arguments', () => {
+    expect(findDeniedPattern('bash -c "ls && rm -rf /"', ['rm -rf *'])).toBe('rm -rf *');
+  });
+
+  it('should not match other commands', () => {
+    const patterns = ['rm -rf *', 'npm publish', 'git push*'];
+
+    expect(findDeniedPattern('rm file.txt', patterns)).toBeUndefined();
+    expect(findDeniedPattern('rmdir -rf dist', patterns)).toBeUndefined();
+    expect(findDeniedPattern('echo rm -rf /', patterns)).toBeUndefined();
+    expect(findDeniedPattern('npm publish --dry-run', patterns)).toBeUndefined();
+    expect(findDeniedPattern('npm test 2>&1', patterns)).toBeUndefined();
+    expect(findDeniedPattern('git pull', patterns)).toBeUndefined();
+    expect(findDeniedPattern('grep "a.b" file', ['grep a?b *'])).toBeUndefined();
+  });
+
+  it('should ignore empty patterns', () => {
+    expect(findDeniedPattern('rm -rf /', ['', '  '])).toBeUndefined();
+    expect(findDeniedPattern('rm -rf /', [])).toBeUndefined();
+  });
+});
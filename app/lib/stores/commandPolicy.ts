@@ -0,0 +1,98 @@
+import { map } from 'nanostores';
+import type { CommandPolicy } from '~/types/actions';
+
+const COMMAND_POLICIES_KEY = 'bolt_command_policies';
+
+// key used for chats that don't have an id yet and for chats without their own policy
+export const DEFAULT_POLICY_KEY = 'default';
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  mode: 'auto',
+  denyPatterns: [],
+  dryRun: false,
+};
+
+const isBrowser = typeof window !== 'undefined';
+
+const getInitialPolicies = (): Record<string, CommandPolicy> => {
+  if (!isBrowser) {
+    return {};
+  }
+
+  try {
+    const saved = localStorage.getItem(COMMAND_POLICIES_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error parsing saved command policies:', error);
+    return {};
+  }
+};
+
+export const commandPoliciesStore = map<Record<string, CommandPolicy>>(getInitialPolicies());
+
+export function getCommandPolicy(chatId?: string): CommandPolicy {
+  const policies = commandPoliciesStore.get();
+
+  return {
+    ...DEFAULT_COMMAND_POLICY,
+    ...policies[DEFAULT_POLICY_KEY],
+    ...(chatId ? policies[chatId] : undefined),
+  };
+}
+
+export function updateCommandPolicy(chatId: string | undefined, updates: Partial<CommandPolicy>) {
+  const key = chatId || DEFAULT_POLICY_KEY;
+
+  commandPoliciesStore.setKey(key, { ...getCommandPolicy(chatId), ...updates });
+
+  if (isBrowser) {
+    localStorage.setItem(COMMAND_POLICIES_KEY, JSON.stringify(commandPoliciesStore.get()));
+  }
+}
+
+// runs of whitespace count as a single space in commands and patterns
+const normalizeWhitespace = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+function globToRegExp(pattern: string) {
+  const escaped = normalizeWhitespace(pattern.replace(/["']/g, ''))
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${escaped}$`);
+}
+
+// wrappers that run the rest of the command, `sudo rm -rf /` is checked as `rm -rf /`
+const COMMAND_PREFIX = /^(?:(?:sudo|env|exec|command|nohup|time)\s+|[A-Za-z_][A-Za-z0-9_]*=\S*\s+)+/;
+
+/*
+ * Splits a command into the commands it runs: the parts of a chain (`&&`, `||`, `;`, `|`, `&`)
+ * and the content of subshells. Quotes are dropped rather than parsed, so a chain inside a
+ * quoted argument is checked as well, which errs on the side of denying.
+ */
+function getSubCommands(command: string) {
+  return command
+    .replace(/["']/g, '')
+    .split(/&&|\|\||(?<![<>])&|[;|\n`()]|\$\(/)
+    .map((part) => normalizeWhitespace(part).replace(COMMAND_PREFIX, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Returns the first deny pattern that matches the command, checking each
+ * sub-command of a chain or subshell on its own.
+ */
+export function findDeniedPattern(command: string, denyPatterns: string[]): string | undefined {
+  const patterns = denyPatterns.filter((pattern) => pattern.trim().length > 0);
+
+  if (patterns.length === 0) {
+    return undefined;
+  }
+
+  const subCommands = getSubCommands(command);
+
+  return patterns.find((pattern) => {
+    const regex = globToRegExp(pattern);
+    return subCommands.some((subCommand) => regex.test(subCommand));
+  });
+}
@@ -0,0 +1,191 @@
+import { map } from 'nanostores';
+import type { DeployCredentials, DeployProviderName, DeployRequest, DeployTarget, Deployment } from '~/types/deploy';
+import { cloudflareConnection } from './cloudflare';
+import { githubPagesConnection } from './githubPages';
+import { netlifyConnection } from './netlify';
+import { vercelConnection } from './vercel';
+
+export interface DeployProviderInfo {
+  name: DeployProviderName;
+  label: string;
+  icon: string;
+  iconClassName: string;
+
+  // prefix of the localStorage key that holds the target of a chat
+  targetKey: string;
+
+  // the provider builds the project itself and needs its source files
+  buildsFromSource?: boolean;
+
+  // the secrets of the chat are set on the target
+  receivesSecrets?: boolean;
+
+  // the path a target is served from, which the build has to know up front
+  getBasePath?: (targetId: string) => string;
+}
+
+export const DEPLOY_PROVIDERS: DeployProviderInfo[] = [
+  {
+    name: 'netlify',
+    label: 'Netlify',
+    icon: 'https://cdn.simpleicons.org/netlify',
+    iconClassName: 'w-5 h-5',
+    targetKey: 'netlify-site',
+    receivesSecrets: true,
+  },
+  {
+    name: 'vercel',
+    label: 'Vercel',
+    icon: 'https://cdn.simpleicons.org/vercel/white',
+    iconClassName: 'w-5 h-5 bg-black p-1 rounded',
+    targetKey: 'vercel-project',
+    buildsFromSource: true,
+    receivesSecrets: true,
+  },
+  {
+    name: 'cloudflare',
+    label: 'Cloudflare Pages',
+    icon: 'https://cdn.simpleicons.org/cloudflare',
+    iconClassName: 'w-5 h-5',
+    targetKey: 'cloudflare-project',
+  },
+  {
+    name: 'github-pages',
+    label: 'GitHub Pages',
+    icon: 'https://cdn.simpleicons.org/github/black',
+    iconClassName: 'w-5 h-5 dark:invert',
+    targetKey: 'github-pages-repo',
+
+    // only the user site <owner>.github.io is served from the root of the domain
+    getBasePath: (repo) => (repo.toLowerCase().endsWith('.github.io') ? '/' : `/${repo}/`),
+  },
+];
+
+export const getDeployProviderInfo = (name: DeployProviderName) =>
+  DEPLOY_PROVIDERS.find((provider) => provider.name === name)!;
+
+/**
+ * The credentials of a provider, undefined while it is not connected.
+ */
+export function getDeployCredentials(name: DeployProviderName): DeployCredentials | undefined {
+  switch (name) {
+    case 'netlify': {
+      const { user, token } = netlifyConnection.get();
+      return user && token ? { token } : undefined;
+    }
+    case 'vercel': {
+      const { user, token } = vercelConnection.get();
+      return user && token ? { token } : undefined;
+    }
+    case 'cloudflare': {
+      const { token, accountId } = cloudflareConnection.get();
+      return token && accountId ? { token, accountId } : undefined;
+    }
+    case 'github-pages': {
+      const { user, token } = githubPagesConnection.get();
+      return user && token ? { token } : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+export const getDeployTargetId = (name: DeployProviderName, chatId: string) =>
+  localStorage.getItem(`${getDeployProviderInfo(name).targetKey}-${chatId}`) ?? undefined;
+
+export const setDeployTargetId = (name: DeployProviderName, chatId: string, targetId: string) =>
+  localStorage.setItem(`${getDeployProviderInfo(name).targetKey}-${chatId}`, targetId);
+
+export async function requestDeployApi<T>(name: DeployProviderName, body: DeployRequest): Promise<T> {
+  const response = await fetch(`/api/deploy/${name}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = (await response.json()) as T & { error?: string };
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: ${response.status}`);
+  }
+
+  return data;
+}
+
+export interface ProviderDeployments {
+  target?: DeployTarget;
+  deployments: Deployment[];
+  isLoading: boolean;
+  error?: string;
+}
+
+// the deployments of the current chat by provider, only providers the chat deployed to are listed
+export const deploymentsStore = map<Partial<Record<DeployProviderName, ProviderDeployments>>>({});
+
+function getTarget(name: DeployProviderName, chatId: string) {
+  const credentials = getDeployCredentials(name);
+  const targetId = getDeployTargetId(name, chatId);
+
+  if (!credentials || !targetId) {
+    throw new Error(`Not connected to ${getDeployProviderInfo(name).label}`);
+  }
+
+  return { credentials, targetId };
+}
+
+async function loadProviderDeployments(name: DeployProviderName, chatId: string) {
+  const current = deploymentsStore.get()[name];
+  deploymentsStore.setKey(name, { deployments: [], ...current, isLoading: true, error: undefined });
+
+  try {
+    const { target, deployments } = await requestDeployApi<{ target: DeployTarget; deployments: Deployment[] }>(name, {
+      action: 'list',
+      ...getTarget(name, chatId),
+    });
+    deploymentsStore.setKey(name, { target, deployments, isLoading: false });
+  } catch (error) {
+    deploymentsStore.setKey(name, {
+      deployments: [],
+      ...current,
+      isLoading: false,
+      error: error instanceof Error ? error.message : 'Failed to load deployments',
+    });
+  }
+}
+
+/**
+ * Loads the deployments of every connected provider the chat deployed to, or of a single one.
+ */
+export async function loadDeployments(chatId: string, name?: DeployProviderName) {
+  if (name) {
+    await loadProviderDeployments(name, chatId);
+    return;
+  }
+
+  deploymentsStore.set({});
+
+  await Promise.all(
+    DEPLOY_PROVIDERS.filter(
+      (provider) => getDeployCredentials(provider.name) && getDeployTargetId(provider.name, chatId),
+    ).map((provider) => loadProviderDeployments(provider.name, chatId)),
+  );
+}
+
+export async function getDeploymentLogs(name: DeployProviderName, chatId: string, deploymentId: string) {
+  const { logs } = await requestDeployApi<{ logs: string[] }>(name, {
+    action: 'logs',
+    ...getTarget(name, chatId),
+    deploymentId,
+  });
+
+  return logs;
+}
+
+export async function changeDeployment(
+  action: 'redeploy' | 'rollback',
+  name: DeployProviderName,
+  chatId: string,
+  deploymentId: string,
+) {
+  await requestDeployApi<{ deployment: Deployment }>(name, { action, ...getTarget(name, chatId), deploymentId });
+  await loadProviderDeployments(name, chatId);
+}
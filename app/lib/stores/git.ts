@@ -0,0 +1,413 @@
+import git, { type GitAuth } from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import { map } from 'nanostores';
+import { getFs, lookupSavedPassword, saveGitAuth } from '~/lib/hooks/useGit';
+import { webcontainer } from '~/lib/webcontainer';
+import { getSecretNames } from './secrets';
+import { applyHunk, getFileStatus, getHunks, holdsSecrets, type GitFileStatus, type GitHunk } from '~/utils/git';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('GitStore');
+
+const CORS_PROXY = '/api/git-proxy';
+const LOG_DEPTH = 30;
+
+export interface GitCommit {
+  oid: string;
+  message: string;
+  author: string;
+  timestamp: number;
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+interface GitState {
+  status: 'loading' | 'no-repo' | 'ready';
+  branch?: string;
+  branches: string[];
+  remote?: string;
+  files: GitFileStatus[];
+  commits: GitCommit[];
+  busy: boolean;
+}
+
+export const gitStore = map<GitState>({ status: 'loading', branches: [], files: [], commits: [], busy: false });
+
+// isomorphic-git keeps no lock on the index, so operations run one after another
+let queue: Promise<unknown> = Promise.resolve();
+let pendingOperations = 0;
+
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  pendingOperations++;
+  gitStore.setKey('busy', true);
+
+  const result = queue.then(operation).finally(() => {
+    pendingOperations--;
+
+    if (pendingOperations === 0) {
+      gitStore.setKey('busy', false);
+    }
+  });
+
+  queue = result.catch(() => undefined);
+
+  return result;
+}
+
+async function getContext() {
+  const container = await webcontainer;
+
+  return { container, fs: getFs(container), dir: container.workdir };
+}
+
+const decoder = new TextDecoder();
+
+async function readWorkdirFile(filepath: string) {
+  const { container } = await getContext();
+
+  try {
+    return await container.fs.readFile(filepath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+async function readHeadFile(filepath: string) {
+  const { fs, dir } = await getContext();
+
+  try {
+    const oid = await git.resolveRef({ fs, dir, ref: 'HEAD' });
+    const { blob } = await git.readBlob({ fs, dir, oid, filepath });
+
+    return decoder.decode(blob);
+  } catch {
+    return '';
+  }
+}
+
+async function readIndexFile(filepath: string) {
+  const { fs, dir } = await getContext();
+
+  const [oid] = (await git.walk({
+    fs,
+    dir,
+    trees: [git.STAGE()],
+    map: async (path, [entry]) => {
+      if (path === filepath) {
+        return entry ? await entry.oid() : undefined;
+      }
+
+      // only descend into the folders of the file
+      return path === '.' || filepath.startsWith(`${path}/`) ? undefined : null;
+    },
+  })) as (string | undefined)[];
+
+  if (!oid) {
+    return '';
+  }
+
+  const { blob } = await git.readBlob({ fs, dir, oid });
+
+  return decoder.decode(blob);
+}
+
+function onAuth(url: string): GitAuth {
+  const auth = lookupSavedPassword(url);
+
+  if (auth) {
+    return auth;
+  }
+
+  if (!confirm(`${url.split('/')[2]} requires authentication. Would you like to enter your credentials?`)) {
+    return { cancel: true };
+  }
+
+  return {
+    username: prompt('Enter username') || '',
+    password: prompt('Enter password or personal access token') || '',
+  };
+}
+
+// installed packages are never part of the repository, even without a .gitignore
+const isProjectFile = (filepath: string) => !filepath.startsWith('node_modules/');
+
+async function hasRepository() {
+  const { container } = await getContext();
+
+  try {
+    await container.fs.readdir('.git');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function loadState() {
+  const { fs, dir } = await getContext();
+
+  if (!(await hasRepository())) {
+    gitStore.set({ ...gitStore.get(), status: 'no-repo', branches: [], files: [], commits: [] });
+    return;
+  }
+
+  const [branch, branches, remote, matrix, commits] = await Promise.all([
+    git.currentBranch({ fs, dir }),
+    git.listBranches({ fs, dir }),
+    git.getConfig({ fs, dir, path: 'remote.origin.url' }),
+    git.statusMatrix({ fs, dir, filter: isProjectFile }),
+    git.log({ fs, dir, depth: LOG_DEPTH }).catch(() => []),
+  ]);
+
+  gitStore.set({
+    ...gitStore.get(),
+    status: 'ready',
+    branch: branch || undefined,
+    branches,
+    remote,
+    files: matrix.map(getFileStatus).filter((file): file is GitFileStatus => !!file),
+    commits: commits.map(({ oid, commit }) => ({
+      oid,
+      message: commit.message.trim(),
+      author: commit.author.name,
+      timestamp: commit.author.timestamp * 1000,
+    })),
+  });
+}
+
+export function refreshGit() {
+  return enqueue(loadState);
+}
+
+export function initRepository() {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+
+    await git.init({ fs, dir, defaultBranch: 'main' });
+    await loadState();
+  });
+}
+
+export function stageFile(file: GitFileStatus) {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+
+    if (file.unstaged === 'deleted') {
+      await git.remove({ fs, dir, filepath: file.path });
+    } else {
+      await git.add({ fs, dir, filepath: file.path });
+    }
+
+    await loadState();
+  });
+}
+
+export function unstageFile(file: GitFileStatus) {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+
+    await git.resetIndex({ fs, dir, filepath: file.path });
+    await loadState();
+  });
+}
+
+/**
+ * Returns the hunks between HEAD and the index and between the index and the working tree.
+ */
+export function getFileHunks(filepath: string) {
+  return enqueue(async () => {
+    const [head, index, workdir] = await Promise.all([
+      readHeadFile(filepath),
+      readIndexFile(filepath),
+      readWorkdirFile(filepath),
+    ]);
+
+    return { staged: getHunks(head, index), unstaged: getHunks(index, workdir) };
+  });
+}
+
+async function writeIndexFile(filepath: string, content: string) {
+  const { fs, dir } = await getContext();
+  const oid = await git.writeBlob({ fs, dir, blob: new TextEncoder().encode(content) });
+
+  await git.updateIndex({ fs, dir, filepath, oid, add: true });
+}
+
+export function stageHunk(filepath: string, hunk: GitHunk) {
+  return enqueue(async () => {
+    await writeIndexFile(filepath, applyHunk(await readIndexFile(filepath), hunk));
+    await loadState();
+  });
+}
+
+export function unstageHunk(filepath: string, hunk: GitHunk) {
+  return enqueue(async () => {
+    await writeIndexFile(filepath, applyHunk(await readIndexFile(filepath), hunk, true));
+    await loadState();
+  });
+}
+
+export async function getAuthor(): Promise<GitAuthor | undefined> {
+  const { fs, dir } = await getContext();
+  const [name, email] = await Promise.all([
+    git.getConfig({ fs, dir, path: 'user.name' }),
+    git.getConfig({ fs, dir, path: 'user.email' }),
+  ]);
+
+  return name && email ? { name, email } : undefined;
+}
+
+/**
+ * Stores the author in the config of the repository, like `git config user.name`.
+ */
+export async function setAuthor({ name, email }: GitAuthor) {
+  const { fs, dir } = await getContext();
+
+  await git.setConfig({ fs, dir, path: 'user.name', value: name });
+  await git.setConfig({ fs, dir, path: 'user.email', value: email });
+}
+
+export function commit(message: string) {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+    const author = await getAuthor();
+
+    if (!author) {
+      throw new Error('Set your name and email before committing');
+    }
+
+    const oid = await git.commit({ fs, dir, message, author });
+
+    logger.info(`Committed ${oid}`);
+    await loadState();
+  });
+}
+
+export function checkoutBranch(ref: string) {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+
+    await git.checkout({ fs, dir, ref });
+    await loadState();
+  });
+}
+
+export function createBranch(ref: string) {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+
+    await git.branch({ fs, dir, ref, checkout: true });
+    await loadState();
+  });
+}
+
+export function fetchOrigin() {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+
+    await git.fetch({ fs, dir, http, corsProxy: CORS_PROXY, singleBranch: true, onAuth, onAuthSuccess: saveGitAuth });
+    await loadState();
+  });
+}
+
+export function pullOrigin() {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+    const author = await getAuthor();
+
+    await git.pull({
+      fs,
+      dir,
+      http,
+      corsProxy: CORS_PROXY,
+      singleBranch: true,
+      author,
+      onAuth,
+      onAuthSuccess: saveGitAuth,
+    });
+    await loadState();
+  });
+}
+
+/**
+ * Commits every change of the working tree and pushes the current branch to `url`. The URL
+ * becomes the `origin` of the repository unless that already points elsewhere, then it is
+ * kept under `remoteName` instead. Creates the repository first when there is none.
+ * `.env` files that hold the values of secrets are left out, like in the GitHub pushes.
+ */
+export function pushToRemote({
+  url,
+  remoteName,
+  auth,
+  message,
+  author,
+}: {
+  url: string;
+  remoteName: string;
+  auth: GitAuth;
+  message: string;
+  author: GitAuthor;
+}) {
+  return enqueue(async () => {
+    const { fs, dir } = await getContext();
+
+    if (!(await hasRepository())) {
+      await git.init({ fs, dir, defaultBranch: 'main' });
+    }
+
+    const changes = (await git.statusMatrix({ fs, dir, filter: isProjectFile }))
+      .map(getFileStatus)
+      .filter((file): file is GitFileStatus => !!file);
+
+    const secretNames = getSecretNames();
+    const files: GitFileStatus[] = [];
+
+    for (const file of changes) {
+      if (file.unstaged !== 'deleted' && holdsSecrets(file.path, await readWorkdirFile(file.path), secretNames)) {
+        if (file.staged) {
+          await git.resetIndex({ fs, dir, filepath: file.path });
+        }
+
+        continue;
+      }
+
+      files.push(file);
+    }
+
+    for (const file of files) {
+      if (file.unstaged === 'deleted') {
+        await git.remove({ fs, dir, filepath: file.path });
+      } else if (file.unstaged) {
+        await git.add({ fs, dir, filepath: file.path });
+      }
+    }
+
+    if (files.length > 0) {
+      await git.commit({ fs, dir, message, author: (await getAuthor()) ?? author });
+    }
+
+    // the origin the Git panel fetches and pulls from is never repointed
+    const origin = await git.getConfig({ fs, dir, path: 'remote.origin.url' });
+    const remote = !origin || origin === url ? 'origin' : remoteName;
+
+    await git.addRemote({ fs, dir, remote, url, force: true });
+
+    const ref = (await git.currentBranch({ fs, dir })) || 'main';
+
+    try {
+      await git.push({ fs, dir, http, corsProxy: CORS_PROXY, remote, ref, onAuth: () => auth });
+    } catch (error) {
+      if (error instanceof git.Errors.PushRejectedError) {
+        throw new Error(`The remote ${ref} branch has commits the project lacks, pull them in the Git panel first`);
+      }
+
+      throw error;
+    } finally {
+      await loadState();
+    }
+
+    logger.info(`Pushed ${ref} to ${url}`);
+  });
+}
@@ -0,0 +1,108 @@
+import { map } from 'nanostores';
+import { saveGitAuth } from '~/lib/hooks/useGit';
+import { getGitRemote } from '~/lib/modules/git-remote/registry';
+import type { GitRemoteCredentials, GitRemoteUser } from '~/lib/modules/git-remote/types';
+import { pushToRemote } from './git';
+
+export interface GitRemoteConnection extends GitRemoteCredentials {
+  user: GitRemoteUser;
+}
+
+const STORAGE_KEY = 'git_remote_connections';
+
+const storedConnections = typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+
+// connections by the name of their remote
+export const gitRemoteConnections = map<Record<string, GitRemoteConnection>>(
+  storedConnections ? JSON.parse(storedConnections) : {},
+);
+
+function persistConnections() {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(gitRemoteConnections.get()));
+  }
+}
+
+export function getGitRemoteConnection(name: string) {
+  const connection = gitRemoteConnections.get()[name];
+
+  if (!connection) {
+    throw new Error(`Connect ${name} in the settings first`);
+  }
+
+  return connection;
+}
+
+/**
+ * Checks the token against the instance and stores the connection. The token is also saved as
+ * the Git credentials of the host, so clones and pulls from it authenticate without a prompt.
+ */
+export async function connectGitRemote(name: string, baseUrl: string, token: string) {
+  const remote = getGitRemote(name);
+  const credentials = { baseUrl: baseUrl.trim().replace(/\/+$/, ''), token: token.trim() };
+
+  if (!credentials.baseUrl.startsWith('https://')) {
+    throw new Error('The URL of the instance must start with https://');
+  }
+
+  const user = await remote.getUser(credentials);
+
+  gitRemoteConnections.setKey(name, { ...credentials, user });
+  persistConnections();
+  saveGitAuth(credentials.baseUrl, remote.getGitAuth(credentials, user));
+
+  return user;
+}
+
+export function disconnectGitRemote(name: string) {
+  const { [name]: _removed, ...connections } = gitRemoteConnections.get();
+
+  gitRemoteConnections.set(connections);
+  persistConnections();
+}
+
+export async function listGitRemoteRepositories(name: string) {
+  return getGitRemote(name).listRepositories(getGitRemoteConnection(name));
+}
+
+/**
+ * Pushes the project to a repository of the user, the repository is created when it does not
+ * exist yet. Returns the web URL of the repository.
+ */
+export async function pushToGitRemote({
+  name,
+  repoName,
+  isPrivate,
+  commitMessage,
+}: {
+  name: string;
+  repoName: string;
+  isPrivate: boolean;
+  commitMessage: string;
+}) {
+  const remote = getGitRemote(name);
+  const connection = getGitRemoteConnection(name);
+  const { user } = connection;
+
+  // repositories of groups and organizations are named with their owner, new ones belong to the user
+  const inNamespace = repoName.includes('/');
+  let repository = await remote.getRepository(connection, inNamespace ? repoName : `${user.username}/${repoName}`);
+
+  if (!repository) {
+    if (inNamespace) {
+      throw new Error(`Repository ${repoName} not found on ${name}`);
+    }
+
+    repository = await remote.createRepository(connection, { name: repoName, isPrivate });
+  }
+
+  await pushToRemote({
+    url: repository.cloneUrl,
+    remoteName: name.toLowerCase(),
+    auth: remote.getGitAuth(connection, user),
+    message: commitMessage,
+    author: { name: user.name || user.username, email: user.email || `${user.username}@users.noreply` },
+  });
+
+  return repository.webUrl;
+}
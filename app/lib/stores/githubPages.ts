@@ -0,0 +1,65 @@
+import { atom } from 'nanostores';
+import { Octokit } from '@octokit/rest';
+import Cookies from 'js-cookie';
+import type { GitHubPagesConnection } from '~/types/githubPages';
+import { logStore } from './logs';
+import { toast } from 'react-toastify';
+
+// Initialize with stored connection, the token of the GitHub connection is offered when there is none
+const storedConnection = typeof window !== 'undefined' ? localStorage.getItem('github_pages_connection') : null;
+const initialConnection: GitHubPagesConnection = storedConnection
+  ? JSON.parse(storedConnection)
+  : {
+      user: null,
+      token: (typeof window !== 'undefined' && Cookies.get('githubToken')) || '',
+      stats: undefined,
+    };
+
+export const githubPagesConnection = atom<GitHubPagesConnection>(initialConnection);
+export const isConnecting = atom<boolean>(false);
+export const isFetchingStats = atom<boolean>(false);
+
+export const updateGitHubPagesConnection = (updates: Partial<GitHubPagesConnection>) => {
+  const currentState = githubPagesConnection.get();
+  const newState = { ...currentState, ...updates };
+  githubPagesConnection.set(newState);
+
+  // Persist to localStorage
+  if (typeof window !== 'undefined') {
+    localStorage.setItem('github_pages_connection', JSON.stringify(newState));
+  }
+};
+
+export async function fetchGitHubPagesStats(token: string) {
+  try {
+    isFetchingStats.set(true);
+
+    const octokit = new Octokit({ auth: token });
+    const { data: repos } = await octokit.repos.listForAuthenticatedUser({
+      sort: 'updated',
+      per_page: 100,
+      affiliation: 'owner',
+    });
+
+    const sites = repos
+      .filter((repo) => repo.has_pages)
+      .map((repo) => ({
+        repo: repo.full_name,
+        url: `https://${repo.owner.login.toLowerCase()}.github.io/${repo.name}/`,
+        updatedAt: repo.updated_at || '',
+      }));
+
+    updateGitHubPagesConnection({
+      stats: {
+        sites,
+        totalSites: sites.length,
+      },
+    });
+  } catch (error) {
+    console.error('GitHub Pages API Error:', error);
+    logStore.logError('Failed to fetch GitHub Pages sites', { error });
+    toast.error('Failed to fetch GitHub Pages sites');
+  } finally {
+    isFetchingStats.set(false);
+  }
+}
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
-import type { MCPConfig, MCPServerTools } from '~/lib/services/mcpService';
+import type { GetPromptResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPConfig, MCPServerPolicy, MCPServerTools } from '~/lib/services/mcpService';
 
 const MCP_SETTINGS_KEY = 'mcp_settings';
 const isBrowser = typeof window !== 'undefined';
@@ -7,10 +8,14 @@ const isBrowser = typeof window !== 'undefined';
 type MCPSettings = {
   mcpConfig: MCPConfig;
   maxLLMSteps: number;
+
+  // the built-in project tools are sent to the model, which has to support tool calls
+  projectTools?: boolean;
 };
 
 const defaultSettings = {
   maxLLMSteps: 5,
+  projectTools: false,
   mcpConfig: {
     mcpServers: {},
   },
@@ -28,6 +33,9 @@ type Actions = {
   initialize: () => Promise<void>;
   updateSettings: (settings: MCPSettings) => Promise<void>;
   checkServersAvailabilities: () => Promise<void>;
+  updateToolPolicy: (serverName: string, policy: MCPServerPolicy) => Promise<void>;
+  readResource: (serverName: string, uri: string) => Promise<ReadResourceResult>;
+  getPrompt: (serverName: string, name: string, args: Record<string, string>) => Promise<GetPromptResult>;
 };
 
 export const useMCPStore = create<Store & Actions>((set, get) => ({
@@ -96,8 +104,39 @@ export const useMCPStore = create<Store & Actions>((set, get) => ({
 
     set(() => ({ serverTools }));
   },
+  updateToolPolicy: async (serverName: string, policy: MCPServerPolicy) => {
+    const { settings, updateSettings } = get();
+
+    await updateSettings({
+      ...settings,
+      mcpConfig: {
+        ...settings.mcpConfig,
+        toolPolicies: { ...settings.mcpConfig.toolPolicies, [serverName]: policy },
+      },
+    });
+  },
+  readResource: async (serverName: string, uri: string) => {
+    return postToServer<ReadResourceResult>('/api/mcp-resource', { serverName, uri });
+  },
+  getPrompt: async (serverName: string, name: string, args: Record<string, string>) => {
+    return postToServer<GetPromptResult>('/api/mcp-prompt', { serverName, name, args });
+  },
 }));
 
+async function postToServer<T>(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Server responded with ${response.status}: ${response.statusText}`);
+  }
+
+  return (await response.json()) as T;
+}
+
 async function updateServerConfig(config: MCPConfig) {
   const response = await fetch('/api/mcp-update-config', {
     method: 'POST',
@@ -0,0 +1,129 @@
+import { map } from 'nanostores';
+import type { PlanTask } from '~/types/context';
+
+export type PlanStatus = 'idle' | 'draft' | 'running' | 'stopped' | 'done';
+
+export interface PlanTaskItem extends PlanTask {
+  status: 'pending' | 'in-progress' | 'done';
+
+  // the response that built the task, its artifact holds the changes
+  messageId?: string;
+}
+
+interface PlanState {
+  status: PlanStatus;
+
+  // the planner response the tasks come from
+  planMessageId?: string;
+  tasks: PlanTaskItem[];
+  prompt?: string;
+}
+
+export const planStore = map<PlanState>({ status: 'idle', tasks: [] });
+
+export function resetPlan() {
+  planStore.set({ status: 'idle', tasks: [] });
+}
+
+export function loadPlan(planMessageId: string, tasks: PlanTask[]) {
+  planStore.set({
+    status: 'draft',
+    planMessageId,
+    tasks: tasks.map((task) => ({ ...task, status: 'pending' })),
+  });
+}
+
+export function isPlanTaskPrompt(message: string) {
+  return message === planStore.get().prompt;
+}
+
+const setTasks = (tasks: PlanTaskItem[]) => planStore.setKey('tasks', tasks);
+
+export function updatePlanTask(id: string, updates: Partial<Pick<PlanTask, 'title' | 'description'>>) {
+  setTasks(planStore.get().tasks.map((task) => (task.id === id ? { ...task, ...updates } : task)));
+}
+
+export function movePlanTask(id: string, offset: -1 | 1) {
+  const tasks = [...planStore.get().tasks];
+  const index = tasks.findIndex((task) => task.id === id);
+  const target = index + offset;
+
+  if (index === -1 || target < 0 || target >= tasks.length) {
+    return;
+  }
+
+  [tasks[index], tasks[target]] = [tasks[target], tasks[index]];
+  setTasks(tasks);
+}
+
+export function removePlanTask(id: string) {
+  setTasks(planStore.get().tasks.filter((task) => task.id !== id));
+}
+
+export function addPlanTask() {
+  setTasks([
+    ...planStore.get().tasks,
+    { id: `task-${Date.now()}`, title: 'New task', description: '', status: 'pending' },
+  ]);
+}
+
+export function startPlan() {
+  planStore.setKey('status', 'running');
+}
+
+/**
+ * Stops a running plan, the task in progress is built again when the plan is resumed.
+ */
+export function stopPlan() {
+  const { status, tasks } = planStore.get();
+
+  if (status !== 'running') {
+    return;
+  }
+
+  planStore.set({
+    ...planStore.get(),
+    status: 'stopped',
+    prompt: undefined,
+    tasks: tasks.map((task) => (task.status === 'in-progress' ? { ...task, status: 'pending' } : task)),
+  });
+}
+
+export function completePlanTask(messageId?: string) {
+  setTasks(
+    planStore
+      .get()
+      .tasks.map((task) => (task.status === 'in-progress' ? { ...task, status: 'done', messageId } : task)),
+  );
+}
+
+/**
+ * Marks the next pending task as in progress and returns the message that asks the AI to
+ * build it, finishes the plan once every task is done.
+ */
+export function startNextPlanTask() {
+  const { tasks } = planStore.get();
+  const index = tasks.findIndex((task) => task.status === 'pending');
+
+  if (index === -1) {
+    planStore.set({ ...planStore.get(), status: 'done', prompt: undefined });
+    return undefined;
+  }
+
+  const task = tasks[index];
+  let prompt = `*Task ${index + 1} of ${tasks.length}: ${task.title}*\n`;
+
+  if (task.description) {
+    prompt += `\n${task.description}\n`;
+  }
+
+  prompt += '\nOnly implement this task, the remaining tasks of the plan follow in later messages.';
+
+  planStore.set({
+    ...planStore.get(),
+    prompt,
+    tasks: tasks.map((item, itemIndex) => (itemIndex === index ? { ...item, status: 'in-progress' } : item)),
+  });
+
+  return prompt;
+}
@@ -0,0 +1,147 @@
+import { map } from 'nanostores';
+import type { ProjectDiagnostic } from '~/types/diagnostics';
+import { webcontainer } from '~/lib/webcontainer';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { countErrors, parseEslintOutput, parseTscOutput } from '~/utils/projectDiagnostics';
+
+const logger = createScopedLogger('ProjectDiagnostics');
+
+const TSCONFIG_FILES = ['tsconfig.app.json', 'tsconfig.json'];
+const ESLINT_CONFIG_FILES = [
+  'eslint.config.js',
+  'eslint.config.mjs',
+  'eslint.config.cjs',
+  'eslint.config.ts',
+  '.eslintrc.js',
+  '.eslintrc.cjs',
+  '.eslintrc.json',
+  '.eslintrc',
+];
+
+interface ProjectDiagnosticsState {
+  status: 'idle' | 'checking' | 'done';
+  diagnostics: ProjectDiagnostic[];
+  checkedAt?: number;
+
+  // the errors of the last check were neither sent to the model nor dismissed
+  pending: boolean;
+}
+
+export const projectDiagnosticsStore = map<ProjectDiagnosticsState>({
+  status: 'idle',
+  diagnostics: [],
+  pending: false,
+});
+
+let rerunRequested = false;
+
+async function exists(path: string) {
+  const container = await webcontainer;
+
+  try {
+    await container.fs.readFile(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function findFile(paths: string[]) {
+  for (const path of paths) {
+    if (await exists(path)) {
+      return path;
+    }
+  }
+
+  return undefined;
+}
+
+async function run(command: string, args: string[]) {
+  const container = await webcontainer;
+  const process = await container.spawn(command, args);
+
+  let output = '';
+  process.output.pipeTo(
+    new WritableStream({
+      write(data) {
+        output += data;
+      },
+    }),
+  );
+
+  await process.exit;
+
+  return output;
+}
+
+/**
+ * Type checks and lints the project with the TypeScript and ESLint it installed, tools the
+ * project does not use are skipped.
+ */
+async function checkProject() {
+  const diagnostics: ProjectDiagnostic[] = [];
+  const tsconfig = await findFile(TSCONFIG_FILES);
+
+  if (tsconfig && (await exists('node_modules/typescript/package.json'))) {
+    const output = await run('npx', ['--no', 'tsc', '--noEmit', '--pretty', 'false', '-p', tsconfig]);
+    diagnostics.push(...parseTscOutput(output));
+  }
+
+  if ((await findFile(ESLINT_CONFIG_FILES)) && (await exists('node_modules/eslint/package.json'))) {
+    const output = await run('npx', ['--no', 'eslint', '.', '--format', 'json']);
+    diagnostics.push(...parseEslintOutput(output, WORK_DIR));
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Checks the project in the background, a check requested while one runs starts once it finished.
+ */
+export async function runProjectCheck() {
+  if (projectDiagnosticsStore.get().status === 'checking') {
+    rerunRequested = true;
+    return;
+  }
+
+  projectDiagnosticsStore.setKey('status', 'checking');
+
+  try {
+    const diagnostics = await checkProject();
+
+    projectDiagnosticsStore.set({
+      status: 'done',
+      diagnostics,
+      checkedAt: Date.now(),
+      pending: countErrors(diagnostics) > 0,
+    });
+  } catch (error) {
+    logger.error('Failed to check the project', error);
+    projectDiagnosticsStore.setKey('status', 'idle');
+  }
+
+  if (rerunRequested) {
+    rerunRequested = false;
+    await runProjectCheck();
+  }
+}
+
+/**
+ * Returns the errors that were not sent to the model yet and marks them as sent.
+ */
+export function takePendingDiagnostics() {
+  const { diagnostics, pending } = projectDiagnosticsStore.get();
+
+  if (!pending) {
+    return undefined;
+  }
+
+  projectDiagnosticsStore.setKey('pending', false);
+
+  return diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+}
+
+export function dismissProjectDiagnostics() {
+  projectDiagnosticsStore.setKey('pending', false);
+}
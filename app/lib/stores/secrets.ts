@@ -0,0 +1,98 @@
+import { map } from 'nanostores';
+import { decrypt, encrypt } from '~/lib/crypto';
+import { chatId, db, getSecrets, setSecrets } from '~/lib/persistence';
+import type { FileMap } from '~/lib/stores/files';
+import { isEnvFile, redactEnvFile } from '~/utils/envFile';
+import { createScopedLogger } from '~/utils/logger';
+
+const SECRETS_KEY_STORAGE_KEY = 'bolt_secrets_key';
+
+const logger = createScopedLogger('Secrets');
+
+// the variables of the current chat by name, they are written to its `.env` before it starts
+export const secretsStore = map<Record<string, string>>({});
+
+/**
+ * The key the secrets of every chat are encrypted with, created on first use. It stays in this
+ * browser, so secrets are not readable from an exported database.
+ */
+function getEncryptionKey() {
+  let key = localStorage.getItem(SECRETS_KEY_STORAGE_KEY);
+
+  if (!key) {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    key = btoa(String.fromCharCode(...bytes));
+    localStorage.setItem(SECRETS_KEY_STORAGE_KEY, key);
+  }
+
+  return key;
+}
+
+/**
+ * Loads the secrets of a chat, or clears them for a chat that has not started yet.
+ */
+export async function loadSecrets(id?: string) {
+  secretsStore.set({});
+
+  if (!id || !db) {
+    return;
+  }
+
+  try {
+    const payload = await getSecrets(db, id);
+
+    if (payload && chatId.get() === id) {
+      secretsStore.set(JSON.parse(await decrypt(getEncryptionKey(), payload)));
+    }
+  } catch (error) {
+    logger.error('Failed to load secrets', error);
+  }
+}
+
+async function saveSecrets(secrets: Record<string, string>) {
+  const id = chatId.get();
+
+  if (!id || !db) {
+    throw new Error('Secrets can only be saved once the chat has started');
+  }
+
+  await setSecrets(db, id, await encrypt(getEncryptionKey(), JSON.stringify(secrets)));
+  secretsStore.set(secrets);
+}
+
+export function setSecret(name: string, value: string) {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error('Names may only contain letters, digits and underscores and must not start with a digit');
+  }
+
+  return saveSecrets({ ...secretsStore.get(), [name]: value });
+}
+
+export function removeSecret(name: string) {
+  const { [name]: _removed, ...secrets } = secretsStore.get();
+  return saveSecrets(secrets);
+}
+
+export const getSecretNames = () => Object.keys(secretsStore.get());
+
+/**
+ * Replaces the values of the secrets in the `.env` files of the project, so they neither reach the
+ * LLM nor the file history.
+ */
+export function redactSecrets<T extends FileMap>(files: T): T {
+  const names = getSecretNames();
+
+  if (names.length === 0) {
+    return files;
+  }
+
+  const redacted: FileMap = { ...files };
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'file' && !dirent.isBinary && isEnvFile(filePath)) {
+      redacted[filePath] = { ...dirent, content: redactEnvFile(dirent.content, names) };
+    }
+  }
+
+  return redacted as T;
+}
@@ -1,6 +1,9 @@
 import { atom, map } from 'nanostores';
+import Cookies from 'js-cookie';
 import { PROVIDER_LIST } from '~/utils/constants';
-import type { IProviderConfig } from '~/types/model';
+import type { CustomProviderDefinition, IProviderConfig, IProviderSetting } from '~/types/model';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { getCustomProviderModels } from '~/lib/modules/llm/custom-provider';
 import type { TabVisibilityConfig, TabWindowConfig, UserTabConfig } from '~/components/@settings/core/types';
 import { DEFAULT_TAB_CONFIG } from '~/components/@settings/core/constants';
 import { toggleTheme } from './theme';
@@ -21,6 +24,7 @@ export interface Shortcut {
 export interface Shortcuts {
   toggleTheme: Shortcut;
   toggleTerminal: Shortcut;
+  searchTerminalHistory: Shortcut;
 }
 
 export const URL_CONFIGURABLE_PROVIDERS = ['Ollama', 'LMStudio', 'OpenAILike'];
@@ -48,6 +52,16 @@ export const shortcutsStore = map<Shortcuts>({
     description: 'Toggle terminal',
     isPreventDefault: true,
   },
+  searchTerminalHistory: {
+    key: 'r',
+    altKey: true,
+    ctrlOrMetaKey: true,
+    action: () => {
+      // This will be handled by the terminal component
+    },
+    description: 'Search terminal history',
+    isPreventDefault: true,
+  },
 });
 
 // Create a single key for provider settings
@@ -56,6 +70,34 @@ const PROVIDER_SETTINGS_KEY = 'provider_settings';
 // Add this helper function at the top of the file
 const isBrowser = typeof window !== 'undefined';
 
+const CUSTOM_PROVIDERS_KEY = 'bolt_custom_providers';
+
+const getInitialCustomProviders = (): CustomProviderDefinition[] => {
+  if (!isBrowser) {
+    return [];
+  }
+
+  try {
+    const stored = localStorage.getItem(CUSTOM_PROVIDERS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error parsing custom providers:', error);
+    return [];
+  }
+};
+
+export const customProvidersStore = atom<CustomProviderDefinition[]>(getInitialCustomProviders());
+
+if (isBrowser) {
+  LLMManager.getInstance().registerCustomProviders(customProvidersStore.get());
+}
+
+const toProviderConfig = (definition: CustomProviderDefinition, settings: IProviderSetting): IProviderConfig => ({
+  name: definition.name,
+  staticModels: getCustomProviderModels(definition),
+  settings,
+});
+
 // Initialize provider settings from both localStorage and defaults
 const getInitialProviderSettings = (): ProviderSetting => {
   const initialSettings: ProviderSetting = {};
@@ -71,6 +113,10 @@ const getInitialProviderSettings = (): ProviderSetting => {
     };
   });
 
+  customProvidersStore.get().forEach((definition) => {
+    initialSettings[definition.name] = toProviderConfig(definition, { enabled: true });
+  });
+
   // Only try to load from localStorage in the browser
   if (isBrowser) {
     const savedSettings = localStorage.getItem(PROVIDER_SETTINGS_KEY);
@@ -115,6 +161,32 @@ export const updateProviderSettings = (provider: string, settings: ProviderSetti
   localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(allSettings));
 };
 
+/**
+ * Replaces the custom providers and keeps their entries in `providersStore` in sync, the
+ * settings of providers that are kept are preserved.
+ */
+export const updateCustomProviders = (definitions: CustomProviderDefinition[]) => {
+  const currentSettings = providersStore.get();
+  const removed = customProvidersStore.get().filter((p) => !definitions.some((d) => d.name === p.name));
+  const updatedSettings: ProviderSetting = { ...currentSettings };
+
+  removed.forEach((definition) => delete updatedSettings[definition.name]);
+  definitions.forEach((definition) => {
+    updatedSettings[definition.name] = toProviderConfig(
+      definition,
+      currentSettings[definition.name]?.settings ?? { enabled: true },
+    );
+  });
+
+  customProvidersStore.set(definitions);
+  localStorage.setItem(CUSTOM_PROVIDERS_KEY, JSON.stringify(definitions));
+  Cookies.set('customProviders', JSON.stringify(definitions));
+  LLMManager.getInstance().registerCustomProviders(definitions);
+
+  providersStore.set(updatedSettings);
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(updatedSettings));
+};
+
 export const isDebugMode = atom(false);
 
 // Define keys for localStorage
@@ -125,8 +197,22 @@ const SETTINGS_KEYS = {
   EVENT_LOGS: 'isEventLogsEnabled',
   PROMPT_ID: 'promptId',
   DEVELOPER_MODE: 'isDeveloperMode',
+  AUTO_FIX: 'autoFixEnabled',
+  AUTO_FIX_MAX_ATTEMPTS: 'autoFixMaxAttempts',
+  DIAGNOSTICS_AUTO_INCLUDE: 'diagnosticsAutoInclude',
+  CONTEXT_SELECTION: 'contextSelection',
 } as const;
 
+export const DEFAULT_AUTO_FIX_MAX_ATTEMPTS = 3;
+
+/*
+ * How context optimization picks code: `llm` asks the model to pick whole files, `local`
+ * searches the semantic code index with local embeddings and any other value names the
+ * provider whose embedding model builds the index.
+ */
+export const LLM_CONTEXT_SELECTION = 'llm';
+export const LOCAL_CONTEXT_SELECTION = 'local';
+
 // Initialize settings from localStorage or defaults
 const getInitialSettings = () => {
   const getStoredBoolean = (key: string, defaultValue: boolean): boolean => {
@@ -154,6 +240,15 @@ const getInitialSettings = () => {
     eventLogs: getStoredBoolean(SETTINGS_KEYS.EVENT_LOGS, true),
     promptId: isBrowser ? localStorage.getItem(SETTINGS_KEYS.PROMPT_ID) || 'default' : 'default',
     developerMode: getStoredBoolean(SETTINGS_KEYS.DEVELOPER_MODE, false),
+    autoFix: getStoredBoolean(SETTINGS_KEYS.AUTO_FIX, false),
+    autoFixMaxAttempts:
+      Number(isBrowser ? localStorage.getItem(SETTINGS_KEYS.AUTO_FIX_MAX_ATTEMPTS) : null) ||
+      DEFAULT_AUTO_FIX_MAX_ATTEMPTS,
+    diagnosticsAutoInclude: getStoredBoolean(SETTINGS_KEYS.DIAGNOSTICS_AUTO_INCLUDE, false),
+
+    // the semantic index downloads and runs an embedding model, so it is opt-in
+    contextSelection:
+      (isBrowser ? localStorage.getItem(SETTINGS_KEYS.CONTEXT_SELECTION) : null) || LLM_CONTEXT_SELECTION,
   };
 };
 
@@ -165,6 +260,10 @@ export const autoSelectStarterTemplate = atom<boolean>(initialSettings.autoSelec
 export const enableContextOptimizationStore = atom<boolean>(initialSettings.contextOptimization);
 export const isEventLogsEnabled = atom<boolean>(initialSettings.eventLogs);
 export const promptStore = atom<string>(initialSettings.promptId);
+export const autoFixEnabledStore = atom<boolean>(initialSettings.autoFix);
+export const autoFixMaxAttemptsStore = atom<number>(initialSettings.autoFixMaxAttempts);
+export const diagnosticsAutoIncludeStore = atom<boolean>(initialSettings.diagnosticsAutoInclude);
+export const contextSelectionStore = atom<string>(initialSettings.contextSelection);
 
 // Helper functions to update settings with persistence
 export const updateLatestBranch = (enabled: boolean) => {
@@ -192,6 +291,26 @@ export const updatePromptId = (id: string) => {
   localStorage.setItem(SETTINGS_KEYS.PROMPT_ID, id);
 };
 
+export const updateAutoFix = (enabled: boolean) => {
+  autoFixEnabledStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX, JSON.stringify(enabled));
+};
+
+export const updateAutoFixMaxAttempts = (attempts: number) => {
+  autoFixMaxAttemptsStore.set(attempts);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX_MAX_ATTEMPTS, String(attempts));
+};
+
+export const updateDiagnosticsAutoInclude = (enabled: boolean) => {
+  diagnosticsAutoIncludeStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.DIAGNOSTICS_AUTO_INCLUDE, JSON.stringify(enabled));
+};
+
+export const updateContextSelection = (selection: string) => {
+  contextSelectionStore.set(selection);
+  localStorage.setItem(SETTINGS_KEYS.CONTEXT_SELECTION, selection);
+};
+
 // Initialize tab configuration from localStorage or defaults
 const getInitialTabConfiguration = (): TabWindowConfig => {
   const defaultConfig: TabWindowConfig = {
@@ -1,5 +1,13 @@
-import { atom } from 'nanostores';
-import type { SupabaseUser, SupabaseStats, SupabaseApiKey, SupabaseCredentials } from '~/types/supabase';
+import { atom, map } from 'nanostores';
+import type {
+  SupabaseUser,
+  SupabaseStats,
+  SupabaseApiKey,
+  SupabaseCredentials,
+  SupabaseMigration,
+  SupabaseSchema,
+} from '~/types/supabase';
+import { parseSupabaseSchema, SUPABASE_SCHEMA_QUERY } from '~/utils/supabaseSchema';
 
 export interface SupabaseProject {
   id: string;
@@ -189,3 +197,71 @@ export async function fetchProjectApiKeys(projectId: string, token: string) {
     isFetchingApiKeys.set(false);
   }
 }
+
+/**
+ * Runs SQL on the selected project and returns the rows of the last statement.
+ */
+export async function runSupabaseQuery(query: string): Promise<unknown> {
+  const { token, selectedProjectId } = supabaseConnection.get();
+
+  if (!token || !selectedProjectId) {
+    throw new Error('No Supabase project selected');
+  }
+
+  const response = await fetch('/api/supabase/query', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ projectId: selectedProjectId, query }),
+  });
+
+  const data = (await response.json()) as any;
+
+  if (!response.ok) {
+    throw new Error(`Supabase query failed: ${data?.error?.message || response.statusText}`);
+  }
+
+  return data;
+}
+
+export const supabaseSchema = atom<{ schema?: SupabaseSchema; isLoading: boolean; error?: string }>({
+  isLoading: false,
+});
+
+export async function fetchSupabaseSchema() {
+  const { selectedProjectId } = supabaseConnection.get();
+
+  supabaseSchema.set({ ...supabaseSchema.get(), isLoading: true, error: undefined });
+
+  try {
+    const tables = parseSupabaseSchema(await runSupabaseQuery(SUPABASE_SCHEMA_QUERY));
+    supabaseSchema.set({
+      schema: { projectId: selectedProjectId!, tables, fetchedAt: new Date().toISOString() },
+      isLoading: false,
+    });
+  } catch (error) {
+    supabaseSchema.set({
+      isLoading: false,
+      error: error instanceof Error ? error.message : 'Failed to load the schema',
+    });
+  }
+}
+
+const SUPABASE_MIGRATIONS_KEY = 'supabase_migrations';
+
+const savedMigrations = typeof localStorage !== 'undefined' ? localStorage.getItem(SUPABASE_MIGRATIONS_KEY) : null;
+
+// the queries applied from each chat by chat id, oldest first
+export const supabaseMigrations = map<Record<string, SupabaseMigration[]>>(
+  savedMigrations ? JSON.parse(savedMigrations) : {},
+);
+
+export function recordSupabaseMigration(chatId: string, migration: Omit<SupabaseMigration, 'id' | 'appliedAt'>) {
+  supabaseMigrations.setKey(chatId, [
+    ...(supabaseMigrations.get()[chatId] ?? []),
+    { ...migration, id: `${Date.now()}`, appliedAt: new Date().toISOString() },
+  ]);
+  localStorage.setItem(SUPABASE_MIGRATIONS_KEY, JSON.stringify(supabaseMigrations.get()));
+}
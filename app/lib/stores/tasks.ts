@@ -0,0 +1,178 @@
+import { computed, map } from 'nanostores';
+import { webcontainer } from '~/lib/webcontainer';
+import type { ITerminal } from '~/types/terminal';
+import { extractRelativePath } from '~/utils/diff';
+import { createScopedLogger } from '~/utils/logger';
+import { detectPackageScripts, getScriptCommand } from '~/utils/projectCommands';
+import { cleanTerminalOutput, newBoltShellProcess, type BoltShell } from '~/utils/shell';
+import { appendScrollback, coloredText } from '~/utils/terminal';
+import { workbenchStore } from './workbench';
+
+const logger = createScopedLogger('Tasks');
+
+const MAX_OUTPUT = 64 * 1024;
+const MAX_ALERT_OUTPUT = 4000;
+
+export type TaskStatus = 'running' | 'exited' | 'failed';
+
+export interface TaskState {
+  status: TaskStatus;
+  exitCode?: number;
+}
+
+// the state of every script that was started, by task id
+export const tasksStore = map<Record<string, TaskState>>({});
+
+export const packageScriptsStore = computed(workbenchStore.files, (files) =>
+  detectPackageScripts(
+    Object.entries(files).flatMap(([filePath, dirent]) =>
+      dirent?.type === 'file' && !dirent.isBinary && /(package\.json|pnpm-workspace\.yaml)$/.test(filePath)
+        ? [{ path: extractRelativePath(filePath), content: dirent.content }]
+        : [],
+    ),
+  ),
+);
+
+export const getTaskId = (dir: string, script: string) => `${dir}:${script}`;
+
+/**
+ * Keeps the output of a task while no terminal shows it and passes it on to the terminals that do.
+ */
+class TaskTerminal implements ITerminal {
+  readonly cols = 120;
+  readonly rows = 30;
+
+  output = '';
+
+  #listeners: Array<(data: string) => void> = [];
+  #views = new Set<ITerminal>();
+
+  reset() {
+    this.output = '';
+  }
+
+  write(data: string) {
+    this.output = appendScrollback(this.output, data, MAX_OUTPUT);
+    this.#views.forEach((view) => view.write(data));
+  }
+
+  onData(callback: (data: string) => void) {
+    this.#listeners.push(callback);
+  }
+
+  input(data: string) {
+    this.#listeners.forEach((listener) => listener(data));
+  }
+
+  show(view: ITerminal) {
+    view.write(this.output);
+    this.#views.add(view);
+
+    return () => {
+      this.#views.delete(view);
+    };
+  }
+}
+
+interface TaskSession {
+  shell: BoltShell;
+  terminal: TaskTerminal;
+  ready: Promise<void>;
+
+  // only the latest run of a task reports its result, a restart interrupts the previous one
+  run: number;
+  stopping: boolean;
+  output?: string;
+}
+
+const sessions = new Map<string, TaskSession>();
+
+function getSession(taskId: string) {
+  let session = sessions.get(taskId);
+
+  if (!session) {
+    const shell = newBoltShellProcess();
+    const terminal = new TaskTerminal();
+
+    session = {
+      shell,
+      terminal,
+      ready: webcontainer.then((wc) => shell.init(wc, terminal)),
+      run: 0,
+      stopping: false,
+    };
+    sessions.set(taskId, session);
+  }
+
+  return session;
+}
+
+/**
+ * Runs a script in its own shell session, a script that is still running is restarted.
+ */
+export async function runTask(dir: string, script: string) {
+  const taskId = getTaskId(dir, script);
+  const session = getSession(taskId);
+  const run = ++session.run;
+
+  session.stopping = false;
+  tasksStore.setKey(taskId, { status: 'running' });
+
+  try {
+    await session.ready;
+
+    const result = await session.shell.executeCommand(taskId, getScriptCommand(dir, script));
+
+    if (run !== session.run) {
+      return;
+    }
+
+    const exitCode = result?.exitCode ?? 0;
+
+    session.output = result?.output;
+    tasksStore.setKey(taskId, {
+      status: exitCode === 0 || session.stopping ? 'exited' : 'failed',
+      exitCode,
+    });
+  } catch (error: any) {
+    logger.error(`Failed to run ${script}`, error);
+    session.terminal.write(coloredText.red(`Failed to run ${script}\n\n`) + error.message);
+
+    if (run === session.run) {
+      tasksStore.setKey(taskId, { status: 'failed' });
+    }
+  }
+}
+
+export function stopTask(dir: string, script: string) {
+  const session = sessions.get(getTaskId(dir, script));
+
+  if (session && tasksStore.get()[getTaskId(dir, script)]?.status === 'running') {
+    session.stopping = true;
+    session.terminal.input('\x03');
+  }
+}
+
+/**
+ * Shows the output of a task in a terminal, the returned function stops it.
+ */
+export function showTaskOutput(taskId: string, view: ITerminal) {
+  return sessions.get(taskId)?.terminal.show(view) ?? (() => undefined);
+}
+
+/**
+ * Raises the output of a failed task as an alert, from which it can be sent to the chat.
+ */
+export function sendTaskFailure(dir: string, script: string) {
+  const taskId = getTaskId(dir, script);
+  const session = sessions.get(taskId);
+  const output = session?.output ?? cleanTerminalOutput(session?.terminal.output ?? '');
+
+  workbenchStore.actionAlert.set({
+    type: 'error',
+    title: 'Script Failed',
+    description: `${getScriptCommand(dir, script)} exited with code ${tasksStore.get()[taskId]?.exitCode ?? 'unknown'}`,
+    content: output.slice(-MAX_ALERT_OUTPUT),
+    source: 'terminal',
+  });
+}
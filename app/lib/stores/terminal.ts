@@ -3,10 +3,11 @@ import { atom, type WritableAtom } from 'nanostores';
 import type { ITerminal } from '~/types/terminal';
 import { newBoltShellProcess, newShellProcess } from '~/utils/shell';
 import { coloredText } from '~/utils/terminal';
+import { BOLT_TERMINAL_ID, openTerminalSession } from './terminalSessions';
 
 export class TerminalStore {
   #webcontainer: Promise<WebContainer>;
-  #terminals: Array<{ terminal: ITerminal; process: WebContainerProcess }> = [];
+  #terminals: Array<{ tabId: string; process: WebContainerProcess }> = [];
   #boltTerminal = newBoltShellProcess();
 
   showTerminal: WritableAtom<boolean> = import.meta.hot?.data.showTerminal ?? atom(true);
@@ -28,17 +29,17 @@ export class TerminalStore {
   async attachBoltTerminal(terminal: ITerminal) {
     try {
       const wc = await this.#webcontainer;
-      await this.#boltTerminal.init(wc, terminal);
+      await this.#boltTerminal.init(wc, openTerminalSession(terminal, BOLT_TERMINAL_ID));
     } catch (error: any) {
       terminal.write(coloredText.red('Failed to spawn bolt shell\n\n') + error.message);
       return;
     }
   }
 
-  async attachTerminal(terminal: ITerminal) {
+  async attachTerminal(terminal: ITerminal, tabId: string) {
     try {
-      const shellProcess = await newShellProcess(await this.#webcontainer, terminal);
-      this.#terminals.push({ terminal, process: shellProcess });
+      const shellProcess = await newShellProcess(await this.#webcontainer, openTerminalSession(terminal, tabId));
+      this.#terminals.push({ tabId, process: shellProcess });
     } catch (error: any) {
       terminal.write(coloredText.red('Failed to spawn shell\n\n') + error.message);
       return;
@@ -51,8 +52,8 @@ export class TerminalStore {
     }
   }
 
-  async detachTerminal(terminal: ITerminal) {
-    const terminalIndex = this.#terminals.findIndex((t) => t.terminal === terminal);
+  async detachTerminal(tabId: string) {
+    const terminalIndex = this.#terminals.findIndex((t) => t.tabId === tabId);
 
     if (terminalIndex !== -1) {
       const { process } = this.#terminals[terminalIndex];
@@ -0,0 +1,169 @@
+import { map } from 'nanostores';
+import { chatId, db, getTerminalSession, setTerminalSession } from '~/lib/persistence';
+import type { ITerminal } from '~/types/terminal';
+import { createScopedLogger } from '~/utils/logger';
+import { appendScrollback, createCommandTracker } from '~/utils/terminal';
+
+const logger = createScopedLogger('TerminalSessions');
+
+export const BOLT_TERMINAL_ID = 'bolt';
+
+const MAX_SCROLLBACK = 64 * 1024;
+const MAX_HISTORY = 500;
+const SAVE_DELAY = 1000;
+
+interface TerminalSessionState {
+  // the session of the open chat was read, terminals attached before that would miss their scrollback
+  loaded: boolean;
+
+  // the terminals opened next to the bolt terminal
+  tabs: string[];
+  history: string[];
+}
+
+export const terminalSessionStore = map<TerminalSessionState>({ loaded: false, tabs: [], history: [] });
+
+// output changes too often for a store, it is only read when a terminal attaches and when saving
+let scrollbacks = new Map<string, string>();
+
+let pendingSave: { chatId: string; timeout: ReturnType<typeof setTimeout> } | undefined;
+let loadToken = 0;
+
+async function save(id: string) {
+  if (!db) {
+    return;
+  }
+
+  const { tabs, history } = terminalSessionStore.get();
+
+  try {
+    await setTerminalSession(db, {
+      chatId: id,
+      tabs: [BOLT_TERMINAL_ID, ...tabs].map((tabId) => ({ id: tabId, scrollback: scrollbacks.get(tabId) ?? '' })),
+      history,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Failed to save terminal session', error);
+  }
+}
+
+function flushSave() {
+  if (pendingSave) {
+    clearTimeout(pendingSave.timeout);
+    save(pendingSave.chatId);
+    pendingSave = undefined;
+  }
+}
+
+function scheduleSave() {
+  const id = chatId.get();
+
+  if (!id) {
+    return;
+  }
+
+  if (pendingSave?.chatId !== id) {
+    flushSave();
+    pendingSave = { chatId: id, timeout: setTimeout(flushSave, SAVE_DELAY) };
+  }
+}
+
+/**
+ * Restores the terminals of a chat. A chat without a saved session keeps the current terminals,
+ * which is how a new chat holds on to the commands run before its first message was stored.
+ */
+export async function loadTerminalSession(id?: string) {
+  const token = ++loadToken;
+
+  flushSave();
+
+  if (!id || !db) {
+    terminalSessionStore.setKey('loaded', true);
+    return;
+  }
+
+  terminalSessionStore.setKey('loaded', false);
+
+  try {
+    const session = await getTerminalSession(db, id);
+
+    if (token !== loadToken) {
+      return;
+    }
+
+    if (session) {
+      scrollbacks = new Map(session.tabs.map((tab) => [tab.id, tab.scrollback]));
+      terminalSessionStore.set({
+        loaded: true,
+        tabs: session.tabs.map((tab) => tab.id).filter((tabId) => tabId !== BOLT_TERMINAL_ID),
+        history: session.history,
+      });
+
+      return;
+    }
+
+    scheduleSave();
+  } catch (error) {
+    logger.error('Failed to load terminal session', error);
+  }
+
+  terminalSessionStore.setKey('loaded', true);
+}
+
+export function addTerminalTab() {
+  const tabId = crypto.randomUUID();
+
+  terminalSessionStore.setKey('tabs', [...terminalSessionStore.get().tabs, tabId]);
+  scheduleSave();
+
+  return tabId;
+}
+
+export function removeTerminalTab(tabId: string) {
+  scrollbacks.delete(tabId);
+  terminalSessionStore.setKey(
+    'tabs',
+    terminalSessionStore.get().tabs.filter((id) => id !== tabId),
+  );
+  scheduleSave();
+}
+
+function recordCommand(command: string) {
+  const history = terminalSessionStore.get().history.filter((entry) => entry !== command);
+
+  terminalSessionStore.setKey('history', [...history, command].slice(-MAX_HISTORY));
+  scheduleSave();
+}
+
+/**
+ * Writes the saved scrollback of a tab into its terminal and returns the terminal the shell
+ * should be attached to, which records the output and the commands of the session.
+ */
+export function openTerminalSession(terminal: ITerminal, tabId: string): ITerminal {
+  const scrollback = scrollbacks.get(tabId);
+
+  if (scrollback) {
+    terminal.write(scrollback);
+    terminal.write('\r\n\x1b[2m[restored session]\x1b[0m\r\n');
+  }
+
+  terminal.onData(createCommandTracker(recordCommand));
+
+  return {
+    get cols() {
+      return terminal.cols;
+    },
+    get rows() {
+      return terminal.rows;
+    },
+    reset: () => terminal.reset(),
+    write: (data) => {
+      terminal.write(data);
+      scrollbacks.set(tabId, appendScrollback(scrollbacks.get(tabId) ?? '', data, MAX_SCROLLBACK));
+      scheduleSave();
+    },
+    onData: (callback) => terminal.onData(callback),
+    input: (data) => terminal.input(data),
+  };
+}
@@ -0,0 +1,296 @@
+import { atom, map } from 'nanostores';
+import type {
+  TypeScriptCompletion,
+  TypeScriptDefinition,
+  TypeScriptDiagnostic,
+  TypeScriptQuickInfo,
+  WorkerRequest,
+  WorkerResponse,
+} from '~/lib/typescript/types';
+import { webcontainer } from '~/lib/webcontainer';
+import { WORK_DIR } from '~/utils/constants';
+import { debounce } from '~/utils/debounce';
+import { createScopedLogger } from '~/utils/logger';
+import type { FileMap } from './files';
+import { workbenchStore } from './workbench';
+
+const logger = createScopedLogger('TypeScript');
+
+// project files the language service reads
+const SOURCE_FILE = /\.(tsx?|jsx?|mts|cts|mjs|cjs|json)$/;
+
+// declaration files are read from node_modules up to these limits
+const MAX_TYPE_FILES = 5000;
+const MAX_TYPE_BYTES = 40 * 1024 * 1024;
+
+// missing modules are looked up again after installs, at most this often
+const TYPES_RELOAD_INTERVAL = 15_000;
+
+const MODULE_NOT_FOUND_CODE = 2307;
+
+/**
+ * `unavailable` means the project has no TypeScript installed to read the standard library from.
+ */
+export type TypeScriptStatus = 'idle' | 'loading' | 'ready' | 'unavailable' | 'error';
+
+export const typescriptStatus = atom<TypeScriptStatus>('idle');
+
+// diagnostics of the project files by path
+export const diagnosticsStore = map<Record<string, TypeScriptDiagnostic[]>>({});
+
+let worker: Worker | undefined;
+let unsubscribeFiles: (() => void) | undefined;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+let syncedFiles: FileMap = {};
+let typeFilePaths: string[] = [];
+let typesLoadedAt = 0;
+
+function request<T>(message: WorkerRequest): Promise<T> {
+  if (!worker) {
+    return Promise.reject(new Error('The TypeScript language service is not running'));
+  }
+
+  const id = nextRequestId++;
+  const promise = new Promise<T>((resolve, reject) =>
+    pendingRequests.set(id, { resolve: (result) => resolve(result as T), reject }),
+  );
+  worker.postMessage({ id, request: message });
+
+  return promise;
+}
+
+async function readTypeFiles() {
+  const container = await webcontainer;
+  const typeFiles: Record<string, string> = {};
+  let bytes = 0;
+
+  const isFull = () => Object.keys(typeFiles).length >= MAX_TYPE_FILES || bytes >= MAX_TYPE_BYTES;
+
+  const addFile = async (path: string) => {
+    const content = await container.fs.readFile(path, 'utf-8');
+    typeFiles[`${WORK_DIR}/${path}`] = content;
+    bytes += content.length;
+  };
+
+  const readManifest = async (path: string) => {
+    try {
+      return JSON.parse(await container.fs.readFile(path, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  };
+
+  const walk = async (directory: string) => {
+    for (const entry of await container.fs.readdir(directory, { withFileTypes: true })) {
+      if (isFull()) {
+        return;
+      }
+
+      const path = `${directory}/${entry.name}`;
+
+      // nested installs are resolved from their own package
+      if (entry.isDirectory() && entry.name !== 'node_modules') {
+        await walk(path);
+      } else if (entry.isFile() && (/\.d\.[mc]?ts$/.test(entry.name) || entry.name === 'package.json')) {
+        await addFile(path);
+      }
+    }
+  };
+
+  // the standard library comes from the TypeScript the project installed
+  try {
+    for (const name of await container.fs.readdir('node_modules/typescript/lib')) {
+      if (/^lib\..*\.d\.ts$/.test(name)) {
+        await addFile(`node_modules/typescript/lib/${name}`);
+      }
+    }
+  } catch {
+    return undefined;
+  }
+
+  const manifest = await readManifest('package.json');
+  const queue = Object.keys({ ...manifest?.dependencies, ...manifest?.devDependencies });
+
+  try {
+    queue.push(...(await container.fs.readdir('node_modules/@types')).map((name) => `@types/${name}`));
+  } catch {
+    // no type packages installed
+  }
+
+  const visited = new Set(['typescript']);
+
+  while (queue.length > 0 && !isFull()) {
+    const name = queue.shift()!;
+
+    if (visited.has(name)) {
+      continue;
+    }
+
+    visited.add(name);
+
+    const packageManifest = await readManifest(`node_modules/${name}/package.json`);
+
+    if (!packageManifest) {
+      continue;
+    }
+
+    try {
+      await walk(`node_modules/${name}`);
+    } catch (error) {
+      logger.warn(`Failed to read the types of ${name}`, error);
+    }
+
+    // the types of a package refer to the types of its dependencies
+    queue.push(...Object.keys({ ...packageManifest.dependencies, ...packageManifest.peerDependencies }));
+  }
+
+  return typeFiles;
+}
+
+async function loadTypes() {
+  typesLoadedAt = Date.now();
+
+  const typeFiles = await readTypeFiles();
+
+  if (!typeFiles) {
+    typescriptStatus.set('unavailable');
+    return;
+  }
+
+  const removed = typeFilePaths.filter((path) => !(path in typeFiles));
+  typeFilePaths = Object.keys(typeFiles);
+
+  await request({ type: 'updateFiles', files: typeFiles, removed });
+  typescriptStatus.set('ready');
+}
+
+function reloadTypesIfMissing() {
+  if (Date.now() - typesLoadedAt < TYPES_RELOAD_INTERVAL) {
+    return;
+  }
+
+  const status = typescriptStatus.get();
+  const missesModules = Object.values(diagnosticsStore.get()).some((diagnostics) =>
+    diagnostics.some((diagnostic) => diagnostic.code === MODULE_NOT_FOUND_CODE),
+  );
+
+  if (status === 'unavailable' || (status === 'ready' && missesModules)) {
+    loadTypes()
+      .then(() => updateDiagnostics())
+      .catch((error) => logger.error('Failed to reload types', error));
+  }
+}
+
+const updateDiagnostics = debounce(async () => {
+  if (typescriptStatus.get() !== 'ready') {
+    reloadTypesIfMissing();
+    return;
+  }
+
+  try {
+    diagnosticsStore.set(await request<Record<string, TypeScriptDiagnostic[]>>({ type: 'diagnostics' }));
+  } catch (error) {
+    logger.error('Failed to check the project', error);
+  }
+
+  reloadTypesIfMissing();
+}, 1000);
+
+async function syncProjectFiles(files: FileMap) {
+  const updated: Record<string, string> = {};
+  const removed = Object.keys(syncedFiles).filter((path) => !files[path]);
+
+  for (const [path, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'file' && !dirent.isBinary && SOURCE_FILE.test(path) && syncedFiles[path] !== dirent) {
+      updated[path] = dirent.content;
+    }
+  }
+
+  syncedFiles = files;
+
+  if (Object.keys(updated).length > 0 || removed.length > 0) {
+    await request({ type: 'updateFiles', files: updated, removed });
+    updateDiagnostics();
+  }
+}
+
+/**
+ * Starts the language service worker on first use and keeps it in sync with the project files.
+ */
+export function startLanguageService() {
+  if (worker || typeof window === 'undefined') {
+    return;
+  }
+
+  worker = new Worker(new URL('../typescript/worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const pending = pendingRequests.get(response.id);
+
+    pendingRequests.delete(response.id);
+
+    if ('error' in response) {
+      pending?.reject(new Error(response.error));
+    } else {
+      pending?.resolve(response.result);
+    }
+  };
+
+  // the worker does not answer after an uncaught error, so it is dropped and started again on next use
+  worker.onerror = (event) => {
+    logger.error('Language service failed', event.message);
+    typescriptStatus.set('error');
+
+    worker?.terminate();
+    worker = undefined;
+    unsubscribeFiles?.();
+    syncedFiles = {};
+    typeFilePaths = [];
+
+    for (const { reject } of pendingRequests.values()) {
+      reject(new Error(`The TypeScript language service failed: ${event.message}`));
+    }
+
+    pendingRequests.clear();
+  };
+
+  typescriptStatus.set('loading');
+  request({ type: 'init', workDir: WORK_DIR }).catch((error) => logger.error('Failed to start', error));
+
+  unsubscribeFiles = workbenchStore.files.subscribe((files) => {
+    syncProjectFiles(files).catch((error) => logger.error('Failed to sync files', error));
+  });
+
+  loadTypes()
+    .then(() => updateDiagnostics())
+    .catch((error) => {
+      logger.error('Failed to load types', error);
+      typescriptStatus.set('error');
+    });
+}
+
+/**
+ * Sends the content of an open editor, which can be ahead of the saved file.
+ */
+export async function updateFileContent(filePath: string, content: string) {
+  await request({ type: 'updateFiles', files: { [filePath]: content } });
+}
+
+export async function getFileDiagnostics(filePath: string) {
+  const diagnostics = await request<Record<string, TypeScriptDiagnostic[]>>({ type: 'diagnostics', filePath });
+  diagnosticsStore.setKey(filePath, diagnostics[filePath] ?? []);
+
+  return diagnostics[filePath] ?? [];
+}
+
+export const getCompletions = (filePath: string, position: number) =>
+  request<TypeScriptCompletion[]>({ type: 'completions', filePath, position });
+
+export const getQuickInfo = (filePath: string, position: number) =>
+  request<TypeScriptQuickInfo | null>({ type: 'quickInfo', filePath, position });
+
+export const getDefinitions = (filePath: string, position: number) =>
+  request<TypeScriptDefinition[]>({ type: 'definition', filePath, position });
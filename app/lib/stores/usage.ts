@@ -0,0 +1,116 @@
+import { atom } from 'nanostores';
+import { db, getUsageRecords } from '~/lib/persistence';
+import type { UsageRecord } from '~/lib/persistence/types';
+
+export interface UsageBudget {
+  // in USD, no limit when unset
+  monthlyLimit?: number;
+
+  // share of the limit at which we start warning, between 0 and 1
+  warnThreshold: number;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+
+  // number of messages without pricing metadata, their cost is missing from `cost`
+  unpricedMessages: number;
+  messages: number;
+}
+
+export interface BudgetStatus {
+  spent: number;
+  limit: number;
+  nearLimit: boolean;
+  exceeded: boolean;
+}
+
+const USAGE_BUDGET_KEY = 'bolt_usage_budget';
+const DEFAULT_USAGE_BUDGET: UsageBudget = { warnThreshold: 0.8 };
+
+const isBrowser = typeof window !== 'undefined';
+
+const getInitialBudget = (): UsageBudget => {
+  if (!isBrowser) {
+    return DEFAULT_USAGE_BUDGET;
+  }
+
+  try {
+    const stored = localStorage.getItem(USAGE_BUDGET_KEY);
+    return stored ? { ...DEFAULT_USAGE_BUDGET, ...JSON.parse(stored) } : DEFAULT_USAGE_BUDGET;
+  } catch (error) {
+    console.error('Error parsing usage budget:', error);
+    return DEFAULT_USAGE_BUDGET;
+  }
+};
+
+export const usageBudgetStore = atom<UsageBudget>(getInitialBudget());
+
+export const updateUsageBudget = (updates: Partial<UsageBudget>) => {
+  const budget = { ...usageBudgetStore.get(), ...updates };
+
+  usageBudgetStore.set(budget);
+  localStorage.setItem(USAGE_BUDGET_KEY, JSON.stringify(budget));
+};
+
+export function getStartOfMonth(date = new Date()) {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce<UsageTotals>(
+    (totals, record) => ({
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      totalTokens: totals.totalTokens + record.totalTokens,
+      cost: totals.cost + (record.cost ?? 0),
+      unpricedMessages: totals.unpricedMessages + (record.cost === undefined ? 1 : 0),
+      messages: totals.messages + 1,
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpricedMessages: 0, messages: 0 },
+  );
+}
+
+/**
+ * Groups the records by `getKey` and sums every group, the most expensive groups come first.
+ */
+export function groupUsage(records: UsageRecord[], getKey: (record: UsageRecord) => string) {
+  const groups = new Map<string, UsageRecord[]>();
+
+  for (const record of records) {
+    const key = getKey(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...sumUsage(group) }))
+    .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+export function formatCost(cost: number) {
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Compares the spending of the current month with the budget, returns `undefined` when
+ * no budget is set.
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus | undefined> {
+  const { monthlyLimit, warnThreshold } = usageBudgetStore.get();
+
+  if (!db || !monthlyLimit) {
+    return undefined;
+  }
+
+  const { cost } = sumUsage(await getUsageRecords(db, getStartOfMonth()));
+
+  return {
+    spent: cost,
+    limit: monthlyLimit,
+    nearLimit: cost >= monthlyLimit * warnThreshold,
+    exceeded: cost >= monthlyLimit,
+  };
+}
@@ -14,10 +14,13 @@ import fileSaver from 'file-saver';
 import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
 import { path } from '~/utils/path';
 import { extractRelativePath } from '~/utils/diff';
-import { description } from '~/lib/persistence';
+import { chatId, description } from '~/lib/persistence';
 import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
 import type { ActionAlert, DeployAlert, SupabaseAlert } from '~/types/actions';
+import type { GitHubBranchPush } from '~/types/GitHub';
+import { getCommandPolicy } from './commandPolicy';
+import { redactSecrets, secretsStore } from './secrets';
 
 const { saveAs } = fileSaver;
 
@@ -83,6 +86,13 @@ export class WorkbenchStore {
     this.#globalExecutionQueue = this.#globalExecutionQueue.then(() => callback());
   }
 
+  /**
+   * Resolves once the actions queued so far have run.
+   */
+  async waitForActions() {
+    await this.#globalExecutionQueue;
+  }
+
   get previews() {
     return this.#previewsStore.previews;
   }
@@ -140,15 +150,15 @@ export class WorkbenchStore {
     this.#terminalStore.toggleTerminal(value);
   }
 
-  attachTerminal(terminal: ITerminal) {
-    this.#terminalStore.attachTerminal(terminal);
+  attachTerminal(terminal: ITerminal, tabId: string) {
+    this.#terminalStore.attachTerminal(terminal, tabId);
   }
   attachBoltTerminal(terminal: ITerminal) {
     this.#terminalStore.attachBoltTerminal(terminal);
   }
 
-  detachTerminal(terminal: ITerminal) {
-    this.#terminalStore.detachTerminal(terminal);
+  detachTerminal(tabId: string) {
+    this.#terminalStore.detachTerminal(tabId);
   }
 
   onTerminalResize(cols: number, rows: number) {
@@ -368,6 +378,18 @@ export class WorkbenchStore {
     }
   }
 
+  /**
+   * Writes the content of a file a collaborator changed, unlike `createFile` it keeps the
+   * selected file.
+   */
+  async writeFile(filePath: string, content: string) {
+    if (this.#filesStore.getFile(filePath)) {
+      await this.#filesStore.saveFile(filePath, content);
+    } else {
+      await this.#filesStore.createFile(filePath, content);
+    }
+  }
+
   async createFolder(folderPath: string) {
     try {
       return await this.#filesStore.createFolder(folderPath);
@@ -505,6 +527,8 @@ export class WorkbenchStore {
 
           this.deployAlert.set(alert);
         },
+        () => getCommandPolicy(chatId.get()),
+        () => secretsStore.get(),
       ),
     });
   }
@@ -557,6 +581,15 @@ export class WorkbenchStore {
       return;
     }
 
+    if (artifact.runner.isDryRun) {
+      // dry-run only records the action, nothing is written to the editor or the webcontainer
+      if (!isStreaming) {
+        await artifact.runner.runAction(data);
+      }
+
+      return;
+    }
+
     if (data.action.type === 'file') {
       const wc = await webcontainer;
       const fullPath = path.join(wc.workdir, data.action.filePath);
@@ -591,6 +624,20 @@ export class WorkbenchStore {
         await artifact.runner.runAction(data);
         this.resetAllFileModifications();
       }
+    } else if (data.action.type === 'patch') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+
+      if (this.selectedFile.value !== fullPath) {
+        this.setSelectedFile(fullPath);
+      }
+
+      if (this.currentView.value !== 'code') {
+        this.currentView.set('code');
+      }
+
+      // the runner applies the patch to the file on disk, the files store picks up the change from the watcher
+      await artifact.runner.runAction(data);
     } else {
       await artifact.runner.runAction(data);
     }
@@ -760,8 +807,8 @@ export class WorkbenchStore {
         }
       }
 
-      // Get all files
-      const files = this.files.get();
+      // Get all files, the values of secrets stay out of the repository
+      const files = redactSecrets(this.files.get());
 
       if (!files || Object.keys(files).length === 0) {
         throw new Error('No files found to push');
@@ -868,6 +915,165 @@ export class WorkbenchStore {
       throw error; // Rethrow the error for further handling
     }
   }
+
+  /**
+   * Commits the files on top of `branch`, which starts from the default branch when it does not
+   * exist yet, and returns the files that differ from the default branch.
+   */
+  async pushToGitHubBranch(options: {
+    owner: string;
+    repo: string;
+    branch: string;
+    commitMessage: string;
+    token?: string;
+  }): Promise<GitHubBranchPush> {
+    const { owner, repo, branch, commitMessage } = options;
+    const githubToken = options.token || Cookies.get('githubToken');
+
+    if (!githubToken) {
+      throw new Error('GitHub token is not set, connect GitHub in the settings first.');
+    }
+
+    const octokit = new Octokit({ auth: githubToken });
+    const { data: repository } = await octokit.repos.get({ owner, repo });
+    const baseBranch = repository.default_branch;
+    const { data: baseRef } = await octokit.git.getRef({ owner, repo, ref: `heads/${baseBranch}` });
+
+    let parentSha = baseRef.object.sha;
+    let branchExists = false;
+
+    try {
+      const { data: branchRef } = await octokit.git.getRef({ owner, repo, ref: `heads/${branch}` });
+      parentSha = branchRef.object.sha;
+      branchExists = true;
+    } catch (error) {
+      if (!(error instanceof Error && 'status' in error && error.status === 404)) {
+        throw error;
+      }
+    }
+
+    const files = redactSecrets(this.files.get());
+
+    const blobs = await Promise.all(
+      Object.entries(files).map(async ([filePath, dirent]) => {
+        if (dirent?.type !== 'file' || !dirent.content) {
+          return null;
+        }
+
+        const { data: blob } = await octokit.git.createBlob({
+          owner,
+          repo,
+          content: Buffer.from(dirent.content).toString('base64'),
+          encoding: 'base64',
+        });
+
+        return { path: extractRelativePath(filePath), sha: blob.sha, content: dirent.content };
+      }),
+    );
+    const validBlobs = blobs.filter((blob): blob is NonNullable<typeof blob> => blob !== null);
+
+    if (validBlobs.length === 0) {
+      throw new Error('No files found to push');
+    }
+
+    const { data: newTree } = await octokit.git.createTree({
+      owner,
+      repo,
+      base_tree: parentSha,
+      tree: validBlobs.map((blob) => ({ path: blob.path, mode: '100644', type: 'blob', sha: blob.sha })),
+    });
+    const { data: newCommit } = await octokit.git.createCommit({
+      owner,
+      repo,
+      message: commitMessage,
+      tree: newTree.sha,
+      parents: [parentSha],
+    });
+
+    if (branchExists) {
+      await octokit.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: newCommit.sha });
+    } else {
+      await octokit.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: newCommit.sha });
+    }
+
+    // identical content has the same blob sha, so only the changed files are read from the base branch
+    const { data: baseTree } = await octokit.git.getTree({
+      owner,
+      repo,
+      tree_sha: baseRef.object.sha,
+      recursive: 'true',
+    });
+    const baseBlobs = new Map(baseTree.tree.map((entry) => [entry.path, entry.sha]));
+
+    const changes = await Promise.all(
+      validBlobs
+        .filter((blob) => baseBlobs.get(blob.path) !== blob.sha)
+        .map(async (blob) => {
+          const baseSha = baseBlobs.get(blob.path);
+
+          if (!baseSha) {
+            return { path: blob.path, before: '', after: blob.content };
+          }
+
+          const { data } = await octokit.git.getBlob({ owner, repo, file_sha: baseSha });
+
+          return {
+            path: blob.path,
+            before: Buffer.from(data.content, 'base64').toString('utf-8'),
+            after: blob.content,
+          };
+        }),
+    );
+
+    return { baseBranch, changes };
+  }
+
+  /**
+   * Opens a pull request of `branch` or updates the title and body of the open one, returns the
+   * URL of the pull request.
+   */
+  async openGitHubPullRequest(options: {
+    owner: string;
+    repo: string;
+    branch: string;
+    baseBranch: string;
+    title: string;
+    body: string;
+    token?: string;
+  }) {
+    const { owner, repo, branch, baseBranch, title, body } = options;
+    const octokit = new Octokit({ auth: options.token || Cookies.get('githubToken') });
+
+    const { data: openPullRequests } = await octokit.pulls.list({
+      owner,
+      repo,
+      head: `${owner}:${branch}`,
+      state: 'open',
+    });
+
+    if (openPullRequests.length > 0) {
+      const { data: pullRequest } = await octokit.pulls.update({
+        owner,
+        repo,
+        pull_number: openPullRequests[0].number,
+        title,
+        body,
+      });
+
+      return pullRequest.html_url;
+    }
+
+    const { data: pullRequest } = await octokit.pulls.create({
+      owner,
+      repo,
+      head: branch,
+      base: baseBranch,
+      title,
+      body,
+    });
+
+    return pullRequest.html_url;
+  }
 }
 
 export const workbenchStore = new WorkbenchStore();
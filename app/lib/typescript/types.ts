@@ -0,0 +1,51 @@
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface TypeScriptDiagnostic {
+  filePath: string;
+
+  // offsets into the file content
+  from: number;
+  to: number;
+
+  // 1-based, for the problems list
+  line: number;
+  column: number;
+  message: string;
+  severity: DiagnosticSeverity;
+  code: number;
+}
+
+export interface TypeScriptCompletion {
+  label: string;
+  type: string;
+  sortText: string;
+}
+
+export interface TypeScriptQuickInfo {
+  from: number;
+  to: number;
+  signature: string;
+  documentation: string;
+}
+
+export interface TypeScriptDefinition {
+  filePath: string;
+
+  // 0-based like the scroll position of the editor
+  line: number;
+  column: number;
+}
+
+/**
+ * Requests the editor sends to the language service worker, each answered with the
+ * response of the same id.
+ */
+export type WorkerRequest =
+  | { type: 'init'; workDir: string }
+  | { type: 'updateFiles'; files: Record<string, string>; removed?: string[] }
+  | { type: 'diagnostics'; filePath?: string }
+  | { type: 'completions'; filePath: string; position: number }
+  | { type: 'quickInfo'; filePath: string; position: number }
+  | { type: 'definition'; filePath: string; position: number };
+
+export type WorkerResponse = { id: number; result: unknown } | { id: number; error: string };
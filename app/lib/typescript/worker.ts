@@ -0,0 +1,273 @@
+import ts from 'typescript';
+import type {
+  DiagnosticSeverity,
+  TypeScriptCompletion,
+  TypeScriptDefinition,
+  TypeScriptDiagnostic,
+  TypeScriptQuickInfo,
+  WorkerRequest,
+  WorkerResponse,
+} from './types';
+
+/*
+ * Runs a TypeScript language service over the files the editor sends, project files and the
+ * declaration files of `node_modules` alike. Nothing is read from disk, a file the editor did
+ * not send does not exist.
+ */
+
+const SCRIPT_EXTENSIONS = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/;
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  strict: true,
+  allowJs: true,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+};
+
+let workDir = '/';
+let projectVersion = 0;
+let compilerOptions: ts.CompilerOptions | undefined;
+
+const files = new Map<string, { content: string; version: number }>();
+const directories = new Set<string>();
+
+function addDirectories(filePath: string) {
+  for (let index = filePath.lastIndexOf('/'); index > 0; index = filePath.lastIndexOf('/', index - 1)) {
+    directories.add(filePath.slice(0, index));
+  }
+}
+
+const isProjectScript = (filePath: string) => SCRIPT_EXTENSIONS.test(filePath) && !filePath.includes('/node_modules/');
+
+/**
+ * The options of `tsconfig.app.json` from the Vite templates or of `tsconfig.json`, files
+ * are always type checked without emitting.
+ */
+function getCompilerOptions() {
+  if (compilerOptions) {
+    return compilerOptions;
+  }
+
+  compilerOptions = DEFAULT_COMPILER_OPTIONS;
+
+  for (const name of ['tsconfig.app.json', 'tsconfig.json']) {
+    const configPath = `${workDir}/${name}`;
+    const content = files.get(configPath)?.content;
+
+    if (!content) {
+      continue;
+    }
+
+    const { config } = ts.parseConfigFileTextToJson(configPath, content);
+
+    if (!config?.compilerOptions) {
+      continue;
+    }
+
+    const parsed = ts.convertCompilerOptionsFromJson(config.compilerOptions, workDir, configPath);
+    compilerOptions = { ...DEFAULT_COMPILER_OPTIONS, ...parsed.options };
+    break;
+  }
+
+  compilerOptions = { ...compilerOptions, noEmit: true, skipLibCheck: true, composite: false, incremental: false };
+
+  return compilerOptions;
+}
+
+const host: ts.LanguageServiceHost = {
+  getProjectVersion: () => String(projectVersion),
+  getCompilationSettings: getCompilerOptions,
+  getScriptFileNames: () => [...files.keys()].filter(isProjectScript),
+  getScriptVersion: (fileName) => String(files.get(fileName)?.version ?? 0),
+  getScriptSnapshot: (fileName) => {
+    const file = files.get(fileName);
+    return file ? ts.ScriptSnapshot.fromString(file.content) : undefined;
+  },
+  getCurrentDirectory: () => workDir,
+  getDefaultLibFileName: (options) => `${workDir}/node_modules/typescript/lib/${ts.getDefaultLibFileName(options)}`,
+  fileExists: (fileName) => files.has(fileName),
+  readFile: (fileName) => files.get(fileName)?.content,
+  directoryExists: (directoryName) => directories.has(directoryName.replace(/\/$/, '')),
+  getDirectories: (directoryName) => {
+    const prefix = `${directoryName.replace(/\/$/, '')}/`;
+
+    return [...directories]
+      .filter((directory) => directory.startsWith(prefix) && !directory.slice(prefix.length).includes('/'))
+      .map((directory) => directory.slice(prefix.length));
+  },
+};
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+function updateFiles(updated: Record<string, string>, removed: string[] = []) {
+  for (const [filePath, content] of Object.entries(updated)) {
+    const file = files.get(filePath);
+
+    if (file?.content === content) {
+      continue;
+    }
+
+    files.set(filePath, { content, version: (file?.version ?? 0) + 1 });
+    addDirectories(filePath);
+    projectVersion++;
+
+    if (/\/tsconfig(\.app)?\.json$/.test(filePath)) {
+      compilerOptions = undefined;
+    }
+  }
+
+  for (const filePath of removed) {
+    if (files.delete(filePath)) {
+      projectVersion++;
+    }
+  }
+}
+
+function getSeverity(category: ts.DiagnosticCategory): DiagnosticSeverity {
+  switch (category) {
+    case ts.DiagnosticCategory.Error:
+      return 'error';
+    case ts.DiagnosticCategory.Warning:
+      return 'warning';
+    default:
+      return 'info';
+  }
+}
+
+function getFileDiagnostics(filePath: string): TypeScriptDiagnostic[] {
+  const diagnostics = [
+    ...service.getSyntacticDiagnostics(filePath),
+    ...service.getSemanticDiagnostics(filePath),
+    ...service.getSuggestionDiagnostics(filePath).filter((diagnostic) => diagnostic.reportsUnnecessary),
+  ];
+
+  return diagnostics.map((diagnostic) => {
+    const from = diagnostic.start ?? 0;
+    const position = diagnostic.file?.getLineAndCharacterOfPosition(from) ?? { line: 0, character: 0 };
+
+    return {
+      filePath,
+      from,
+      to: from + (diagnostic.length ?? 0),
+      line: position.line + 1,
+      column: position.character + 1,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      severity: getSeverity(diagnostic.category),
+      code: diagnostic.code,
+    };
+  });
+}
+
+function getDiagnostics(filePath?: string) {
+  const filePaths = filePath ? [filePath] : host.getScriptFileNames();
+  const diagnostics: Record<string, TypeScriptDiagnostic[]> = {};
+
+  for (const path of filePaths) {
+    if (files.has(path)) {
+      diagnostics[path] = getFileDiagnostics(path);
+    }
+  }
+
+  return diagnostics;
+}
+
+// completion types CodeMirror has icons for
+const COMPLETION_TYPES: Partial<Record<string, string>> = {
+  [ts.ScriptElementKind.functionElement]: 'function',
+  [ts.ScriptElementKind.localFunctionElement]: 'function',
+  [ts.ScriptElementKind.memberFunctionElement]: 'method',
+  [ts.ScriptElementKind.classElement]: 'class',
+  [ts.ScriptElementKind.interfaceElement]: 'interface',
+  [ts.ScriptElementKind.typeElement]: 'type',
+  [ts.ScriptElementKind.enumElement]: 'enum',
+  [ts.ScriptElementKind.moduleElement]: 'namespace',
+  [ts.ScriptElementKind.keyword]: 'keyword',
+  [ts.ScriptElementKind.constElement]: 'constant',
+  [ts.ScriptElementKind.memberVariableElement]: 'property',
+  [ts.ScriptElementKind.memberGetAccessorElement]: 'property',
+  [ts.ScriptElementKind.memberSetAccessorElement]: 'property',
+};
+
+function getCompletions(filePath: string, position: number): TypeScriptCompletion[] {
+  const completions = service.getCompletionsAtPosition(filePath, position, {
+    includeCompletionsForModuleExports: false,
+    includeCompletionsWithInsertText: true,
+  });
+
+  return (completions?.entries ?? []).map((entry) => ({
+    label: entry.name,
+    type: COMPLETION_TYPES[entry.kind] ?? 'variable',
+    sortText: entry.sortText,
+  }));
+}
+
+function getQuickInfo(filePath: string, position: number): TypeScriptQuickInfo | null {
+  const info = service.getQuickInfoAtPosition(filePath, position);
+
+  if (!info) {
+    return null;
+  }
+
+  return {
+    from: info.textSpan.start,
+    to: info.textSpan.start + info.textSpan.length,
+    signature: ts.displayPartsToString(info.displayParts),
+    documentation: ts.displayPartsToString(info.documentation),
+  };
+}
+
+function getDefinitions(filePath: string, position: number): TypeScriptDefinition[] {
+  return (service.getDefinitionAtPosition(filePath, position) ?? []).map((definition) => {
+    const sourceFile = service.getProgram()?.getSourceFile(definition.fileName);
+    const { line, character } = sourceFile?.getLineAndCharacterOfPosition(definition.textSpan.start) ?? {
+      line: 0,
+      character: 0,
+    };
+
+    return { filePath: definition.fileName, line, column: character };
+  });
+}
+
+function handleRequest(request: WorkerRequest): unknown {
+  switch (request.type) {
+    case 'init': {
+      workDir = request.workDir;
+      return null;
+    }
+    case 'updateFiles': {
+      updateFiles(request.files, request.removed);
+      return null;
+    }
+    case 'diagnostics': {
+      return getDiagnostics(request.filePath);
+    }
+    case 'completions': {
+      return getCompletions(request.filePath, request.position);
+    }
+    case 'quickInfo': {
+      return getQuickInfo(request.filePath, request.position);
+    }
+    case 'definition': {
+      return getDefinitions(request.filePath, request.position);
+    }
+  }
+
+  return null;
+}
+
+// the global scope of the worker has the same messaging methods as a worker seen from outside
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<{ id: number; request: WorkerRequest }>) => {
+  const { id, request } = event.data;
+
+  try {
+    scope.postMessage({ id, result: handleRequest(request) } satisfies WorkerResponse);
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies WorkerResponse);
+  }
+};
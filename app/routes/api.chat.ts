@@ -1,5 +1,5 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { createDataStream, generateId } from 'ai';
+import { createDataStream, formatDataStreamPart, generateId } from 'ai';
 import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from '~/lib/.server/llm/constants';
 import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
 import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
@@ -7,12 +7,32 @@ import SwitchableStream from '~/lib/.server/llm/switchable-stream';
 import type { IProviderSetting } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '~/types/context';
+import type {
+  ContextAnnotation,
+  ContextBudgetAnnotation,
+  ContextChunk,
+  ProgressAnnotation,
+  TaskListAnnotation,
+  UsageAnnotation,
+} from '~/types/context';
+import type { ChatMode } from '~/types/chat';
 import { WORK_DIR } from '~/utils/constants';
 import { createSummary } from '~/lib/.server/llm/create-summary';
-import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
+import { createPlan } from '~/lib/.server/llm/create-plan';
+import { createChunkContextFiles, extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
 import type { DesignScheme } from '~/types/design-scheme';
+import type { SupabaseTable } from '~/types/supabase';
+import type { ProjectDiagnostic } from '~/types/diagnostics';
 import { MCPService } from '~/lib/services/mcpService';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { getCustomProvidersFromCookie } from '~/lib/api/cookies';
+import type { ModelPricing } from '~/lib/modules/llm/types';
+import {
+  classifyProviderError,
+  describeFallbackReason,
+  getFallbackChain,
+  setMessageModel,
+} from '~/lib/.server/llm/fallback';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
@@ -38,25 +58,87 @@ function parseCookies(cookieHeader: string): Record<string, string> {
   return cookies;
 }
 
+function getModelPricing(
+  providerName: string,
+  modelName: string,
+  llmManager: LLMManager,
+  options: { apiKeys: Record<string, string>; providerSettings: Record<string, IProviderSetting>; serverEnv?: Env },
+): ModelPricing | undefined {
+  const provider = llmManager.getProvider(providerName);
+
+  if (!provider) {
+    return undefined;
+  }
+
+  const models = [
+    ...llmManager.getStaticModelListFromProvider(provider),
+    ...(provider.getModelsFromCache({ ...options, serverEnv: options.serverEnv as any }) ?? []),
+  ];
+
+  return models.find((model) => model.name === modelName)?.pricing;
+}
+
+/**
+ * Resolves with the error when the stream fails before producing any output. Errors that
+ * happen later are only logged since the response has already been partially sent.
+ */
+function waitForStreamStart(fullStream: AsyncIterable<{ type: string; error?: unknown }>) {
+  return new Promise<unknown>((resolve) => {
+    (async () => {
+      for await (const part of fullStream) {
+        if (part.type === 'error') {
+          logger.error(`${part.error}`);
+          resolve(part.error);
+
+          return;
+        }
+
+        if (part.type !== 'step-start') {
+          resolve(undefined);
+        }
+      }
+
+      resolve(undefined);
+    })();
+  });
+}
+
 async function chatAction({ context, request }: ActionFunctionArgs) {
-  const { messages, files, promptId, contextOptimization, supabase, chatMode, designScheme, maxLLMSteps } =
-    await request.json<{
-      messages: Messages;
-      files: any;
-      promptId?: string;
-      contextOptimization: boolean;
-      chatMode: 'discuss' | 'build';
-      designScheme?: DesignScheme;
-      supabase?: {
-        isConnected: boolean;
-        hasSelectedProject: boolean;
-        credentials?: {
-          anonKey?: string;
-          supabaseUrl?: string;
-        };
+  const {
+    messages,
+    files,
+    promptId,
+    contextOptimization,
+    contextChunks,
+    supabase,
+    chatMode,
+    designScheme,
+    secretNames,
+    diagnostics,
+    maxLLMSteps,
+    projectTools,
+  } = await request.json<{
+    messages: Messages;
+    files: any;
+    promptId?: string;
+    contextOptimization: boolean;
+    contextChunks?: ContextChunk[];
+    chatMode: ChatMode;
+    designScheme?: DesignScheme;
+    secretNames?: string[];
+    diagnostics?: ProjectDiagnostic[];
+    supabase?: {
+      isConnected: boolean;
+      hasSelectedProject: boolean;
+      credentials?: {
+        anonKey?: string;
+        supabaseUrl?: string;
       };
-      maxLLMSteps: number;
-    }>();
+      schema?: SupabaseTable[];
+    };
+    maxLLMSteps: number;
+    projectTools?: boolean;
+  }>();
 
   const cookieHeader = request.headers.get('Cookie');
   const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
@@ -64,6 +146,8 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     parseCookies(cookieHeader || '').providers || '{}',
   );
 
+  const llmManager = LLMManager.getInstance().withCustomProviders(getCustomProvidersFromCookie(cookieHeader));
+
   const stream = new SwitchableStream();
 
   const cumulativeUsage = {
@@ -94,7 +178,8 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           messageSliceId = processedMessages.length - 3;
         }
 
-        if (filePaths.length > 0 && contextOptimization) {
+        // the planner only needs the file paths
+        if (filePaths.length > 0 && contextOptimization && chatMode !== 'plan') {
           logger.debug('Generating Chat Summary');
           dataStream.writeData({
             type: 'progress',
@@ -112,6 +197,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             env: context.cloudflare?.env,
             apiKeys,
             providerSettings,
+            llmManager,
             promptId,
             contextOptimization,
             onFinish(resp) {
@@ -147,26 +233,33 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             message: 'Determining Files to Read',
           } satisfies ProgressAnnotation);
 
-          // Select context files
-          console.log(`Messages count: ${processedMessages.length}`);
-          filteredFiles = await selectContext({
-            messages: [...processedMessages],
-            env: context.cloudflare?.env,
-            apiKeys,
-            files,
-            providerSettings,
-            promptId,
-            contextOptimization,
-            summary,
-            onFinish(resp) {
-              if (resp.usage) {
-                logger.debug('selectContext token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
-              }
-            },
-          });
+          if (contextChunks?.length) {
+            // the client already retrieved the relevant code from its semantic index
+            filteredFiles = createChunkContextFiles(contextChunks);
+            logger.debug(`Using ${contextChunks.length} chunks from the code index`);
+          } else {
+            // Select context files
+            console.log(`Messages count: ${processedMessages.length}`);
+            filteredFiles = await selectContext({
+              messages: [...processedMessages],
+              env: context.cloudflare?.env,
+              apiKeys,
+              files,
+              providerSettings,
+              llmManager,
+              promptId,
+              contextOptimization,
+              summary,
+              onFinish(resp) {
+                if (resp.usage) {
+                  logger.debug('selectContext token usage', JSON.stringify(resp.usage));
+                  cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
+                  cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
+                  cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                }
+              },
+            });
+          }
 
           if (filteredFiles) {
             logger.debug(`files in context : ${JSON.stringify(Object.keys(filteredFiles))}`);
@@ -190,16 +283,82 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             label: 'context',
             status: 'complete',
             order: progressCounter++,
-            message: 'Code Files Selected',
+            message: contextChunks?.length ? 'Relevant Code Retrieved' : 'Code Files Selected',
           } satisfies ProgressAnnotation);
 
           // logger.debug('Code Files Selected');
         }
 
+        const writeUsageAnnotation = () => {
+          const lastUserMessage = processedMessages.filter((x) => x.role == 'user').slice(-1)[0];
+          const { model, provider } = extractPropertiesFromMessage(lastUserMessage);
+          const pricing = getModelPricing(provider, model, llmManager, {
+            apiKeys,
+            providerSettings,
+            serverEnv: context.cloudflare?.env,
+          });
+
+          dataStream.writeMessageAnnotation({
+            type: 'usage',
+            value: {
+              completionTokens: cumulativeUsage.completionTokens,
+              promptTokens: cumulativeUsage.promptTokens,
+              totalTokens: cumulativeUsage.totalTokens,
+              model,
+              provider,
+              ...(pricing && {
+                cost:
+                  (cumulativeUsage.promptTokens * pricing.input + cumulativeUsage.completionTokens * pricing.output) /
+                  1_000_000,
+              }),
+            },
+          } satisfies UsageAnnotation);
+        };
+
+        if (chatMode === 'plan') {
+          dataStream.writeData({
+            type: 'progress',
+            label: 'plan',
+            status: 'in-progress',
+            order: progressCounter++,
+            message: 'Planning Tasks',
+          } satisfies ProgressAnnotation);
+
+          const plan = await createPlan({
+            messages: [...processedMessages],
+            env: context.cloudflare?.env,
+            apiKeys,
+            providerSettings,
+            llmManager,
+            filePaths,
+            onFinish(resp) {
+              if (resp.usage) {
+                logger.debug('createPlan token usage', JSON.stringify(resp.usage));
+                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
+                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
+                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+              }
+            },
+          });
+
+          dataStream.writeMessageAnnotation({ type: 'taskList', tasks: plan.tasks } satisfies TaskListAnnotation);
+          dataStream.write(formatDataStreamPart('text', plan.overview || `Planned ${plan.tasks.length} tasks.`));
+          writeUsageAnnotation();
+          dataStream.writeData({
+            type: 'progress',
+            label: 'plan',
+            status: 'complete',
+            order: progressCounter++,
+            message: `${plan.tasks.length} Tasks Planned`,
+          } satisfies ProgressAnnotation);
+
+          return;
+        }
+
         const options: StreamingOptions = {
           supabaseConnection: supabase,
           toolChoice: 'auto',
-          tools: mcpService.toolsWithoutExecute,
+          tools: mcpService.getChatTools(!!projectTools),
           maxSteps: maxLLMSteps,
           onStepFinish: ({ toolCalls }) => {
             // add tool call annotations for frontend processing
@@ -217,14 +376,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             }
 
             if (finishReason !== 'length') {
-              dataStream.writeMessageAnnotation({
-                type: 'usage',
-                value: {
-                  completionTokens: cumulativeUsage.completionTokens,
-                  promptTokens: cumulativeUsage.promptTokens,
-                  totalTokens: cumulativeUsage.totalTokens,
-                },
-              });
+              writeUsageAnnotation();
               dataStream.writeData({
                 type: 'progress',
                 label: 'response',
@@ -255,6 +407,25 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
               content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${CONTINUE_PROMPT}`,
             });
 
+            const result = await streamWithFallback();
+            result.mergeIntoDataStream(dataStream);
+
+            return;
+          },
+        };
+
+        /*
+         * Streams the response from the model of the last user message and moves on to the
+         * next model of its fallback chain when the provider is rate limited, out of quota or
+         * unreachable. The last user message is rewritten so continuations and the usage
+         * annotation refer to the model that actually answered.
+         */
+        const streamWithFallback = async () => {
+          const lastUserIndex = processedMessages.findLastIndex((x) => x.role == 'user');
+          const { model, provider } = extractPropertiesFromMessage(processedMessages[lastUserIndex]);
+          const chain = getFallbackChain({ provider, model }, providerSettings);
+
+          for (let index = 0; ; index++) {
             const result = await streamText({
               messages: [...processedMessages],
               env: context.cloudflare?.env,
@@ -262,30 +433,45 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
               apiKeys,
               files,
               providerSettings,
+              llmManager,
               promptId,
               contextOptimization,
               contextFiles: filteredFiles,
+              contextIsExcerpt: !!contextChunks?.length,
               chatMode,
               designScheme,
+              secretNames,
+              diagnostics,
               summary,
               messageSliceId,
+              onContextBudget: (budget) =>
+                dataStream.writeMessageAnnotation({
+                  type: 'contextBudget',
+                  ...budget,
+                } satisfies ContextBudgetAnnotation),
             });
 
-            result.mergeIntoDataStream(dataStream);
+            const error = await waitForStreamStart(result.fullStream);
+            const reason = error === undefined ? undefined : classifyProviderError(error);
+            const current = chain[index];
+            const next = chain[index + 1];
 
-            (async () => {
-              for await (const part of result.fullStream) {
-                if (part.type === 'error') {
-                  const error: any = part.error;
-                  logger.error(`${error}`);
+            if (!reason || !next) {
+              return result;
+            }
 
-                  return;
-                }
-              }
-            })();
+            logger.warn(`${current.provider} ${describeFallbackReason(reason)}, falling back to ${next.provider}`);
 
-            return;
-          },
+            processedMessages[lastUserIndex] = setMessageModel(processedMessages[lastUserIndex], next);
+
+            dataStream.writeData({
+              type: 'progress',
+              label: `fallback-${index + 1}`,
+              status: 'complete',
+              order: progressCounter++,
+              message: `${current.provider} ${describeFallbackReason(reason)}, switched to ${next.model} (${next.provider})`,
+            } satisfies ProgressAnnotation);
+          }
         };
 
         dataStream.writeData({
@@ -296,32 +482,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           message: 'Generating Response',
         } satisfies ProgressAnnotation);
 
-        const result = await streamText({
-          messages: [...processedMessages],
-          env: context.cloudflare?.env,
-          options,
-          apiKeys,
-          files,
-          providerSettings,
-          promptId,
-          contextOptimization,
-          contextFiles: filteredFiles,
-          chatMode,
-          designScheme,
-          summary,
-          messageSliceId,
-        });
-
-        (async () => {
-          for await (const part of result.fullStream) {
-            if (part.type === 'error') {
-              const error: any = part.error;
-              logger.error(`${error}`);
-
-              return;
-            }
-          }
-        })();
+        const result = await streamWithFallback();
         result.mergeIntoDataStream(dataStream);
       },
       onError: (error: any) => `Custom error: ${error.message}`,
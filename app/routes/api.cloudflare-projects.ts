@@ -0,0 +1,36 @@
+import { type ActionFunctionArgs, json } from '@remix-run/cloudflare';
+import { cloudflareRequest } from '~/lib/.server/cloudflare';
+import type { CloudflareAccount, CloudflarePagesProject } from '~/types/cloudflare';
+
+interface ProjectsRequestBody {
+  token: string;
+  accountId?: string;
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    const { token, accountId } = (await request.json()) as ProjectsRequestBody;
+
+    if (!token) {
+      return json({ error: 'Not connected to Cloudflare' }, { status: 401 });
+    }
+
+    const accounts = await cloudflareRequest<CloudflareAccount[]>(token, '/accounts');
+    const account = accounts.find((candidate) => candidate.id === accountId) ?? accounts[0];
+
+    if (!account) {
+      return json({ error: 'The token has no access to any account' }, { status: 400 });
+    }
+
+    const projects = await cloudflareRequest<CloudflarePagesProject[]>(token, `/accounts/${account.id}/pages/projects`);
+
+    return json({
+      accounts: accounts.map(({ id, name }) => ({ id, name })),
+      accountId: account.id,
+      projects,
+    });
+  } catch (error) {
+    console.error('Cloudflare projects error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to fetch projects' }, { status: 500 });
+  }
+}
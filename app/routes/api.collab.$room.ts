@@ -0,0 +1,29 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+
+/*
+ * Hands the WebSocket of a collaboration room to the Durable Object of the room, which relays
+ * the messages between its clients, see workers/collab.
+ */
+
+const ROOM_ID = /^[A-Za-z0-9_-]{8,64}$/;
+
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  const room = params.room ?? '';
+
+  if (!ROOM_ID.test(room)) {
+    return json({ error: 'Invalid room' }, { status: 400 });
+  }
+
+  if (request.headers.get('Upgrade') !== 'websocket') {
+    return json({ error: 'Expected a WebSocket upgrade' }, { status: 426 });
+  }
+
+  // the Vite dev server and deployments without the collab worker have no rooms
+  const rooms = context.cloudflare?.env?.COLLAB_ROOMS;
+
+  if (!rooms) {
+    return json({ error: 'The collaboration relay is not configured' }, { status: 501 });
+  }
+
+  return rooms.get(rooms.idFromName(room)).fetch(request);
+}
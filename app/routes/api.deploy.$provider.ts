@@ -0,0 +1,50 @@
+import { type ActionFunctionArgs, json } from '@remix-run/cloudflare';
+import { getDeployProvider, getErrorStatus } from '~/lib/.server/deploy';
+import type { DeployRequest } from '~/types/deploy';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.deploy');
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const provider = getDeployProvider(params.provider ?? '');
+
+  if (!provider) {
+    return json({ error: `Unknown deploy provider ${params.provider}` }, { status: 404 });
+  }
+
+  try {
+    const body = (await request.json()) as DeployRequest;
+
+    if (!body.credentials?.token) {
+      return json({ error: `Not connected to ${params.provider}` }, { status: 401 });
+    }
+
+    switch (body.action) {
+      case 'deploy': {
+        const { credentials, action: _action, ...options } = body;
+        return json(await provider.deploy(credentials, options));
+      }
+      case 'list': {
+        return json(await provider.listDeployments(body.credentials, body.targetId));
+      }
+      case 'logs': {
+        return json({ logs: await provider.getLogs(body.credentials, body.targetId, body.deploymentId) });
+      }
+      case 'redeploy': {
+        return json({ deployment: await provider.redeploy(body.credentials, body.targetId, body.deploymentId) });
+      }
+      case 'rollback': {
+        return json({ deployment: await provider.rollback(body.credentials, body.targetId, body.deploymentId) });
+      }
+      default: {
+        return json({ error: 'Unknown deploy action' }, { status: 400 });
+      }
+    }
+  } catch (error) {
+    logger.error(`${params.provider} deploy error:`, error);
+    return json(
+      { error: error instanceof Error ? error.message : 'Deployment failed' },
+      { status: getErrorStatus(error) },
+    );
+  }
+}
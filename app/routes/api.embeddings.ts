@@ -0,0 +1,55 @@
+import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { embedMany } from 'ai';
+import { getApiKeysFromCookie, getCustomProvidersFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { createScopedLogger } from '~/utils/logger';
+
+export async function action(args: ActionFunctionArgs) {
+  return embeddingsAction(args);
+}
+
+const logger = createScopedLogger('api.embeddings');
+
+async function embeddingsAction({ context, request }: ActionFunctionArgs) {
+  const { provider: providerName, texts } = await request.json<{
+    provider: string;
+    texts: string[];
+  }>();
+
+  if (!Array.isArray(texts) || texts.some((text) => typeof text !== 'string')) {
+    throw new Response('Invalid or missing texts', {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+  }
+
+  const cookieHeader = request.headers.get('Cookie');
+  const provider = LLMManager.getInstance(context.cloudflare?.env as any)
+    .withCustomProviders(getCustomProvidersFromCookie(cookieHeader))
+    .getProvider(providerName);
+
+  if (!provider?.getEmbeddingModelInstance) {
+    throw new Response(`${providerName} does not provide embeddings`, {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+  }
+
+  try {
+    const model = provider.getEmbeddingModelInstance({
+      serverEnv: context.cloudflare?.env as any,
+      apiKeys: getApiKeysFromCookie(cookieHeader),
+      providerSettings: getProviderSettingsFromCookie(cookieHeader),
+    });
+    const { embeddings } = await embedMany({ model, values: texts });
+
+    return json({ embeddings, model: model.modelId });
+  } catch (error: unknown) {
+    logger.error(error);
+
+    throw new Response(error instanceof Error ? error.message : null, {
+      status: 500,
+      statusText: 'Internal Server Error',
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-prompt');
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    const {
+      serverName,
+      name,
+      args = {},
+    } = (await request.json()) as { serverName?: string; name?: string; args?: Record<string, string> };
+
+    if (!serverName || !name) {
+      return Response.json({ error: 'Missing server name or prompt name' }, { status: 400 });
+    }
+
+    const prompt = await MCPService.getInstance().getPrompt(serverName, name, args);
+
+    return Response.json(prompt);
+  } catch (error) {
+    logger.error('Error getting MCP prompt:', error);
+    return Response.json({ error: 'Failed to get MCP prompt' }, { status: 500 });
+  }
+}
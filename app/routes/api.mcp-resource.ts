@@ -0,0 +1,22 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-resource');
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    const { serverName, uri } = (await request.json()) as { serverName?: string; uri?: string };
+
+    if (!serverName || !uri) {
+      return Response.json({ error: 'Missing server name or resource URI' }, { status: 400 });
+    }
+
+    const resource = await MCPService.getInstance().readResource(serverName, uri);
+
+    return Response.json(resource);
+  } catch (error) {
+    logger.error('Error reading MCP resource:', error);
+    return Response.json({ error: 'Failed to read MCP resource' }, { status: 500 });
+  }
+}
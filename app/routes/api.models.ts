@@ -2,7 +2,7 @@ import { json } from '@remix-run/cloudflare';
 import { LLMManager } from '~/lib/modules/llm/manager';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { ProviderInfo } from '~/types/model';
-import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { getApiKeysFromCookie, getCustomProvidersFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
 
 interface ModelsResponse {
   modelList: ModelInfo[];
@@ -10,19 +10,17 @@ interface ModelsResponse {
   defaultProvider: ProviderInfo;
 }
 
-let cachedProviders: ProviderInfo[] | null = null;
 let cachedDefaultProvider: ProviderInfo | null = null;
 
 function getProviderInfo(llmManager: LLMManager) {
-  if (!cachedProviders) {
-    cachedProviders = llmManager.getAllProviders().map((provider) => ({
-      name: provider.name,
-      staticModels: provider.staticModels,
-      getApiKeyLink: provider.getApiKeyLink,
-      labelForGetApiKey: provider.labelForGetApiKey,
-      icon: provider.icon,
-    }));
-  }
+  // not cached since custom providers change with the cookies of every request
+  const providers: ProviderInfo[] = llmManager.getAllProviders().map((provider) => ({
+    name: provider.name,
+    staticModels: provider.staticModels,
+    getApiKeyLink: provider.getApiKeyLink,
+    labelForGetApiKey: provider.labelForGetApiKey,
+    icon: provider.icon,
+  }));
 
   if (!cachedDefaultProvider) {
     const defaultProvider = llmManager.getDefaultProvider();
@@ -35,7 +33,7 @@ function getProviderInfo(llmManager: LLMManager) {
     };
   }
 
-  return { providers: cachedProviders, defaultProvider: cachedDefaultProvider };
+  return { providers, defaultProvider: cachedDefaultProvider };
 }
 
 export async function loader({
@@ -51,13 +49,15 @@ export async function loader({
     };
   };
 }): Promise<Response> {
-  const llmManager = LLMManager.getInstance(context.cloudflare?.env);
-
   // Get client side maintained API keys and provider settings from cookies
   const cookieHeader = request.headers.get('Cookie');
   const apiKeys = getApiKeysFromCookie(cookieHeader);
   const providerSettings = getProviderSettingsFromCookie(cookieHeader);
 
+  const llmManager = LLMManager.getInstance(context.cloudflare?.env).withCustomProviders(
+    getCustomProvidersFromCookie(cookieHeader),
+  );
+
   const { providers, defaultProvider } = getProviderInfo(llmManager);
 
   let modelList: ModelInfo[] = [];
@@ -133,3 +133,18 @@ export interface RepositoryStats {
   hasPackageJson: boolean;
   hasDependencies: boolean;
 }
+
+export interface GitHubFileChange {
+  path: string;
+
+  // content on the base branch, empty for new files
+  before: string;
+  after: string;
+}
+
+export interface GitHubBranchPush {
+  baseBranch: string;
+
+  // files that differ from the base branch
+  changes: GitHubFileChange[];
+}
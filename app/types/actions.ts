@@ -1,6 +1,6 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell' | 'supabase';
+export type ActionType = 'file' | 'patch' | 'shell' | 'supabase';
 
 export interface BaseAction {
   content: string;
@@ -11,6 +11,14 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+/**
+ * Edits an existing file. The content is either search/replace blocks or a unified diff.
+ */
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -21,6 +29,9 @@ export interface StartAction extends BaseAction {
 
 export interface BuildAction extends BaseAction {
   type: 'build';
+
+  // the path the app is served from when it is not the root of the domain
+  basePath?: string;
 }
 
 export interface SupabaseAction extends BaseAction {
@@ -30,10 +41,22 @@ export interface SupabaseAction extends BaseAction {
   projectId?: string;
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction | BuildAction | SupabaseAction;
+export type BoltAction = FileAction | PatchAction | ShellAction | StartAction | BuildAction | SupabaseAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
+export type CommandApprovalMode = 'auto' | 'ask';
+
+export interface CommandPolicy {
+  mode: CommandApprovalMode;
+
+  // glob-style patterns (`*` matches anything) checked against every sub-command
+  denyPatterns: string[];
+
+  // list what an artifact would do without writing files or running commands
+  dryRun: boolean;
+}
+
 export interface ActionAlert {
   type: string;
   title: string;
@@ -48,8 +71,14 @@ export interface SupabaseAlert {
   description: string;
   content: string;
   source?: 'supabase';
+  operation?: SupabaseAction['operation'];
+
+  // the migration file of a `migration` operation
+  filePath?: string;
 }
 
+export type DeploySource = 'vercel' | 'netlify' | 'github' | 'cloudflare' | 'github-pages';
+
 export interface DeployAlert {
   type: 'success' | 'error' | 'info';
   title: string;
@@ -59,7 +88,7 @@ export interface DeployAlert {
   stage?: 'building' | 'deploying' | 'complete';
   buildStatus?: 'pending' | 'running' | 'complete' | 'failed';
   deployStatus?: 'pending' | 'running' | 'complete' | 'failed';
-  source?: 'vercel' | 'netlify' | 'github';
+  source?: DeploySource;
 }
 
 export interface LlmErrorAlertType {
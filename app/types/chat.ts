@@ -0,0 +1,5 @@
+/**
+ * `plan` asks a planner model for a task list that is then built task by task in `build`
+ * mode.
+ */
+export type ChatMode = 'discuss' | 'build' | 'plan';
@@ -0,0 +1,33 @@
+export interface CloudflareAccount {
+  id: string;
+  name: string;
+}
+
+export interface CloudflarePagesProject {
+  name: string;
+  subdomain: string;
+  domains?: string[];
+  created_on: string;
+  production_branch?: string;
+  latest_deployment?: {
+    id: string;
+    url: string;
+    created_on: string;
+    latest_stage?: {
+      name: string;
+      status: string;
+    };
+  };
+}
+
+export interface CloudflareStats {
+  projects: CloudflarePagesProject[];
+  totalProjects: number;
+}
+
+export interface CloudflareConnection {
+  token: string;
+  accountId: string;
+  accounts: CloudflareAccount[];
+  stats?: CloudflareStats;
+}
@@ -9,6 +9,20 @@ export type ContextAnnotation =
       chatId: string;
     };
 
+export type UsageAnnotation = {
+  type: 'usage';
+  value: {
+    completionTokens: number;
+    promptTokens: number;
+    totalTokens: number;
+    model?: string;
+    provider?: string;
+
+    // in USD, only known for models with pricing metadata
+    cost?: number;
+  };
+};
+
 export type ProgressAnnotation = {
   type: 'progress';
   label: string;
@@ -17,10 +31,56 @@ export type ProgressAnnotation = {
   message: string;
 };
 
+export type ContextBudgetPart = 'system' | 'context' | 'summary' | 'lockedFiles' | 'messages';
+
+/**
+ * How the prompt of a response fits into the context window of its model, sizes are
+ * in tokens.
+ */
+export type ContextBudgetAnnotation = {
+  type: 'contextBudget';
+  contextWindow: number;
+
+  // kept free for the completion
+  reservedTokens: number;
+  promptTokens: number;
+  parts: Record<ContextBudgetPart, number>;
+
+  // left out of the prompt to make it fit
+  trimmedMessages: number;
+  trimmedFiles: string[];
+};
+
+export type PlanTask = {
+  id: string;
+  title: string;
+  description: string;
+};
+
+export type TaskListAnnotation = {
+  type: 'taskList';
+  tasks: PlanTask[];
+};
+
 export type ToolCallAnnotation = {
   type: 'toolCall';
   toolCallId: string;
   serverName: string;
   toolName: string;
   toolDescription: string;
+
+  // policy of the call, calls that are allowed or denied need no approval
+  toolPolicy?: 'allow' | 'ask' | 'deny';
+};
+
+/**
+ * Part of a project file retrieved from the semantic code index, lines are 1-based and
+ * inclusive.
+ */
+export type ContextChunk = {
+  path: string;
+  startLine: number;
+  endLine: number;
+  lineCount: number;
+  content: string;
 };
@@ -0,0 +1,58 @@
+import type { DeploySource } from './actions';
+
+export type DeploymentState = 'queued' | 'building' | 'ready' | 'error' | 'canceled';
+
+export interface DeployCredentials {
+  token: string;
+
+  // Cloudflare tokens can reach several accounts
+  accountId?: string;
+}
+
+// the site, project or repository a chat deploys to
+export interface DeployTarget {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface Deployment {
+  id: string;
+  state: DeploymentState;
+  createdAt: string;
+  url?: string;
+
+  // the deployment the target serves
+  isCurrent?: boolean;
+  message?: string;
+}
+
+export interface DeployResult {
+  target: DeployTarget;
+  deployment: Deployment;
+}
+
+/**
+ * Body of `/api/deploy/:provider`. Files are base64 encoded and keyed by their path from the root of
+ * the build output, or of the project for source files.
+ */
+export type DeployRequest =
+  | {
+      action: 'deploy';
+      credentials: DeployCredentials;
+      targetId?: string;
+      chatId: string;
+      files: Record<string, string>;
+      sourceFiles?: Record<string, string>;
+      framework?: string;
+      env?: Record<string, string>;
+    }
+  | { action: 'list'; credentials: DeployCredentials; targetId: string }
+  | {
+      action: 'logs' | 'redeploy' | 'rollback';
+      credentials: DeployCredentials;
+      targetId: string;
+      deploymentId: string;
+    };
+
+export type DeployProviderName = Exclude<DeploySource, 'github'>;
@@ -0,0 +1,17 @@
+export type ProjectDiagnosticSource = 'tsc' | 'eslint';
+
+export interface ProjectDiagnostic {
+  source: ProjectDiagnosticSource;
+
+  // relative to the project root, empty for errors of the whole program
+  filePath: string;
+
+  // 1-based like the output of the tools
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+
+  // `TS2322` or the ESLint rule
+  code?: string;
+}
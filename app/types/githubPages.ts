@@ -0,0 +1,22 @@
+export interface GitHubPagesUser {
+  login: string;
+  avatar_url: string;
+  html_url: string;
+}
+
+export interface GitHubPagesSite {
+  repo: string;
+  url: string;
+  updatedAt: string;
+}
+
+export interface GitHubPagesStats {
+  sites: GitHubPagesSite[];
+  totalSites: number;
+}
+
+export interface GitHubPagesConnection {
+  user: GitHubPagesUser | null;
+  token: string;
+  stats?: GitHubPagesStats;
+}
@@ -14,9 +14,37 @@ export type ProviderInfo = {
   icon?: string;
 };
 
+export interface ModelFallback {
+  provider: string;
+  model: string;
+}
+
 export interface IProviderSetting {
   enabled?: boolean;
   baseUrl?: string;
+
+  // tried in order when the provider is rate limited, out of quota or unreachable
+  fallbacks?: ModelFallback[];
+}
+
+export type CustomProviderType = 'openai' | 'anthropic';
+
+export interface CustomProviderModel {
+  name: string;
+  label?: string;
+  maxTokenAllowed?: number;
+}
+
+/**
+ * An OpenAI or Anthropic compatible endpoint declared in the settings, its API key is
+ * stored with the keys of the built-in providers.
+ */
+export interface CustomProviderDefinition {
+  name: string;
+  type: CustomProviderType;
+  baseUrl: string;
+  headers?: Record<string, string>;
+  models: CustomProviderModel[];
 }
 
 export type IProviderConfig = ProviderInfo & {
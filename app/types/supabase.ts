@@ -29,3 +29,45 @@ export interface SupabaseCredentials {
   anonKey?: string;
   supabaseUrl?: string;
 }
+
+export interface SupabaseColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+}
+
+export interface SupabasePolicy {
+  name: string;
+
+  // SELECT, INSERT, UPDATE, DELETE or ALL
+  command: string;
+  roles: string[];
+  using: string | null;
+  check: string | null;
+}
+
+export interface SupabaseTable {
+  schema: string;
+  name: string;
+  rlsEnabled: boolean;
+  columns: SupabaseColumn[];
+  policies: SupabasePolicy[];
+}
+
+export interface SupabaseSchema {
+  projectId: string;
+  tables: SupabaseTable[];
+  fetchedAt: string;
+}
+
+// a query the user applied to the database from a chat
+export interface SupabaseMigration {
+  id: string;
+  projectId: string;
+
+  // the migration file the query came with, if any
+  name: string;
+  sql: string;
+  appliedAt: string;
+}
@@ -14,6 +14,7 @@ export const TOOL_EXECUTION_APPROVAL = {
 } as const;
 export const TOOL_NO_EXECUTE_FUNCTION = 'Error: No execute function found on tool';
 export const TOOL_EXECUTION_DENIED = 'Error: User denied access to tool execution';
+export const TOOL_EXECUTION_BLOCKED = 'Error: Tool execution is denied by the policy of the MCP server';
 export const TOOL_EXECUTION_ERROR = 'Error: An error occured while calling tool';
 
 const llmManager = LLMManager.getInstance(import.meta.env);
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { detectFramework } from './detectFramework';
+
+describe('detectFramework', () => {
+  it('should detect the framework from the dependencies', () => {
+    const packageJson = (dependencies: Record<string, string>) => JSON.stringify({ devDependencies: dependencies });
+
+    expect(detectFramework({ 'package.json': packageJson({ next: '15.0.0', react: '19.0.0' }) })).toBe('nextjs');
+    expect(detectFramework({ 'package.json': packageJson({ react: '19.0.0', vite: '6.0.0' }) })).toBe('vite');
+    expect(detectFramework({ 'package.json': packageJson({ '@sveltejs/kit': '2.0.0' }) })).toBe('sveltekit');
+    expect(detectFramework({ 'package.json': packageJson({}) })).toBe('nodejs');
+  });
+
+  it('should fall back to config files and static sites', () => {
+    expect(detectFramework({ 'astro.config.ts': 'export default {};' })).toBe('astro');
+    expect(detectFramework({ 'index.html': '<html></html>' })).toBe('static');
+    expect(detectFramework({})).toBe('other');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Detects the framework of a project from its text files, keyed by their path from the project root.
+ */
+export function detectFramework(files: Record<string, string>): string {
+  // Check for package.json first
+  const packageJson = files['package.json'];
+
+  if (packageJson) {
+    try {
+      const pkg = JSON.parse(packageJson);
+      const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+
+      // Check for specific frameworks
+      if (dependencies.next) {
+        return 'nextjs';
+      }
+
+      if (dependencies.react && dependencies['@remix-run/react']) {
+        return 'remix';
+      }
+
+      if (dependencies.react && dependencies.vite) {
+        return 'vite';
+      }
+
+      if (dependencies.react && dependencies['@vitejs/plugin-react']) {
+        return 'vite';
+      }
+
+      if (dependencies.react && dependencies['@nuxt/react']) {
+        return 'nuxt';
+      }
+
+      if (dependencies.react && dependencies['@qwik-city/qwik']) {
+        return 'qwik';
+      }
+
+      if (dependencies.react && dependencies['@sveltejs/kit']) {
+        return 'sveltekit';
+      }
+
+      if (dependencies.react && dependencies.astro) {
+        return 'astro';
+      }
+
+      if (dependencies.react && dependencies['@angular/core']) {
+        return 'angular';
+      }
+
+      if (dependencies.react && dependencies.vue) {
+        return 'vue';
+      }
+
+      if (dependencies.react && dependencies['@expo/react-native']) {
+        return 'expo';
+      }
+
+      if (dependencies.react && dependencies['react-native']) {
+        return 'react-native';
+      }
+
+      // Generic React app
+      if (dependencies.react) {
+        return 'react';
+      }
+
+      // Check for other frameworks
+      if (dependencies['@angular/core']) {
+        return 'angular';
+      }
+
+      if (dependencies.vue) {
+        return 'vue';
+      }
+
+      if (dependencies['@sveltejs/kit']) {
+        return 'sveltekit';
+      }
+
+      if (dependencies.astro) {
+        return 'astro';
+      }
+
+      if (dependencies['@nuxt/core']) {
+        return 'nuxt';
+      }
+
+      if (dependencies['@qwik-city/qwik']) {
+        return 'qwik';
+      }
+
+      if (dependencies['@expo/react-native']) {
+        return 'expo';
+      }
+
+      if (dependencies['react-native']) {
+        return 'react-native';
+      }
+
+      // Check for build tools
+      if (dependencies.vite) {
+        return 'vite';
+      }
+
+      if (dependencies.webpack) {
+        return 'webpack';
+      }
+
+      if (dependencies.parcel) {
+        return 'parcel';
+      }
+
+      if (dependencies.rollup) {
+        return 'rollup';
+      }
+
+      // Default to Node.js if package.json exists
+      return 'nodejs';
+    } catch (error) {
+      console.error('Error parsing package.json:', error);
+    }
+  }
+
+  // Check for other framework indicators
+  if (files['next.config.js'] || files['next.config.ts']) {
+    return 'nextjs';
+  }
+
+  if (files['remix.config.js'] || files['remix.config.ts']) {
+    return 'remix';
+  }
+
+  if (files['vite.config.js'] || files['vite.config.ts']) {
+    return 'vite';
+  }
+
+  if (files['nuxt.config.js'] || files['nuxt.config.ts']) {
+    return 'nuxt';
+  }
+
+  if (files['svelte.config.js'] || files['svelte.config.ts']) {
+    return 'sveltekit';
+  }
+
+  if (files['astro.config.js'] || files['astro.config.ts']) {
+    return 'astro';
+  }
+
+  if (files['angular.json']) {
+    return 'angular';
+  }
+
+  if (files['vue.config.js'] || files['vue.config.ts']) {
+    return 'vue';
+  }
+
+  if (files['app.json'] && files['app.json'].includes('expo')) {
+    return 'expo';
+  }
+
+  if (files['app.json'] && files['app.json'].includes('react-native')) {
+    return 'react-native';
+  }
+
+  // Check for static site indicators
+  if (files['index.html']) {
+    return 'static';
+  }
+
+  // Default to unknown
+  return 'other';
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { isEnvFile, mergeEnvFile, redactEnvFile, REDACTED_SECRET } from './envFile';
+
+describe('envFile', () => {
+  it('should recognize env files', () => {
+    expect(isEnvFile('/home/project/.env')).toBe(true);
+    expect(isEnvFile('.env.local')).toBe(true);
+    expect(isEnvFile('/home/project/src/env.ts')).toBe(false);
+    expect(isEnvFile('/home/project/.envrc/config')).toBe(false);
+  });
+
+  it('should replace existing variables in place and append new ones', () => {
+    const content = '# supabase\nVITE_SUPABASE_URL=https://old.supabase.co\nexport API_KEY = old\n';
+
+    expect(mergeEnvFile(content, { API_KEY: 'new', SECRET: 'has spaces' })).toBe(
+      '# supabase\nVITE_SUPABASE_URL=https://old.supabase.co\nexport API_KEY = new\nSECRET="has spaces"\n',
+    );
+    expect(mergeEnvFile('', { API_KEY: 'key' })).toBe('API_KEY=key\n');
+  });
+
+  it('should only redact the named variables', () => {
+    expect(redactEnvFile('API_KEY=key\nPORT=3000', ['API_KEY'])).toBe(`API_KEY=${REDACTED_SECRET}\nPORT=3000`);
+  });
+});
@@ -0,0 +1,74 @@
+// what the LLM sees in place of the value of a secret
+export const REDACTED_SECRET = '<secret>';
+
+const ENV_LINE = /^(\s*(?:export\s+)?)([A-Za-z_][A-Za-z0-9_]*)(\s*=\s*).*$/;
+
+export const isEnvFile = (filePath: string) => /(^|\/)\.env(\.[^/]*)?$/.test(filePath);
+
+function formatValue(value: string) {
+  return /^[^\s#"'`\\]*$/.test(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Sets the variables in the content of a `.env` file. Lines of variables that are already
+ * in the file are replaced in place, the others are appended.
+ */
+export function mergeEnvFile(content: string, variables: Record<string, string>) {
+  const remaining = new Map(Object.entries(variables));
+
+  const lines = content.split('\n').map((line) =>
+    line.replace(ENV_LINE, (match, prefix: string, name: string, equals: string) => {
+      if (!remaining.has(name)) {
+        return match;
+      }
+
+      const value = remaining.get(name)!;
+      remaining.delete(name);
+
+      return `${prefix}${name}${equals}${formatValue(value)}`;
+    }),
+  );
+
+  if (remaining.size === 0) {
+    return lines.join('\n');
+  }
+
+  // keep the appended lines apart from a last line without a newline
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  for (const [name, value] of remaining) {
+    lines.push(`${name}=${formatValue(value)}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Whether the content of a `.env` file sets one of the named variables.
+ */
+export function definesVariables(content: string, names: string[]) {
+  const variables = new Set(names);
+
+  return content.split('\n').some((line) => {
+    const [, , name] = line.match(ENV_LINE) ?? [];
+    return name !== undefined && variables.has(name);
+  });
+}
+
+/**
+ * Replaces the values of the named variables in the content of a `.env` file.
+ */
+export function redactEnvFile(content: string, names: string[]) {
+  const redacted = new Set(names);
+
+  return content
+    .split('\n')
+    .map((line) =>
+      line.replace(ENV_LINE, (match, prefix: string, name: string, equals: string) =>
+        redacted.has(name) ? `${prefix}${name}${equals}${REDACTED_SECRET}` : match,
+      ),
+    )
+    .join('\n');
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunk, getFileStatus, getHunks, holdsSecrets } from './git';
+
+describe('getFileStatus', () => {
+  it('should split the status matrix into staged and unstaged changes', () => {
+    expect(getFileStatus(['new.ts', 0, 2, 0])).toEqual({ path: 'new.ts', unstaged: 'untracked' });
+    expect(getFileStatus(['added.ts', 0, 2, 3])).toEqual({ path: 'added.ts', staged: 'added', unstaged: 'modified' });
+    expect(getFileStatus(['same.ts', 1, 1, 1])).toBeUndefined();
+    expect(getFileStatus(['changed.ts', 1, 2, 1])).toEqual({ path: 'changed.ts', unstaged: 'modified' });
+    expect(getFileStatus(['staged.ts', 1, 2, 2])).toEqual({ path: 'staged.ts', staged: 'modified' });
+    expect(getFileStatus(['removed.ts', 1, 0, 1])).toEqual({ path: 'removed.ts', unstaged: 'deleted' });
+    expect(getFileStatus(['removed.ts', 1, 0, 0])).toEqual({ path: 'removed.ts', staged: 'deleted' });
+  });
+});
+
+describe('applyHunk', () => {
+  const original = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+  const changed = original.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+
+  it('should stage a single hunk', () => {
+    const hunks = getHunks(original, changed);
+
+    expect(hunks).toHaveLength(2);
+    expect(applyHunk(original, hunks[1])).toBe(original.replace('line 18\n', 'line eighteen\n'));
+  });
+
+  it('should unstage a single hunk', () => {
+    const hunks = getHunks(original, changed);
+
+    expect(applyHunk(changed, hunks[0], true)).toBe(changed.replace('line two\n', 'line 2\n'));
+  });
+});
+
+describe('holdsSecrets', () => {
+  it('should find env files that set a secret', () => {
+    expect(holdsSecrets('.env', 'API_KEY=abc\nPORT=3000\n', ['API_KEY'])).toBe(true);
+    expect(holdsSecrets('apps/web/.env.local', 'export API_KEY="abc"', ['API_KEY'])).toBe(true);
+  });
+
+  it('should keep other files', () => {
+    expect(holdsSecrets('.env', 'PORT=3000\n', ['API_KEY'])).toBe(false);
+    expect(holdsSecrets('src/config.ts', 'API_KEY=abc', ['API_KEY'])).toBe(false);
+    expect(holdsSecrets('.env', 'API_KEY=abc', [])).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { applyPatch, structuredPatch, type Hunk } from 'diff';
+import { definesVariables, isEnvFile } from './envFile';
+
+export type GitChange = 'added' | 'modified' | 'deleted' | 'untracked';
+
+export interface GitFileStatus {
+  path: string;
+
+  // change between HEAD and the index
+  staged?: GitChange;
+
+  // change between the index and the working tree
+  unstaged?: GitChange;
+}
+
+export type GitHunk = Hunk;
+
+/**
+ * Turns a row of isomorphic-git's `statusMatrix` into the staged and unstaged change of the
+ * file, returns `undefined` for unmodified files.
+ *
+ * @see https://isomorphic-git.org/docs/en/statusMatrix
+ */
+export function getFileStatus([path, head, workdir, stage]: [string, number, number, number]):
+  GitFileStatus | undefined {
+  let staged: GitChange | undefined;
+  let unstaged: GitChange | undefined;
+
+  if (head === 0 && stage !== 0) {
+    staged = 'added';
+  } else if (head === 1 && stage === 0) {
+    staged = 'deleted';
+  } else if (head === 1 && stage >= 2) {
+    staged = 'modified';
+  }
+
+  if (workdir === 0 && stage !== 0) {
+    unstaged = 'deleted';
+  } else if (stage === 0 && workdir !== 0) {
+    unstaged = 'untracked';
+  } else if (stage === 3 || (stage === 1 && workdir === 2)) {
+    unstaged = 'modified';
+  }
+
+  return staged || unstaged ? { path, staged, unstaged } : undefined;
+}
+
+/**
+ * Whether a file holds the value of one of the secrets of the chat, such files must not be
+ * committed when the project is pushed to a remote.
+ */
+export function holdsSecrets(filePath: string, content: string, secretNames: string[]) {
+  return secretNames.length > 0 && isEnvFile(filePath) && definesVariables(content, secretNames);
+}
+
+export function getHunks(oldContent: string, newContent: string): GitHunk[] {
+  return structuredPatch('a', 'b', oldContent, newContent, '', '', { context: 3 }).hunks;
+}
+
+/**
+ * Applies a single hunk of `getHunks` to the content it was computed from, or removes it
+ * again from the content it produced when `reverse` is set.
+ */
+export function applyHunk(content: string, hunk: GitHunk, reverse = false) {
+  const patchHunk = reverse
+    ? {
+        oldStart: hunk.newStart,
+        oldLines: hunk.newLines,
+        newStart: hunk.oldStart,
+        newLines: hunk.oldLines,
+        lines: hunk.lines.map((line) =>
+          line.startsWith('+') ? `-${line.slice(1)}` : line.startsWith('-') ? `+${line.slice(1)}` : line,
+        ),
+      }
+    : hunk;
+
+  const result = applyPatch(content, { hunks: [patchHunk] });
+
+  if (result === false) {
+    throw new Error('The hunk does not apply to the current content');
+  }
+
+  return result;
+}
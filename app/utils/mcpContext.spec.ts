@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { appendMcpResources, extractMcpResources, promptMessagesToText, splitResourceContents } from './mcpContext';
+
+describe('appendMcpResources', () => {
+  it('should round trip the attached resources', () => {
+    const message = appendMcpResources('Use the schema', [
+      { serverName: 'db', uri: 'postgres://shop/schema', name: 'Shop "schema"', text: 'create table users();' },
+    ]);
+
+    expect(message).toContain('create table users();');
+    expect(extractMcpResources(message)).toEqual({
+      text: 'Use the schema',
+      resources: [{ serverName: 'db', uri: 'postgres://shop/schema', name: 'Shop "schema"' }],
+    });
+  });
+});
+
+describe('splitResourceContents', () => {
+  it('should attach images and omit other binary contents', () => {
+    const { text, images } = splitResourceContents({
+      contents: [
+        { uri: 'file:///a.txt', text: 'hello' },
+        { uri: 'file:///a.png', mimeType: 'image/png', blob: 'AAAA' },
+        { uri: 'file:///a.zip', mimeType: 'application/zip', blob: 'BBBB' },
+      ],
+    });
+
+    expect(images).toEqual(['data:image/png;base64,AAAA']);
+    expect(text).toBe('hello\n\n[binary content of file:///a.zip (application/zip) omitted]');
+  });
+});
+
+describe('promptMessagesToText', () => {
+  it('should join the text of the messages', () => {
+    const text = promptMessagesToText({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review this code' } },
+        { role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.ts', text: 'const a = 1;' } } },
+      ],
+    });
+
+    expect(text).toBe('Review this code\n\nconst a = 1;');
+  });
+});
@@ -0,0 +1,90 @@
+import type { GetPromptResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+
+export interface McpResourceAttachment {
+  serverName: string;
+  uri: string;
+  name: string;
+  text: string;
+}
+
+export interface McpResourceReference {
+  serverName: string;
+  uri: string;
+  name: string;
+}
+
+const RESOURCE_REGEX = /\n*<mcpResource server="([^"]*)" uri="([^"]*)" name="([^"]*)">[\s\S]*?<\/mcpResource>/g;
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+const unescapeAttribute = (value: string) => value.replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+/**
+ * Splits the contents of a resource into the text sent to the model and the images attached like uploads.
+ */
+export function splitResourceContents({ contents }: ReadResourceResult) {
+  const text: string[] = [];
+  const images: string[] = [];
+
+  for (const content of contents) {
+    if ('text' in content) {
+      text.push(content.text);
+    } else if (content.mimeType?.startsWith('image/')) {
+      images.push(`data:${content.mimeType};base64,${content.blob}`);
+    } else {
+      text.push(`[binary content of ${content.uri} (${content.mimeType ?? 'unknown type'}) omitted]`);
+    }
+  }
+
+  return { text: text.join('\n\n'), images };
+}
+
+/**
+ * Appends the attached resources to a message, the tags keep them apart from what the user typed.
+ */
+export function appendMcpResources(message: string, resources: McpResourceAttachment[]) {
+  const blocks = resources.map(
+    ({ serverName, uri, name, text }) =>
+      `<mcpResource server="${escapeAttribute(serverName)}" uri="${escapeAttribute(uri)}" name="${escapeAttribute(name)}">\n${text}\n</mcpResource>`,
+  );
+
+  return [message, ...blocks].join('\n\n');
+}
+
+/**
+ * Separates the attached resources from the text of a message, so the message shows them by name.
+ */
+export function extractMcpResources(message: string) {
+  const resources: McpResourceReference[] = [];
+
+  const text = message.replace(RESOURCE_REGEX, (_match, serverName: string, uri: string, name: string) => {
+    resources.push({
+      serverName: unescapeAttribute(serverName),
+      uri: unescapeAttribute(uri),
+      name: unescapeAttribute(name),
+    });
+
+    return '';
+  });
+
+  return { text, resources };
+}
+
+/**
+ * The text of the messages of a prompt template, in the order the server returned them.
+ */
+export function promptMessagesToText({ messages }: GetPromptResult) {
+  return messages
+    .map(({ content }) => {
+      if (content.type === 'text') {
+        return content.text;
+      }
+
+      if (content.type === 'resource' && 'text' in content.resource) {
+        return content.resource.text;
+      }
+
+      return undefined;
+    })
+    .filter((text) => text !== undefined)
+    .join('\n\n');
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilePatch, detectPatchFormat, PatchApplyError } from './patch';
+
+const source = ['function add(a, b) {', '  return a + b;', '}', '', 'export default add;', ''].join('\n');
+
+describe('applyFilePatch', () => {
+  it('should detect the patch format', () => {
+    expect(detectPatchFormat('<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE')).toBe('search-replace');
+    expect(detectPatchFormat('@@ -1,3 +1,3 @@\n-a\n+b')).toBe('unified-diff');
+    expect(detectPatchFormat('just some text')).toBeUndefined();
+  });
+
+  it('should apply search/replace blocks', () => {
+    const patch = [
+      '<<<<<<< SEARCH',
+      '  return a + b;',
+      '=======',
+      '  return Number(a) + Number(b);',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(applyFilePatch(source, patch, 'add.js')).toBe(source.replace('a + b', 'Number(a) + Number(b)'));
+  });
+
+  it('should tolerate indentation differences in the search text', () => {
+    const patch = ['<<<<<<< SEARCH', '    return a + b;', '=======', '  return b + a;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(applyFilePatch(source, patch, 'add.js')).toBe(source.replace('a + b', 'b + a'));
+  });
+
+  it('should keep the indentation of the file when the search text is indented differently', () => {
+    const python = ['class Cart:', '    def total(self):', '        return sum(self.items)', ''].join('\n');
+    const patch = [
+      '<<<<<<< SEARCH',
+      'def total(self):',
+      '    return sum(self.items)',
+      '=======',
+      'def total(self):',
+      '    if not self.items:',
+      '        return 0',
+      '    return sum(self.items)',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(applyFilePatch(python, patch, 'cart.py')).toBe(
+      [
+        'class Cart:',
+        '    def total(self):',
+        '        if not self.items:',
+        '            return 0',
+        '        return sum(self.items)',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should apply a unified diff', () => {
+    const patch = ['@@ -1,3 +1,3 @@', ' function add(a, b) {', '-  return a + b;', '+  return b + a;', ' }', ''].join(
+      '\n',
+    );
+
+    expect(applyFilePatch(source, patch, 'add.js')).toBe(source.replace('a + b', 'b + a'));
+  });
+
+  it('should fail with a clear error when a block does not apply', () => {
+    const patch = ['<<<<<<< SEARCH', 'return a * b;', '=======', 'return 0;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyFilePatch(source, patch, 'add.js')).toThrow(PatchApplyError);
+    expect(() => applyFilePatch(source, patch, 'add.js')).toThrow(/Block 1 of 1 in patch for add\.js does not apply/);
+  });
+
+  it('should fail when the search text is ambiguous', () => {
+    const patch = ['<<<<<<< SEARCH', '}', '=======', '};', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyFilePatch(`${source}}\n`, patch, 'add.js')).toThrow(/matches 2 locations/);
+  });
+
+  it('should report an ambiguous match when ignoring whitespace', () => {
+    const twice = ['function a() {', '  return 1;', '}', 'function b() {', '  return 1;', '}', ''].join('\n');
+    const patch = ['<<<<<<< SEARCH', '    return 1;', '=======', '    return 2;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyFilePatch(twice, patch, 'a.js')).toThrow(/matches 2 locations when ignoring whitespace/);
+  });
+
+  it('should fail with a clear error when a hunk does not apply', () => {
+    const patch = ['@@ -1,3 +1,3 @@', ' function sub(a, b) {', '-  return a - b;', '+  return b - a;', ' }', ''].join(
+      '\n',
+    );
+
+    expect(() => applyFilePatch(source, patch, 'add.js')).toThrow(/Hunk 1 of 1 .* does not apply cleanly to add\.js/);
+  });
+});
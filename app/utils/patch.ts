@@ -0,0 +1,179 @@
+import { applyPatch as applyUnifiedDiff, parsePatch } from 'diff';
+
+const SEARCH_MARKER = '<<<<<<< SEARCH';
+const DIVIDER_MARKER = '=======';
+const REPLACE_MARKER = '>>>>>>> REPLACE';
+
+const searchReplaceRegex = /<<<<<<< SEARCH\r?\n([\s\S]*?)\r?\n?=======\r?\n([\s\S]*?)\r?\n?>>>>>>> REPLACE/g;
+
+export class PatchApplyError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    Object.setPrototypeOf(this, PatchApplyError.prototype);
+
+    this.name = 'PatchApplyError';
+  }
+}
+
+export type PatchFormat = 'search-replace' | 'unified-diff';
+
+export interface SearchReplaceBlock {
+  search: string;
+  replace: string;
+}
+
+export function detectPatchFormat(patch: string): PatchFormat | undefined {
+  if (patch.includes(SEARCH_MARKER)) {
+    return 'search-replace';
+  }
+
+  if (/^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/m.test(patch)) {
+    return 'unified-diff';
+  }
+
+  return undefined;
+}
+
+export function parseSearchReplaceBlocks(patch: string): SearchReplaceBlock[] {
+  const blocks: SearchReplaceBlock[] = [];
+
+  for (const match of patch.matchAll(searchReplaceRegex)) {
+    blocks.push({ search: match[1], replace: match[2] });
+  }
+
+  return blocks;
+}
+
+/**
+ * Applies a patch to the content of a file. The patch is either a list of
+ * search/replace blocks or a unified diff. Throws a `PatchApplyError` that names
+ * the failing block or hunk if the patch doesn't apply cleanly.
+ */
+export function applyFilePatch(content: string, patch: string, filePath: string): string {
+  const format = detectPatchFormat(patch);
+
+  switch (format) {
+    case 'search-replace': {
+      return applySearchReplaceBlocks(content, patch, filePath);
+    }
+    case 'unified-diff': {
+      return applyUnifiedDiffHunks(content, patch, filePath);
+    }
+    default: {
+      throw new PatchApplyError(
+        `Unrecognized patch format for ${filePath}: expected ${SEARCH_MARKER}/${DIVIDER_MARKER}/${REPLACE_MARKER} blocks or a unified diff`,
+      );
+    }
+  }
+}
+
+function applySearchReplaceBlocks(content: string, patch: string, filePath: string) {
+  const blocks = parseSearchReplaceBlocks(patch);
+
+  if (blocks.length === 0) {
+    throw new PatchApplyError(`Malformed search/replace block in patch for ${filePath}`);
+  }
+
+  return blocks.reduce((current, block, index) => {
+    const label = `Block ${index + 1} of ${blocks.length} in patch for ${filePath}`;
+
+    if (block.search.length === 0) {
+      throw new PatchApplyError(`${label} has an empty SEARCH section`);
+    }
+
+    const occurrences = current.split(block.search).length - 1;
+
+    if (occurrences === 1) {
+      return current.replace(block.search, () => block.replace);
+    }
+
+    if (occurrences > 1) {
+      throw new PatchApplyError(
+        `${label} matches ${occurrences} locations; include more surrounding lines to make it unique`,
+      );
+    }
+
+    const fuzzyResult = replaceIgnoringWhitespace(current, block, label);
+
+    if (fuzzyResult === undefined) {
+      throw new PatchApplyError(`${label} does not apply: the SEARCH text was not found in the file`);
+    }
+
+    return fuzzyResult;
+  }, content);
+}
+
+/**
+ * Falls back to a line based comparison that ignores leading and trailing whitespace,
+ * models often get the indentation of the search text slightly wrong.
+ */
+function replaceIgnoringWhitespace(content: string, block: SearchReplaceBlock, label: string) {
+  const lines = content.split('\n');
+  const searchLines = block.search.split('\n').map((line) => line.trim());
+
+  const matches: number[] = [];
+
+  for (let i = 0; i + searchLines.length <= lines.length; i++) {
+    const isMatch = searchLines.every((searchLine, offset) => lines[i + offset].trim() === searchLine);
+
+    if (isMatch) {
+      matches.push(i);
+    }
+  }
+
+  if (matches.length > 1) {
+    throw new PatchApplyError(
+      `${label} matches ${matches.length} locations when ignoring whitespace; include more surrounding lines to make it unique`,
+    );
+  }
+
+  if (matches.length === 0) {
+    return undefined;
+  }
+
+  const [start] = matches;
+  const replace = reindent(block, lines[start + Math.max(0, searchLines.findIndex(Boolean))]);
+
+  return [...lines.slice(0, start), replace, ...lines.slice(start + searchLines.length)].join('\n');
+}
+
+const getIndent = (line: string) => /^\s*/.exec(line)![0];
+
+/**
+ * Moves the replacement to the indentation of the matched lines, so Python or YAML keeps its
+ * structure. Lines indented less than the search text are taken as they are.
+ */
+function reindent({ search, replace }: SearchReplaceBlock, matchedLine: string) {
+  const searchIndent = getIndent(search.split('\n').find((line) => line.trim()) ?? '');
+  const fileIndent = getIndent(matchedLine);
+
+  if (searchIndent === fileIndent) {
+    return replace;
+  }
+
+  return replace
+    .split('\n')
+    .map((line) => (line.trim() && line.startsWith(searchIndent) ? fileIndent + line.slice(searchIndent.length) : line))
+    .join('\n');
+}
+
+function applyUnifiedDiffHunks(content: string, patch: string, filePath: string) {
+  const [parsed] = parsePatch(patch);
+
+  if (!parsed || parsed.hunks.length === 0) {
+    throw new PatchApplyError(`Malformed unified diff in patch for ${filePath}`);
+  }
+
+  return parsed.hunks.reduce((current, hunk, index) => {
+    const result = applyUnifiedDiff(current, { ...parsed, hunks: [hunk] });
+
+    if (result === false) {
+      throw new PatchApplyError(
+        `Hunk ${index + 1} of ${parsed.hunks.length} (@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@) does not apply cleanly to ${filePath}`,
+      );
+    }
+
+    return result;
+  }, content);
+}
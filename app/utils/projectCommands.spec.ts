@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { detectPackageScripts, getBuildCommand, getScriptCommand } from './projectCommands';
+
+const packageJson = (value: object) => JSON.stringify(value);
+
+describe('detectPackageScripts', () => {
+  it('lists the scripts of the root package', () => {
+    const packages = detectPackageScripts([
+      { path: 'package.json', content: packageJson({ name: 'app', scripts: { dev: 'vite', build: 'vite build' } }) },
+      { path: 'node_modules/vite/package.json', content: packageJson({ name: 'vite', scripts: { test: 'x' } }) },
+    ]);
+
+    expect(packages).toEqual([{ dir: '', name: 'app', scripts: { dev: 'vite', build: 'vite build' } }]);
+  });
+
+  it('adds the workspace packages matched by the root package', () => {
+    const packages = detectPackageScripts([
+      { path: 'package.json', content: packageJson({ workspaces: ['packages/*', '!packages/ignored'] }) },
+      { path: 'packages/ui/package.json', content: packageJson({ name: 'ui', scripts: { test: 'vitest' } }) },
+      { path: 'packages/ignored/package.json', content: packageJson({ name: 'ignored' }) },
+      { path: 'examples/demo/package.json', content: packageJson({ name: 'demo' }) },
+    ]);
+
+    expect(packages.map((pkg) => pkg.dir)).toEqual(['', 'packages/ui']);
+    expect(packages[1].scripts).toEqual({ test: 'vitest' });
+  });
+
+  it('reads pnpm workspaces', () => {
+    const packages = detectPackageScripts([
+      { path: 'package.json', content: packageJson({ name: 'monorepo' }) },
+      { path: 'pnpm-workspace.yaml', content: "packages:\n  - 'apps/**'\nonlyBuiltDependencies:\n  - esbuild\n" },
+      { path: 'apps/web/package.json', content: packageJson({ name: 'web', scripts: { dev: 'next dev' } }) },
+    ]);
+
+    expect(packages.map((pkg) => pkg.name)).toEqual(['monorepo', 'web']);
+  });
+
+  it('lists every top-level package without a root package', () => {
+    const packages = detectPackageScripts([
+      { path: 'frontend/package.json', content: packageJson({ name: 'web', scripts: { dev: 'vite' } }) },
+      { path: 'backend/package.json', content: packageJson({ name: 'api', workspaces: ['plugins/*'] }) },
+      { path: 'backend/plugins/auth/package.json', content: packageJson({ name: 'auth' }) },
+      { path: 'frontend/src/legacy/package.json', content: packageJson({ name: 'legacy' }) },
+    ]);
+
+    expect(packages.map((pkg) => pkg.name)).toEqual(['api', 'auth', 'web']);
+  });
+
+  it('returns nothing without a package.json', () => {
+    expect(detectPackageScripts([{ path: 'index.html', content: '' }])).toEqual([]);
+  });
+});
+
+describe('getScriptCommand', () => {
+  it('runs workspace scripts with the package directory as prefix', () => {
+    expect(getScriptCommand('', 'dev')).toBe('npm run dev');
+    expect(getScriptCommand('packages/ui', 'test')).toBe('npm --prefix packages/ui run test');
+  });
+
+  it('quotes directories and scripts the shell would expand', () => {
+    expect(getScriptCommand('my app', 'build:prod')).toBe("npm --prefix 'my app' run build:prod");
+    expect(getScriptCommand('', 'test; rm -rf /')).toBe("npm run 'test; rm -rf /'");
+    expect(getScriptCommand("it's", '$(whoami)')).toBe("npm --prefix 'it'\\''s' run '$(whoami)'");
+  });
+});
+
+describe('getBuildCommand', () => {
+  it('builds Vite and Create React App projects for the base path', () => {
+    expect(getBuildCommand({ devDependencies: { vite: '^5.0.0' } }, '/site/')).toEqual({
+      args: ['run', 'build', '--', '--base=/site/'],
+    });
+    expect(getBuildCommand({ dependencies: { 'react-scripts': '5.0.1' } }, '/site/')).toEqual({
+      args: ['run', 'build'],
+      env: { PUBLIC_URL: '/site/' },
+    });
+  });
+
+  it('keeps the configured base at the root of the domain', () => {
+    expect(getBuildCommand({ devDependencies: { vite: '^5.0.0' } }, '/')).toEqual({ args: ['run', 'build'] });
+    expect(getBuildCommand(undefined)).toEqual({ args: ['run', 'build'] });
+  });
+});
@@ -151,3 +151,135 @@ export function createCommandActionsString(commands: ProjectCommands): string {
 
   return commandString;
 }
+
+export interface PackageScripts {
+  // directory of the package relative to the project, empty for the root package
+  dir: string;
+  name: string;
+  scripts: Record<string, string>;
+}
+
+function globToRegExp(pattern: string) {
+  const source = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\0')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\0/g, '.*');
+
+  return new RegExp(`^${source}$`);
+}
+
+function getWorkspacePatterns(packageJson: any, files: FileContent[], rootDir: string) {
+  const { workspaces } = packageJson ?? {};
+  const patterns: string[] = Array.isArray(workspaces) ? workspaces : (workspaces?.packages ?? []);
+  const pnpmWorkspace = files.find(
+    (f) => f.path === (rootDir ? `${rootDir}/pnpm-workspace.yaml` : 'pnpm-workspace.yaml'),
+  );
+
+  // the indented list items below `packages:`, which is all pnpm-workspace.yaml holds that matters here
+  const [, packagesBlock = ''] =
+    pnpmWorkspace?.content.match(/^packages:[ \t]*\n((?:[ \t]+.*(?:\n|$)|[ \t]*\n)*)/m) ?? [];
+
+  for (const [, pattern] of packagesBlock.matchAll(/^\s*-\s*['"]?([^'"\s#]+)['"]?/gm)) {
+    patterns.push(pattern);
+  }
+
+  return patterns.filter((pattern) => typeof pattern === 'string');
+}
+
+/**
+ * Lists the scripts of every top-level `package.json` and of the workspace packages each of them
+ * declares, through `workspaces` or `pnpm-workspace.yaml`. Paths are relative to the project.
+ */
+export function detectPackageScripts(files: FileContent[]): PackageScripts[] {
+  const packages = new Map<string, any>();
+
+  for (const file of files) {
+    if (!file.path.endsWith('package.json') || file.path.includes('node_modules/')) {
+      continue;
+    }
+
+    const dir = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '';
+
+    if (file.path !== (dir ? `${dir}/package.json` : 'package.json')) {
+      continue;
+    }
+
+    try {
+      packages.set(dir, JSON.parse(file.content));
+    } catch {
+      // a package.json that is being written is picked up once it parses
+    }
+  }
+
+  const isInside = (dir: string, rootDir: string) => rootDir === '' || dir.startsWith(`${rootDir}/`);
+  const dirs = [...packages.keys()].sort((a, b) => a.localeCompare(b));
+
+  // the packages that are not nested in another one, such as the apps of a repository without a root package
+  const rootDirs = dirs.filter((dir) => !dirs.some((other) => other !== dir && isInside(dir, other)));
+
+  const toScripts = (dir: string, packageJson: any): PackageScripts => ({
+    dir,
+    name: packageJson?.name || dir || 'root',
+    scripts: packageJson?.scripts && typeof packageJson.scripts === 'object' ? packageJson.scripts : {},
+  });
+
+  return rootDirs.flatMap((rootDir) => {
+    const rootPackage = packages.get(rootDir);
+    const patterns = getWorkspacePatterns(rootPackage, files, rootDir);
+    const includes = patterns.filter((pattern) => !pattern.startsWith('!')).map(globToRegExp);
+    const excludes = patterns
+      .filter((pattern) => pattern.startsWith('!'))
+      .map((pattern) => globToRegExp(pattern.slice(1)));
+
+    const workspaces = dirs
+      .filter((dir) => {
+        if (dir === rootDir || !isInside(dir, rootDir)) {
+          return false;
+        }
+
+        const relativeDir = rootDir ? dir.slice(rootDir.length + 1) : dir;
+
+        return includes.some((regex) => regex.test(relativeDir)) && !excludes.some((regex) => regex.test(relativeDir));
+      })
+      .map((dir) => toScripts(dir, packages.get(dir)));
+
+    return [toScripts(rootDir, rootPackage), ...workspaces];
+  });
+}
+
+// single quotes keep the shell from expanding or splitting a path or script name
+function quoteArgument(value: string) {
+  return /^[\w./@:+-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The command that runs a script of a package from the project directory.
+ */
+export function getScriptCommand(dir: string, script: string) {
+  return dir ? `npm --prefix ${quoteArgument(dir)} run ${quoteArgument(script)}` : `npm run ${quoteArgument(script)}`;
+}
+
+/**
+ * The arguments and environment of `npm` that build the project for `basePath`, the path the app is
+ * served from. Builds other than Vite and Create React App keep their configured base.
+ */
+export function getBuildCommand(packageJson: any, basePath?: string) {
+  const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+
+  if (!basePath || basePath === '/') {
+    return { args: ['run', 'build'] };
+  }
+
+  if (dependencies.vite) {
+    return { args: ['run', 'build', '--', `--base=${basePath}`] };
+  }
+
+  if (dependencies['react-scripts']) {
+    return { args: ['run', 'build'], env: { PUBLIC_URL: basePath } };
+  }
+
+  return { args: ['run', 'build'] };
+}
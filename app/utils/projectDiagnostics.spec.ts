@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { formatProjectDiagnostics, parseEslintOutput, parseTscOutput } from './projectDiagnostics';
+
+describe('projectDiagnostics', () => {
+  it('should parse tsc output with continued messages', () => {
+    const output = [
+      "src/App.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/main.tsx(3,1): error TS2345: Argument of type 'null' is not assignable to parameter of type 'Element'.",
+      "  Type 'null' is not assignable to type 'Element'.",
+      "error TS5083: Cannot read file '/home/project/tsconfig.node.json'.",
+    ].join('\n');
+
+    expect(parseTscOutput(output)).toEqual([
+      {
+        source: 'tsc',
+        filePath: 'src/App.tsx',
+        line: 12,
+        column: 5,
+        severity: 'error',
+        message: "Type 'string' is not assignable to type 'number'.",
+        code: 'TS2322',
+      },
+      {
+        source: 'tsc',
+        filePath: 'src/main.tsx',
+        line: 3,
+        column: 1,
+        severity: 'error',
+        message:
+          "Argument of type 'null' is not assignable to parameter of type 'Element'.\nType 'null' is not assignable to type 'Element'.",
+        code: 'TS2345',
+      },
+      {
+        source: 'tsc',
+        filePath: '',
+        line: 0,
+        column: 0,
+        severity: 'error',
+        message: "Cannot read file '/home/project/tsconfig.node.json'.",
+        code: 'TS5083',
+      },
+    ]);
+  });
+
+  it('should parse the eslint json report', () => {
+    const report = JSON.stringify([
+      {
+        filePath: '/home/project/src/App.tsx',
+        messages: [
+          { ruleId: 'no-unused-vars', severity: 1, message: "'x' is defined but never used.", line: 2, column: 7 },
+          { ruleId: null, severity: 2, message: 'Parsing error: Unexpected token', line: 5, column: 1 },
+        ],
+      },
+    ]);
+
+    expect(parseEslintOutput(`npm notice\n${report}\n`, '/home/project')).toEqual([
+      {
+        source: 'eslint',
+        filePath: 'src/App.tsx',
+        line: 2,
+        column: 7,
+        severity: 'warning',
+        message: "'x' is defined but never used.",
+        code: 'no-unused-vars',
+      },
+      {
+        source: 'eslint',
+        filePath: 'src/App.tsx',
+        line: 5,
+        column: 1,
+        severity: 'error',
+        message: 'Parsing error: Unexpected token',
+        code: undefined,
+      },
+    ]);
+    expect(parseEslintOutput('command not found', '/home/project')).toEqual([]);
+  });
+
+  it('should list errors before warnings', () => {
+    expect(
+      formatProjectDiagnostics([
+        { source: 'eslint', filePath: 'src/a.ts', line: 1, column: 1, severity: 'warning', message: 'Unused' },
+        { source: 'tsc', filePath: 'src/b.ts', line: 2, column: 3, severity: 'error', message: 'Bad', code: 'TS1' },
+      ]),
+    ).toBe(['src/b.ts:2:3 tsc error (TS1): Bad', 'src/a.ts:1:1 eslint warning: Unused'].join('\n'));
+  });
+});
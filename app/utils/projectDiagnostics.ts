@@ -0,0 +1,120 @@
+import type { ProjectDiagnostic } from '~/types/diagnostics';
+
+// diagnostics sent to the model, errors first
+const MAX_PROMPT_DIAGNOSTICS = 50;
+
+const TSC_FILE_DIAGNOSTIC = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+const TSC_GLOBAL_DIAGNOSTIC = /^(error|warning) (TS\d+): (.*)$/;
+
+/**
+ * Reads the diagnostics of `tsc --pretty false`, indented lines continue the message above.
+ */
+export function parseTscOutput(output: string): ProjectDiagnostic[] {
+  const diagnostics: ProjectDiagnostic[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const fileMatch = line.match(TSC_FILE_DIAGNOSTIC);
+
+    if (fileMatch) {
+      const [, filePath, lineNumber, column, severity, code, message] = fileMatch;
+      diagnostics.push({
+        source: 'tsc',
+        filePath,
+        line: Number(lineNumber),
+        column: Number(column),
+        severity: severity as ProjectDiagnostic['severity'],
+        message,
+        code,
+      });
+      continue;
+    }
+
+    const globalMatch = line.match(TSC_GLOBAL_DIAGNOSTIC);
+
+    if (globalMatch) {
+      const [, severity, code, message] = globalMatch;
+      diagnostics.push({
+        source: 'tsc',
+        filePath: '',
+        line: 0,
+        column: 0,
+        severity: severity as ProjectDiagnostic['severity'],
+        message,
+        code,
+      });
+      continue;
+    }
+
+    const previous = diagnostics[diagnostics.length - 1];
+
+    if (previous && /^\s+\S/.test(line)) {
+      previous.message += `\n${line.trim()}`;
+    }
+  }
+
+  return diagnostics;
+}
+
+interface EslintResult {
+  filePath: string;
+  messages: { ruleId: string | null; severity: number; message: string; line?: number; column?: number }[];
+}
+
+/**
+ * Reads the output of `eslint --format json`, file paths are made relative to `workDir`.
+ */
+export function parseEslintOutput(output: string, workDir: string): ProjectDiagnostic[] {
+  // npx can print notices around the report
+  const start = output.indexOf('[');
+  const end = output.lastIndexOf(']');
+
+  if (start === -1 || end < start) {
+    return [];
+  }
+
+  let results: EslintResult[];
+
+  try {
+    results = JSON.parse(output.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(results)) {
+    return [];
+  }
+
+  return results.flatMap((result) =>
+    (result.messages ?? []).map((message) => ({
+      source: 'eslint' as const,
+      filePath: result.filePath.startsWith(`${workDir}/`) ? result.filePath.slice(workDir.length + 1) : result.filePath,
+      line: message.line ?? 0,
+      column: message.column ?? 0,
+      severity: message.severity === 2 ? ('error' as const) : ('warning' as const),
+      message: message.message,
+      code: message.ruleId ?? undefined,
+    })),
+  );
+}
+
+export const countErrors = (diagnostics: ProjectDiagnostic[]) =>
+  diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+
+/**
+ * One line per diagnostic in the `file:line:column` form the model knows from compilers.
+ */
+export function formatProjectDiagnostics(diagnostics: ProjectDiagnostic[]) {
+  const sorted = [...diagnostics].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  const lines = sorted.slice(0, MAX_PROMPT_DIAGNOSTICS).map((diagnostic) => {
+    const location = diagnostic.filePath ? `${diagnostic.filePath}:${diagnostic.line}:${diagnostic.column} ` : '';
+    const code = diagnostic.code ? ` (${diagnostic.code})` : '';
+
+    return `${location}${diagnostic.source} ${diagnostic.severity}${code}: ${diagnostic.message}`;
+  });
+
+  if (sorted.length > MAX_PROMPT_DIAGNOSTICS) {
+    lines.push(`... and ${sorted.length - MAX_PROMPT_DIAGNOSTICS} more`);
+  }
+
+  return lines.join('\n');
+}
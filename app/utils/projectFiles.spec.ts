@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { WORK_DIR } from './constants';
+import { listDirectory, resolveProjectPath } from './projectFiles';
+
+describe('resolveProjectPath', () => {
+  it('should resolve relative and absolute paths inside the project', () => {
+    expect(resolveProjectPath()).toBe(WORK_DIR);
+    expect(resolveProjectPath('src/')).toBe(`${WORK_DIR}/src`);
+    expect(resolveProjectPath(`${WORK_DIR}/src/../index.ts`)).toBe(`${WORK_DIR}/index.ts`);
+  });
+
+  it('should refuse paths outside of the project', () => {
+    expect(resolveProjectPath('../.ssh/id_rsa')).toBeUndefined();
+    expect(resolveProjectPath(`${WORK_DIR}-other/a.ts`)).toBeUndefined();
+  });
+});
+
+describe('listDirectory', () => {
+  it('should list the direct children with folders first', () => {
+    const files = {
+      [`${WORK_DIR}/src`]: { type: 'folder' as const },
+      [`${WORK_DIR}/src/main.ts`]: { type: 'file' as const, content: '', isBinary: false },
+      [`${WORK_DIR}/package.json`]: { type: 'file' as const, content: '{}', isBinary: false },
+      [`${WORK_DIR}/index.html`]: { type: 'file' as const, content: '', isBinary: false },
+    };
+
+    expect(listDirectory(files, WORK_DIR)).toEqual(['src/', 'index.html', 'package.json']);
+    expect(listDirectory(files, `${WORK_DIR}/src`)).toEqual(['main.ts']);
+  });
+});
@@ -0,0 +1,44 @@
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from './constants';
+import { path } from './path';
+
+/**
+ * Resolves a path given by the model, relative to the project or absolute, to a path in the project.
+ * Returns undefined for paths outside of the project.
+ */
+export function resolveProjectPath(filePath = '.') {
+  const resolved = path.normalize(filePath.startsWith(WORK_DIR) ? filePath : path.join(WORK_DIR, filePath));
+  const normalized = resolved.length > 1 ? resolved.replace(/\/$/, '') : resolved;
+
+  return normalized === WORK_DIR || normalized.startsWith(`${WORK_DIR}/`) ? normalized : undefined;
+}
+
+/**
+ * The entries directly inside a folder, folders first and marked with a trailing slash.
+ */
+export function listDirectory(files: FileMap, folderPath: string) {
+  const folders: string[] = [];
+  const entries: string[] = [];
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (!dirent || path.dirname(filePath) !== folderPath) {
+      continue;
+    }
+
+    const name = path.basename(filePath);
+
+    if (dirent.type === 'folder') {
+      folders.push(`${name}/`);
+    } else {
+      entries.push(name);
+    }
+  }
+
+  return [...folders.sort(), ...entries.sort()];
+}
+
+export function truncateOutput(text: string, maxLength: number) {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength)}\n[truncated ${text.length - maxLength} characters]`
+    : text;
+}
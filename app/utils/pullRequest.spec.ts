@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatChangesForSummary, parseGitHubRepo, parsePullRequestDescription } from './pullRequest';
+
+describe('parseGitHubRepo', () => {
+  it('should read the owner and repo of web and clone URLs', () => {
+    expect(parseGitHubRepo('https://github.com/acme/shop')).toEqual({ owner: 'acme', repo: 'shop' });
+    expect(parseGitHubRepo('https://github.com/acme/shop.git#develop')).toEqual({ owner: 'acme', repo: 'shop' });
+    expect(parseGitHubRepo('https://gitlab.com/acme/shop')).toBeUndefined();
+  });
+});
+
+describe('parsePullRequestDescription', () => {
+  it('should read the title and body', () => {
+    const description = parsePullRequestDescription(
+      '<title>Add a cart</title>\n<body>\nAdds a cart.\n\n## Changes\n- cart.ts\n</body>',
+      'Fallback',
+    );
+
+    expect(description).toEqual({ title: 'Add a cart', body: 'Adds a cart.\n\n## Changes\n- cart.ts' });
+  });
+
+  it('should fall back to the chat title and the whole response', () => {
+    expect(parsePullRequestDescription('Adds a cart.', 'Shop')).toEqual({ title: 'Shop', body: 'Adds a cart.' });
+  });
+});
+
+describe('formatChangesForSummary', () => {
+  it('should list the files that exceed the limit by name', () => {
+    const summary = formatChangesForSummary(
+      [
+        { path: 'a.ts', before: '', after: 'const a = 1;\n' },
+        { path: 'b.ts', before: '', after: 'const b = 2;\n'.repeat(50) },
+      ],
+      200,
+    );
+
+    expect(summary).toContain('+const a = 1;');
+    expect(summary).toContain('Other changed files:\n- b.ts');
+  });
+});
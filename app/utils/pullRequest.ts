@@ -0,0 +1,94 @@
+import { createTwoFilesPatch } from 'diff';
+import Cookies from 'js-cookie';
+import type { GitHubFileChange } from '~/types/GitHub';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from './constants';
+
+// keeps the summary request well inside the context window of small models
+const MAX_DIFF_LENGTH = 24000;
+
+export interface PullRequestDescription {
+  title: string;
+  body: string;
+}
+
+/**
+ * Reads `owner/repo` from the URL of a GitHub repository, with or without `.git` and branch.
+ */
+export function parseGitHubRepo(url: string) {
+  const match = url.match(/github\.com[/:]([^/]+)\/([^/#?]+?)(?:\.git)?(?:[/#?].*)?$/);
+
+  return match ? { owner: match[1], repo: match[2] } : undefined;
+}
+
+/**
+ * Unified diffs of the changes, files that do not fit into the limit are listed by name only.
+ */
+export function formatChangesForSummary(changes: GitHubFileChange[], maxLength = MAX_DIFF_LENGTH) {
+  let diffs = '';
+  const skipped: string[] = [];
+
+  for (const { path, before, after } of changes) {
+    const patch = createTwoFilesPatch(`a/${path}`, `b/${path}`, before, after, '', '', { context: 2 });
+
+    if (diffs.length + patch.length > maxLength) {
+      skipped.push(path);
+      continue;
+    }
+
+    diffs += patch;
+  }
+
+  if (skipped.length > 0) {
+    diffs += `\nOther changed files:\n${skipped.map((path) => `- ${path}`).join('\n')}\n`;
+  }
+
+  return diffs;
+}
+
+export function parsePullRequestDescription(text: string, fallbackTitle: string): PullRequestDescription {
+  const title = text.match(/<title>([\s\S]*?)<\/title>/)?.[1].trim();
+  const body = text.match(/<body>([\s\S]*?)(<\/body>|$)/)?.[1].trim();
+
+  return { title: title || fallbackTitle, body: body ?? text.trim() };
+}
+
+/**
+ * Has the model of the chat summarize the changes into the title and body of a pull request.
+ */
+export async function generatePullRequestDescription(options: {
+  changes: GitHubFileChange[];
+  chatDescription?: string;
+}): Promise<PullRequestDescription> {
+  const { changes, chatDescription } = options;
+  const fallbackTitle = chatDescription || 'Update project';
+
+  const response = await fetch('/api/llmcall', {
+    method: 'POST',
+    body: JSON.stringify({
+      model: Cookies.get('selectedModel') || DEFAULT_MODEL,
+      provider: { name: Cookies.get('selectedProvider') || DEFAULT_PROVIDER.name },
+      system: `
+        You write the title and description of GitHub pull requests from the diff of the changes.
+
+        RESPONSE FORMAT:
+        <title>Short imperative title, at most 72 characters</title>
+        <body>
+        Markdown with a one paragraph summary of what changed and why, followed by a "## Changes"
+        section with one bullet per notable change.
+        </body>
+
+        * Describe what the code does, do not invent motivation the diff does not show.
+        * You should not include any other text in the response.
+      `,
+      message: `${chatDescription ? `The changes were made in a chat titled "${chatDescription}".\n\n` : ''}${formatChangesForSummary(changes)}`,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to generate the pull request description (${response.status})`);
+  }
+
+  const { text } = (await response.json()) as { text: string };
+
+  return parsePullRequestDescription(text, fallbackTitle);
+}
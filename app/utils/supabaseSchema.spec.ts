@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { formatSupabaseSchema, parseSupabaseSchema } from './supabaseSchema';
+
+describe('supabaseSchema', () => {
+  it('should read the tables from the query result', () => {
+    expect(parseSupabaseSchema([{ tables: [{ name: 'todos' }] }])).toEqual([{ name: 'todos' }]);
+    expect(parseSupabaseSchema([])).toEqual([]);
+    expect(parseSupabaseSchema({ error: 'failed' })).toEqual([]);
+  });
+
+  it('should describe columns and policies', () => {
+    const schema = formatSupabaseSchema([
+      {
+        schema: 'public',
+        name: 'todos',
+        rlsEnabled: true,
+        columns: [
+          { name: 'id', type: 'uuid', nullable: false, default: 'gen_random_uuid()' },
+          { name: 'title', type: 'text', nullable: true, default: null },
+        ],
+        policies: [
+          {
+            name: 'Users read own todos',
+            command: 'SELECT',
+            roles: ['authenticated'],
+            using: '(auth.uid() = user_id)',
+            check: null,
+          },
+        ],
+      },
+    ]);
+
+    expect(schema).toBe(
+      [
+        'table public.todos (RLS enabled)',
+        '  - id uuid not null default gen_random_uuid()',
+        '  - title text',
+        '  policy "Users read own todos" for SELECT to authenticated using ((auth.uid() = user_id))',
+      ].join('\n'),
+    );
+    expect(formatSupabaseSchema([])).toBe('The public schema has no tables yet.');
+  });
+});
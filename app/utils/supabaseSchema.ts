@@ -0,0 +1,76 @@
+import type { SupabaseTable } from '~/types/supabase';
+
+/**
+ * Reads the tables of the public schema with their columns and RLS policies as a single row, the
+ * query endpoint only returns the result of the last statement.
+ */
+export const SUPABASE_SCHEMA_QUERY = `
+select coalesce(json_agg(t order by t.name), '[]'::json) as tables
+from (
+  select
+    n.nspname as schema,
+    c.relname as name,
+    c.relrowsecurity as "rlsEnabled",
+    (
+      select coalesce(json_agg(json_build_object(
+        'name', col.column_name,
+        'type', col.data_type,
+        'nullable', col.is_nullable = 'YES',
+        'default', col.column_default
+      ) order by col.ordinal_position), '[]'::json)
+      from information_schema.columns col
+      where col.table_schema = n.nspname and col.table_name = c.relname
+    ) as columns,
+    (
+      select coalesce(json_agg(json_build_object(
+        'name', p.policyname,
+        'command', p.cmd,
+        'roles', p.roles,
+        'using', p.qual,
+        'check', p.with_check
+      ) order by p.policyname), '[]'::json)
+      from pg_policies p
+      where p.schemaname = n.nspname and p.tablename = c.relname
+    ) as policies
+  from pg_class c
+  join pg_namespace n on n.oid = c.relnamespace
+  where c.relkind in ('r', 'p') and n.nspname = 'public'
+) t
+`;
+
+export function parseSupabaseSchema(rows: unknown): SupabaseTable[] {
+  const [row] = Array.isArray(rows) ? rows : [];
+  return (row as { tables?: SupabaseTable[] } | undefined)?.tables ?? [];
+}
+
+/**
+ * Describes the tables for the system prompt, one line per column and policy.
+ */
+export function formatSupabaseSchema(tables: SupabaseTable[]) {
+  if (tables.length === 0) {
+    return 'The public schema has no tables yet.';
+  }
+
+  return tables
+    .map((table) => {
+      const columns = table.columns.map(
+        (column) =>
+          `  - ${column.name} ${column.type}${column.nullable ? '' : ' not null'}${
+            column.default ? ` default ${column.default}` : ''
+          }`,
+      );
+      const policies = table.policies.map(
+        (policy) =>
+          `  policy "${policy.name}" for ${policy.command} to ${policy.roles.join(', ')}${
+            policy.using ? ` using (${policy.using})` : ''
+          }${policy.check ? ` with check (${policy.check})` : ''}`,
+      );
+
+      return [
+        `table ${table.schema}.${table.name} (RLS ${table.rlsEnabled ? 'enabled' : 'disabled'})`,
+        ...columns,
+        ...policies,
+      ].join('\n');
+    })
+    .join('\n\n');
+}
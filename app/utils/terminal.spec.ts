@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { appendScrollback, createCommandTracker } from './terminal';
+
+function track(...inputs: string[]) {
+  const commands: string[] = [];
+  const tracker = createCommandTracker((command) => commands.push(command));
+
+  inputs.forEach(tracker);
+
+  return commands;
+}
+
+describe('appendScrollback', () => {
+  it('keeps everything below the limit', () => {
+    expect(appendScrollback('one\n', 'two\n', 100)).toBe('one\ntwo\n');
+  });
+
+  it('drops the oldest lines above the limit', () => {
+    expect(appendScrollback('first line\nsecond\n', 'third\n', 14)).toBe('second\nthird\n');
+  });
+});
+
+describe('createCommandTracker', () => {
+  it('records submitted lines typed key by key', () => {
+    expect(track('n', 'p', 'm', ' ', 'i', '\r', 'ls\r')).toEqual(['npm i', 'ls']);
+  });
+
+  it('applies backspace and clears interrupted lines', () => {
+    expect(track('lss\x7f\r', 'rm -rf\x03', 'pwd\n')).toEqual(['ls', 'pwd']);
+  });
+
+  it('skips lines edited with cursor keys or tab completion', () => {
+    expect(track('\x1b[A\r', 'cat sr\t\r', 'echo ok\r')).toEqual(['echo ok']);
+  });
+
+  it('ignores empty lines', () => {
+    expect(track('\r', '   \r')).toEqual([]);
+  });
+});
@@ -9,3 +9,53 @@ export const escapeCodes = {
 export const coloredText = {
   red: (text: string) => `${escapeCodes.red}${text}${reset}`,
 };
+
+/**
+ * Appends output to the scrollback of a terminal and keeps only its last `limit` characters,
+ * cut at a line break so no escape sequence is split.
+ */
+export function appendScrollback(scrollback: string, data: string, limit: number) {
+  const next = scrollback + data;
+
+  if (next.length <= limit) {
+    return next;
+  }
+
+  const lineStart = next.indexOf('\n', next.length - limit);
+
+  return lineStart === -1 ? next.slice(-limit) : next.slice(lineStart + 1);
+}
+
+const INPUT_TOKEN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1bO.|\x1b.?|[\s\S]/g;
+
+/**
+ * Follows what is typed into a shell and calls `onCommand` with every line that is submitted.
+ * Lines edited with the cursor keys or completed with tab are skipped, the shell alone knows
+ * what they contain.
+ */
+export function createCommandTracker(onCommand: (command: string) => void) {
+  let line = '';
+  let edited = false;
+
+  return (data: string) => {
+    for (const [token] of data.matchAll(INPUT_TOKEN)) {
+      if (token === '\r' || token === '\n') {
+        if (!edited && line.trim()) {
+          onCommand(line.trim());
+        }
+
+        line = '';
+        edited = false;
+      } else if (token === '\x7f' || token === '\b') {
+        line = line.slice(0, -1);
+      } else if (token === '\x03' || token === '\x15') {
+        line = '';
+        edited = false;
+      } else if (token.startsWith('\x1b') || token === '\t') {
+        edited = true;
+      } else if (token >= ' ') {
+        line += token;
+      }
+    }
+  };
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { getTextChange } from './textDiff';
+
+describe('getTextChange', () => {
+  it('should replace only the changed middle', () => {
+    expect(getTextChange('const a = 1;', 'const b = 1;')).toEqual({ index: 6, deleteCount: 1, insert: 'b' });
+    expect(getTextChange('hello', 'hello world')).toEqual({ index: 5, deleteCount: 0, insert: ' world' });
+    expect(getTextChange('aaa', 'aa')).toEqual({ index: 2, deleteCount: 1, insert: '' });
+  });
+
+  it('should return nothing for equal texts', () => {
+    expect(getTextChange('same', 'same')).toBeUndefined();
+  });
+});
@@ -0,0 +1,31 @@
+export interface TextChange {
+  index: number;
+  deleteCount: number;
+  insert: string;
+}
+
+/**
+ * The single replacement between the common prefix and suffix that turns `from` into `to`,
+ * small enough to merge with concurrent edits of a shared text.
+ */
+export function getTextChange(from: string, to: string): TextChange | undefined {
+  if (from === to) {
+    return undefined;
+  }
+
+  let start = 0;
+
+  while (start < from.length && start < to.length && from[start] === to[start]) {
+    start++;
+  }
+
+  let fromEnd = from.length;
+  let toEnd = to.length;
+
+  while (fromEnd > start && toEnd > start && from[fromEnd - 1] === to[toEnd - 1]) {
+    fromEnd--;
+    toEnd--;
+  }
+
+  return { index: start, deleteCount: fromEnd - start, insert: to.slice(start, toEnd) };
+}
@@ -0,0 +1,84 @@
+import type { TextSearchOptions, TextSearchOnProgressCallback, WebContainer } from '@webcontainer/api';
+import { WORK_DIR } from './constants';
+
+export const DEFAULT_TEXT_SEARCH_OPTIONS: Omit<TextSearchOptions, 'folders'> = {
+  homeDir: WORK_DIR, // Adjust this path as needed
+  includes: ['**/*.*'],
+  excludes: ['**/node_modules/**', '**/package-lock.json', '**/.git/**', '**/dist/**', '**/*.lock'],
+  gitignore: true,
+  requireGit: false,
+  globalIgnoreFiles: true,
+  ignoreSymlinks: false,
+  resultLimit: 500,
+  isRegex: false,
+  caseSensitive: false,
+  isWordMatch: false,
+};
+
+export interface DisplayMatch {
+  path: string;
+  lineNumber: number;
+  previewText: string;
+  matchCharStart: number;
+  matchCharEnd: number;
+}
+
+export async function performTextSearch(
+  instance: WebContainer,
+  query: string,
+  options: Omit<TextSearchOptions, 'folders'>,
+  onProgress: (results: DisplayMatch[]) => void,
+): Promise<void> {
+  if (!instance || typeof instance.internal?.textSearch !== 'function') {
+    console.error('WebContainer instance not available or internal searchText method is missing/not a function.');
+
+    return;
+  }
+
+  const searchOptions: TextSearchOptions = {
+    ...options,
+    folders: [WORK_DIR],
+  };
+
+  const progressCallback: TextSearchOnProgressCallback = (filePath: any, apiMatches: any[]) => {
+    const displayMatches: DisplayMatch[] = [];
+
+    apiMatches.forEach((apiMatch: { preview: { text: string; matches: string | any[] }; ranges: any[] }) => {
+      const previewLines = apiMatch.preview.text.split('\n');
+
+      apiMatch.ranges.forEach((range: { startLineNumber: number; startColumn: any; endColumn: any }) => {
+        let previewLineText = '(Preview line not found)';
+        let lineIndexInPreview = -1;
+
+        if (apiMatch.preview.matches.length > 0) {
+          const previewStartLine = apiMatch.preview.matches[0].startLineNumber;
+          lineIndexInPreview = range.startLineNumber - previewStartLine;
+        }
+
+        if (lineIndexInPreview >= 0 && lineIndexInPreview < previewLines.length) {
+          previewLineText = previewLines[lineIndexInPreview];
+        } else {
+          previewLineText = previewLines[0] ?? '(Preview unavailable)';
+        }
+
+        displayMatches.push({
+          path: filePath,
+          lineNumber: range.startLineNumber,
+          previewText: previewLineText,
+          matchCharStart: range.startColumn,
+          matchCharEnd: range.endColumn,
+        });
+      });
+    });
+
+    if (displayMatches.length > 0) {
+      onProgress(displayMatches);
+    }
+  };
+
+  try {
+    await instance.internal.textSearch(query, searchOptions, progressCallback);
+  } catch (error) {
+    console.error('Error during internal text search:', error);
+  }
+}
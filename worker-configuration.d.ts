@@ -18,4 +18,5 @@ interface Env {
   XAI_API_KEY: string;
   PERPLEXITY_API_KEY: string;
   AWS_BEDROCK_CONFIG: string;
+  COLLAB_ROOMS?: DurableObjectNamespace;
 }
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CollabRoom } from './index';
+
+function createRoom(clients: number) {
+  const sockets = Array.from({ length: clients }, () => ({ send: vi.fn(), close: vi.fn() }) as unknown as WebSocket);
+  const state = { getWebSockets: () => sockets } as unknown as DurableObjectState;
+
+  return { room: new CollabRoom(state), sockets };
+}
+
+describe('CollabRoom', () => {
+  it('should relay a message to the other clients of the room', () => {
+    const { room, sockets } = createRoom(3);
+    const update = new Uint8Array([0, 1, 2]).buffer;
+
+    room.webSocketMessage(sockets[0], update);
+
+    expect(sockets[0].send).not.toHaveBeenCalled();
+    expect(sockets[1].send).toHaveBeenCalledWith(update);
+    expect(sockets[2].send).toHaveBeenCalledWith(update);
+  });
+
+  it('should close the clients that cannot receive messages', () => {
+    const { room, sockets } = createRoom(3);
+
+    vi.mocked(sockets[1].send).mockImplementation(() => {
+      throw new Error('WebSocket is closed');
+    });
+    room.webSocketMessage(sockets[0], 'update');
+
+    expect(sockets[1].close).toHaveBeenCalled();
+    expect(sockets[2].send).toHaveBeenCalledWith('update');
+  });
+});
@@ -0,0 +1,54 @@
+/*
+ * Relay for collaboration rooms: every message a client sends is forwarded to the other
+ * clients of its room, the clients sync their Yjs documents among themselves. Each room is a
+ * Durable Object, so all of its sockets live in one place wherever its clients connect. The
+ * Pages app reaches the rooms through its `COLLAB_ROOMS` binding, see api.collab.$room.ts.
+ */
+
+const MAX_CLIENTS_PER_ROOM = 16;
+
+export class CollabRoom {
+  constructor(private readonly _state: DurableObjectState) {}
+
+  async fetch(request: Request) {
+    if (request.headers.get('Upgrade') !== 'websocket') {
+      return Response.json({ error: 'Expected a WebSocket upgrade' }, { status: 426 });
+    }
+
+    if (this._state.getWebSockets().length >= MAX_CLIENTS_PER_ROOM) {
+      return Response.json({ error: 'The room is full' }, { status: 403 });
+    }
+
+    const [client, server] = Object.values(new WebSocketPair());
+
+    // accepted by the room, which may hibernate between messages without dropping the socket
+    this._state.acceptWebSocket(server);
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  webSocketMessage(socket: WebSocket, message: string | ArrayBuffer) {
+    for (const peer of this._state.getWebSockets()) {
+      if (peer === socket) {
+        continue;
+      }
+
+      try {
+        peer.send(message);
+      } catch {
+        // the peer went away without a close event
+        peer.close(1011, 'Failed to relay');
+      }
+    }
+  }
+
+  webSocketClose(socket: WebSocket, code: number, reason: string) {
+    socket.close(code, reason);
+  }
+}
+
+export default {
+  fetch() {
+    return Response.json({ error: 'Rooms are reached through the COLLAB_ROOMS binding' }, { status: 404 });
+  },
+};